@@ -14,7 +14,16 @@ import type {
 	ConcentrationRating,
 	TaskProgress,
 	ConfirmedTask,
-	Interruption
+	Interruption,
+	IdleTimeTotals,
+	InterruptionCategory,
+	CategoryBreakdown,
+	HourlyInterruptions,
+	UninterruptedStreak,
+	ResumeCost,
+	TaskInterruptionCost,
+	SessionPause,
+	FocusBreak
 } from '$lib/types';
 
 import {
@@ -22,6 +31,9 @@ import {
 	CONCENTRATION_GOOD_THRESHOLD,
 	CONCENTRATION_FAIR_THRESHOLD
 } from '$lib/types';
+import { getFirstSegmentStart } from '$lib/services/workSegments';
+import { totalByCategory } from '$lib/services/interruptionCategories';
+import { getInterruptedWorkSec } from '$lib/services/pastInterruptions';
 
 /**
  * Get concentration rating based on score.
@@ -48,6 +60,7 @@ export function getConcentrationRating(score: number): ConcentrationRating {
  * @param taskProgress - Array of task progress records from session
  * @param interruptions - Array of interruption records from session
  * @param tasks - Optional array of tasks for ad-hoc vs imported breakdown (T043)
+ * @param idleTotals - Optional unallocated vs break time outside tasks (027-idle-time)
  * @returns Aggregated analytics summary
  *
  * @example
@@ -60,7 +73,8 @@ export function getConcentrationRating(score: number): ConcentrationRating {
 export function calculateAnalyticsSummary(
 	taskProgress: readonly TaskProgress[],
 	interruptions: readonly Interruption[],
-	tasks?: readonly ConfirmedTask[]
+	tasks?: readonly ConfirmedTask[],
+	idleTotals?: IdleTimeTotals
 ): AnalyticsSummary {
 	// Aggregate task metrics
 	let totalPlannedSec = 0;
@@ -77,8 +91,22 @@ export function calculateAnalyticsSummary(
 
 	// Aggregate interruption metrics
 	let totalInterruptionSec = 0;
+	let noTaskInterruptionCount = 0;
+	let noTaskInterruptionSec = 0;
+	let taskInterruptionSec = 0;
 	for (const interruption of interruptions) {
 		totalInterruptionSec += interruption.durationSec;
+		// 037-task-less-interruptions: Between tasks no work was interrupted
+		if (interruption.taskId === null) {
+			noTaskInterruptionCount++;
+			noTaskInterruptionSec += interruption.durationSec;
+		} else if (interruption.loggedAt === undefined) {
+			taskInterruptionSec += interruption.durationSec;
+		} else {
+			// 036-past-interruptions: Only the part logged during the task's work counts
+			const progress = taskProgress.find((p) => p.taskId === interruption.taskId);
+			taskInterruptionSec += progress ? getInterruptedWorkSec(progress, interruption) : 0;
+		}
 	}
 
 	// Calculate schedule adherence: planned / actual * 100
@@ -92,7 +120,7 @@ export function calculateAnalyticsSummary(
 	const workTime = totalActualSec;
 	const concentrationScore =
 		workTime > 0
-			? Math.round(Math.max(0, ((workTime - totalInterruptionSec) / workTime) * 100) * 10) / 10
+			? Math.round(Math.max(0, ((workTime - taskInterruptionSec) / workTime) * 100) * 10) / 10
 			: 0;
 
 	// T043: Calculate ad-hoc vs imported task counts
@@ -121,8 +149,12 @@ export function calculateAnalyticsSummary(
 		concentrationRating: getConcentrationRating(concentrationScore),
 		totalInterruptionCount: interruptions.length,
 		totalInterruptionSec,
+		noTaskInterruptionCount,
+		noTaskInterruptionSec,
 		adHocTaskCount,
-		importedTaskCount
+		importedTaskCount,
+		unallocatedSec: idleTotals?.unallocatedSec ?? 0,
+		breakSec: idleTotals?.breakSec ?? 0
 	};
 }
 
@@ -157,11 +189,20 @@ export function calculateTaskPerformance(
 		const plannedDurationSec = progress?.plannedDurationSec ?? task.plannedDurationSec;
 		const actualDurationSec = progress?.actualDurationSec ?? 0;
 		const status = progress?.status ?? 'pending';
+		const firstStart = getFirstSegmentStart(progress);
 
 		// Calculate interruption totals for this task
 		const interruptionCount = taskInterruptions.length;
 		const interruptionSec = taskInterruptions.reduce((sum, i) => sum + i.durationSec, 0);
 
+		// 036-past-interruptions: Interruptions logged after the fact were
+		// counted on the task while they happened, as far as it was worked on
+		const loggedSec = progress
+			? taskInterruptions
+					.filter((i) => i.loggedAt !== undefined)
+					.reduce((sum, i) => sum + getInterruptedWorkSec(progress, i), 0)
+			: 0;
+
 		return {
 			taskId: task.taskId,
 			taskName: task.name,
@@ -170,7 +211,218 @@ export function calculateTaskPerformance(
 			varianceSec: actualDurationSec - plannedDurationSec,
 			interruptionCount,
 			interruptionSec,
-			status
+			focusedSec: Math.max(0, actualDurationSec - loggedSec),
+			status,
+			segmentCount: progress?.segments?.length ?? 0,
+			firstStartedAt: firstStart ? firstStart.toISOString() : null
 		};
 	});
 }
+
+// =============================================================================
+// Interruption Analysis (035-interruption-analysis)
+// =============================================================================
+
+/** Gap between two work segments that still counts as continuous work (ms) */
+const CONTINUOUS_WORK_GAP_MS = 1000;
+
+interface TimeRange {
+	start: number;
+	end: number;
+}
+
+function median(values: readonly number[]): number {
+	if (values.length === 0) return 0;
+	const sorted = [...values].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	return sorted.length % 2 === 0
+		? Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+		: sorted[middle];
+}
+
+/**
+ * Break down finished interruptions by category.
+ *
+ * @param interruptions - Array of interruption records
+ * @param categories - Category list, for names, colors and order
+ * @returns Count, total and median length per category
+ */
+export function calculateCategoryBreakdown(
+	interruptions: readonly Interruption[],
+	categories: readonly InterruptionCategory[]
+): CategoryBreakdown[] {
+	const ended = interruptions.filter((i) => i.endedAt !== null);
+
+	return totalByCategory(ended, categories).map((total) => ({
+		...total,
+		medianSec: median(
+			ended.filter((i) => i.category === total.categoryId).map((i) => i.durationSec)
+		)
+	}));
+}
+
+/**
+ * Count interruptions by the hour of the day they started in.
+ *
+ * @param interruptions - Array of interruption records
+ * @returns 24 entries, one per hour from 0 to 23 (local time)
+ */
+export function calculateHourlyInterruptions(
+	interruptions: readonly Interruption[]
+): HourlyInterruptions[] {
+	const hours: HourlyInterruptions[] = Array.from({ length: 24 }, (_, hour) => ({
+		hour,
+		count: 0,
+		totalSec: 0
+	}));
+
+	for (const interruption of interruptions) {
+		const entry = hours[new Date(interruption.startedAt).getHours()];
+		entry.count++;
+		entry.totalSec += interruption.durationSec;
+	}
+
+	return hours;
+}
+
+/**
+ * Find the longest stretch of work without an interruption.
+ *
+ * Work is taken from the work segments of all tasks; segments that follow
+ * each other directly (e.g. completing a task and starting the next) are
+ * one stretch. Interruptions, day pauses and Pomodoro breaks split a stretch.
+ *
+ * @param taskProgress - Array of task progress records
+ * @param interruptions - Array of interruption records
+ * @param pauses - Day pauses (028-session-pause)
+ * @param breaks - Pomodoro breaks (026-pomodoro)
+ * @param now - End of segments, interruptions, pauses and breaks still open (defaults to now)
+ * @returns The longest stretch, null if no work was recorded
+ */
+export function findLongestUninterruptedStreak(
+	taskProgress: readonly TaskProgress[],
+	interruptions: readonly Interruption[],
+	pauses: readonly SessionPause[] = [],
+	breaks: readonly FocusBreak[] = [],
+	now: Date = new Date()
+): UninterruptedStreak | null {
+	const toRange = (startedAt: string, endedAt: string | null): TimeRange => ({
+		start: new Date(startedAt).getTime(),
+		end: endedAt ? new Date(endedAt).getTime() : now.getTime()
+	});
+
+	const work = taskProgress
+		.flatMap((p) => p.segments ?? [])
+		.map((s) => toRange(s.startedAt, s.endedAt))
+		.sort((a, b) => a.start - b.start);
+
+	// Join segments that follow each other directly
+	const stretches: TimeRange[] = [];
+	for (const range of work) {
+		const last = stretches[stretches.length - 1];
+		if (last && range.start - last.end <= CONTINUOUS_WORK_GAP_MS) {
+			last.end = Math.max(last.end, range.end);
+		} else {
+			stretches.push({ ...range });
+		}
+	}
+
+	const stops = [...interruptions, ...pauses, ...breaks]
+		.map((s) => toRange(s.startedAt, s.endedAt))
+		.sort((a, b) => a.start - b.start);
+
+	// Split each stretch at the interruptions, pauses and breaks within it
+	const pieces: TimeRange[] = [];
+	for (const stretch of stretches) {
+		let cursor = stretch.start;
+		for (const range of stops) {
+			if (range.end <= cursor || range.start >= stretch.end) continue;
+			pieces.push({ start: cursor, end: range.start });
+			cursor = Math.max(cursor, range.end);
+		}
+		pieces.push({ start: cursor, end: stretch.end });
+	}
+
+	let longest: TimeRange | null = null;
+	for (const piece of pieces) {
+		const length = piece.end - piece.start;
+		if (length > 0 && (!longest || length > longest.end - longest.start)) {
+			longest = piece;
+		}
+	}
+	if (!longest) return null;
+
+	return {
+		startedAt: new Date(longest.start).toISOString(),
+		endedAt: new Date(longest.end).toISOString(),
+		durationSec: Math.round((longest.end - longest.start) / 1000)
+	};
+}
+
+/**
+ * Measure the resume cost of each finished interruption: how long it took
+ * from its end until the interrupted task was worked on again. A task
+ * resumed right away costs nothing; one left for other work costs the time
+ * until its next work segment.
+ *
+ * @param taskProgress - Array of task progress records
+ * @param interruptions - Array of interruption records
+ * @returns One entry per finished interruption, in the given order
+ */
+export function calculateResumeCosts(
+	taskProgress: readonly TaskProgress[],
+	interruptions: readonly Interruption[]
+): ResumeCost[] {
+	return interruptions
+		.filter((i): i is Interruption & { endedAt: string } => i.endedAt !== null)
+		.map((interruption) => {
+			const endedAt = new Date(interruption.endedAt).getTime();
+
+			// 037-task-less-interruptions: Between tasks, work goes on with any task
+			const resumedAt = taskProgress
+				.filter((p) => interruption.taskId === null || p.taskId === interruption.taskId)
+				.flatMap((p) => p.segments ?? [])
+				.filter((s) => s.endedAt === null || new Date(s.endedAt).getTime() > endedAt)
+				.map((s) => Math.max(endedAt, new Date(s.startedAt).getTime()))
+				.reduce<number | null>(
+					(first, time) => (first === null ? time : Math.min(first, time)),
+					null
+				);
+
+			return {
+				interruptionId: interruption.interruptionId,
+				taskId: interruption.taskId,
+				resumeCostSec: resumedAt === null ? null : Math.round((resumedAt - endedAt) / 1000)
+			};
+		});
+}
+
+/**
+ * Sum up what interruptions cost each task.
+ *
+ * @param tasks - Array of confirmed tasks
+ * @param interruptions - Array of interruption records
+ * @param resumeCosts - Resume costs from calculateResumeCosts
+ * @returns Costs of the tasks that were interrupted, in task order
+ */
+export function calculateInterruptionCostByTask(
+	tasks: readonly ConfirmedTask[],
+	interruptions: readonly Interruption[],
+	resumeCosts: readonly ResumeCost[]
+): TaskInterruptionCost[] {
+	return tasks
+		.map((task) => {
+			const taskInterruptions = interruptions.filter((i) => i.taskId === task.taskId);
+
+			return {
+				taskId: task.taskId,
+				taskName: task.name,
+				interruptionCount: taskInterruptions.length,
+				interruptionSec: taskInterruptions.reduce((sum, i) => sum + i.durationSec, 0),
+				resumeCostSec: resumeCosts
+					.filter((c) => c.taskId === task.taskId)
+					.reduce((sum, c) => sum + (c.resumeCostSec ?? 0), 0)
+			};
+		})
+		.filter((cost) => cost.interruptionCount > 0);
+}
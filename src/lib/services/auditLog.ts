@@ -0,0 +1,189 @@
+/**
+ * Audit Log Service
+ *
+ * Feature: 032-audit-log
+ *
+ * Pure functions to create and describe audit log events, shared by the
+ * audit log panel and the exports.
+ */
+
+import type { AuditEvent, AuditEventDetails, AuditEventType, ConfirmedTask } from '$lib/types';
+import { formatDuration } from '$lib/utils/duration';
+import { formatTimeHHMMSS } from '$lib/utils/formatters';
+
+/**
+ * Display name of each event type
+ */
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+	'day-started': 'Day started',
+	'task-started': 'Task started',
+	'task-jumped': 'Switched task',
+	'task-completed': 'Task completed',
+	'task-uncompleted': 'Task marked incomplete',
+	'task-skipped': 'Task skipped',
+	'task-reordered': 'Tasks reordered',
+	'task-edited': 'Task edited',
+	'elapsed-edited': 'Elapsed time edited',
+	'interruption-started': 'Interruption started',
+	'interruption-ended': 'Interruption ended',
+	'interruption-logged': 'Past interruption logged',
+	'interruption-converted': 'Interruption turned into task',
+	'session-paused': 'Day paused',
+	'session-resumed': 'Day resumed',
+	'recovery-applied': 'Timer recovered',
+	'leadership-changed': 'Tab leadership changed',
+	undo: 'Undo',
+	redo: 'Redo',
+	'day-ended': 'Day ended'
+};
+
+/**
+ * Create an audit event.
+ *
+ * @param type - Kind of transition
+ * @param taskId - Task the event is about, null if none
+ * @param details - Values to record with the event
+ * @param lagSec - Session lag right after the event
+ * @param now - Event time (defaults to now)
+ */
+export function createAuditEvent(
+	type: AuditEventType,
+	taskId: string | null,
+	details: AuditEventDetails,
+	lagSec: number,
+	now: Date = new Date()
+): AuditEvent {
+	return {
+		eventId: crypto.randomUUID(),
+		type,
+		at: now.toISOString(),
+		taskId,
+		lagSec,
+		details
+	};
+}
+
+/**
+ * Old and new values of the fields a task edit changes, e.g.
+ * `{ plannedDurationSecFrom: 1800, plannedDurationSecTo: 2700 }`.
+ *
+ * @param task - Task before the edit
+ * @param updates - Fields being set
+ * @returns Details for a 'task-edited' event, empty if nothing changes
+ */
+export function getTaskEditDetails(
+	task: ConfirmedTask,
+	updates: Partial<Pick<ConfirmedTask, 'name' | 'plannedStart' | 'plannedDurationSec' | 'type'>>
+): AuditEventDetails {
+	const details: AuditEventDetails = {};
+
+	if (updates.name !== undefined && updates.name !== task.name) {
+		details.nameFrom = task.name;
+		details.nameTo = updates.name;
+	}
+	if (
+		updates.plannedStart !== undefined &&
+		updates.plannedStart.getTime() !== task.plannedStart.getTime()
+	) {
+		details.plannedStartFrom = task.plannedStart.toISOString();
+		details.plannedStartTo = updates.plannedStart.toISOString();
+	}
+	if (
+		updates.plannedDurationSec !== undefined &&
+		updates.plannedDurationSec !== task.plannedDurationSec
+	) {
+		details.plannedDurationSecFrom = task.plannedDurationSec;
+		details.plannedDurationSecTo = updates.plannedDurationSec;
+	}
+	if (updates.type !== undefined && updates.type !== task.type) {
+		details.typeFrom = task.type;
+		details.typeTo = updates.type;
+	}
+
+	return details;
+}
+
+function seconds(value: unknown): string {
+	return typeof value === 'number' ? formatDuration(Math.max(0, Math.round(value))) : '?';
+}
+
+function describeTaskEdit(d: AuditEventDetails): string {
+	const changes: string[] = [];
+	if (d.nameFrom !== undefined) {
+		changes.push(`Name "${d.nameFrom}" to "${d.nameTo}"`);
+	}
+	if (d.plannedStartFrom !== undefined) {
+		changes.push(
+			`Start ${formatTimeHHMMSS(String(d.plannedStartFrom))} to ` +
+				formatTimeHHMMSS(String(d.plannedStartTo))
+		);
+	}
+	if (d.plannedDurationSecFrom !== undefined) {
+		changes.push(
+			`Duration ${seconds(d.plannedDurationSecFrom)} to ${seconds(d.plannedDurationSecTo)}`
+		);
+	}
+	if (d.typeFrom !== undefined) {
+		changes.push(`Type ${d.typeFrom} to ${d.typeTo}`);
+	}
+	return changes.join(', ');
+}
+
+/**
+ * Describe the values recorded with an event, e.g. "25m 10s of 30m planned".
+ *
+ * @param event - Audit event
+ * @returns Description, or an empty string when nothing was recorded
+ */
+export function describeAuditEvent(event: AuditEvent): string {
+	const d = event.details;
+
+	switch (event.type) {
+		case 'day-started':
+			return `${d.taskCount} tasks`;
+		case 'task-started':
+			return `From ${seconds(d.resumedAtSec)}`;
+		case 'task-jumped':
+			return (
+				`From "${d.fromTask}" after ${seconds(d.fromElapsedSec)}, ` +
+				`resumed at ${seconds(d.resumedAtSec)}`
+			);
+		case 'task-completed':
+			return `${seconds(d.actualSec)} of ${seconds(d.plannedSec)} planned`;
+		case 'task-skipped':
+			return d.auto
+				? `${d.reason || 'No reason'}, automatic`
+				: `${d.reason || 'No reason'}, after ${seconds(d.elapsedSec)}`;
+		case 'task-reordered':
+			return `Position ${Number(d.fromIndex) + 1} to ${Number(d.toIndex) + 1}`;
+		case 'task-edited':
+			return describeTaskEdit(d);
+		case 'elapsed-edited':
+			return `${seconds(d.fromSec)} to ${seconds(d.toSec)}`;
+		case 'interruption-started':
+			return d.nested ? 'Inside another interruption' : '';
+		case 'interruption-ended':
+			return `${seconds(d.durationSec)}${d.auto ? ', ended automatically' : ''}`;
+		case 'interruption-converted':
+			return `${seconds(d.durationSec)}${d.keepWorking ? ', still working on it' : ''}`;
+		case 'interruption-logged':
+			return `${seconds(d.durationSec)} from ${formatTimeHHMMSS(String(d.startedAt))}`;
+		case 'session-paused':
+			return String(d.reason ?? '');
+		case 'session-resumed':
+			return `After ${seconds(d.durationSec)}`;
+		case 'recovery-applied':
+			if (!d.success) return `Failed: ${d.error ?? 'unknown error'}`;
+			return (
+				`Away ${seconds(Number(d.awayTimeMs) / 1000)}, ` +
+				`resumed at ${seconds(Number(d.recoveredElapsedMs) / 1000)}`
+			);
+		case 'leadership-changed':
+			return d.isLeader ? 'This tab is now active' : 'Another tab is now active';
+		case 'undo':
+		case 'redo':
+			return String(d.action ?? '');
+		default:
+			return '';
+	}
+}
@@ -0,0 +1,173 @@
+/**
+ * Backup Service
+ *
+ * Feature: 016-json-backup
+ *
+ * Validates and downloads versioned JSON backups of all app data.
+ * Reading and writing the stored values is done by the storage service
+ * (storage.createBackup / storage.restoreBackup).
+ */
+
+import { BACKUP_FORMAT, CURRENT_SCHEMA_VERSION } from '$lib/types';
+import type { BackupFile, BackupParseResult, ExportResult } from '$lib/types';
+import { downloadBlob } from './export';
+import { formatDateYYYYMMDD } from '$lib/utils/formatters';
+
+/**
+ * Check that a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that a value is an object or null
+ */
+function isObjectOrNull(value: unknown): boolean {
+	return value === null || value === undefined || isObject(value);
+}
+
+/**
+ * Parse and validate backup file contents.
+ *
+ * Only the envelope and top-level shapes are checked here; field-level
+ * differences between schema versions are handled by the storage
+ * migrations on restore.
+ *
+ * @param text - Raw file contents
+ * @returns Parsed backup or an error message
+ */
+export function parseBackupFile(text: string): BackupParseResult {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		return { success: false, error: 'File is not valid JSON' };
+	}
+
+	if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) {
+		return { success: false, error: 'File is not a Micro Time Manager backup' };
+	}
+
+	const version = parsed.schemaVersion;
+	if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+		return { success: false, error: 'Backup has an invalid schema version' };
+	}
+	if (version > CURRENT_SCHEMA_VERSION) {
+		return { success: false, error: 'Backup was created by a newer version of the app' };
+	}
+
+	const data = parsed.data;
+	if (!isObject(data)) {
+		return { success: false, error: 'Backup contains no data' };
+	}
+
+	if (!Array.isArray(data.tasks)) {
+		return { success: false, error: 'Backup tasks are missing or invalid' };
+	}
+	if (data.notes !== undefined && !Array.isArray(data.notes)) {
+		return { success: false, error: 'Backup notes are invalid' };
+	}
+	if (!isObjectOrNull(data.session)) {
+		return { success: false, error: 'Backup session is invalid' };
+	}
+	if (!isObjectOrNull(data.interruptions)) {
+		return { success: false, error: 'Backup interruptions are invalid' };
+	}
+	if (!isObjectOrNull(data.settings)) {
+		return { success: false, error: 'Backup settings are invalid' };
+	}
+
+	const history = isObject(data.history) ? data.history : {};
+	if (history.index !== undefined && !Array.isArray(history.index)) {
+		return { success: false, error: 'Backup history is invalid' };
+	}
+	if (history.days !== undefined && !isObject(history.days)) {
+		return { success: false, error: 'Backup history is invalid' };
+	}
+
+	if (data.templates !== undefined && !Array.isArray(data.templates)) {
+		return { success: false, error: 'Backup templates are invalid' };
+	}
+	if (!isObjectOrNull(data.pomodoro)) {
+		return { success: false, error: 'Backup Pomodoro state is invalid' };
+	}
+	if (data.idle !== undefined && !Array.isArray(data.idle)) {
+		return { success: false, error: 'Backup idle time is invalid' };
+	}
+	if (data.carryOver !== undefined && !Array.isArray(data.carryOver)) {
+		return { success: false, error: 'Backup carried tasks are invalid' };
+	}
+	if (data.audit !== undefined && !Array.isArray(data.audit)) {
+		return { success: false, error: 'Backup audit log is invalid' };
+	}
+
+	const backup: BackupFile = {
+		format: BACKUP_FORMAT,
+		schemaVersion: version,
+		exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+		data: {
+			tasks: data.tasks,
+			session: (data.session ?? null) as BackupFile['data']['session'],
+			interruptions: (data.interruptions ?? null) as BackupFile['data']['interruptions'],
+			notes: (data.notes ?? []) as BackupFile['data']['notes'],
+			settings: (data.settings ?? null) as BackupFile['data']['settings'],
+			history: {
+				index: (history.index ?? []) as BackupFile['data']['history']['index'],
+				days: (history.days ?? {}) as BackupFile['data']['history']['days']
+			},
+			templates: (data.templates ?? []) as BackupFile['data']['templates'],
+			pomodoro: (data.pomodoro ?? null) as BackupFile['data']['pomodoro'],
+			idle: (data.idle ?? []) as BackupFile['data']['idle'],
+			carryOver: (data.carryOver ?? []) as BackupFile['data']['carryOver'],
+			audit: (data.audit ?? []) as BackupFile['data']['audit']
+		}
+	};
+
+	return { success: true, backup };
+}
+
+/**
+ * Read and validate a backup file selected by the user.
+ *
+ * @param file - File from an <input type="file">
+ * @returns Parsed backup or an error message
+ */
+export async function readBackupFile(file: File): Promise<BackupParseResult> {
+	try {
+		const text = await file.text();
+		return parseBackupFile(text);
+	} catch (err) {
+		console.error('Failed to read backup file:', err);
+		return { success: false, error: 'Could not read the selected file' };
+	}
+}
+
+/**
+ * Generate filename for a backup created at the given time.
+ *
+ * @param exportedAt - ISO string of backup time
+ * @returns Filename string
+ */
+export function getBackupFilename(exportedAt: string): string {
+	return `${formatDateYYYYMMDD(exportedAt)}_backup.json`;
+}
+
+/**
+ * Download a backup as a JSON file.
+ *
+ * @param backup - Backup created by storage.createBackup()
+ * @returns ExportResult indicating success or failure with error message
+ */
+export function downloadBackup(backup: BackupFile): ExportResult {
+	try {
+		const json = JSON.stringify(backup, null, 2);
+		const blob = new Blob([json], { type: 'application/json;charset=utf-8;' });
+		downloadBlob(blob, getBackupFilename(backup.exportedAt));
+		return { success: true, filesDownloaded: 1 };
+	} catch (err) {
+		const message = err instanceof Error ? err.message : 'Unknown error occurred';
+		console.error('Backup export failed:', err);
+		return { success: false, error: `Backup export failed: ${message}` };
+	}
+}
@@ -0,0 +1,116 @@
+/**
+ * Carry-Over Service
+ *
+ * Feature: 029-carry-over
+ *
+ * Pure functions for the end-of-day review. Unfinished and missed tasks
+ * can be carried to tomorrow, deferred to a later date or dropped;
+ * carried tasks keep only the time that was still left on them.
+ */
+
+import type {
+	CarriedTask,
+	CarryOverCandidate,
+	CarryOverDecision,
+	ConfirmedTask,
+	TaskProgress
+} from '$lib/types';
+import { MIN_CARRIED_DURATION_SEC } from '$lib/types';
+import { formatDateYYYYMMDD } from '$lib/utils/formatters';
+
+/**
+ * The day after a date, as YYYY-MM-DD
+ *
+ * @param date - Day to count from (defaults to today)
+ */
+export function getNextDateKey(date: Date = new Date()): string {
+	const next = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+	return formatDateYYYYMMDD(next);
+}
+
+/**
+ * List the tasks of a day that were not completed.
+ *
+ * @param tasks - The day's tasks
+ * @param progress - Progress for each task
+ * @param activeElapsedSec - Time spent on the active task so far, which is
+ *   not in its progress until it is completed
+ * @returns Pending, active and missed tasks in schedule order
+ */
+export function getCarryOverCandidates(
+	tasks: readonly ConfirmedTask[],
+	progress: readonly TaskProgress[],
+	activeElapsedSec = 0
+): CarryOverCandidate[] {
+	const candidates: CarryOverCandidate[] = [];
+
+	for (const task of tasks) {
+		const p = progress.find((item) => item.taskId === task.taskId);
+		if (!p || p.status === 'complete') continue;
+
+		const actualSec = p.status === 'active' ? activeElapsedSec : p.actualDurationSec;
+		candidates.push({
+			taskId: task.taskId,
+			name: task.name,
+			status: p.status,
+			remainingSec: Math.max(MIN_CARRIED_DURATION_SEC, p.plannedDurationSec - actualSec)
+		});
+	}
+
+	return candidates;
+}
+
+/**
+ * Turn the review decisions into tasks for later days.
+ *
+ * @param decisions - Choice for each reviewed task
+ * @param tasks - The day's tasks
+ * @param candidates - Reviewed tasks with their remaining time
+ * @param originDate - Day being reviewed (YYYY-MM-DD)
+ * @returns Carried and deferred tasks; dropped tasks are left out
+ */
+export function createCarriedTasks(
+	decisions: CarryOverDecision[],
+	tasks: ConfirmedTask[],
+	candidates: CarryOverCandidate[],
+	originDate: string
+): CarriedTask[] {
+	const carried: CarriedTask[] = [];
+
+	for (const decision of decisions) {
+		if (decision.action === 'drop') continue;
+
+		const task = tasks.find((t) => t.taskId === decision.taskId);
+		const candidate = candidates.find((c) => c.taskId === decision.taskId);
+		if (!task || !candidate) continue;
+
+		carried.push({
+			carryId: crypto.randomUUID(),
+			name: task.name,
+			startTime: task.plannedStart.toISOString(),
+			durationSeconds: candidate.remainingSec,
+			type: task.type,
+			project: task.project,
+			tags: task.tags,
+			priority: task.priority,
+			notes: task.notes,
+			// Carrying a task again keeps the day it was first left unfinished
+			originDate: task.carriedFrom ?? originDate,
+			targetDate: decision.targetDate
+		});
+	}
+
+	return carried;
+}
+
+/**
+ * Whether a carried task should be added to a day's schedule.
+ * Tasks whose day has passed are still due, so nothing is lost when
+ * the app was not opened on that day.
+ *
+ * @param task - Carried task
+ * @param dateKey - Day being planned (YYYY-MM-DD)
+ */
+export function isCarriedTaskDue(task: CarriedTask, dateKey: string): boolean {
+	return task.targetDate <= dateKey;
+}
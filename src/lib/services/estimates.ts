@@ -0,0 +1,195 @@
+/**
+ * Estimates Service
+ *
+ * Feature: 025-estimate-learning
+ *
+ * Pure functions for learning from past planned vs actual durations.
+ * Completed tasks are recorded as samples under their normalized name,
+ * project and tags; suggestions prefer the most specific key with enough
+ * samples.
+ */
+
+import type {
+	ArchivedDay,
+	DurationSuggestion,
+	EstimateModel,
+	EstimateSample,
+	EstimateStats
+} from '$lib/types';
+
+import { ESTIMATE_PERCENTILE, MAX_ESTIMATE_SAMPLES, MIN_ESTIMATE_SAMPLES } from '$lib/types';
+
+/**
+ * Task fields used to look up estimates
+ */
+export interface EstimateTaskInfo {
+	name: string;
+	project?: string;
+	tags?: string[];
+}
+
+interface EstimateKey {
+	key: string;
+	basis: DurationSuggestion['basis'];
+	label: string;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Value at a percentile of sorted values, interpolating between neighbours
+ */
+function percentileOf(sorted: readonly number[], percentile: number): number {
+	if (sorted.length === 0) {
+		return 0;
+	}
+	const position = ((sorted.length - 1) * percentile) / 100;
+	const lower = Math.floor(position);
+	const upper = Math.ceil(position);
+	return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Round a duration to whole minutes, at least one minute
+ */
+function roundToMinute(seconds: number): number {
+	return Math.max(60, Math.round(seconds / 60) * 60);
+}
+
+/**
+ * Lookup keys for a task, most specific first
+ */
+function getEstimateKeys(task: EstimateTaskInfo): EstimateKey[] {
+	const keys: EstimateKey[] = [];
+
+	const name = normalizeTaskName(task.name);
+	if (name) {
+		keys.push({ key: `name:${name}`, basis: 'name', label: task.name.trim() });
+	}
+
+	const project = task.project?.trim();
+	if (project) {
+		keys.push({ key: `project:${project.toLowerCase()}`, basis: 'project', label: project });
+	}
+
+	for (const tag of task.tags ?? []) {
+		const trimmed = tag.trim();
+		if (trimmed) {
+			keys.push({ key: `tag:${trimmed.toLowerCase()}`, basis: 'tag', label: trimmed });
+		}
+	}
+
+	return keys;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Normalize a task name so small differences in spelling share estimates.
+ *
+ * @example
+ * normalizeTaskName('  Weekly Report: Draft ') // 'weekly report draft'
+ */
+export function normalizeTaskName(name: string): string {
+	return name
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, ' ')
+		.trim();
+}
+
+/**
+ * Add the completed tasks of an archived day to a model.
+ * Only tasks completed with a positive planned and actual duration count.
+ *
+ * @param model - Current model (not modified)
+ * @param day - Archived day to learn from
+ * @returns New model including the day's samples
+ */
+export function addDayToModel(model: EstimateModel, day: ArchivedDay): EstimateModel {
+	const next: EstimateModel = { ...model };
+	const progressById = new Map(day.session.taskProgress.map((p) => [p.taskId, p]));
+
+	for (const task of day.tasks) {
+		const progress = progressById.get(task.taskId);
+		if (
+			!progress ||
+			progress.status !== 'complete' ||
+			progress.plannedDurationSec <= 0 ||
+			progress.actualDurationSec <= 0
+		) {
+			continue;
+		}
+
+		const sample: EstimateSample = {
+			plannedSec: progress.plannedDurationSec,
+			actualSec: progress.actualDurationSec
+		};
+		for (const { key } of getEstimateKeys(task)) {
+			next[key] = [...(next[key] ?? []), sample].slice(-MAX_ESTIMATE_SAMPLES);
+		}
+	}
+
+	return next;
+}
+
+/**
+ * Calculate median and percentile statistics for samples.
+ *
+ * @param samples - Samples for one key (must not be empty)
+ * @returns Statistics, with overrun percentages rounded to whole numbers
+ */
+export function calculateEstimateStats(samples: readonly EstimateSample[]): EstimateStats {
+	const actuals = samples.map((s) => s.actualSec).sort((a, b) => a - b);
+	const overruns = samples
+		.map((s) => ((s.actualSec - s.plannedSec) / s.plannedSec) * 100)
+		.sort((a, b) => a - b);
+
+	return {
+		sampleCount: samples.length,
+		medianActualSec: Math.round(percentileOf(actuals, 50)),
+		medianOverrunPercent: Math.round(percentileOf(overruns, 50)),
+		percentileOverrunPercent: Math.round(percentileOf(overruns, ESTIMATE_PERCENTILE))
+	};
+}
+
+/**
+ * Suggest a planned duration for a task from past actuals.
+ *
+ * A task seen before by name is suggested its median actual duration.
+ * Otherwise its project, then its best-known tag, scale the planned
+ * duration by their median overrun.
+ *
+ * @param model - Estimate model
+ * @param task - Task to suggest a duration for
+ * @param plannedSec - Currently planned duration (seconds)
+ * @returns Suggestion, or null if no key has enough samples
+ */
+export function suggestDuration(
+	model: EstimateModel,
+	task: EstimateTaskInfo,
+	plannedSec: number
+): DurationSuggestion | null {
+	const candidates = getEstimateKeys(task).filter(
+		({ key }) => (model[key]?.length ?? 0) >= MIN_ESTIMATE_SAMPLES
+	);
+	if (candidates.length === 0) {
+		return null;
+	}
+
+	// Name beats project beats tag; among tags, the one with most samples
+	const best = candidates.reduce((a, b) =>
+		a.basis === 'tag' && b.basis === 'tag' && model[b.key].length > model[a.key].length ? b : a
+	);
+	const stats = calculateEstimateStats(model[best.key]);
+
+	const suggestedSec =
+		best.basis === 'name'
+			? roundToMinute(stats.medianActualSec)
+			: roundToMinute(plannedSec * (1 + stats.medianOverrunPercent / 100));
+
+	return { basis: best.basis, label: best.label, suggestedSec, stats };
+}
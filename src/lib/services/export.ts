@@ -16,19 +16,29 @@ import {
 	formatDateYYYYMMDD,
 	escapeCSVValue
 } from '$lib/utils/formatters';
+import { formatPriority, formatTags } from '$lib/utils/taskMetadata';
+import { generateCalendar } from './ical';
+import { AUDIT_EVENT_LABELS, describeAuditEvent } from './auditLog';
+import { getFirstSegmentStart } from './workSegments';
+import { getCategoryName } from './interruptionCategories';
 import type {
 	ConfirmedTask,
 	TaskProgress,
 	Interruption,
+	InterruptionCategory,
 	Note,
 	AnalyticsSummary,
 	TaskExportRow,
 	InterruptionExportRow,
 	NoteExportRow,
 	SummaryExportRow,
+	AuditEvent,
+	AuditExportRow,
 	ExportFormat,
-	ExportResult
+	ExportResult,
+	ProjectedTask
 } from '$lib/types';
+import { EXPORT_TASKS_SHEET_NAME, NO_TASK_LABEL } from '$lib/types';
 
 // =============================================================================
 // T015: prepareTasksExport
@@ -78,7 +88,7 @@ export function prepareTasksExport(
 	}
 
 	// Group interruptions by taskId
-	const interruptionsByTask = new Map<string, Interruption[]>();
+	const interruptionsByTask = new Map<string | null, Interruption[]>();
 	for (const int of interruptions) {
 		const existing = interruptionsByTask.get(int.taskId) || [];
 		existing.push(int);
@@ -106,10 +116,14 @@ export function prepareTasksExport(
 		// Get status from progress, default to 'pending'
 		const status = taskProgress?.status ?? 'pending';
 
-		// Calculate actual start from previous task completion or session start
-		const actualStart = prevCompletedAt
-			? formatTimeHHMMSS(prevCompletedAt)
-			: '';
+		// Use the start of the first work segment, otherwise calculate actual
+		// start from previous task completion or session start
+		const firstSegmentStart = getFirstSegmentStart(taskProgress);
+		const actualStart = firstSegmentStart
+			? formatTimeHHMMSS(firstSegmentStart)
+			: prevCompletedAt
+				? formatTimeHHMMSS(prevCompletedAt)
+				: '';
 
 		// Update prevCompletedAt for next task
 		if (taskProgress?.completedAt) {
@@ -127,7 +141,12 @@ export function prepareTasksExport(
 			interruptionCount,
 			interruptionTime: formatDurationHHMMSS(interruptionTotalSec),
 			status: mapStatusToDisplay(status),
-			source: task.isAdHoc ? 'Ad-hoc' : 'Imported'
+			skipReason: taskProgress?.skipReason ?? '',
+			source: task.isAdHoc ? 'Ad-hoc' : 'Imported',
+			project: task.project ?? '',
+			tags: formatTags(task.tags),
+			priority: formatPriority(task.priority),
+			notes: task.notes ?? ''
 		};
 	});
 }
@@ -141,11 +160,13 @@ export function prepareTasksExport(
  *
  * @param interruptions - Array of interruptions
  * @param tasks - Array of tasks for looking up task names
+ * @param categories - Categories for looking up category names (034-interruption-categories)
  * @returns Array of InterruptionExportRow ready for export
  */
 export function prepareInterruptionsExport(
 	interruptions: Interruption[],
-	tasks: ConfirmedTask[]
+	tasks: ConfirmedTask[],
+	categories: InterruptionCategory[] = []
 ): InterruptionExportRow[] {
 	if (interruptions.length === 0) {
 		return [];
@@ -158,11 +179,11 @@ export function prepareInterruptionsExport(
 	}
 
 	return interruptions.map((int) => ({
-		task: taskNameMap.get(int.taskId) || '',
+		task: int.taskId === null ? NO_TASK_LABEL : taskNameMap.get(int.taskId) || '',
 		startTime: formatTimeHHMMSS(int.startedAt),
 		endTime: int.endedAt ? formatTimeHHMMSS(int.endedAt) : 'In Progress',
 		duration: formatDurationHHMMSS(int.durationSec),
-		category: int.category ?? '',
+		category: getCategoryName(categories, int.category),
 		note: int.note ?? ''
 	}));
 }
@@ -225,10 +246,41 @@ export function prepareSummaryExport(
 		{ metric: 'Interruption Count', value: summary.totalInterruptionCount.toString() },
 		{ metric: 'Concentration Score', value: `${summary.concentrationScore.toFixed(1)}%` },
 		{ metric: 'Schedule Adherence', value: `${summary.scheduleAdherence.toFixed(1)}%` },
-		{ metric: 'Tasks Completed', value: `${summary.tasksCompleted} of ${summary.totalTasks}` }
+		{ metric: 'Tasks Completed', value: `${summary.tasksCompleted} of ${summary.totalTasks}` },
+		{ metric: 'Unallocated Time', value: formatDurationHHMMSS(summary.unallocatedSec) },
+		{ metric: 'Break Time', value: formatDurationHHMMSS(summary.breakSec) }
 	];
 }
 
+// =============================================================================
+// prepareAuditLogExport (032-audit-log)
+// =============================================================================
+
+/**
+ * Prepare audit log events for export.
+ *
+ * @param events - Audit events, oldest first
+ * @param tasks - Array of tasks for looking up task names
+ * @returns Array of AuditExportRow ready for export
+ */
+export function prepareAuditLogExport(
+	events: AuditEvent[],
+	tasks: ConfirmedTask[]
+): AuditExportRow[] {
+	const taskNameMap = new Map<string, string>();
+	for (const task of tasks) {
+		taskNameMap.set(task.taskId, task.name);
+	}
+
+	return events.map((event) => ({
+		time: formatTimeHHMMSS(event.at),
+		event: AUDIT_EVENT_LABELS[event.type],
+		task: event.taskId ? taskNameMap.get(event.taskId) ?? '' : '',
+		details: describeAuditEvent(event),
+		lag: formatVarianceHHMMSS(event.lagSec)
+	}));
+}
+
 // =============================================================================
 // T019: getSessionDate
 // =============================================================================
@@ -250,6 +302,9 @@ export function getSessionDate(sessionStart: string): string {
 /**
  * Column headers for Tasks sheet
  * T046, T047: Added Source column (009-ad-hoc-tasks)
+ * Project/Tags/Priority/Notes use the import column names so the
+ * export re-imports with its metadata (018-task-metadata)
+ * Skip Reason explains Missed tasks (030-skip-task)
  */
 const TASKS_HEADERS = [
 	'Task Name',
@@ -262,7 +317,12 @@ const TASKS_HEADERS = [
 	'Variance',
 	'Interruptions',
 	'Interruption Time',
-	'Status'
+	'Status',
+	'Skip Reason',
+	'Project',
+	'Tags',
+	'Priority',
+	'Notes'
 ];
 
 /**
@@ -280,6 +340,11 @@ const NOTES_HEADERS = ['Time', 'Task', 'Content'];
  */
 const SUMMARY_HEADERS = ['Metric', 'Value'];
 
+/**
+ * Column headers for Audit Log sheet (032-audit-log)
+ */
+const AUDIT_HEADERS = ['Time', 'Event', 'Task', 'Details', 'Lag'];
+
 /**
  * Convert TaskExportRow to array for sheet row.
  * T046, T047: Added source field (009-ad-hoc-tasks)
@@ -296,7 +361,12 @@ function taskRowToArray(row: TaskExportRow): (string | number)[] {
 		row.variance,
 		row.interruptionCount,
 		row.interruptionTime,
-		row.status
+		row.status,
+		row.skipReason,
+		row.project,
+		row.tags,
+		row.priority,
+		row.notes
 	];
 }
 
@@ -321,6 +391,13 @@ function summaryRowToArray(row: SummaryExportRow): string[] {
 	return [row.metric, row.value];
 }
 
+/**
+ * Convert AuditExportRow to array for sheet row.
+ */
+function auditRowToArray(row: AuditExportRow): string[] {
+	return [row.time, row.event, row.task, row.details, row.lag];
+}
+
 /**
  * Generate an Excel workbook with all session data.
  *
@@ -331,6 +408,8 @@ function summaryRowToArray(row: SummaryExportRow): string[] {
  * @param summary - Analytics summary
  * @param sessionStart - ISO string of session start time
  * @param sessionEnd - ISO string of session end time (null if in progress)
+ * @param auditLog - Audit log events of the session (032-audit-log)
+ * @param categories - Interruption categories (034-interruption-categories)
  * @returns XLSX WorkBook object
  */
 export function generateExcelWorkbook(
@@ -340,13 +419,16 @@ export function generateExcelWorkbook(
 	notes: Note[],
 	summary: AnalyticsSummary,
 	sessionStart: string,
-	sessionEnd: string | null
+	sessionEnd: string | null,
+	auditLog: AuditEvent[] = [],
+	categories: InterruptionCategory[] = []
 ): XLSX.WorkBook {
 	// Prepare data for each sheet
 	const tasksData = prepareTasksExport(tasks, progress, interruptions, sessionStart);
-	const interruptionsData = prepareInterruptionsExport(interruptions, tasks);
+	const interruptionsData = prepareInterruptionsExport(interruptions, tasks, categories);
 	const notesData = prepareNotesExport(notes, tasks);
 	const summaryData = prepareSummaryExport(summary, sessionStart, sessionEnd);
+	const auditData = prepareAuditLogExport(auditLog, tasks);
 
 	// Create workbook
 	const workbook = XLSX.utils.book_new();
@@ -356,7 +438,7 @@ export function generateExcelWorkbook(
 		TASKS_HEADERS,
 		...tasksData.map(taskRowToArray)
 	]);
-	XLSX.utils.book_append_sheet(workbook, tasksSheet, 'Tasks');
+	XLSX.utils.book_append_sheet(workbook, tasksSheet, EXPORT_TASKS_SHEET_NAME);
 
 	// T033: Create Interruptions sheet
 	const interruptionsSheet = XLSX.utils.aoa_to_sheet([
@@ -379,6 +461,10 @@ export function generateExcelWorkbook(
 	]);
 	XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
 
+	// 032-audit-log: Create Audit Log sheet
+	const auditSheet = XLSX.utils.aoa_to_sheet([AUDIT_HEADERS, ...auditData.map(auditRowToArray)]);
+	XLSX.utils.book_append_sheet(workbook, auditSheet, 'Audit Log');
+
 	return workbook;
 }
 
@@ -391,13 +477,13 @@ export function generateExcelWorkbook(
  *
  * @param sessionStart - ISO string of session start time
  * @param format - Export format ('excel' or 'csv')
- * @param dataType - For CSV, the type of data (tasks, interruptions, notes, summary)
+ * @param dataType - For CSV, the type of data (tasks, interruptions, notes, summary, audit)
  * @returns Filename string
  */
 export function getExportFilename(
 	sessionStart: string,
 	format: ExportFormat,
-	dataType?: 'tasks' | 'interruptions' | 'notes' | 'summary'
+	dataType?: 'tasks' | 'interruptions' | 'notes' | 'summary' | 'audit'
 ): string {
 	const date = getSessionDate(sessionStart);
 
@@ -436,6 +522,8 @@ export function downloadBlob(blob: Blob, filename: string): void {
  * @param summary - Analytics summary
  * @param sessionStart - ISO string of session start time
  * @param sessionEnd - ISO string of session end time (null if in progress)
+ * @param auditLog - Audit log events of the session (032-audit-log)
+ * @param categories - Interruption categories (034-interruption-categories)
  * @returns ExportResult indicating success or failure with error message
  */
 export function exportToExcel(
@@ -445,7 +533,9 @@ export function exportToExcel(
 	notes: Note[],
 	summary: AnalyticsSummary,
 	sessionStart: string,
-	sessionEnd: string | null
+	sessionEnd: string | null,
+	auditLog: AuditEvent[] = [],
+	categories: InterruptionCategory[] = []
 ): ExportResult {
 	try {
 		const workbook = generateExcelWorkbook(
@@ -455,7 +545,9 @@ export function exportToExcel(
 			notes,
 			summary,
 			sessionStart,
-			sessionEnd
+			sessionEnd,
+			auditLog,
+			categories
 		);
 
 		const filename = getExportFilename(sessionStart, 'excel');
@@ -491,6 +583,7 @@ interface AllCSVData {
 	interruptions: CSVExportData;
 	notes: CSVExportData;
 	summary: CSVExportData;
+	audit: CSVExportData;
 }
 
 /**
@@ -521,7 +614,9 @@ export function generateCSV(headers: string[], data: (string | number)[][]): str
  * @param summary - Analytics summary
  * @param sessionStart - ISO string of session start time
  * @param sessionEnd - ISO string of session end time (null if in progress)
- * @returns Object containing prepared data for all four CSV files
+ * @param auditLog - Audit log events of the session (032-audit-log)
+ * @param categories - Interruption categories (034-interruption-categories)
+ * @returns Object containing prepared data for all five CSV files
  */
 export function prepareCSVExportData(
 	tasks: ConfirmedTask[],
@@ -530,7 +625,9 @@ export function prepareCSVExportData(
 	notes: Note[],
 	summary: AnalyticsSummary,
 	sessionStart: string,
-	sessionEnd: string | null
+	sessionEnd: string | null,
+	auditLog: AuditEvent[] = [],
+	categories: InterruptionCategory[] = []
 ): AllCSVData {
 	// Prepare tasks data
 	const tasksData = prepareTasksExport(tasks, progress, interruptions, sessionStart);
@@ -540,7 +637,7 @@ export function prepareCSVExportData(
 	};
 
 	// Prepare interruptions data
-	const interruptionsData = prepareInterruptionsExport(interruptions, tasks);
+	const interruptionsData = prepareInterruptionsExport(interruptions, tasks, categories);
 	const interruptionsCSV: CSVExportData = {
 		headers: INTERRUPTIONS_HEADERS,
 		data: interruptionsData.map(interruptionRowToArray)
@@ -560,11 +657,18 @@ export function prepareCSVExportData(
 		data: summaryData.map(summaryRowToArray)
 	};
 
+	// 032-audit-log: Prepare audit log data
+	const auditCSV: CSVExportData = {
+		headers: AUDIT_HEADERS,
+		data: prepareAuditLogExport(auditLog, tasks).map(auditRowToArray)
+	};
+
 	return {
 		tasks: tasksCSV,
 		interruptions: interruptionsCSV,
 		notes: notesCSV,
-		summary: summaryCSV
+		summary: summaryCSV,
+		audit: auditCSV
 	};
 }
 
@@ -642,6 +746,34 @@ export function exportToTemplate(
 	}
 }
 
+/**
+ * Export the day plan as an iCalendar file (022-ics-export).
+ * Completed tasks keep their actual times; the rest use projected times.
+ *
+ * @param projected - Tasks from createProjectedTasks
+ * @param sessionStart - ISO string of session start time (for filename)
+ * @returns ExportResult indicating success or failure with error message
+ */
+export function exportToCalendar(projected: ProjectedTask[], sessionStart: string): ExportResult {
+	try {
+		if (projected.length === 0) {
+			return { success: false, error: 'No tasks to export' };
+		}
+
+		const ics = generateCalendar(projected);
+		const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8;' });
+
+		const date = getSessionDate(sessionStart);
+		downloadBlob(blob, `${date}_plan.ics`);
+
+		return { success: true, filesDownloaded: 1 };
+	} catch (err) {
+		const message = err instanceof Error ? err.message : 'Unknown error occurred';
+		console.error('Calendar export failed:', err);
+		return { success: false, error: `Calendar export failed: ${message}` };
+	}
+}
+
 /**
  * Preview task structure for export (from schedule preview before confirmation)
  */
@@ -707,6 +839,8 @@ export function exportPreviewToTemplate(tasks: PreviewTask[]): ExportResult {
  * @param summary - Analytics summary
  * @param sessionStart - ISO string of session start time
  * @param sessionEnd - ISO string of session end time (null if in progress)
+ * @param auditLog - Audit log events of the session (032-audit-log)
+ * @param categories - Interruption categories (034-interruption-categories)
  * @returns ExportResult indicating success or failure with error message
  */
 export function exportToCSV(
@@ -716,7 +850,9 @@ export function exportToCSV(
 	notes: Note[],
 	summary: AnalyticsSummary,
 	sessionStart: string,
-	sessionEnd: string | null
+	sessionEnd: string | null,
+	auditLog: AuditEvent[] = [],
+	categories: InterruptionCategory[] = []
 ): ExportResult {
 	try {
 		const csvData = prepareCSVExportData(
@@ -726,7 +862,9 @@ export function exportToCSV(
 			notes,
 			summary,
 			sessionStart,
-			sessionEnd
+			sessionEnd,
+			auditLog,
+			categories
 		);
 
 		// Download tasks CSV
@@ -749,7 +887,12 @@ export function exportToCSV(
 		const summaryBlob = new Blob([summaryCSV], { type: 'text/csv;charset=utf-8;' });
 		downloadBlob(summaryBlob, getExportFilename(sessionStart, 'csv', 'summary'));
 
-		return { success: true, filesDownloaded: 4 };
+		// 032-audit-log: Download audit log CSV
+		const auditCSV = generateCSV(csvData.audit.headers, csvData.audit.data);
+		const auditBlob = new Blob([auditCSV], { type: 'text/csv;charset=utf-8;' });
+		downloadBlob(auditBlob, getExportFilename(sessionStart, 'csv', 'audit'));
+
+		return { success: true, filesDownloaded: 5 };
 	} catch (err) {
 		const message = err instanceof Error ? err.message : 'Unknown error occurred';
 		console.error('CSV export failed:', err);
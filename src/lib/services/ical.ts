@@ -0,0 +1,774 @@
+/**
+ * iCalendar Service
+ *
+ * Feature: 021-ics-import
+ *
+ * Reads VEVENTs from .ics files and turns the events of one day into fixed
+ * DraftTasks. Supports:
+ * - UTC ("...Z"), floating and TZID times (IANA names via Intl, otherwise
+ *   the standard offset of the matching VTIMEZONE)
+ * - DTEND or DURATION
+ * - Daily and weekly RRULEs with INTERVAL, COUNT, UNTIL and BYDAY,
+ *   plus EXDATE and moved instances (RECURRENCE-ID)
+ *
+ * All-day and cancelled events are skipped.
+ *
+ * Also writes the projected day plan back out as an RFC 5545 calendar
+ * (022-ics-export).
+ */
+
+import { MAX_DURATION_SECONDS, MAX_TASK_NAME_LENGTH } from '$lib/types';
+import type { DraftTask, ParseResult, ProjectedTask, ValidationError } from '$lib/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ICalProperty {
+	name: string;
+	params: Record<string, string>;
+	value: string;
+}
+
+interface ICalComponent {
+	type: string;
+	/** Line of the BEGIN: line (1-based) */
+	line: number;
+	properties: ICalProperty[];
+	children: ICalComponent[];
+}
+
+/** Date and time as written in the file, before applying a timezone */
+interface WallTime {
+	year: number;
+	month: number; // 1-12
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+}
+
+type Zone =
+	| { kind: 'utc' }
+	| { kind: 'floating' }
+	| { kind: 'iana'; tzid: string }
+	| { kind: 'offset'; offsetMinutes: number };
+
+interface ICalDateTime {
+	wall: WallTime;
+	zone: Zone;
+	/** True for all-day values (VALUE=DATE) */
+	isDate: boolean;
+}
+
+interface RecurrenceRule {
+	freq: 'DAILY' | 'WEEKLY';
+	interval: number;
+	count?: number;
+	until?: Date;
+	/** Weekdays, 0 = Sunday */
+	byDay?: number[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// 20251218 or 20251218T090000 or 20251218T090000Z
+const DATE_TIME_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+// P1D, PT1H30M, -PT15M, P1W
+const DURATION_PATTERN = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+// +0100, -0530
+const UTC_OFFSET_PATTERN = /^([+-])(\d{2})(\d{2})$/;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+/**
+ * Unfold continuation lines (RFC 5545 3.1), keeping the line number
+ * where each logical line starts
+ */
+function unfoldLines(text: string): { text: string; line: number }[] {
+	const result: { text: string; line: number }[] = [];
+	text.split(/\r?\n/).forEach((raw, index) => {
+		if ((raw.startsWith(' ') || raw.startsWith('\t')) && result.length > 0) {
+			result[result.length - 1].text += raw.slice(1);
+		} else if (raw.trim() !== '') {
+			result.push({ text: raw, line: index + 1 });
+		}
+	});
+	return result;
+}
+
+/**
+ * Split "NAME;PARAM=value:VALUE" into its parts
+ */
+function parseProperty(line: string): ICalProperty | null {
+	// The value starts at the first colon outside a quoted parameter
+	let inQuotes = false;
+	let colon = -1;
+	for (let i = 0; i < line.length; i++) {
+		const ch = line[i];
+		if (ch === '"') inQuotes = !inQuotes;
+		if (ch === ':' && !inQuotes) {
+			colon = i;
+			break;
+		}
+	}
+	if (colon === -1) return null;
+
+	const [name, ...paramParts] = line.slice(0, colon).split(';');
+	const params: Record<string, string> = {};
+	for (const part of paramParts) {
+		const eq = part.indexOf('=');
+		if (eq !== -1) {
+			params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+		}
+	}
+
+	return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Build the component tree of a calendar
+ */
+function parseComponents(text: string): ICalComponent {
+	const root: ICalComponent = {
+		type: 'ROOT',
+		line: 0,
+		properties: [],
+		children: []
+	};
+	const stack: ICalComponent[] = [root];
+
+	for (const { text: line, line: lineNum } of unfoldLines(text)) {
+		const property = parseProperty(line);
+		if (!property) continue;
+
+		const current = stack[stack.length - 1];
+		if (property.name === 'BEGIN') {
+			const component: ICalComponent = {
+				type: property.value.trim().toUpperCase(),
+				line: lineNum,
+				properties: [],
+				children: []
+			};
+			current.children.push(component);
+			stack.push(component);
+		} else if (property.name === 'END') {
+			if (stack.length > 1) stack.pop();
+		} else {
+			current.properties.push(property);
+		}
+	}
+
+	return root;
+}
+
+/**
+ * Collect components of a type anywhere in the tree
+ */
+function findComponents(component: ICalComponent, type: string): ICalComponent[] {
+	return component.children.flatMap((child) =>
+		child.type === type ? [child] : findComponents(child, type)
+	);
+}
+
+function getProperty(component: ICalComponent, name: string): ICalProperty | undefined {
+	return component.properties.find((p) => p.name === name);
+}
+
+/**
+ * Unescape a TEXT value
+ */
+function unescapeText(value: string): string {
+	return value
+		.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? ' ' : ch))
+		.trim();
+}
+
+// =============================================================================
+// Timezones
+// =============================================================================
+
+/**
+ * Check whether Intl knows a timezone name
+ */
+function isKnownTimeZone(tzid: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone: tzid });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Standard UTC offsets (minutes) of the VTIMEZONEs in the file, by TZID
+ */
+function readTimeZoneOffsets(root: ICalComponent): Map<string, number> {
+	const offsets = new Map<string, number>();
+	for (const vtimezone of findComponents(root, 'VTIMEZONE')) {
+		const tzid = getProperty(vtimezone, 'TZID')?.value;
+		const standard = vtimezone.children.find((c) => c.type === 'STANDARD') ?? vtimezone.children[0];
+		const match = standard && getProperty(standard, 'TZOFFSETTO')?.value.match(UTC_OFFSET_PATTERN);
+		if (tzid && match) {
+			const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+			offsets.set(tzid, match[1] === '-' ? -minutes : minutes);
+		}
+	}
+	return offsets;
+}
+
+/**
+ * Resolve a TZID parameter. Prefixed IDs such as
+ * "/mozilla.org/20050126_1/Europe/Berlin" fall back to their last segments.
+ */
+function resolveZone(tzid: string, offsets: Map<string, number>): Zone {
+	const segments = tzid.split('/').filter(Boolean);
+	const candidates = [tzid, segments.slice(-2).join('/'), segments.slice(-3).join('/')];
+	const known = candidates.find((candidate) => candidate && isKnownTimeZone(candidate));
+	if (known) {
+		return { kind: 'iana', tzid: known };
+	}
+
+	const offset = offsets.get(tzid);
+	if (offset !== undefined) {
+		return { kind: 'offset', offsetMinutes: offset };
+	}
+
+	// Unknown zone: treat as local time
+	return { kind: 'floating' };
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+function getZoneOffsetMs(instant: number, tzid: string): number {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone: tzid,
+		hourCycle: 'h23',
+		year: 'numeric',
+		month: 'numeric',
+		day: 'numeric',
+		hour: 'numeric',
+		minute: 'numeric',
+		second: 'numeric'
+	}).formatToParts(new Date(instant));
+	const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value ?? '0', 10);
+	const asUtc = Date.UTC(
+		get('year'),
+		get('month') - 1,
+		get('day'),
+		get('hour'),
+		get('minute'),
+		get('second')
+	);
+	return asUtc - (instant - (instant % 1000));
+}
+
+/**
+ * Convert a wall time in a zone to an instant
+ */
+function toDate(wall: WallTime, zone: Zone): Date {
+	const { year, month, day, hour, minute, second } = wall;
+	const utc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+	switch (zone.kind) {
+		case 'utc':
+			return new Date(utc);
+		case 'floating':
+			return new Date(year, month - 1, day, hour, minute, second);
+		case 'offset':
+			return new Date(utc - zone.offsetMinutes * 60 * 1000);
+		case 'iana': {
+			// Guess with the offset at the UTC reading, then correct once for DST edges
+			const firstOffset = getZoneOffsetMs(utc, zone.tzid);
+			const guess = utc - firstOffset;
+			const secondOffset = getZoneOffsetMs(guess, zone.tzid);
+			return new Date(secondOffset === firstOffset ? guess : utc - secondOffset);
+		}
+	}
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+/**
+ * Parse a DATE or DATE-TIME value
+ */
+function parseDateTime(
+	property: ICalProperty | undefined,
+	offsets: Map<string, number>
+): ICalDateTime | null {
+	if (!property) return null;
+
+	const match = property.value.trim().match(DATE_TIME_PATTERN);
+	if (!match) return null;
+
+	const isDate = match[4] === undefined || property.params.VALUE === 'DATE';
+	const wall: WallTime = {
+		year: parseInt(match[1], 10),
+		month: parseInt(match[2], 10),
+		day: parseInt(match[3], 10),
+		hour: isDate ? 0 : parseInt(match[4], 10),
+		minute: isDate ? 0 : parseInt(match[5], 10),
+		second: isDate ? 0 : parseInt(match[6], 10)
+	};
+
+	let zone: Zone = { kind: 'floating' };
+	if (match[7]) {
+		zone = { kind: 'utc' };
+	} else if (property.params.TZID) {
+		zone = resolveZone(property.params.TZID, offsets);
+	}
+
+	return { wall, zone, isDate };
+}
+
+/**
+ * Parse an ISO 8601 DURATION value to seconds
+ */
+function parseICalDuration(value: string): number | null {
+	const match = value.trim().match(DURATION_PATTERN);
+	if (!match) return null;
+
+	const [, sign, weeks, days, hours, minutes, seconds] = match;
+	const total =
+		(parseInt(weeks ?? '0', 10) * 7 + parseInt(days ?? '0', 10)) * 86400 +
+		parseInt(hours ?? '0', 10) * 3600 +
+		parseInt(minutes ?? '0', 10) * 60 +
+		parseInt(seconds ?? '0', 10);
+
+	return sign === '-' ? -total : total;
+}
+
+/**
+ * Parse a daily or weekly RRULE; other frequencies return null
+ */
+function parseRecurrenceRule(
+	value: string,
+	zone: Zone,
+	offsets: Map<string, number>
+): RecurrenceRule | null {
+	const parts = new Map(
+		value.split(';').map((part) => {
+			const [key, val = ''] = part.split('=');
+			return [key.toUpperCase(), val.toUpperCase()] as const;
+		})
+	);
+
+	const freq = parts.get('FREQ');
+	if (freq !== 'DAILY' && freq !== 'WEEKLY') return null;
+
+	const rule: RecurrenceRule = {
+		freq,
+		interval: Math.max(1, parseInt(parts.get('INTERVAL') ?? '1', 10) || 1)
+	};
+
+	const count = parseInt(parts.get('COUNT') ?? '', 10);
+	if (count > 0) rule.count = count;
+
+	const untilValue = parts.get('UNTIL');
+	if (untilValue) {
+		const until = parseDateTime({ name: 'UNTIL', params: {}, value: untilValue }, offsets);
+		if (until) {
+			// A date-only UNTIL includes that whole day
+			rule.until = until.isDate
+				? new Date(toDate(until.wall, zone).getTime() + MS_PER_DAY - 1)
+				: toDate(until.wall, until.zone.kind === 'utc' ? until.zone : zone);
+		}
+	}
+
+	const byDay = parts.get('BYDAY');
+	if (byDay) {
+		const days = byDay
+			.split(',')
+			.map((code) => WEEKDAY_CODES.indexOf(code.replace(/^[+-]?\d+/, '')))
+			.filter((day) => day !== -1);
+		if (days.length > 0) rule.byDay = days;
+	}
+
+	return rule;
+}
+
+// =============================================================================
+// Recurrence
+// =============================================================================
+
+/** Days since 1970-01-01 for a calendar date */
+function toDayNumber(year: number, month: number, day: number): number {
+	return Math.floor(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+}
+
+/** Calendar date for a day number */
+function fromDayNumber(dayNumber: number): Pick<WallTime, 'year' | 'month' | 'day'> {
+	const date = new Date(dayNumber * MS_PER_DAY);
+	return {
+		year: date.getUTCFullYear(),
+		month: date.getUTCMonth() + 1,
+		day: date.getUTCDate()
+	};
+}
+
+/** Weekday of a day number, 0 = Sunday (1970-01-01 was a Thursday) */
+function weekdayOf(dayNumber: number): number {
+	return (((dayNumber + 4) % 7) + 7) % 7;
+}
+
+/** Day number of the Monday starting the week */
+function weekStartOf(dayNumber: number): number {
+	return dayNumber - ((weekdayOf(dayNumber) + 6) % 7);
+}
+
+/**
+ * Check whether a day matches the rule's pattern (ignoring COUNT and UNTIL)
+ */
+function matchesRule(rule: RecurrenceRule, startDay: number, day: number): boolean {
+	if (day < startDay) return false;
+
+	if (rule.freq === 'DAILY') {
+		return (day - startDay) % rule.interval === 0;
+	}
+
+	const weekdays = rule.byDay ?? [weekdayOf(startDay)];
+	if (!weekdays.includes(weekdayOf(day))) return false;
+	const weeks = (weekStartOf(day) - weekStartOf(startDay)) / 7;
+	return weeks % rule.interval === 0;
+}
+
+/**
+ * Check whether a day is within the first COUNT occurrences
+ */
+function withinCount(rule: RecurrenceRule, startDay: number, day: number): boolean {
+	if (rule.count === undefined) return true;
+
+	let seen = 0;
+	for (let d = startDay; d <= day; d++) {
+		if (matchesRule(rule, startDay, d)) {
+			seen++;
+			if (seen > rule.count) return false;
+		}
+	}
+	return seen <= rule.count;
+}
+
+/**
+ * Instants removed from a recurring event by its EXDATEs.
+ * A date-only EXDATE removes the occurrence at the event's usual time.
+ */
+function getExcludedTimes(
+	event: ICalComponent,
+	start: ICalDateTime,
+	offsets: Map<string, number>
+): Set<number> {
+	const excluded = new Set<number>();
+	for (const property of event.properties.filter((p) => p.name === 'EXDATE')) {
+		for (const value of property.value.split(',')) {
+			const exdate = parseDateTime({ ...property, value }, offsets);
+			if (!exdate) continue;
+			const { year, month, day } = exdate.wall;
+			const instant = exdate.isDate
+				? toDate({ ...start.wall, year, month, day }, start.zone)
+				: toDate(exdate.wall, exdate.zone);
+			excluded.add(instant.getTime());
+		}
+	}
+	return excluded;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Parse an iCalendar file and keep the events that start on a given day.
+ *
+ * @param text - Contents of the .ics file
+ * @param day - Local day to import (time of day is ignored)
+ * @param sourceName - File name shown in file-level errors
+ * @returns Fixed DraftTasks sorted by start time, or validation errors
+ */
+export function parseCalendar(text: string, day: Date, sourceName: string): ParseResult {
+	const errors: ValidationError[] = [];
+	const root = parseComponents(text);
+
+	if (findComponents(root, 'VCALENDAR').length === 0) {
+		errors.push({
+			row: 0,
+			column: 'File',
+			value: sourceName,
+			message: 'File is not a valid iCalendar file.'
+		});
+		return { success: false, errors };
+	}
+
+	const offsets = readTimeZoneOffsets(root);
+	const dayStart = new Date(day.getFullYear(), day.getMonth(), day.getDate()).getTime();
+	const dayEnd = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime();
+	const targetDay = toDayNumber(day.getFullYear(), day.getMonth() + 1, day.getDate());
+	const isOnDay = (instant: Date) => instant.getTime() >= dayStart && instant.getTime() < dayEnd;
+
+	const events = findComponents(root, 'VEVENT');
+
+	// Instances moved or edited individually replace the generated occurrence
+	const overridden = new Set<string>();
+	for (const event of events) {
+		const uid = getProperty(event, 'UID')?.value ?? '';
+		const recurrenceId = parseDateTime(getProperty(event, 'RECURRENCE-ID'), offsets);
+		if (recurrenceId) {
+			overridden.add(`${uid}|${toDate(recurrenceId.wall, recurrenceId.zone).getTime()}`);
+		}
+	}
+
+	const tasks: DraftTask[] = [];
+
+	for (const event of events) {
+		const rowNum = event.line;
+		const name = unescapeText(getProperty(event, 'SUMMARY')?.value ?? '') || 'Untitled event';
+
+		if (getProperty(event, 'STATUS')?.value.trim().toUpperCase() === 'CANCELLED') continue;
+
+		const start = parseDateTime(getProperty(event, 'DTSTART'), offsets);
+		if (!start) {
+			errors.push({
+				row: rowNum,
+				column: 'DTSTART',
+				value: getProperty(event, 'DTSTART')?.value ?? '',
+				message: `Row ${rowNum}: Event '${name}' has a missing or invalid start.`
+			});
+			continue;
+		}
+
+		// All-day events don't block time in the schedule
+		if (start.isDate) continue;
+
+		const baseStart = toDate(start.wall, start.zone);
+
+		// Duration from DTEND, else DURATION
+		let durationSeconds: number | null = null;
+		const end = parseDateTime(getProperty(event, 'DTEND'), offsets);
+		const durationProp = getProperty(event, 'DURATION');
+		if (end) {
+			durationSeconds = Math.round(
+				(toDate(end.wall, end.zone).getTime() - baseStart.getTime()) / 1000
+			);
+		} else if (durationProp) {
+			durationSeconds = parseICalDuration(durationProp.value);
+		}
+
+		// Find this event's occurrences on the day
+		const occurrences: Date[] = [];
+		const rruleProp = getProperty(event, 'RRULE');
+		const rule =
+			rruleProp && !getProperty(event, 'RECURRENCE-ID')
+				? parseRecurrenceRule(rruleProp.value, start.zone, offsets)
+				: null;
+
+		if (rule) {
+			const uid = getProperty(event, 'UID')?.value ?? '';
+			const excluded = getExcludedTimes(event, start, offsets);
+			const startDay = toDayNumber(start.wall.year, start.wall.month, start.wall.day);
+
+			// The local day can be the day before or after in the event's zone
+			for (let candidate = targetDay - 1; candidate <= targetDay + 1; candidate++) {
+				if (!matchesRule(rule, startDay, candidate) || !withinCount(rule, startDay, candidate)) {
+					continue;
+				}
+				const instant = toDate({ ...start.wall, ...fromDayNumber(candidate) }, start.zone);
+				if (
+					isOnDay(instant) &&
+					(!rule.until || instant.getTime() <= rule.until.getTime()) &&
+					!excluded.has(instant.getTime()) &&
+					!overridden.has(`${uid}|${instant.getTime()}`)
+				) {
+					occurrences.push(instant);
+				}
+			}
+		} else if (isOnDay(baseStart)) {
+			occurrences.push(baseStart);
+		}
+
+		if (occurrences.length === 0) continue;
+
+		if (durationSeconds === null) {
+			errors.push({
+				row: rowNum,
+				column: 'DTEND',
+				value: '',
+				message: `Row ${rowNum}: Event '${name}' has no end time.`
+			});
+			continue;
+		}
+		if (durationSeconds <= 0) continue;
+		if (durationSeconds > MAX_DURATION_SECONDS) {
+			errors.push({
+				row: rowNum,
+				column: 'DTEND',
+				value: name,
+				message: `Row ${rowNum}: Event '${name}' is longer than 24 hours.`
+			});
+			continue;
+		}
+		if (name.length > MAX_TASK_NAME_LENGTH) {
+			errors.push({
+				row: rowNum,
+				column: 'SUMMARY',
+				value: name.substring(0, 47) + '...',
+				message: `Row ${rowNum}: Event name exceeds ${MAX_TASK_NAME_LENGTH} characters.`
+			});
+			continue;
+		}
+
+		for (const startTime of occurrences) {
+			tasks.push({
+				id: crypto.randomUUID(),
+				name,
+				startTime,
+				durationSeconds,
+				type: 'fixed',
+				sortOrder: 0,
+				hasWarning: false
+			});
+		}
+	}
+
+	if (errors.length > 0) {
+		return { success: false, errors };
+	}
+
+	if (tasks.length === 0) {
+		const label = `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
+		errors.push({
+			row: 0,
+			column: 'File',
+			value: sourceName,
+			message: `No timed events found on ${label}.`
+		});
+		return { success: false, errors };
+	}
+
+	tasks.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+	tasks.forEach((task, index) => {
+		task.sortOrder = index;
+	});
+
+	return { success: true, tasks };
+}
+
+// =============================================================================
+// Calendar Export (022-ics-export)
+// =============================================================================
+
+/** PRODID written to exported calendars */
+const CALENDAR_PRODID = '-//Micro Time Manager//Day Plan//EN';
+
+/** Domain part of exported UIDs, so they stay stable across exports */
+const UID_DOMAIN = 'micro-time-manager';
+
+/** Longest content line in octets before folding (RFC 5545 3.1) */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Format an instant as a UTC DATE-TIME ("20251218T090000Z")
+ */
+function formatICalDateTime(date: Date): string {
+	return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escape a TEXT value
+ */
+function escapeText(value: string): string {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\;')
+		.replace(/,/g, '\\,')
+		.replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line so no physical line exceeds 75 octets
+ */
+function foldLine(line: string): string {
+	const encoder = new TextEncoder();
+	const parts: string[] = [];
+	let current = '';
+	let octets = 0;
+
+	for (const ch of line) {
+		const size = encoder.encode(ch).length;
+		// Continuation lines start with a space, which counts toward the limit
+		const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+		if (octets + size > limit) {
+			parts.push(current);
+			current = '';
+			octets = 0;
+		}
+		current += ch;
+		octets += size;
+	}
+	parts.push(current);
+
+	return parts.join('\r\n ');
+}
+
+/**
+ * Build the VEVENT lines for one task
+ */
+function taskToEventLines(projected: ProjectedTask, stamp: string): string[] {
+	const { task } = projected;
+	const lines = [
+		'BEGIN:VEVENT',
+		`UID:${task.taskId}@${UID_DOMAIN}`,
+		`DTSTAMP:${stamp}`,
+		`DTSTART:${formatICalDateTime(projected.projectedStart)}`,
+		`DTEND:${formatICalDateTime(projected.projectedEnd)}`,
+		`SUMMARY:${escapeText(task.name)}`,
+		// Fixed appointments block the calendar; flexible work shows as free
+		`TRANSP:${task.type === 'fixed' ? 'OPAQUE' : 'TRANSPARENT'}`
+	];
+
+	if (task.notes) {
+		lines.push(`DESCRIPTION:${escapeText(task.notes)}`);
+	}
+	if (task.tags && task.tags.length > 0) {
+		lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+	}
+
+	lines.push('END:VEVENT');
+	return lines;
+}
+
+/**
+ * Generate an iCalendar file with one VEVENT per task.
+ *
+ * Times come from the projection: actual times for completed tasks,
+ * projected times for the current and pending ones.
+ *
+ * @param projected - Tasks from createProjectedTasks
+ * @param stamp - Time the calendar was created (DTSTAMP)
+ * @returns Calendar text with CRLF line endings
+ */
+export function generateCalendar(projected: ProjectedTask[], stamp: Date = new Date()): string {
+	const dtstamp = formatICalDateTime(stamp);
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		`PRODID:${CALENDAR_PRODID}`,
+		'CALSCALE:GREGORIAN',
+		'METHOD:PUBLISH',
+		...projected.flatMap((p) => taskToEventLines(p, dtstamp)),
+		'END:VCALENDAR'
+	];
+
+	return lines.map(foldLine).join('\r\n') + '\r\n';
+}
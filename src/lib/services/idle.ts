@@ -0,0 +1,116 @@
+/**
+ * Idle Time Service
+ *
+ * Feature: 027-idle-time
+ *
+ * Pure functions for time spent between tasks. Gaps are either
+ * unallocated or marked as a break; only idle time beyond the slack
+ * planned between two tasks puts the day behind schedule.
+ */
+
+import type { ConfirmedTask, FocusBreak, IdleGap, IdleTimeTotals } from '$lib/types';
+
+/**
+ * Duration of a gap in seconds, counting an ongoing gap up to now.
+ *
+ * @param gap - Idle gap
+ * @param nowMs - Current time (ms), used for an ongoing gap
+ */
+export function getGapDurationSec(gap: IdleGap, nowMs: number = Date.now()): number {
+	if (gap.endedAt !== null) {
+		return gap.durationSec;
+	}
+	return Math.max(0, Math.floor((nowMs - new Date(gap.startedAt).getTime()) / 1000));
+}
+
+/**
+ * Slack planned between a task's end and the next task's start.
+ *
+ * @param previousTask - Task completed before the gap, null if none
+ * @param nextTask - Task started after the gap
+ * @returns Planned free time (seconds), 0 when the tasks were back to back or overlapping
+ */
+export function calculatePlannedSlackSec(
+	previousTask: ConfirmedTask | null,
+	nextTask: ConfirmedTask
+): number {
+	if (!previousTask) {
+		return 0;
+	}
+	const previousEndMs =
+		previousTask.plannedStart.getTime() + previousTask.plannedDurationSec * 1000;
+	return Math.max(0, Math.floor((nextTask.plannedStart.getTime() - previousEndMs) / 1000));
+}
+
+/**
+ * Lag added by an idle gap: the idle time that ate past the planned slack.
+ *
+ * @param gapSec - Idle time before the next task (seconds)
+ * @param previousTask - Task completed before the gap, null if none
+ * @param nextTask - Task started after the gap
+ * @returns Lag in seconds (never negative)
+ */
+export function calculateGapLagSec(
+	gapSec: number,
+	previousTask: ConfirmedTask | null,
+	nextTask: ConfirmedTask
+): number {
+	return Math.max(0, gapSec - calculatePlannedSlackSec(previousTask, nextTask));
+}
+
+/**
+ * Idle time since a task, across every gap piece that follows it.
+ * Interruptions and pauses between tasks split the time into several gaps,
+ * so the trailing gaps after the same task are added up.
+ *
+ * @param gaps - Idle gaps in the order they started
+ * @param afterTaskId - Task completed before the gaps, null if none
+ * @param nowMs - Current time (ms), used for an ongoing gap
+ * @returns Idle time (seconds)
+ */
+export function calculateIdleSinceTaskSec(
+	gaps: readonly IdleGap[],
+	afterTaskId: string | null,
+	nowMs: number = Date.now()
+): number {
+	let idleSec = 0;
+	for (let i = gaps.length - 1; i >= 0 && gaps[i].afterTaskId === afterTaskId; i--) {
+		idleSec += getGapDurationSec(gaps[i], nowMs);
+	}
+	return idleSec;
+}
+
+/**
+ * Split time outside tasks into unallocated and break time.
+ * Pomodoro breaks taken between tasks already fall inside a gap, so only
+ * breaks that paused a task are added on top.
+ *
+ * @param gaps - Idle gaps (an ongoing gap counts up to now)
+ * @param breaks - Completed Pomodoro breaks
+ * @param nowMs - Current time (ms)
+ */
+export function calculateIdleTotals(
+	gaps: readonly IdleGap[],
+	breaks: readonly FocusBreak[] = [],
+	nowMs: number = Date.now()
+): IdleTimeTotals {
+	let unallocatedSec = 0;
+	let breakSec = 0;
+
+	for (const gap of gaps) {
+		const durationSec = getGapDurationSec(gap, nowMs);
+		if (gap.kind === 'break') {
+			breakSec += durationSec;
+		} else {
+			unallocatedSec += durationSec;
+		}
+	}
+
+	for (const focusBreak of breaks) {
+		if (focusBreak.taskId !== null) {
+			breakSec += focusBreak.durationSec;
+		}
+	}
+
+	return { unallocatedSec, breakSec };
+}
@@ -0,0 +1,163 @@
+/**
+ * Interruption Categories Service
+ *
+ * Feature: 034-interruption-categories
+ *
+ * Pure functions to look up and edit the user-defined interruption
+ * categories. Interruptions store a category ID; an ID that is not in the
+ * list (e.g. from an older backup) is shown as is.
+ */
+
+import type { CategoryTotal, Interruption, InterruptionCategory } from '$lib/types';
+import { CATEGORY_COLORS, MAX_CATEGORY_NAME_LENGTH } from '$lib/types';
+
+/** Color for interruptions whose category is not in the list */
+const UNKNOWN_CATEGORY_COLOR = '#9ca3af';
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Find a category by ID.
+ *
+ * @param categories - Category list
+ * @param categoryId - ID to look for
+ */
+export function findCategory(
+	categories: readonly InterruptionCategory[],
+	categoryId: string | null
+): InterruptionCategory | undefined {
+	if (categoryId === null) return undefined;
+	return categories.find((c) => c.categoryId === categoryId);
+}
+
+/**
+ * Display name of a category.
+ *
+ * @param categories - Category list
+ * @param categoryId - ID of the category, null for none
+ * @returns The category name, the ID itself if unknown, or '' for none
+ */
+export function getCategoryName(
+	categories: readonly InterruptionCategory[],
+	categoryId: string | null
+): string {
+	if (categoryId === null) return '';
+	return findCategory(categories, categoryId)?.name ?? categoryId;
+}
+
+/**
+ * Display color of a category.
+ *
+ * @param categories - Category list
+ * @param categoryId - ID of the category
+ * @returns The category color, or gray if unknown
+ */
+export function getCategoryColor(
+	categories: readonly InterruptionCategory[],
+	categoryId: string | null
+): string {
+	return findCategory(categories, categoryId)?.color ?? UNKNOWN_CATEGORY_COLOR;
+}
+
+/**
+ * Categories that can be picked for new interruptions.
+ *
+ * @param categories - Category list
+ * @param keepId - ID to keep even if archived, e.g. the current selection
+ */
+export function getActiveCategories(
+	categories: readonly InterruptionCategory[],
+	keepId: string | null = null
+): InterruptionCategory[] {
+	return categories.filter((c) => !c.archived || c.categoryId === keepId);
+}
+
+/**
+ * Check a category name.
+ *
+ * @param name - Name as entered (trimmed before checking)
+ * @param categories - Existing categories, names must be unique
+ * @param ignoreId - Category being renamed, excluded from the uniqueness check
+ * @returns An error message, or null if the name can be used
+ */
+export function getCategoryNameError(
+	name: string,
+	categories: readonly InterruptionCategory[],
+	ignoreId: string | null = null
+): string | null {
+	const trimmed = name.trim();
+	if (!trimmed) {
+		return 'Category name is required';
+	}
+	if (trimmed.length > MAX_CATEGORY_NAME_LENGTH) {
+		return `Category name must be ${MAX_CATEGORY_NAME_LENGTH} characters or less`;
+	}
+
+	const lower = trimmed.toLowerCase();
+	const duplicate = categories.some(
+		(c) => c.categoryId !== ignoreId && c.name.toLowerCase() === lower
+	);
+	return duplicate ? `A category named "${trimmed}" already exists` : null;
+}
+
+/**
+ * Whether a color is a #rrggbb value.
+ */
+export function isValidCategoryColor(color: string): boolean {
+	return COLOR_PATTERN.test(color);
+}
+
+/**
+ * Create a category, picking the next color of the palette.
+ *
+ * @param name - Category name, already checked with getCategoryNameError
+ * @param categories - Existing categories
+ */
+export function createCategory(
+	name: string,
+	categories: readonly InterruptionCategory[]
+): InterruptionCategory {
+	return {
+		categoryId: crypto.randomUUID(),
+		name,
+		color: CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length],
+		defaultNote: '',
+		archived: false
+	};
+}
+
+/**
+ * Count interruptions and their time per category.
+ *
+ * @param interruptions - Interruptions to total
+ * @param categories - Category list, for names, colors and order
+ * @returns Totals of the categories with interruptions, in list order, then
+ *   unknown categories, then interruptions without a category
+ */
+export function totalByCategory(
+	interruptions: readonly Interruption[],
+	categories: readonly InterruptionCategory[]
+): CategoryTotal[] {
+	const totals = new Map<string | null, CategoryTotal>();
+	for (const interruption of interruptions) {
+		const id = interruption.category;
+		const total = totals.get(id) ?? {
+			categoryId: id,
+			name: id === null ? 'Uncategorized' : getCategoryName(categories, id),
+			color: getCategoryColor(categories, id),
+			count: 0,
+			totalSec: 0
+		};
+		total.count += 1;
+		total.totalSec += interruption.durationSec;
+		totals.set(id, total);
+	}
+
+	const rank = (id: string | null): number => {
+		if (id === null) return categories.length + 1;
+		const index = categories.findIndex((c) => c.categoryId === id);
+		return index === -1 ? categories.length : index;
+	};
+
+	return [...totals.values()].sort((a, b) => rank(a.categoryId) - rank(b.categoryId));
+}
@@ -0,0 +1,46 @@
+/**
+ * Interruption Tasks Service
+ *
+ * Feature: 038-interruption-to-task
+ *
+ * Pure functions for turning an interruption that became real work into an
+ * ad-hoc task. The task takes over the interruption's time, so the
+ * interruption itself is removed.
+ */
+
+import type { Interruption, InterruptionCategory } from '$lib/types';
+import { MAX_TASK_NAME_LENGTH } from '$lib/types';
+import { findCategory } from '$lib/services/interruptionCategories';
+
+/** Shortest planned duration of a task made from an interruption (seconds) */
+export const MIN_CONVERTED_TASK_DURATION_SEC = 60;
+
+/**
+ * Name of the task an interruption is turned into.
+ *
+ * @param interruption - Interruption to convert
+ * @param categories - Category list, for the category name
+ * @returns The note, else the category name, else "Interruption"
+ */
+export function getConvertedTaskName(
+	interruption: Interruption,
+	categories: readonly InterruptionCategory[]
+): string {
+	const name =
+		interruption.note?.trim() ||
+		findCategory(categories, interruption.category)?.name ||
+		'Interruption';
+	return name.slice(0, MAX_TASK_NAME_LENGTH);
+}
+
+/**
+ * Whether an interruption can be turned into a task.
+ *
+ * Interruptions logged after the fact (036-past-interruptions) were already
+ * counted on a task, so turning them into one would count their time twice.
+ *
+ * @param interruption - Interruption to check
+ */
+export function canConvertToTask(interruption: Interruption): boolean {
+	return interruption.loggedAt === undefined;
+}
@@ -1,31 +1,50 @@
 /**
  * File Parser Service
  *
- * Parses Excel and CSV files containing schedule data.
+ * Parses Excel and CSV files containing schedule data, and schedules
+ * pasted as plain text (020-text-import). iCalendar files are handed to
+ * the ical service (021-ics-import).
  * All processing is client-side using SheetJS.
  */
 
 import * as XLSX from 'xlsx';
 import { parseDuration } from '$lib/utils/duration';
 import { parseTime } from '$lib/utils/time';
+import { parsePriority, parseTags } from '$lib/utils/taskMetadata';
+import { parseCalendar } from './ical';
 import type {
 	DraftTask,
 	ValidationError,
 	ParseResult,
 	SupportedFileType,
-	TaskType
+	TaskType,
+	ScheduleParseOptions,
+	ScheduleField,
+	ColumnMapping,
+	SheetInfo,
+	InspectResult,
+	SavedColumnMapping
 } from '$lib/types';
 import {
 	REQUIRED_COLUMNS,
+	OPTIONAL_COLUMNS,
+	HEADER_SYNONYMS,
+	EXPORT_TASKS_SHEET_NAME,
+	EXPORT_COLUMN_ALIASES,
+	EXPORT_STATUS_COLUMN,
 	MAX_FILE_SIZE,
 	MAX_TASK_NAME_LENGTH,
-	MAX_DURATION_SECONDS
+	MAX_DURATION_SECONDS,
+	MAX_PROJECT_LENGTH,
+	MAX_TAG_LENGTH,
+	MAX_TAGS_PER_TASK,
+	MAX_TASK_NOTES_LENGTH
 } from '$lib/types';
 
 /**
  * Supported file extensions
  */
-const SUPPORTED_EXTENSIONS: SupportedFileType[] = ['.xlsx', '.xls', '.csv'];
+const SUPPORTED_EXTENSIONS: SupportedFileType[] = ['.xlsx', '.xls', '.csv', '.ics'];
 
 /**
  * Generate a UUID v4
@@ -72,6 +91,13 @@ export function getAcceptString(): string {
 	return SUPPORTED_EXTENSIONS.join(',');
 }
 
+/**
+ * Check if a file is an iCalendar file (021-ics-import)
+ */
+export function isCalendarFile(file: File): boolean {
+	return getFileExtension(file.name) === '.ics';
+}
+
 /**
  * Truncate string to max length for error display
  */
@@ -112,10 +138,132 @@ function parseTaskType(value: string): TaskType | null {
 	return null;
 }
 
+/** Optional task fields parsed from a row (018-task-metadata) */
+type TaskMetadata = Pick<DraftTask, 'project' | 'tags' | 'priority' | 'notes'>;
+
 /**
- * Parse a schedule file
+ * Parse the optional Project/Tags/Priority/Notes cells of a row.
+ * Blank cells are left unset; invalid values add a ValidationError.
+ */
+function parseTaskMetadata(
+	row: unknown[],
+	columnIndices: Partial<Record<(typeof OPTIONAL_COLUMNS)[number], number>>,
+	rowNum: number,
+	errors: ValidationError[]
+): TaskMetadata {
+	const metadata: TaskMetadata = {};
+	const cell = (col: (typeof OPTIONAL_COLUMNS)[number]): string => {
+		const index = columnIndices[col];
+		return index === undefined ? '' : String(row[index] ?? '').trim();
+	};
+
+	// Project
+	const rawProject = cell('Project');
+	if (rawProject.length > MAX_PROJECT_LENGTH) {
+		errors.push({
+			row: rowNum,
+			column: 'Project',
+			value: truncateValue(rawProject),
+			message: `Row ${rowNum}: Project exceeds ${MAX_PROJECT_LENGTH} characters.`
+		});
+	} else if (rawProject) {
+		metadata.project = rawProject;
+	}
+
+	// Tags
+	const rawTags = cell('Tags');
+	const tags = parseTags(rawTags);
+	const longTag = tags.find((tag) => tag.length > MAX_TAG_LENGTH);
+	if (longTag) {
+		errors.push({
+			row: rowNum,
+			column: 'Tags',
+			value: truncateValue(longTag),
+			message: `Row ${rowNum}: Tag '${truncateValue(longTag)}' exceeds ${MAX_TAG_LENGTH} characters.`
+		});
+	} else if (tags.length > MAX_TAGS_PER_TASK) {
+		errors.push({
+			row: rowNum,
+			column: 'Tags',
+			value: truncateValue(rawTags),
+			message: `Row ${rowNum}: A task can have at most ${MAX_TAGS_PER_TASK} tags.`
+		});
+	} else if (tags.length > 0) {
+		metadata.tags = tags;
+	}
+
+	// Priority
+	const rawPriority = cell('Priority');
+	if (rawPriority) {
+		const priority = parsePriority(rawPriority);
+		if (priority) {
+			metadata.priority = priority;
+		} else {
+			errors.push({
+				row: rowNum,
+				column: 'Priority',
+				value: truncateValue(rawPriority),
+				message: `Row ${rowNum}: Priority must be 'high', 'medium' or 'low', got '${truncateValue(rawPriority)}'.`
+			});
+		}
+	}
+
+	// Notes
+	const rawNotes = cell('Notes');
+	if (rawNotes.length > MAX_TASK_NOTES_LENGTH) {
+		errors.push({
+			row: rowNum,
+			column: 'Notes',
+			value: truncateValue(rawNotes),
+			message: `Row ${rowNum}: Notes exceed ${MAX_TASK_NOTES_LENGTH} characters.`
+		});
+	} else if (rawNotes) {
+		metadata.notes = rawNotes;
+	}
+
+	return metadata;
+}
+
+/**
+ * Check whether headers match the app's own task export
+ * (017-export-reimport): "Planned Start"/"Planned Duration" instead of
+ * "Start Time"/"Duration".
  */
-export async function parseScheduleFile(file: File): Promise<ParseResult> {
+export function isExportLayout(headers: string[]): boolean {
+	return (
+		findColumnIndex(headers, 'Start Time') === -1 &&
+		findColumnIndex(headers, 'Duration') === -1 &&
+		REQUIRED_COLUMNS.every(
+			(col) => findColumnIndex(headers, EXPORT_COLUMN_ALIASES[col] ?? col) !== -1
+		)
+	);
+}
+
+/**
+ * Read the header row of a sheet
+ */
+function getSheetHeaders(sheet: XLSX.WorkSheet): string[] {
+	const rows = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, defval: '' });
+	return rows.length > 0 ? rows[0].map(String) : [];
+}
+
+/**
+ * Pick the sheet holding the schedule.
+ * Exported workbooks keep tasks on the "Tasks" sheet next to
+ * Interruptions, Notes and Summary, which are ignored.
+ */
+function findScheduleSheetName(workbook: XLSX.WorkBook): string | undefined {
+	const exportSheet = workbook.Sheets[EXPORT_TASKS_SHEET_NAME];
+	if (exportSheet && isExportLayout(getSheetHeaders(exportSheet))) {
+		return EXPORT_TASKS_SHEET_NAME;
+	}
+	return workbook.SheetNames[0];
+}
+
+/**
+ * Check an upload's type and size
+ */
+function validateUpload(file: File): ValidationError[] {
 	const errors: ValidationError[] = [];
 
 	// Validate file type
@@ -124,9 +272,9 @@ export async function parseScheduleFile(file: File): Promise<ParseResult> {
 			row: 0,
 			column: 'File',
 			value: getFileExtension(file.name) || 'unknown',
-			message: `Unsupported file type. Please use .xlsx, .xls, or .csv files.`
+			message: `Unsupported file type. Please use .xlsx, .xls, .csv, or .ics files.`
 		});
-		return { success: false, errors };
+		return errors;
 	}
 
 	// Validate file size
@@ -138,7 +286,20 @@ export async function parseScheduleFile(file: File): Promise<ParseResult> {
 			value: `${sizeMB}MB`,
 			message: `File exceeds 1MB limit. Please use a smaller file.`
 		});
-		return { success: false, errors };
+	}
+
+	return errors;
+}
+
+/**
+ * Validate and read an uploaded spreadsheet
+ */
+async function readWorkbook(
+	file: File
+): Promise<{ workbook: XLSX.WorkBook } | { errors: ValidationError[] }> {
+	const errors = validateUpload(file);
+	if (errors.length > 0) {
+		return { errors };
 	}
 
 	// Read file as ArrayBuffer
@@ -152,7 +313,7 @@ export async function parseScheduleFile(file: File): Promise<ParseResult> {
 			value: file.name,
 			message: 'Failed to read file. Please try again.'
 		});
-		return { success: false, errors };
+		return { errors };
 	}
 
 	// Parse with SheetJS
@@ -166,11 +327,161 @@ export async function parseScheduleFile(file: File): Promise<ParseResult> {
 			value: file.name,
 			message: 'Failed to parse file. Please ensure it is a valid spreadsheet.'
 		});
-		return { success: false, errors };
+		return { errors };
 	}
 
-	// Get first sheet
-	const sheetName = workbook.SheetNames[0];
+	return { workbook };
+}
+
+/**
+ * Read the first data row of a sheet, padded to the header length
+ */
+function getSheetSampleRow(sheet: XLSX.WorkSheet, width: number): string[] {
+	const rows = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, defval: '' });
+	const sample = rows
+		.slice(1)
+		.find((row) => row.some((cell) => String(cell ?? '').trim() !== ''));
+	return Array.from({ length: width }, (_, i) => String(sample?.[i] ?? ''));
+}
+
+/**
+ * List the sheets of a file with their headers (019-column-mapping)
+ *
+ * @param file - File to inspect
+ * @returns Sheets and the one parseScheduleFile would pick by default
+ */
+export async function inspectScheduleFile(file: File): Promise<InspectResult> {
+	const read = await readWorkbook(file);
+	if ('errors' in read) {
+		return { success: false, errors: read.errors };
+	}
+
+	const { workbook } = read;
+	const defaultSheet = findScheduleSheetName(workbook);
+	if (!defaultSheet) {
+		return {
+			success: false,
+			errors: [{ row: 0, column: 'File', value: file.name, message: 'No sheets found in file.' }]
+		};
+	}
+
+	const sheets: SheetInfo[] = workbook.SheetNames.map((name) => {
+		const sheet = workbook.Sheets[name];
+		const headers = getSheetHeaders(sheet);
+		return { name, headers, sampleRow: getSheetSampleRow(sheet, headers.length) };
+	});
+
+	return { success: true, sheets, defaultSheet };
+}
+
+/**
+ * Check whether headers can be parsed without a column mapping:
+ * the template column names or the app's own export layout.
+ */
+export function hasScheduleColumns(headers: string[]): boolean {
+	return (
+		isExportLayout(headers) ||
+		REQUIRED_COLUMNS.every((col) => findColumnIndex(headers, col) !== -1)
+	);
+}
+
+/**
+ * Guess which header holds each field using HEADER_SYNONYMS.
+ * Each header is used at most once; earlier synonyms win.
+ *
+ * @param headers - Header row of the sheet
+ * @returns Suggested mapping (fields without a match are left out)
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+	const mapping: ColumnMapping = {};
+	const used = new Set<number>();
+	const fields: ScheduleField[] = [...REQUIRED_COLUMNS, ...OPTIONAL_COLUMNS];
+
+	for (const field of fields) {
+		for (const synonym of HEADER_SYNONYMS[field]) {
+			const index = headers.findIndex(
+				(h, i) => !used.has(i) && normalizeColumnName(String(h)) === synonym
+			);
+			if (index !== -1) {
+				used.add(index);
+				mapping[field] = headers[index];
+				break;
+			}
+		}
+	}
+
+	return mapping;
+}
+
+/**
+ * Check that every required field is mapped to a header
+ */
+export function isMappingComplete(mapping: ColumnMapping): boolean {
+	return REQUIRED_COLUMNS.every((col) => !!mapping[col]);
+}
+
+/**
+ * Key identifying a file layout by its header row (case and spacing ignored)
+ */
+export function getLayoutKey(headers: string[]): string {
+	return headers.map((h) => normalizeColumnName(String(h))).join('|');
+}
+
+/**
+ * Find a remembered mapping whose sheet and layout appear in the file
+ *
+ * @param sheets - Sheets from inspectScheduleFile
+ * @param saved - Remembered mappings (settings.columnMappings)
+ */
+export function findSavedMapping(
+	sheets: SheetInfo[],
+	saved: SavedColumnMapping[]
+): SavedColumnMapping | undefined {
+	return saved.find((entry) =>
+		sheets.some(
+			(sheet) => sheet.name === entry.sheetName && getLayoutKey(sheet.headers) === entry.layoutKey
+		)
+	);
+}
+
+/**
+ * Parse a schedule file
+ *
+ * Accepts the schedule template (Task Name, Start Time, Duration, Type) and
+ * the app's own Excel/CSV task export, whose Planned Start and Planned
+ * Duration columns are mapped onto the template columns. Any other layout
+ * can be read by passing a sheetName and columnMapping (019-column-mapping).
+ *
+ * @param file - File to parse
+ * @param options - Parse options (see ScheduleParseOptions)
+ */
+export async function parseScheduleFile(
+	file: File,
+	options: ScheduleParseOptions = {}
+): Promise<ParseResult> {
+	const errors: ValidationError[] = [];
+
+	if (isCalendarFile(file)) {
+		return parseCalendarFile(file, options.calendarDate ?? new Date());
+	}
+
+	const read = await readWorkbook(file);
+	if ('errors' in read) {
+		return { success: false, errors: read.errors };
+	}
+	const { workbook } = read;
+
+	// Get the schedule sheet (chosen sheet, else first sheet or "Tasks" for exported workbooks)
+	if (options.sheetName && !workbook.Sheets[options.sheetName]) {
+		errors.push({
+			row: 0,
+			column: 'File',
+			value: options.sheetName,
+			message: `Sheet '${options.sheetName}' not found in file.`
+		});
+		return { success: false, errors };
+	}
+	const sheetName = options.sheetName ?? findScheduleSheetName(workbook);
 	if (!sheetName) {
 		errors.push({
 			row: 0,
@@ -199,13 +510,66 @@ export async function parseScheduleFile(file: File): Promise<ParseResult> {
 		return { success: false, errors };
 	}
 
+	return parseRows(rows, file.name, options);
+}
+
+/**
+ * Read the events of one day from an .ics file as fixed tasks (021-ics-import)
+ */
+async function parseCalendarFile(file: File, day: Date): Promise<ParseResult> {
+	const errors = validateUpload(file);
+	if (errors.length > 0) {
+		return { success: false, errors };
+	}
+
+	let text: string;
+	try {
+		text = new TextDecoder('utf-8').decode(await file.arrayBuffer());
+	} catch {
+		errors.push({
+			row: 0,
+			column: 'File',
+			value: file.name,
+			message: 'Failed to read file. Please try again.'
+		});
+		return { success: false, errors };
+	}
+
+	return parseCalendar(text, day, file.name);
+}
+
+/**
+ * Validate header and data rows and build DraftTasks.
+ * Shared by spreadsheet files and pasted tab-separated text.
+ *
+ * @param rows - Header row followed by data rows
+ * @param sourceName - File name shown in file-level errors
+ * @param options - Parse options (see ScheduleParseOptions)
+ */
+function parseRows(
+	rows: string[][],
+	sourceName: string,
+	options: ScheduleParseOptions
+): ParseResult {
+	const errors: ValidationError[] = [];
+
 	// Get headers from first row
 	const headers = rows[0].map(String);
 
+	// Exported task lists use different names for some required columns
+	const isExport = isExportLayout(headers);
+
 	// Find required column indices
 	const columnIndices: Record<string, number> = {};
+	// A column mapping (019-column-mapping) names the header for each field
+	const { columnMapping } = options;
 	for (const colName of REQUIRED_COLUMNS) {
-		const index = findColumnIndex(headers, colName);
+		const sourceName = columnMapping
+			? (columnMapping[colName] ?? '')
+			: isExport
+				? (EXPORT_COLUMN_ALIASES[colName] ?? colName)
+				: colName;
+		const index = sourceName ? findColumnIndex(headers, sourceName) : -1;
 		if (index === -1) {
 			errors.push({
 				row: 1,
@@ -223,6 +587,16 @@ export async function parseScheduleFile(file: File): Promise<ParseResult> {
 		return { success: false, errors };
 	}
 
+	// Optional columns are read when present (018-task-metadata)
+	const optionalIndices: Partial<Record<(typeof OPTIONAL_COLUMNS)[number], number>> = {};
+	for (const colName of OPTIONAL_COLUMNS) {
+		const sourceName = columnMapping ? (columnMapping[colName] ?? '') : colName;
+		const index = sourceName ? findColumnIndex(headers, sourceName) : -1;
+		if (index !== -1) {
+			optionalIndices[colName] = index;
+		}
+	}
+
 	// Check for data rows
 	const dataRows = rows.slice(1).filter((row) =>
 		row.some((cell) => cell !== null && cell !== undefined && String(cell).trim() !== '')
@@ -232,7 +606,7 @@ export async function parseScheduleFile(file: File): Promise<ParseResult> {
 		errors.push({
 			row: 0,
 			column: 'File',
-			value: file.name,
+			value: sourceName,
 			message: 'No tasks found. Please add at least one task row.'
 		});
 		return { success: false, errors };
@@ -244,11 +618,18 @@ export async function parseScheduleFile(file: File): Promise<ParseResult> {
 	const startTimeIdx = columnIndices['Start Time'];
 	const durationIdx = columnIndices['Duration'];
 	const typeIdx = columnIndices['Type'];
+	const statusIdx =
+		isExport && options.unfinishedOnly ? findColumnIndex(headers, EXPORT_STATUS_COLUMN) : -1;
 
 	for (let i = 0; i < dataRows.length; i++) {
 		const row = dataRows[i];
 		const rowNum = i + 2; // 1-based, skip header
 
+		// Skip finished tasks when carrying over from an export
+		if (statusIdx !== -1 && normalizeColumnName(String(row[statusIdx] ?? '')) === 'complete') {
+			continue;
+		}
+
 		// Task Name
 		const rawName = String(row[taskNameIdx] ?? '').trim();
 		if (!rawName) {
@@ -344,6 +725,9 @@ export async function parseScheduleFile(file: File): Promise<ParseResult> {
 			});
 		}
 
+		// Optional Project/Tags/Priority/Notes
+		const metadata = parseTaskMetadata(row, optionalIndices, rowNum, errors);
+
 		// If this row has no errors, create a DraftTask
 		// For flexible tasks without start time, use a placeholder (will be calculated by schedule calculator)
 		const hasValidStartTime = startTime || (taskType === 'flexible' && !rawTime);
@@ -358,7 +742,8 @@ export async function parseScheduleFile(file: File): Promise<ParseResult> {
 				durationSeconds,
 				type: taskType,
 				sortOrder: i,
-				hasWarning: false
+				hasWarning: false,
+				...metadata
 			});
 		}
 	}
@@ -368,7 +753,23 @@ export async function parseScheduleFile(file: File): Promise<ParseResult> {
 		return { success: false, errors };
 	}
 
-	// Sort tasks by start time
+	if (tasks.length === 0) {
+		errors.push({
+			row: 0,
+			column: 'File',
+			value: sourceName,
+			message: 'No unfinished tasks found in this export.'
+		});
+		return { success: false, errors };
+	}
+
+	return { success: true, tasks: sortByStartTime(tasks) };
+}
+
+/**
+ * Sort tasks by start time and renumber sortOrder
+ */
+function sortByStartTime(tasks: DraftTask[]): DraftTask[] {
 	tasks.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
 
 	// Update sort order after sorting
@@ -376,5 +777,208 @@ export async function parseScheduleFile(file: File): Promise<ParseResult> {
 		task.sortOrder = index;
 	});
 
-	return { success: true, tasks };
+	return tasks;
+}
+
+
+// =============================================================================
+// Plain-text Import (020-text-import)
+// =============================================================================
+
+/** Name shown in file-level errors for pasted text */
+const PASTED_TEXT_NAME = 'Pasted text';
+
+// List markers allowed before a line: "- ", "* ", "• ", "1. ", "1) "
+const LIST_MARKER_PATTERN = /^(?:[-*•]|\d+[.)])\s+/;
+
+// 12-hour suffix written as a separate word: "9:00 AM"
+const MERIDIEM_PATTERN = /^(am|pm)$/i;
+
+/**
+ * Find the duration at the end of a line's tokens.
+ * Tries the longest form first so "1h 30m" wins over "30m".
+ *
+ * @returns Duration and how many tokens it used, or null
+ */
+function takeTrailingDuration(tokens: string[]): { seconds: number; count: number } | null {
+	for (let count = Math.min(3, tokens.length); count >= 1; count--) {
+		const seconds = parseDuration(tokens.slice(-count).join(' '));
+		if (seconds !== null) {
+			return { seconds, count };
+		}
+	}
+	return null;
+}
+
+/**
+ * Parse one plain-text line: [time] name duration [type]
+ */
+function parseTextLine(
+	line: string,
+	rowNum: number,
+	errors: ValidationError[]
+): DraftTask | null {
+	const tokens = line.replace(LIST_MARKER_PATTERN, '').split(/\s+/).filter(Boolean);
+	const errorCount = errors.length;
+
+	// Optional leading start time ("09:00", "9:00 AM")
+	let startTime: Date | null = null;
+	if (tokens[0]?.includes(':')) {
+		const usesMeridiem = tokens.length > 1 && MERIDIEM_PATTERN.test(tokens[1]);
+		const rawTime = usesMeridiem ? `${tokens[0]} ${tokens[1]}` : tokens[0];
+		startTime = parseTime(rawTime);
+		if (!startTime) {
+			errors.push({
+				row: rowNum,
+				column: 'Start Time',
+				value: truncateValue(rawTime),
+				message: `Row ${rowNum}: Invalid time format '${truncateValue(rawTime)}'.`
+			});
+		}
+		tokens.splice(0, usesMeridiem ? 2 : 1);
+	}
+
+	// Optional trailing type
+	let taskType: TaskType | null = null;
+	if (tokens.length > 1) {
+		taskType = parseTaskType(tokens[tokens.length - 1]);
+		if (taskType) {
+			tokens.pop();
+		}
+	}
+
+	// Duration (required, at the end)
+	const duration = takeTrailingDuration(tokens);
+	if (!duration) {
+		errors.push({
+			row: rowNum,
+			column: 'Duration',
+			value: truncateValue(line.trim()),
+			message: `Row ${rowNum}: No duration found. End the line with a duration like 30m or 1h 30m.`
+		});
+	} else {
+		tokens.splice(tokens.length - duration.count, duration.count);
+		if (duration.seconds <= 0) {
+			errors.push({
+				row: rowNum,
+				column: 'Duration',
+				value: truncateValue(line.trim()),
+				message: `Row ${rowNum}: Duration must be greater than 0.`
+			});
+		} else if (duration.seconds > MAX_DURATION_SECONDS) {
+			errors.push({
+				row: rowNum,
+				column: 'Duration',
+				value: truncateValue(line.trim()),
+				message: `Row ${rowNum}: Duration cannot exceed 24 hours.`
+			});
+		}
+	}
+
+	// Task name is whatever is left
+	const name = tokens.join(' ');
+	if (!name) {
+		errors.push({
+			row: rowNum,
+			column: 'Task Name',
+			value: '',
+			message: `Row ${rowNum}: Task Name cannot be empty.`
+		});
+	} else if (name.length > MAX_TASK_NAME_LENGTH) {
+		errors.push({
+			row: rowNum,
+			column: 'Task Name',
+			value: truncateValue(name),
+			message: `Row ${rowNum}: Task Name exceeds ${MAX_TASK_NAME_LENGTH} characters.`
+		});
+	}
+
+	// A start time makes the task fixed unless a type says otherwise
+	const type: TaskType = taskType ?? (startTime ? 'fixed' : 'flexible');
+	if (type === 'fixed' && !startTime && errors.length === errorCount) {
+		errors.push({
+			row: rowNum,
+			column: 'Start Time',
+			value: '',
+			message: `Row ${rowNum}: Start Time is required for fixed tasks.`
+		});
+	}
+
+	if (errors.length > errorCount || !duration) {
+		return null;
+	}
+
+	return {
+		id: generateId(),
+		name,
+		// Flexible tasks get a placeholder; the schedule calculator sets the real start
+		startTime: startTime ?? new Date(),
+		durationSeconds: duration.seconds,
+		type,
+		sortOrder: rowNum - 1,
+		hasWarning: false
+	};
+}
+
+/**
+ * Parse a schedule typed or pasted as text.
+ *
+ * Each line is one task: an optional start time, the name, a duration and
+ * an optional type, e.g. "09:00 Standup 15m fixed" or "Deep work 2h".
+ * Tasks without a time are flexible; tasks with one default to fixed.
+ *
+ * Tab-separated text copied from a spreadsheet is read like a file when
+ * its first row has recognisable headers, otherwise each row is read as a
+ * plain line.
+ *
+ * @param text - Pasted or typed schedule
+ * @returns Same result shape as parseScheduleFile
+ */
+export function parseScheduleText(text: string): ParseResult {
+	const lines = text.split(/\r?\n/);
+	const nonEmpty = lines.filter((line) => line.trim() !== '');
+
+	if (nonEmpty.length === 0) {
+		return {
+			success: false,
+			errors: [
+				{
+					row: 0,
+					column: 'File',
+					value: PASTED_TEXT_NAME,
+					message: 'No tasks found. Please add at least one task line.'
+				}
+			]
+		};
+	}
+
+	// Spreadsheet copy: tab-separated rows with a header row
+	if (nonEmpty.some((line) => line.includes('\t'))) {
+		const rows = nonEmpty.map((line) => line.split('\t').map((cell) => cell.trim()));
+		const headers = rows[0];
+		if (hasScheduleColumns(headers)) {
+			return parseRows(rows, PASTED_TEXT_NAME, {});
+		}
+		const columnMapping = suggestColumnMapping(headers);
+		if (isMappingComplete(columnMapping)) {
+			return parseRows(rows, PASTED_TEXT_NAME, { columnMapping });
+		}
+	}
+
+	const errors: ValidationError[] = [];
+	const tasks: DraftTask[] = [];
+
+	lines.forEach((line, index) => {
+		if (line.trim() === '') return;
+		const task = parseTextLine(line.replace(/\t/g, ' '), index + 1, errors);
+		if (task) {
+			tasks.push(task);
+		}
+	});
+
+	if (errors.length > 0) {
+		return { success: false, errors };
+	}
+
+	return { success: true, tasks: sortByStartTime(tasks) };
 }
@@ -0,0 +1,116 @@
+/**
+ * Past Interruptions Service
+ *
+ * Feature: 036-past-interruptions
+ *
+ * Pure functions to check an interruption that is logged after the fact.
+ * Its time was counted on a task while it happened, so it must fall in the
+ * time a task was worked on; that task gets the interruption.
+ */
+
+import type { Interruption, TaskProgress } from '$lib/types';
+
+interface TimeRange {
+	start: number;
+	end: number;
+}
+
+function overlapMs(a: TimeRange, b: TimeRange): number {
+	return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+}
+
+function workOverlapMs(progress: TaskProgress, range: TimeRange, now: Date): number {
+	return (progress.segments ?? []).reduce((sum, segment) => {
+		const end = segment.endedAt ? new Date(segment.endedAt).getTime() : now.getTime();
+		return sum + overlapMs(range, { start: new Date(segment.startedAt).getTime(), end });
+	}, 0);
+}
+
+/**
+ * Find the task a past interruption belongs to.
+ *
+ * @param taskProgress - Progress of the session's tasks, with their work segments
+ * @param startedAt - When the interruption started
+ * @param durationSec - Length of the interruption
+ * @param now - End of segments still open (defaults to now)
+ * @returns ID of the task worked on longest during the interruption, null if none
+ */
+export function findInterruptedTask(
+	taskProgress: readonly TaskProgress[],
+	startedAt: Date,
+	durationSec: number,
+	now: Date = new Date()
+): string | null {
+	const range = { start: startedAt.getTime(), end: startedAt.getTime() + durationSec * 1000 };
+
+	let best: { taskId: string; overlap: number } | null = null;
+	for (const progress of taskProgress) {
+		const overlap = workOverlapMs(progress, range, now);
+
+		if (overlap > 0 && (!best || overlap > best.overlap)) {
+			best = { taskId: progress.taskId, overlap };
+		}
+	}
+
+	return best?.taskId ?? null;
+}
+
+/**
+ * Time of a past interruption that falls in the work on a task. Only this
+ * part was counted on the task, so only this part comes off its focused time.
+ *
+ * @param progress - Progress of the task, with its work segments
+ * @param interruption - Interruption logged after the fact
+ * @param now - End of segments still open (defaults to now)
+ * @returns Seconds of the interruption during the task's work segments
+ */
+export function getInterruptedWorkSec(
+	progress: TaskProgress,
+	interruption: Interruption,
+	now: Date = new Date()
+): number {
+	const start = new Date(interruption.startedAt).getTime();
+	const range = { start, end: start + interruption.durationSec * 1000 };
+	return Math.floor(workOverlapMs(progress, range, now) / 1000);
+}
+
+/**
+ * Check an interruption before logging it after the fact.
+ *
+ * @param taskProgress - Progress of the session's tasks, with their work segments
+ * @param interruptions - Interruptions already recorded
+ * @param startedAt - When the interruption started
+ * @param durationSec - Length of the interruption
+ * @param now - Current time (defaults to now)
+ * @returns An error message, or null if the interruption can be logged
+ */
+export function getPastInterruptionError(
+	taskProgress: readonly TaskProgress[],
+	interruptions: readonly Interruption[],
+	startedAt: Date,
+	durationSec: number,
+	now: Date = new Date()
+): string | null {
+	if (durationSec <= 0) {
+		return 'Duration must be more than 0';
+	}
+
+	const range = { start: startedAt.getTime(), end: startedAt.getTime() + durationSec * 1000 };
+	if (range.end > now.getTime()) {
+		return 'The interruption cannot end in the future';
+	}
+
+	if (!findInterruptedTask(taskProgress, startedAt, durationSec, now)) {
+		return 'The interruption must overlap the time a task was worked on';
+	}
+
+	const overlapsRecorded = interruptions.some((i) => {
+		const end = i.endedAt ? new Date(i.endedAt).getTime() : now.getTime();
+		return overlapMs(range, { start: new Date(i.startedAt).getTime(), end }) > 0;
+	});
+	if (overlapsRecorded) {
+		return 'The interruption overlaps one already recorded';
+	}
+
+	return null;
+}
@@ -7,8 +7,9 @@
  * @module projection
  */
 
-import type { ConfirmedTask, TaskProgress, ProjectedTask, RiskLevel } from '$lib/types';
+import type { BreakPlan, ConfirmedTask, TaskProgress, ProjectedTask, RiskLevel } from '$lib/types';
 import { settingsStore } from '$lib/stores/settingsStore.svelte';
+import { getFirstSegmentStart } from '$lib/services/workSegments';
 
 /**
  * Calculates the projected start time for a task at the given index.
@@ -122,6 +123,79 @@ export function calculateRiskLevel(projectedStart: Date, scheduledStart: Date):
 	return 'red';
 }
 
+/**
+ * Walks Pomodoro focus intervals forward through projected work, inserting
+ * the breaks a plan calls for (026-pomodoro).
+ *
+ * A break that falls due exactly as a task ends is held as pending and
+ * taken before the next task starts. Without a plan, work is never split.
+ *
+ * @param plan - Pomodoro settings and progress, or null
+ */
+function createBreakScheduler(plan: BreakPlan | null) {
+	const focusMs = (plan?.focusSec ?? 0) * 1000;
+	const shortBreakMs = (plan?.shortBreakSec ?? 0) * 1000;
+	const longBreakMs = (plan?.longBreakSec ?? 0) * 1000;
+	const longBreakEvery = plan?.longBreakEvery ?? 1;
+	let focusElapsedMs = (plan?.focusElapsedSec ?? 0) * 1000;
+	let completedFocusCount = plan?.completedFocusCount ?? 0;
+	let pendingBreakMs = (plan?.breakRemainingSec ?? 0) * 1000;
+
+	function finishInterval(): void {
+		completedFocusCount += 1;
+		focusElapsedMs = 0;
+		pendingBreakMs = completedFocusCount % longBreakEvery === 0 ? longBreakMs : shortBreakMs;
+	}
+
+	// A finished interval whose break hasn't started yet is owed right away
+	if (focusMs > 0 && pendingBreakMs === 0 && focusElapsedMs >= focusMs) {
+		finishInterval();
+	}
+
+	return {
+		/**
+		 * Take any break owed before work resumes
+		 * @returns Break length (ms)
+		 */
+		takePendingBreak(): number {
+			const breakMs = pendingBreakMs;
+			pendingBreakMs = 0;
+			return breakMs;
+		},
+
+		/**
+		 * Work for workMs starting at startMs, taking breaks as intervals finish
+		 * @returns When the work ends and how much break time fell inside it (ms)
+		 */
+		work(startMs: number, workMs: number): { endMs: number; breakMs: number } {
+			if (focusMs <= 0) {
+				return { endMs: startMs + workMs, breakMs: 0 };
+			}
+
+			let timeMs = startMs;
+			let remainingMs = workMs;
+			let breakMs = 0;
+
+			while (remainingMs > 0) {
+				timeMs += pendingBreakMs;
+				breakMs += pendingBreakMs;
+				pendingBreakMs = 0;
+
+				const chunkMs = Math.min(remainingMs, focusMs - focusElapsedMs);
+				timeMs += chunkMs;
+				remainingMs -= chunkMs;
+				focusElapsedMs += chunkMs;
+
+				if (focusElapsedMs >= focusMs) {
+					finishInterval();
+				}
+			}
+
+			return { endMs: timeMs, breakMs };
+		}
+	};
+}
+
 /**
  * Creates an array of ProjectedTask objects with calculated projections.
  *
@@ -137,11 +211,15 @@ export function calculateRiskLevel(projectedStart: Date, scheduledStart: Date):
  * their scheduled time even if there's a gap. This affects subsequent
  * task projections as well.
  *
+ * With a break plan (Pomodoro mode), the current and pending tasks are
+ * stretched by the breaks planned between focus intervals.
+ *
  * @param tasks - Array of confirmed tasks in execution order
  * @param progress - Array of task progress records
  * @param currentIndex - Index of the currently active task
  * @param currentElapsedMs - Milliseconds elapsed on the current task
  * @param currentTaskStartedAtMs - When the current task actually started (epoch ms), optional
+ * @param breakPlan - Pomodoro settings and progress for planned breaks, optional
  * @returns Array of ProjectedTask objects
  *
  * @example
@@ -155,12 +233,15 @@ export function createProjectedTasks(
 	progress: TaskProgress[],
 	currentIndex: number,
 	currentElapsedMs: number,
-	currentTaskStartedAtMs?: number
+	currentTaskStartedAtMs?: number,
+	breakPlan?: BreakPlan | null
 ): ProjectedTask[] {
 	if (tasks.length === 0) {
 		return [];
 	}
 
+	const breakScheduler = createBreakScheduler(breakPlan ?? null);
+
 	const now = new Date();
 	const nowMs = now.getTime();
 
@@ -207,12 +288,17 @@ export function createProjectedTasks(
 	// Build results map (keyed by original index)
 	const resultsMap = new Map<number, ProjectedTask>();
 
-	// Process completed tasks - use their ACTUAL start time (calculated from completedAt - actualDuration)
+	// Process completed tasks - use their ACTUAL start time (first work segment, or
+	// calculated from completedAt - actualDuration for tasks without segments)
 	for (const { task, originalIndex, progress: p } of completedTasks) {
 		let actualStart: Date;
+		const firstSegmentStart = getFirstSegmentStart(p);
 
-		// Calculate actual start from completion time - actual duration
-		if (p?.completedAt && p?.actualDurationSec > 0) {
+		if (firstSegmentStart) {
+			// 033-work-segments: Tasks worked in pieces started with their first segment
+			actualStart = firstSegmentStart;
+		} else if (p?.completedAt && p?.actualDurationSec > 0) {
+			// Calculate actual start from completion time - actual duration
 			const completedAtMs = new Date(p.completedAt).getTime();
 			actualStart = new Date(completedAtMs - p.actualDurationSec * 1000);
 		} else {
@@ -231,18 +317,29 @@ export function createProjectedTasks(
 			displayStatus: 'completed',
 			isDraggable: false,
 			elapsedSec: p?.actualDurationSec ?? 0,
-			willBeInterrupted: false
+			willBeInterrupted: false,
+			// 030-skip-task: Skipped and missed tasks are listed with the completed ones
+			...(p?.status === 'missed' && { isSkipped: true, skipReason: p.skipReason })
 		});
 	}
 
+	// Time the current task's remaining work ends, including planned breaks
+	let currentEndMs = nowMs + currentRemainingMs;
+
 	// Process current task - use ACTUAL start time from timerStartedAtMs
 	if (currentTaskInfo) {
 		const { task, originalIndex } = currentTaskInfo;
 
-		// Use actual start time if provided, otherwise fall back to now - elapsed
-		const actualStartMs = currentTaskStartedAtMs ?? (nowMs - currentElapsedMs);
+		// Use the first work segment if the task was resumed, then the actual start
+		// time if provided, otherwise fall back to now - elapsed
+		const actualStartMs =
+			getFirstSegmentStart(currentTaskInfo.progress)?.getTime() ??
+			currentTaskStartedAtMs ??
+			(nowMs - currentElapsedMs);
 		const projectedStart = new Date(actualStartMs);
-		const projectedEnd = new Date(nowMs + currentRemainingMs);
+		const { endMs, breakMs } = breakScheduler.work(nowMs, currentRemainingMs);
+		currentEndMs = endMs;
+		const projectedEnd = new Date(currentEndMs);
 
 		// Elapsed time is from currentElapsedMs (live timer value)
 		const elapsedSec = Math.floor(currentElapsedMs / 1000);
@@ -256,7 +353,8 @@ export function createProjectedTasks(
 			displayStatus: 'current',
 			isDraggable: task.type === 'flexible',
 			elapsedSec,
-			willBeInterrupted: false // Current task is already running
+			willBeInterrupted: false, // Current task is already running
+			...(breakMs > 0 && { plannedBreakSec: Math.round(breakMs / 1000) })
 		});
 	}
 
@@ -272,11 +370,14 @@ export function createProjectedTasks(
 		}));
 
 	// Process pending tasks in CHRONOLOGICAL order
-	let nextAvailableTime = nowMs + currentRemainingMs;
+	let nextAvailableTime = currentEndMs;
 
 	for (const { task, originalIndex, progress: p } of pendingTasks) {
 		let projectedStart: Date;
 
+		// A break owed from the previous task is taken before this one starts
+		nextAvailableTime += breakScheduler.takePendingBreak();
+
 		if (task.type === 'fixed') {
 			// Fixed tasks start at the later of: next available time OR scheduled time
 			projectedStart = new Date(Math.max(nextAvailableTime, task.plannedStart.getTime()));
@@ -296,7 +397,8 @@ export function createProjectedTasks(
 		}
 
 		const durationMs = task.plannedDurationSec * 1000;
-		const projectedEnd = new Date(projectedStart.getTime() + durationMs);
+		const { endMs, breakMs } = breakScheduler.work(projectedStart.getTime(), durationMs);
+		const projectedEnd = new Date(endMs);
 
 		// Calculate buffer and risk level for fixed tasks
 		let riskLevel: RiskLevel | null = null;
@@ -347,7 +449,8 @@ export function createProjectedTasks(
 			isDraggable: task.type === 'flexible',
 			elapsedSec,
 			willBeInterrupted,
-			interruptingTask
+			interruptingTask,
+			...(breakMs > 0 && { plannedBreakSec: Math.round(breakMs / 1000) })
 		});
 	}
 
@@ -356,9 +459,41 @@ export function createProjectedTasks(
 	for (let i = 0; i < tasks.length; i++) {
 		const result = resultsMap.get(i);
 		if (result) {
-			results.push(result);
+			// 033-work-segments: Keep the segments of tasks that were worked on
+			const segments = progress[i]?.segments;
+			results.push(segments?.length ? { ...result, segments } : result);
 		}
 	}
 
 	return results;
 }
+
+/**
+ * Finds fixed tasks whose scheduled time has passed without them being started.
+ *
+ * Feature: 030-skip-task
+ *
+ * A fixed task only happens at its time, so once its whole window is over
+ * it can no longer be done and counts as missed. Tasks that were worked on
+ * before switching away are left alone.
+ *
+ * @param tasks - Array of confirmed tasks in execution order
+ * @param progress - Array of task progress records
+ * @param nowMs - Current time as milliseconds since epoch
+ * @returns Fixed tasks to mark as missed
+ */
+export function findPassedFixedTasks(
+	tasks: readonly ConfirmedTask[],
+	progress: readonly TaskProgress[],
+	nowMs: number
+): ConfirmedTask[] {
+	return tasks.filter((task, idx) => {
+		const p = progress[idx];
+		return (
+			task.type === 'fixed' &&
+			p?.status === 'pending' &&
+			p.actualDurationSec === 0 &&
+			task.plannedStart.getTime() + task.plannedDurationSec * 1000 <= nowMs
+		);
+	});
+}
@@ -1,11 +1,20 @@
 /**
- * localStorage Wrapper Service
+ * Storage Service
  *
- * Provides type-safe access to localStorage with JSON serialization,
- * schema versioning, and migration support.
+ * Provides type-safe access to persisted app data with JSON serialization,
+ * schema versioning, and migration support. Data lives in localStorage by
+ * default or in IndexedDB when selected (see storageAdapter.ts).
  */
 
-import type { ConfirmedTask, DaySession, TabInfo, Interruption, PersistedInterruptionState, Note, Settings, SettingsStorage } from '$lib/types';
+import type { ConfirmedTask, DaySession, TabInfo, Interruption, PersistedInterruptionState, Note, Settings, SettingsStorage, ArchivedDay, ArchivedDayEntry, StorageBackend, BackupFile, BackupData, TaskPriority, ScheduleTemplate, EstimateModel, PersistedPomodoroState, IdleGap, CarriedTask, UndoEntry, UndoHistory, AuditEvent, InterruptionCategory } from '$lib/types';
+import {
+	createIndexedDBAdapter,
+	createLocalStorageAdapter,
+	isIndexedDBAvailable,
+	isMigratableKey,
+	type IndexedDBStorageAdapter,
+	type StorageAdapter
+} from './storageAdapter';
 import {
 	STORAGE_KEY_TASKS,
 	STORAGE_KEY_SCHEMA,
@@ -14,12 +23,27 @@ import {
 	STORAGE_KEY_INTERRUPTIONS,
 	STORAGE_KEY_NOTES,
 	STORAGE_KEY_SETTINGS,
+	STORAGE_KEY_HISTORY,
+	STORAGE_KEY_HISTORY_DAY_PREFIX,
+	STORAGE_KEY_BACKEND,
+	STORAGE_KEY_IDB_MIGRATED,
+	STORAGE_KEY_LOCAL_FALLBACK,
+	STORAGE_KEY_TEMPLATES,
+	STORAGE_KEY_ESTIMATES,
+	STORAGE_KEY_POMODORO,
+	STORAGE_KEY_IDLE,
+	STORAGE_KEY_CARRY_OVER,
+	STORAGE_KEY_UNDO,
+	STORAGE_KEY_AUDIT,
+	BACKUP_FORMAT,
 	CURRENT_SCHEMA_VERSION,
-	DEFAULT_SETTINGS
+	DEFAULT_SETTINGS,
+	DEFAULT_INTERRUPTION_CATEGORIES,
+	CATEGORY_COLORS
 } from '$lib/types';
 
 /**
- * Serialized task format for localStorage
+ * Serialized task format for storage
  * (Dates are stored as ISO strings)
  */
 interface SerializedTask {
@@ -31,20 +55,65 @@ interface SerializedTask {
 	sortOrder: number;
 	status: 'pending' | 'active' | 'complete';
 	isAdHoc?: boolean; // Optional for backward compatibility
+	// Optional task metadata (018-task-metadata), omitted when unset
+	project?: string;
+	tags?: string[];
+	priority?: TaskPriority;
+	notes?: string;
+	carriedFrom?: string; // 029-carry-over
 }
 
 /**
- * Check if localStorage is available
+ * Serialized archived day format for storage
+ * (task dates are stored as ISO strings)
  */
-function isLocalStorageAvailable(): boolean {
-	try {
-		const testKey = '__storage_test__';
-		localStorage.setItem(testKey, testKey);
-		localStorage.removeItem(testKey);
-		return true;
-	} catch {
-		return false;
-	}
+interface SerializedArchivedDay extends Omit<ArchivedDay, 'tasks'> {
+	tasks: SerializedTask[];
+}
+
+/**
+ * Serialized undo history format for storage
+ * (snapshot task dates are stored as ISO strings)
+ */
+interface SerializedUndoEntry extends Omit<UndoEntry, 'snapshot'> {
+	snapshot: Omit<UndoEntry['snapshot'], 'tasks'> & { tasks: SerializedTask[] };
+}
+
+interface SerializedUndoHistory {
+	sessionId: string;
+	undo: SerializedUndoEntry[];
+	redo: SerializedUndoEntry[];
+}
+
+/**
+ * Bootstrap and cross-tab keys always stay in localStorage
+ */
+const localAdapter = createLocalStorageAdapter();
+
+/**
+ * Active backend for app data (015-indexeddb-storage)
+ */
+let adapter: StorageAdapter = localAdapter;
+
+/**
+ * Hydrated IndexedDB adapter when it is the active backend
+ */
+let indexedDBAdapter: IndexedDBStorageAdapter | null = null;
+
+/**
+ * Open and hydrate IndexedDB, bringing over any tm_* data still in localStorage
+ */
+async function openIndexedDB(): Promise<IndexedDBStorageAdapter> {
+	const idb = createIndexedDBAdapter();
+	await idb.hydrate();
+	return idb;
+}
+
+/**
+ * Check if the active storage backend is available
+ */
+function isStorageAvailable(): boolean {
+	return adapter.isAvailable();
 }
 
 /**
@@ -56,8 +125,8 @@ function migrateV1toV2(): void {
 	// Clear any stale session data that might exist
 	// (shouldn't exist in v1, but handle corrupted state)
 	try {
-		localStorage.removeItem(STORAGE_KEY_SESSION);
-		localStorage.removeItem(STORAGE_KEY_TAB);
+		adapter.removeItem(STORAGE_KEY_SESSION);
+		localAdapter.removeItem(STORAGE_KEY_TAB);
 	} catch {
 		// Ignore errors during cleanup
 	}
@@ -72,9 +141,9 @@ function migrateV1toV2(): void {
 function migrateV2toV3(): void {
 	try {
 		// Initialize interruptions storage if it doesn't exist
-		const stored = localStorage.getItem(STORAGE_KEY_INTERRUPTIONS);
+		const stored = adapter.getItem(STORAGE_KEY_INTERRUPTIONS);
 		if (!stored) {
-			localStorage.setItem(STORAGE_KEY_INTERRUPTIONS, JSON.stringify([]));
+			adapter.setItem(STORAGE_KEY_INTERRUPTIONS, JSON.stringify([]));
 		}
 	} catch {
 		// Ignore errors during migration
@@ -90,9 +159,9 @@ function migrateV2toV3(): void {
 function migrateV3toV4(): void {
 	try {
 		// Initialize notes storage if it doesn't exist
-		const stored = localStorage.getItem(STORAGE_KEY_NOTES);
+		const stored = adapter.getItem(STORAGE_KEY_NOTES);
 		if (!stored) {
-			localStorage.setItem(STORAGE_KEY_NOTES, JSON.stringify([]));
+			adapter.setItem(STORAGE_KEY_NOTES, JSON.stringify([]));
 		}
 	} catch {
 		// Ignore errors during migration
@@ -109,13 +178,13 @@ function migrateV3toV4(): void {
 function migrateV4toV5(): void {
 	try {
 		// Initialize settings storage if it doesn't exist
-		const stored = localStorage.getItem(STORAGE_KEY_SETTINGS);
+		const stored = adapter.getItem(STORAGE_KEY_SETTINGS);
 		if (!stored) {
 			const defaultStorage: SettingsStorage = {
 				version: 1,
 				data: { ...DEFAULT_SETTINGS }
 			};
-			localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(defaultStorage));
+			adapter.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(defaultStorage));
 		}
 	} catch {
 		// Ignore errors during migration
@@ -133,14 +202,14 @@ function migrateV4toV5(): void {
  */
 function migrateV5toV6(): void {
 	try {
-		const session = localStorage.getItem(STORAGE_KEY_SESSION);
+		const session = adapter.getItem(STORAGE_KEY_SESSION);
 		if (session) {
 			const parsed = JSON.parse(session) as Record<string, unknown>;
 			// Add timerStartedAtMs if missing (use lastPersistedAt as fallback)
 			if (parsed.timerStartedAtMs === undefined) {
 				parsed.timerStartedAtMs =
 					(parsed.lastPersistedAt as number) || Date.now();
-				localStorage.setItem(STORAGE_KEY_SESSION, JSON.stringify(parsed));
+				adapter.setItem(STORAGE_KEY_SESSION, JSON.stringify(parsed));
 			}
 		}
 	} catch {
@@ -159,13 +228,13 @@ function migrateV5toV6(): void {
  */
 function migrateV6toV7(): void {
 	try {
-		const stored = localStorage.getItem(STORAGE_KEY_SETTINGS);
+		const stored = adapter.getItem(STORAGE_KEY_SETTINGS);
 		if (stored) {
 			const parsed = JSON.parse(stored) as { version: number; data: Record<string, unknown> };
 			// Add defaultScheduleStartTime if missing
 			if (parsed.data && parsed.data.defaultScheduleStartTime === undefined) {
 				parsed.data.defaultScheduleStartTime = '';
-				localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(parsed));
+				adapter.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(parsed));
 			}
 		}
 	} catch {
@@ -173,19 +242,86 @@ function migrateV6toV7(): void {
 	}
 }
 
+/**
+ * Replace the fixed interruption categories with user-managed ones when
+ * migrating schema v7 to v8. Category names stored on interruptions (current
+ * session and archived days) become category IDs, and settings get the
+ * default categories plus any other name that was in use.
+ *
+ * @remarks
+ * Errors encountered during migration are ignored.
+ *
+ * @new 034-interruption-categories
+ */
+function migrateV7toV8(): void {
+	try {
+		const categories: InterruptionCategory[] = DEFAULT_INTERRUPTION_CATEGORIES.map((c) => ({
+			...c
+		}));
+
+		// Old names map to lowercase IDs, which match the default categories
+		const migrateInterruptions = (list: unknown): void => {
+			if (!Array.isArray(list)) return;
+			for (const item of list as { category?: unknown }[]) {
+				if (typeof item?.category !== 'string') continue;
+				const categoryId = item.category.toLowerCase();
+				if (!categories.some((c) => c.categoryId === categoryId)) {
+					categories.push({
+						categoryId,
+						name: item.category,
+						color: CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length],
+						defaultNote: '',
+						archived: false
+					});
+				}
+				item.category = categoryId;
+			}
+		};
+
+		const stored = readStoredJSON<unknown>(STORAGE_KEY_INTERRUPTIONS, null);
+		if (stored) {
+			// Old format was just an array
+			migrateInterruptions(
+				Array.isArray(stored) ? stored : (stored as { interruptions?: unknown }).interruptions
+			);
+			adapter.setItem(STORAGE_KEY_INTERRUPTIONS, JSON.stringify(stored));
+		}
+
+		for (const entry of readHistoryIndex()) {
+			const key = STORAGE_KEY_HISTORY_DAY_PREFIX + entry.sessionId;
+			const day = readStoredJSON<{ interruptions?: unknown } | null>(key, null);
+			if (day) {
+				migrateInterruptions(day.interruptions);
+				adapter.setItem(key, JSON.stringify(day));
+			}
+		}
+
+		const settings = readStoredJSON<{ version: number; data?: Record<string, unknown> } | null>(
+			STORAGE_KEY_SETTINGS,
+			null
+		) ?? { version: 1, data: { ...DEFAULT_SETTINGS } };
+		if (settings.data && !Array.isArray(settings.data.interruptionCategories)) {
+			settings.data.interruptionCategories = categories;
+			adapter.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(settings));
+		}
+	} catch {
+		// Ignore errors during migration
+	}
+}
+
 /**
  * Ensure stored data matches the current schema by running any needed migrations.
  *
- * If localStorage is unavailable this function exits without action. It reads the stored schema
+ * If storage is unavailable this function exits without action. It reads the stored schema
  * version, runs migrations sequentially for any missing versions (v1→v2, v2→v3, …), and then
  * updates the stored schema version to the current value.
  */
 function migrateIfNeeded(): void {
-	if (!isLocalStorageAvailable()) {
+	if (!isStorageAvailable()) {
 		return;
 	}
 
-	const storedVersion = localStorage.getItem(STORAGE_KEY_SCHEMA);
+	const storedVersion = adapter.getItem(STORAGE_KEY_SCHEMA);
 	const version = storedVersion ? parseInt(storedVersion, 10) : 0;
 
 	if (version < CURRENT_SCHEMA_VERSION) {
@@ -208,9 +344,12 @@ function migrateIfNeeded(): void {
 		if (version < 7) {
 			migrateV6toV7();
 		}
+		if (version < 8) {
+			migrateV7toV8();
+		}
 
 		// Update schema version
-		localStorage.setItem(STORAGE_KEY_SCHEMA, String(CURRENT_SCHEMA_VERSION));
+		adapter.setItem(STORAGE_KEY_SCHEMA, String(CURRENT_SCHEMA_VERSION));
 	}
 }
 
@@ -226,7 +365,12 @@ function serializeTask(task: ConfirmedTask): SerializedTask {
 		type: task.type,
 		sortOrder: task.sortOrder,
 		status: task.status,
-		isAdHoc: task.isAdHoc || undefined // Only store if true
+		isAdHoc: task.isAdHoc || undefined, // Only store if true
+		project: task.project || undefined,
+		tags: task.tags?.length ? task.tags : undefined,
+		priority: task.priority,
+		notes: task.notes || undefined,
+		carriedFrom: task.carriedFrom
 	};
 }
 
@@ -255,10 +399,58 @@ function deserializeTask(data: SerializedTask): ConfirmedTask {
 		type: data.type,
 		sortOrder: data.sortOrder,
 		status: data.status,
-		isAdHoc: data.isAdHoc // undefined if not present (backward compatible)
+		isAdHoc: data.isAdHoc, // undefined if not present (backward compatible)
+		project: data.project,
+		tags: data.tags,
+		priority: data.priority,
+		notes: data.notes,
+		carriedFrom: data.carriedFrom
 	};
 }
 
+/**
+ * Deserialize an archived task from storage.
+ * Unlike deserializeTask, the stored date is kept as-is so past days keep their real dates.
+ */
+function deserializeArchivedTask(data: SerializedTask): ConfirmedTask {
+	return {
+		taskId: data.taskId,
+		name: data.name,
+		plannedStart: new Date(data.plannedStart),
+		plannedDurationSec: data.plannedDurationSec,
+		type: data.type,
+		sortOrder: data.sortOrder,
+		status: data.status,
+		isAdHoc: data.isAdHoc,
+		project: data.project,
+		tags: data.tags,
+		priority: data.priority,
+		notes: data.notes,
+		carriedFrom: data.carriedFrom
+	};
+}
+
+/**
+ * Read the archived day index, returning an empty list when missing or corrupt
+ */
+function readHistoryIndex(): ArchivedDayEntry[] {
+	const stored = adapter.getItem(STORAGE_KEY_HISTORY);
+	if (!stored) {
+		return [];
+	}
+
+	const parsed = JSON.parse(stored);
+	return Array.isArray(parsed) ? (parsed as ArchivedDayEntry[]) : [];
+}
+
+/**
+ * Read and parse a stored JSON value, or return the fallback if absent
+ */
+function readStoredJSON<T>(key: string, fallback: T): T {
+	const stored = adapter.getItem(key);
+	return stored ? (JSON.parse(stored) as T) : fallback;
+}
+
 /**
  * Storage Service
  */
@@ -271,17 +463,17 @@ export const storage = {
 	},
 
 	/**
-	 * Save confirmed tasks to localStorage
+	 * Save confirmed tasks to storage
 	 */
 	saveTasks(tasks: ConfirmedTask[]): boolean {
-		if (!isLocalStorageAvailable()) {
-			console.warn('localStorage not available');
+		if (!isStorageAvailable()) {
+			console.warn('Storage not available');
 			return false;
 		}
 
 		try {
 			const serialized = tasks.map(serializeTask);
-			localStorage.setItem(STORAGE_KEY_TASKS, JSON.stringify(serialized));
+			adapter.setItem(STORAGE_KEY_TASKS, JSON.stringify(serialized));
 			return true;
 		} catch (error) {
 			console.error('Failed to save tasks:', error);
@@ -290,15 +482,15 @@ export const storage = {
 	},
 
 	/**
-	 * Load confirmed tasks from localStorage
+	 * Load confirmed tasks from storage
 	 */
 	loadTasks(): ConfirmedTask[] {
-		if (!isLocalStorageAvailable()) {
+		if (!isStorageAvailable()) {
 			return [];
 		}
 
 		try {
-			const stored = localStorage.getItem(STORAGE_KEY_TASKS);
+			const stored = adapter.getItem(STORAGE_KEY_TASKS);
 			if (!stored) {
 				return [];
 			}
@@ -312,15 +504,15 @@ export const storage = {
 	},
 
 	/**
-	 * Clear all tasks from localStorage
+	 * Clear all tasks from storage
 	 */
 	clearTasks(): boolean {
-		if (!isLocalStorageAvailable()) {
+		if (!isStorageAvailable()) {
 			return false;
 		}
 
 		try {
-			localStorage.removeItem(STORAGE_KEY_TASKS);
+			adapter.removeItem(STORAGE_KEY_TASKS);
 			return true;
 		} catch (error) {
 			console.error('Failed to clear tasks:', error);
@@ -332,12 +524,12 @@ export const storage = {
 	 * Check if there are any saved tasks
 	 */
 	hasSavedTasks(): boolean {
-		if (!isLocalStorageAvailable()) {
+		if (!isStorageAvailable()) {
 			return false;
 		}
 
 		try {
-			const stored = localStorage.getItem(STORAGE_KEY_TASKS);
+			const stored = adapter.getItem(STORAGE_KEY_TASKS);
 			if (!stored) {
 				return false;
 			}
@@ -353,11 +545,11 @@ export const storage = {
 	 * Get the current schema version
 	 */
 	getSchemaVersion(): number {
-		if (!isLocalStorageAvailable()) {
+		if (!isStorageAvailable()) {
 			return 0;
 		}
 
-		const version = localStorage.getItem(STORAGE_KEY_SCHEMA);
+		const version = adapter.getItem(STORAGE_KEY_SCHEMA);
 		return version ? parseInt(version, 10) : 0;
 	},
 
@@ -366,16 +558,16 @@ export const storage = {
 	// =========================================================================
 
 	/**
-	 * Save day session to localStorage
+	 * Save day session to storage
 	 */
 	saveSession(session: DaySession): boolean {
-		if (!isLocalStorageAvailable()) {
-			console.warn('localStorage not available');
+		if (!isStorageAvailable()) {
+			console.warn('Storage not available');
 			return false;
 		}
 
 		try {
-			localStorage.setItem(STORAGE_KEY_SESSION, JSON.stringify(session));
+			adapter.setItem(STORAGE_KEY_SESSION, JSON.stringify(session));
 			return true;
 		} catch (error) {
 			console.error('Failed to save session:', error);
@@ -384,15 +576,15 @@ export const storage = {
 	},
 
 	/**
-	 * Load day session from localStorage
+	 * Load day session from storage
 	 */
 	getSession(): DaySession | null {
-		if (!isLocalStorageAvailable()) {
+		if (!isStorageAvailable()) {
 			return null;
 		}
 
 		try {
-			const stored = localStorage.getItem(STORAGE_KEY_SESSION);
+			const stored = adapter.getItem(STORAGE_KEY_SESSION);
 			if (!stored) {
 				return null;
 			}
@@ -405,15 +597,15 @@ export const storage = {
 	},
 
 	/**
-	 * Clear day session from localStorage
+	 * Clear day session from storage
 	 */
 	clearSession(): boolean {
-		if (!isLocalStorageAvailable()) {
+		if (!isStorageAvailable()) {
 			return false;
 		}
 
 		try {
-			localStorage.removeItem(STORAGE_KEY_SESSION);
+			adapter.removeItem(STORAGE_KEY_SESSION);
 			return true;
 		} catch (error) {
 			console.error('Failed to clear session:', error);
@@ -429,12 +621,12 @@ export const storage = {
 	 * Load tab info from localStorage
 	 */
 	getTabInfo(): TabInfo | null {
-		if (!isLocalStorageAvailable()) {
+		if (!localAdapter.isAvailable()) {
 			return null;
 		}
 
 		try {
-			const stored = localStorage.getItem(STORAGE_KEY_TAB);
+			const stored = localAdapter.getItem(STORAGE_KEY_TAB);
 			if (!stored) {
 				return null;
 			}
@@ -450,13 +642,13 @@ export const storage = {
 	 * Save tab info to localStorage
 	 */
 	saveTabInfo(tabInfo: TabInfo): boolean {
-		if (!isLocalStorageAvailable()) {
+		if (!localAdapter.isAvailable()) {
 			console.warn('localStorage not available');
 			return false;
 		}
 
 		try {
-			localStorage.setItem(STORAGE_KEY_TAB, JSON.stringify(tabInfo));
+			localAdapter.setItem(STORAGE_KEY_TAB, JSON.stringify(tabInfo));
 			return true;
 		} catch (error) {
 			console.error('Failed to save tab info:', error);
@@ -468,12 +660,12 @@ export const storage = {
 	 * Clear tab info from localStorage
 	 */
 	clearTabInfo(): boolean {
-		if (!isLocalStorageAvailable()) {
+		if (!localAdapter.isAvailable()) {
 			return false;
 		}
 
 		try {
-			localStorage.removeItem(STORAGE_KEY_TAB);
+			localAdapter.removeItem(STORAGE_KEY_TAB);
 			return true;
 		} catch (error) {
 			console.error('Failed to clear tab info:', error);
@@ -486,17 +678,17 @@ export const storage = {
 	// =========================================================================
 
 	/**
-	 * Save interruption state to localStorage
+	 * Save interruption state to storage
 	 * Includes interruptions array and pausedTaskElapsedMs for session recovery
 	 */
 	saveInterruptionState(state: PersistedInterruptionState): boolean {
-		if (!isLocalStorageAvailable()) {
-			console.warn('localStorage not available');
+		if (!isStorageAvailable()) {
+			console.warn('Storage not available');
 			return false;
 		}
 
 		try {
-			localStorage.setItem(STORAGE_KEY_INTERRUPTIONS, JSON.stringify(state));
+			adapter.setItem(STORAGE_KEY_INTERRUPTIONS, JSON.stringify(state));
 			return true;
 		} catch (error) {
 			console.error('Failed to save interruption state:', error);
@@ -505,16 +697,16 @@ export const storage = {
 	},
 
 	/**
-	 * Load interruption state from localStorage
+	 * Load interruption state from storage
 	 * Handles backward compatibility with old format (plain array)
 	 */
 	loadInterruptionState(): PersistedInterruptionState {
-		if (!isLocalStorageAvailable()) {
+		if (!isStorageAvailable()) {
 			return { interruptions: [], pausedTaskElapsedMs: 0 };
 		}
 
 		try {
-			const stored = localStorage.getItem(STORAGE_KEY_INTERRUPTIONS);
+			const stored = adapter.getItem(STORAGE_KEY_INTERRUPTIONS);
 			if (!stored) {
 				return { interruptions: [], pausedTaskElapsedMs: 0 };
 			}
@@ -534,15 +726,15 @@ export const storage = {
 	},
 
 	/**
-	 * Clear interruption state from localStorage
+	 * Clear interruption state from storage
 	 */
 	clearInterruptions(): boolean {
-		if (!isLocalStorageAvailable()) {
+		if (!isStorageAvailable()) {
 			return false;
 		}
 
 		try {
-			localStorage.removeItem(STORAGE_KEY_INTERRUPTIONS);
+			adapter.removeItem(STORAGE_KEY_INTERRUPTIONS);
 			return true;
 		} catch (error) {
 			console.error('Failed to clear interruptions:', error);
@@ -555,16 +747,16 @@ export const storage = {
 	// =========================================================================
 
 	/**
-	 * Save notes to localStorage
+	 * Save notes to storage
 	 */
 	saveNotes(notes: Note[]): boolean {
-		if (!isLocalStorageAvailable()) {
-			console.warn('localStorage not available');
+		if (!isStorageAvailable()) {
+			console.warn('Storage not available');
 			return false;
 		}
 
 		try {
-			localStorage.setItem(STORAGE_KEY_NOTES, JSON.stringify(notes));
+			adapter.setItem(STORAGE_KEY_NOTES, JSON.stringify(notes));
 			return true;
 		} catch (error) {
 			console.error('Failed to save notes:', error);
@@ -573,15 +765,15 @@ export const storage = {
 	},
 
 	/**
-	 * Load notes from localStorage
+	 * Load notes from storage
 	 */
 	loadNotes(): Note[] {
-		if (!isLocalStorageAvailable()) {
+		if (!isStorageAvailable()) {
 			return [];
 		}
 
 		try {
-			const stored = localStorage.getItem(STORAGE_KEY_NOTES);
+			const stored = adapter.getItem(STORAGE_KEY_NOTES);
 			if (!stored) {
 				return [];
 			}
@@ -594,15 +786,15 @@ export const storage = {
 	},
 
 	/**
-	 * Clear notes from localStorage
+	 * Clear notes from storage
 	 */
 	clearNotes(): boolean {
-		if (!isLocalStorageAvailable()) {
+		if (!isStorageAvailable()) {
 			return false;
 		}
 
 		try {
-			localStorage.removeItem(STORAGE_KEY_NOTES);
+			adapter.removeItem(STORAGE_KEY_NOTES);
 			return true;
 		} catch (error) {
 			console.error('Failed to clear notes:', error);
@@ -615,13 +807,13 @@ export const storage = {
 	// =========================================================================
 
 	/**
-	 * Save settings to localStorage
+	 * Save settings to storage
 	 * @param settings - Settings object to save
 	 * @returns true if successful, false on error
 	 */
 	saveSettings(settings: Settings): boolean {
-		if (!isLocalStorageAvailable()) {
-			console.warn('localStorage not available');
+		if (!isStorageAvailable()) {
+			console.warn('Storage not available');
 			return false;
 		}
 
@@ -630,7 +822,7 @@ export const storage = {
 				version: 1,
 				data: { ...settings }
 			};
-			localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(storage));
+			adapter.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(storage));
 			return true;
 		} catch (error) {
 			console.error('Failed to save settings:', error);
@@ -639,16 +831,16 @@ export const storage = {
 	},
 
 	/**
-	 * Load settings from localStorage
+	 * Load settings from storage
 	 * @returns Settings object or null if not found/error
 	 */
 	loadSettings(): Settings | null {
-		if (!isLocalStorageAvailable()) {
+		if (!isStorageAvailable()) {
 			return null;
 		}
 
 		try {
-			const stored = localStorage.getItem(STORAGE_KEY_SETTINGS);
+			const stored = adapter.getItem(STORAGE_KEY_SETTINGS);
 			if (!stored) {
 				return null;
 			}
@@ -662,19 +854,764 @@ export const storage = {
 	},
 
 	/**
-	 * Clear settings from localStorage (reset to defaults on next load)
+	 * Clear settings from storage (reset to defaults on next load)
 	 */
 	clearSettings(): boolean {
-		if (!isLocalStorageAvailable()) {
+		if (!isStorageAvailable()) {
 			return false;
 		}
 
 		try {
-			localStorage.removeItem(STORAGE_KEY_SETTINGS);
+			adapter.removeItem(STORAGE_KEY_SETTINGS);
 			return true;
 		} catch (error) {
 			console.error('Failed to clear settings:', error);
 			return false;
 		}
+	},
+
+	// =========================================================================
+	// Session History Storage (014-session-history)
+	// =========================================================================
+
+	/**
+	 * Archive a finished day.
+	 * Stores the full day under its own key and records it in the history index.
+	 * Archiving the same sessionId again replaces the earlier record.
+	 *
+	 * @param day - The day to archive
+	 * @returns true if successful, false on error
+	 */
+	archiveDay(day: ArchivedDay): boolean {
+		if (!isStorageAvailable()) {
+			console.warn('Storage not available');
+			return false;
+		}
+
+		try {
+			const serialized: SerializedArchivedDay = {
+				...day,
+				tasks: day.tasks.map(serializeTask)
+			};
+			adapter.setItem(
+				STORAGE_KEY_HISTORY_DAY_PREFIX + day.sessionId,
+				JSON.stringify(serialized)
+			);
+
+			const entry: ArchivedDayEntry = {
+				sessionId: day.sessionId,
+				date: day.date,
+				archivedAt: day.archivedAt,
+				summary: day.summary,
+				taskCount: day.tasks.length
+			};
+
+			// Newest day first
+			const index = readHistoryIndex()
+				.filter((e) => e.sessionId !== day.sessionId)
+				.concat(entry)
+				.sort((a, b) => b.date.localeCompare(a.date) || b.archivedAt.localeCompare(a.archivedAt));
+
+			adapter.setItem(STORAGE_KEY_HISTORY, JSON.stringify(index));
+			return true;
+		} catch (error) {
+			console.error('Failed to archive day:', error);
+			return false;
+		}
+	},
+
+	/**
+	 * List archived days, newest first
+	 * @returns Index entries for every archived day
+	 */
+	listArchivedDays(): ArchivedDayEntry[] {
+		if (!isStorageAvailable()) {
+			return [];
+		}
+
+		try {
+			return readHistoryIndex();
+		} catch (error) {
+			console.error('Failed to list archived days:', error);
+			return [];
+		}
+	},
+
+	/**
+	 * Load a single archived day in full
+	 * @param sessionId - Session identifier of the archived day
+	 * @returns The archived day or null if not found/error
+	 */
+	loadArchivedDay(sessionId: string): ArchivedDay | null {
+		if (!isStorageAvailable()) {
+			return null;
+		}
+
+		try {
+			const stored = adapter.getItem(STORAGE_KEY_HISTORY_DAY_PREFIX + sessionId);
+			if (!stored) {
+				return null;
+			}
+
+			const parsed = JSON.parse(stored) as SerializedArchivedDay;
+			return {
+				...parsed,
+				tasks: parsed.tasks.map(deserializeArchivedTask)
+			};
+		} catch (error) {
+			console.error('Failed to load archived day:', error);
+			return null;
+		}
+	},
+
+	/**
+	 * Delete an archived day and remove it from the history index
+	 * @param sessionId - Session identifier of the archived day
+	 * @returns true if successful, false on error
+	 */
+	deleteArchivedDay(sessionId: string): boolean {
+		if (!isStorageAvailable()) {
+			return false;
+		}
+
+		try {
+			adapter.removeItem(STORAGE_KEY_HISTORY_DAY_PREFIX + sessionId);
+			const index = readHistoryIndex().filter((e) => e.sessionId !== sessionId);
+			adapter.setItem(STORAGE_KEY_HISTORY, JSON.stringify(index));
+			return true;
+		} catch (error) {
+			console.error('Failed to delete archived day:', error);
+			return false;
+		}
+	},
+
+	// =========================================================================
+	// Schedule Template Storage (023-schedule-templates)
+	// =========================================================================
+
+	/**
+	 * Save all schedule templates
+	 */
+	saveTemplates(templates: ScheduleTemplate[]): boolean {
+		if (!isStorageAvailable()) {
+			console.warn('Storage not available');
+			return false;
+		}
+
+		try {
+			adapter.setItem(STORAGE_KEY_TEMPLATES, JSON.stringify(templates));
+			return true;
+		} catch (error) {
+			console.error('Failed to save templates:', error);
+			return false;
+		}
+	},
+
+	/**
+	 * Load schedule templates, or an empty list when missing or corrupt
+	 */
+	loadTemplates(): ScheduleTemplate[] {
+		if (!isStorageAvailable()) {
+			return [];
+		}
+
+		try {
+			const parsed = readStoredJSON<unknown>(STORAGE_KEY_TEMPLATES, []);
+			return Array.isArray(parsed) ? (parsed as ScheduleTemplate[]) : [];
+		} catch (error) {
+			console.error('Failed to load templates:', error);
+			return [];
+		}
+	},
+
+	// =========================================================================
+	// Estimate Model Storage (025-estimate-learning)
+	// =========================================================================
+
+	/**
+	 * Save the estimate model
+	 */
+	saveEstimates(model: EstimateModel): boolean {
+		if (!isStorageAvailable()) {
+			console.warn('Storage not available');
+			return false;
+		}
+
+		try {
+			adapter.setItem(STORAGE_KEY_ESTIMATES, JSON.stringify(model));
+			return true;
+		} catch (error) {
+			console.error('Failed to save estimates:', error);
+			return false;
+		}
+	},
+
+	/**
+	 * Load the estimate model
+	 * @returns The model, or null when it has not been built yet or is corrupt
+	 */
+	loadEstimates(): EstimateModel | null {
+		if (!isStorageAvailable()) {
+			return null;
+		}
+
+		try {
+			const parsed = readStoredJSON<unknown>(STORAGE_KEY_ESTIMATES, null);
+			return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+				? (parsed as EstimateModel)
+				: null;
+		} catch (error) {
+			console.error('Failed to load estimates:', error);
+			return null;
+		}
+	},
+
+	// =========================================================================
+	// Pomodoro Storage (026-pomodoro)
+	// =========================================================================
+
+	/**
+	 * Save Pomodoro state (breaks and focus progress)
+	 */
+	savePomodoroState(state: PersistedPomodoroState): boolean {
+		if (!isStorageAvailable()) {
+			console.warn('Storage not available');
+			return false;
+		}
+
+		try {
+			adapter.setItem(STORAGE_KEY_POMODORO, JSON.stringify(state));
+			return true;
+		} catch (error) {
+			console.error('Failed to save Pomodoro state:', error);
+			return false;
+		}
+	},
+
+	/**
+	 * Load Pomodoro state
+	 * @returns The saved state, or null if none or corrupt
+	 */
+	loadPomodoroState(): PersistedPomodoroState | null {
+		if (!isStorageAvailable()) {
+			return null;
+		}
+
+		try {
+			const parsed = readStoredJSON<PersistedPomodoroState | null>(STORAGE_KEY_POMODORO, null);
+			return parsed && Array.isArray(parsed.breaks) ? parsed : null;
+		} catch (error) {
+			console.error('Failed to load Pomodoro state:', error);
+			return null;
+		}
+	},
+
+	/**
+	 * Clear Pomodoro state from storage
+	 */
+	clearPomodoroState(): boolean {
+		if (!isStorageAvailable()) {
+			return false;
+		}
+
+		try {
+			adapter.removeItem(STORAGE_KEY_POMODORO);
+			return true;
+		} catch (error) {
+			console.error('Failed to clear Pomodoro state:', error);
+			return false;
+		}
+	},
+
+	// =========================================================================
+	// Idle Time Storage (027-idle-time)
+	// =========================================================================
+
+	/**
+	 * Save idle gaps (completed and active)
+	 */
+	saveIdleGaps(gaps: IdleGap[]): boolean {
+		if (!isStorageAvailable()) {
+			console.warn('Storage not available');
+			return false;
+		}
+
+		try {
+			adapter.setItem(STORAGE_KEY_IDLE, JSON.stringify(gaps));
+			return true;
+		} catch (error) {
+			console.error('Failed to save idle gaps:', error);
+			return false;
+		}
+	},
+
+	/**
+	 * Load idle gaps
+	 * @returns The saved gaps, or an empty array if none or corrupt
+	 */
+	loadIdleGaps(): IdleGap[] {
+		if (!isStorageAvailable()) {
+			return [];
+		}
+
+		try {
+			const parsed = readStoredJSON<IdleGap[]>(STORAGE_KEY_IDLE, []);
+			return Array.isArray(parsed) ? parsed : [];
+		} catch (error) {
+			console.error('Failed to load idle gaps:', error);
+			return [];
+		}
+	},
+
+	/**
+	 * Clear idle gaps from storage
+	 */
+	clearIdleGaps(): boolean {
+		if (!isStorageAvailable()) {
+			return false;
+		}
+
+		try {
+			adapter.removeItem(STORAGE_KEY_IDLE);
+			return true;
+		} catch (error) {
+			console.error('Failed to clear idle gaps:', error);
+			return false;
+		}
+	},
+
+	// =========================================================================
+	// Carry-Over Storage (029-carry-over)
+	// =========================================================================
+
+	/**
+	 * Save tasks waiting to be carried to a later day
+	 */
+	saveCarryOver(tasks: CarriedTask[]): boolean {
+		if (!isStorageAvailable()) {
+			console.warn('Storage not available');
+			return false;
+		}
+
+		try {
+			adapter.setItem(STORAGE_KEY_CARRY_OVER, JSON.stringify(tasks));
+			return true;
+		} catch (error) {
+			console.error('Failed to save carried tasks:', error);
+			return false;
+		}
+	},
+
+	/**
+	 * Load tasks waiting to be carried over, or an empty list when missing or corrupt
+	 */
+	loadCarryOver(): CarriedTask[] {
+		if (!isStorageAvailable()) {
+			return [];
+		}
+
+		try {
+			const parsed = readStoredJSON<unknown>(STORAGE_KEY_CARRY_OVER, []);
+			return Array.isArray(parsed) ? (parsed as CarriedTask[]) : [];
+		} catch (error) {
+			console.error('Failed to load carried tasks:', error);
+			return [];
+		}
+	},
+
+	// =========================================================================
+	// Undo Storage (031-undo-redo)
+	// =========================================================================
+
+	/**
+	 * Save the undo and redo stacks of the running session
+	 */
+	saveUndoHistory(history: UndoHistory): boolean {
+		if (!isStorageAvailable()) {
+			console.warn('Storage not available');
+			return false;
+		}
+
+		const serializeEntry = (entry: UndoEntry): SerializedUndoEntry => ({
+			label: entry.label,
+			snapshot: { ...entry.snapshot, tasks: entry.snapshot.tasks.map(serializeTask) }
+		});
+
+		try {
+			const data: SerializedUndoHistory = {
+				sessionId: history.sessionId,
+				undo: history.undo.map(serializeEntry),
+				redo: history.redo.map(serializeEntry)
+			};
+			adapter.setItem(STORAGE_KEY_UNDO, JSON.stringify(data));
+			return true;
+		} catch (error) {
+			console.error('Failed to save undo history:', error);
+			return false;
+		}
+	},
+
+	/**
+	 * Load the undo history, or null when missing or corrupt
+	 */
+	loadUndoHistory(): UndoHistory | null {
+		if (!isStorageAvailable()) {
+			return null;
+		}
+
+		const deserializeEntry = (entry: SerializedUndoEntry): UndoEntry => ({
+			label: entry.label,
+			snapshot: { ...entry.snapshot, tasks: entry.snapshot.tasks.map(deserializeTask) }
+		});
+
+		try {
+			const data = readStoredJSON<SerializedUndoHistory | null>(STORAGE_KEY_UNDO, null);
+			if (!data || !Array.isArray(data.undo) || !Array.isArray(data.redo)) {
+				return null;
+			}
+
+			return {
+				sessionId: data.sessionId,
+				undo: data.undo.map(deserializeEntry),
+				redo: data.redo.map(deserializeEntry)
+			};
+		} catch (error) {
+			console.error('Failed to load undo history:', error);
+			return null;
+		}
+	},
+
+	/**
+	 * Clear the undo history from storage
+	 */
+	clearUndoHistory(): boolean {
+		if (!isStorageAvailable()) {
+			return false;
+		}
+
+		try {
+			adapter.removeItem(STORAGE_KEY_UNDO);
+			return true;
+		} catch (error) {
+			console.error('Failed to clear undo history:', error);
+			return false;
+		}
+	},
+
+	// =========================================================================
+	// Audit Log Storage (032-audit-log)
+	// =========================================================================
+
+	/**
+	 * Save the audit log of the current session
+	 */
+	saveAuditLog(events: AuditEvent[]): boolean {
+		if (!isStorageAvailable()) {
+			console.warn('Storage not available');
+			return false;
+		}
+
+		try {
+			adapter.setItem(STORAGE_KEY_AUDIT, JSON.stringify(events));
+			return true;
+		} catch (error) {
+			console.error('Failed to save audit log:', error);
+			return false;
+		}
+	},
+
+	/**
+	 * Load the audit log, or an empty list when missing or corrupt
+	 */
+	loadAuditLog(): AuditEvent[] {
+		if (!isStorageAvailable()) {
+			return [];
+		}
+
+		try {
+			const parsed = readStoredJSON<unknown>(STORAGE_KEY_AUDIT, []);
+			return Array.isArray(parsed) ? (parsed as AuditEvent[]) : [];
+		} catch (error) {
+			console.error('Failed to load audit log:', error);
+			return [];
+		}
+	},
+
+	/**
+	 * Clear the audit log from storage
+	 */
+	clearAuditLog(): boolean {
+		if (!isStorageAvailable()) {
+			return false;
+		}
+
+		try {
+			adapter.removeItem(STORAGE_KEY_AUDIT);
+			return true;
+		} catch (error) {
+			console.error('Failed to clear audit log:', error);
+			return false;
+		}
+	},
+
+	// =========================================================================
+	// Storage Backend (015-indexeddb-storage)
+	// =========================================================================
+
+	/**
+	 * Get the backend currently holding app data
+	 */
+	getBackend(): StorageBackend {
+		return adapter.backend;
+	},
+
+	/**
+	 * Get the backend selected by the user (defaults to localStorage)
+	 */
+	getPreferredBackend(): StorageBackend {
+		if (!localAdapter.isAvailable()) {
+			return 'localStorage';
+		}
+
+		return localAdapter.getItem(STORAGE_KEY_BACKEND) === 'indexedDB' ? 'indexedDB' : 'localStorage';
+	},
+
+	/**
+	 * Replace the active adapter and run migrations against it
+	 * @param next - Adapter to use for all app data
+	 */
+	setAdapter(next: StorageAdapter): void {
+		adapter = next;
+		indexedDBAdapter = null;
+		migrateIfNeeded();
+	},
+
+	/**
+	 * Initialize the preferred backend, then run migrations.
+	 * Stays on localStorage if IndexedDB is not supported; rejects if it
+	 * cannot be opened (private mode, quota, blocked upgrade), so the caller
+	 * can report it and call useLocalStorage.
+	 * @returns The backend in use
+	 */
+	async initAsync(): Promise<StorageBackend> {
+		if (this.getPreferredBackend() === 'indexedDB' && isIndexedDBAvailable()) {
+			indexedDBAdapter = await openIndexedDB();
+			adapter = indexedDBAdapter;
+		}
+
+		migrateIfNeeded();
+		return adapter.backend;
+	},
+
+	/**
+	 * Fall back to localStorage after initAsync failed. The data written
+	 * meanwhile is marked so the next successful start takes it over.
+	 * @returns The backend in use
+	 */
+	useLocalStorage(): StorageBackend {
+		indexedDBAdapter = null;
+		adapter = localAdapter;
+
+		try {
+			if (this.getPreferredBackend() === 'indexedDB') {
+				localAdapter.setItem(STORAGE_KEY_LOCAL_FALLBACK, new Date().toISOString());
+			}
+			migrateIfNeeded();
+		} catch (error) {
+			console.error('Failed to migrate localStorage:', error);
+		}
+		return adapter.backend;
+	},
+
+	/**
+	 * Commit writes still queued for IndexedDB, e.g. before the page is hidden
+	 */
+	flush(): Promise<void> {
+		return indexedDBAdapter?.flush() ?? Promise.resolve();
+	},
+
+	/**
+	 * Move all app data to another backend and remember the choice
+	 * @param backend - Backend to switch to
+	 * @returns true if successful, false on error
+	 */
+	async switchBackend(backend: StorageBackend): Promise<boolean> {
+		if (backend === adapter.backend) {
+			return true;
+		}
+
+		if (backend === 'indexedDB') {
+			if (!isIndexedDBAvailable() || !localAdapter.isAvailable()) {
+				return false;
+			}
+
+			try {
+				const idb = await openIndexedDB();
+				// hydrate() only migrates into an empty store; replace stale data
+				// left behind by an earlier switch
+				if (localAdapter.keys().some(isMigratableKey)) {
+					await idb.importFromLocalStorage();
+				}
+				indexedDBAdapter = idb;
+				adapter = idb;
+				migrateIfNeeded();
+				localAdapter.setItem(STORAGE_KEY_BACKEND, 'indexedDB');
+				return true;
+			} catch (error) {
+				console.error('Failed to switch to IndexedDB:', error);
+				return false;
+			}
+		}
+
+		if (!localAdapter.isAvailable()) {
+			return false;
+		}
+
+		const source = adapter;
+		const copied: string[] = [];
+		try {
+			for (const key of source.keys()) {
+				const value = source.getItem(key);
+				if (value !== null) {
+					localAdapter.setItem(key, value);
+					copied.push(key);
+				}
+			}
+		} catch (error) {
+			// Most likely over quota - undo the partial copy
+			console.error('Failed to switch to localStorage:', error);
+			copied.forEach((key) => localAdapter.removeItem(key));
+			return false;
+		}
+
+		try {
+			await indexedDBAdapter?.clear();
+		} catch (error) {
+			console.error('Failed to clear IndexedDB:', error);
+		}
+
+		indexedDBAdapter = null;
+		adapter = localAdapter;
+		localAdapter.removeItem(STORAGE_KEY_BACKEND);
+		// localStorage is the only copy again
+		localAdapter.removeItem(STORAGE_KEY_IDB_MIGRATED);
+		localAdapter.removeItem(STORAGE_KEY_LOCAL_FALLBACK);
+		return true;
+	},
+
+	// =========================================================================
+	// Backup (016-json-backup)
+	// =========================================================================
+
+	/**
+	 * Capture all stored app data as a versioned backup.
+	 * Values are copied as stored, so IDs, dates and schedule config survive.
+	 * @returns Backup object or null on error
+	 */
+	createBackup(): BackupFile | null {
+		if (!isStorageAvailable()) {
+			return null;
+		}
+
+		try {
+			const index = readHistoryIndex();
+			const days: BackupData['history']['days'] = {};
+			for (const entry of index) {
+				const day = readStoredJSON<unknown>(STORAGE_KEY_HISTORY_DAY_PREFIX + entry.sessionId, null);
+				if (day) {
+					days[entry.sessionId] = day;
+				}
+			}
+
+			return {
+				format: BACKUP_FORMAT,
+				schemaVersion: CURRENT_SCHEMA_VERSION,
+				exportedAt: new Date().toISOString(),
+				data: {
+					tasks: readStoredJSON(STORAGE_KEY_TASKS, []),
+					session: readStoredJSON(STORAGE_KEY_SESSION, null),
+					interruptions: readStoredJSON(STORAGE_KEY_INTERRUPTIONS, null),
+					notes: readStoredJSON(STORAGE_KEY_NOTES, []),
+					settings: readStoredJSON(STORAGE_KEY_SETTINGS, null),
+					history: { index, days },
+					templates: readStoredJSON(STORAGE_KEY_TEMPLATES, []),
+					pomodoro: readStoredJSON(STORAGE_KEY_POMODORO, null),
+					idle: readStoredJSON(STORAGE_KEY_IDLE, []),
+					carryOver: readStoredJSON(STORAGE_KEY_CARRY_OVER, []),
+					audit: readStoredJSON(STORAGE_KEY_AUDIT, [])
+				}
+			};
+		} catch (error) {
+			console.error('Failed to create backup:', error);
+			return null;
+		}
+	},
+
+	/**
+	 * Replace all stored app data with a backup, then migrate it from the
+	 * backup's schema version to the current one. A running session resumes
+	 * from the elapsed time in the backup; the time since it was taken is
+	 * not added to the current task.
+	 * @param backup - Validated backup (see parseBackupFile)
+	 * @returns true if successful, false on error
+	 */
+	restoreBackup(backup: BackupFile): boolean {
+		if (!isStorageAvailable()) {
+			console.warn('Storage not available');
+			return false;
+		}
+
+		try {
+			for (const key of adapter.keys()) {
+				if (isMigratableKey(key)) {
+					adapter.removeItem(key);
+				}
+			}
+
+			const { data } = backup;
+			adapter.setItem(STORAGE_KEY_TASKS, JSON.stringify(data.tasks));
+			adapter.setItem(STORAGE_KEY_NOTES, JSON.stringify(data.notes));
+			if (data.session) {
+				// Timer recovery counts from lastPersistedAt: anchor it at the restore
+				const session =
+					data.session.status === 'running'
+						? { ...data.session, lastPersistedAt: Date.now() }
+						: data.session;
+				adapter.setItem(STORAGE_KEY_SESSION, JSON.stringify(session));
+			}
+			if (data.interruptions) {
+				adapter.setItem(STORAGE_KEY_INTERRUPTIONS, JSON.stringify(data.interruptions));
+			}
+			if (data.settings) {
+				adapter.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(data.settings));
+			}
+			for (const [sessionId, day] of Object.entries(data.history.days)) {
+				adapter.setItem(STORAGE_KEY_HISTORY_DAY_PREFIX + sessionId, JSON.stringify(day));
+			}
+			adapter.setItem(STORAGE_KEY_HISTORY, JSON.stringify(data.history.index));
+			if (data.templates) {
+				adapter.setItem(STORAGE_KEY_TEMPLATES, JSON.stringify(data.templates));
+			}
+			if (data.pomodoro) {
+				adapter.setItem(STORAGE_KEY_POMODORO, JSON.stringify(data.pomodoro));
+			}
+			if (data.idle) {
+				adapter.setItem(STORAGE_KEY_IDLE, JSON.stringify(data.idle));
+			}
+			if (data.carryOver) {
+				adapter.setItem(STORAGE_KEY_CARRY_OVER, JSON.stringify(data.carryOver));
+			}
+			if (data.audit) {
+				adapter.setItem(STORAGE_KEY_AUDIT, JSON.stringify(data.audit));
+			}
+
+			// Run the backup through the same migrations as stored data
+			adapter.setItem(STORAGE_KEY_SCHEMA, String(backup.schemaVersion));
+			migrateIfNeeded();
+			return true;
+		} catch (error) {
+			console.error('Failed to restore backup:', error);
+			return false;
+		}
 	}
-};
\ No newline at end of file
+};
@@ -0,0 +1,368 @@
+/**
+ * Storage Adapter Service
+ *
+ * Feature: 015-indexeddb-storage
+ * Purpose: Pluggable key/value backends for the storage service.
+ *
+ * The storage service works against a synchronous StorageAdapter so every
+ * existing call site keeps its current signature. The localStorage adapter
+ * talks to window.localStorage directly. The IndexedDB adapter keeps an
+ * in-memory cache that is hydrated once at startup and writes through to
+ * IndexedDB in the background, which removes the ~5 MB localStorage cap.
+ *
+ * Data moved to IndexedDB stays in localStorage until a later start finds
+ * it there, and data written to localStorage while IndexedDB could not be
+ * opened is taken over by the next successful start.
+ */
+
+import {
+	IDB_DATABASE_NAME,
+	IDB_DATABASE_VERSION,
+	IDB_STORE_NAME,
+	LOCAL_ONLY_STORAGE_KEYS,
+	STORAGE_KEY_IDB_MIGRATED,
+	STORAGE_KEY_LOCAL_FALLBACK,
+	STORAGE_KEY_PREFIX
+} from '$lib/types';
+import type { StorageBackend } from '$lib/types';
+
+/**
+ * Synchronous key/value backend used by the storage service
+ */
+export interface StorageAdapter {
+	readonly backend: StorageBackend;
+	isAvailable(): boolean;
+	getItem(key: string): string | null;
+	setItem(key: string, value: string): void;
+	removeItem(key: string): void;
+	keys(): string[];
+}
+
+/**
+ * IndexedDB-backed adapter. Must be hydrated before use.
+ */
+export interface IndexedDBStorageAdapter extends StorageAdapter {
+	/**
+	 * Open the database and load all entries into memory.
+	 * On first use, copies existing tm_* keys over from localStorage; after
+	 * a fallback to localStorage, takes over the keys written there.
+	 */
+	hydrate(): Promise<void>;
+	/**
+	 * Replace the store contents with the tm_* keys currently in
+	 * localStorage. They stay in localStorage until a later hydrate finds
+	 * them in the store.
+	 */
+	importFromLocalStorage(): Promise<void>;
+	/** Commit queued writes now and resolve once they are done */
+	flush(): Promise<void>;
+	/** Delete every entry from the object store and the cache */
+	clear(): Promise<void>;
+}
+
+/**
+ * Check whether a key belongs to the app and may leave localStorage
+ */
+export function isMigratableKey(key: string): boolean {
+	return key.startsWith(STORAGE_KEY_PREFIX) && !LOCAL_ONLY_STORAGE_KEYS.includes(key);
+}
+
+/**
+ * Check if IndexedDB exists in this environment
+ */
+export function isIndexedDBAvailable(): boolean {
+	try {
+		return typeof indexedDB !== 'undefined' && indexedDB !== null;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Create an adapter over window.localStorage.
+ *
+ * localStorage is resolved on every call rather than captured, so tests
+ * that replace the global keep working.
+ */
+export function createLocalStorageAdapter(): StorageAdapter {
+	return {
+		backend: 'localStorage',
+
+		isAvailable(): boolean {
+			try {
+				const testKey = '__storage_test__';
+				localStorage.setItem(testKey, testKey);
+				localStorage.removeItem(testKey);
+				return true;
+			} catch {
+				return false;
+			}
+		},
+
+		getItem(key: string): string | null {
+			return localStorage.getItem(key);
+		},
+
+		setItem(key: string, value: string): void {
+			localStorage.setItem(key, value);
+		},
+
+		removeItem(key: string): void {
+			localStorage.removeItem(key);
+		},
+
+		keys(): string[] {
+			const result: string[] = [];
+			for (let i = 0; i < localStorage.length; i++) {
+				const key = localStorage.key(i);
+				if (key !== null) {
+					result.push(key);
+				}
+			}
+			return result;
+		}
+	};
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+/**
+ * Resolve when a transaction commits
+ */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		tx.oncomplete = () => resolve();
+		tx.onerror = () => reject(tx.error);
+		tx.onabort = () => reject(tx.error);
+	});
+}
+
+/**
+ * Open (and create if needed) the app database
+ */
+function openDatabase(factory: IDBFactory): Promise<IDBDatabase> {
+	return new Promise((resolve, reject) => {
+		const request = factory.open(IDB_DATABASE_NAME, IDB_DATABASE_VERSION);
+		request.onupgradeneeded = () => {
+			const db = request.result;
+			if (!db.objectStoreNames.contains(IDB_STORE_NAME)) {
+				db.createObjectStore(IDB_STORE_NAME);
+			}
+		};
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+/**
+ * Read the tm_* entries that may move between localStorage and IndexedDB
+ */
+function readLocalEntries(local: StorageAdapter): (readonly [string, string])[] {
+	return local
+		.keys()
+		.filter(isMigratableKey)
+		.map((key) => [key, local.getItem(key)] as const)
+		.filter((entry): entry is readonly [string, string] => entry[1] !== null);
+}
+
+/**
+ * Create an adapter backed by IndexedDB.
+ *
+ * Reads are served from an in-memory cache so the adapter stays
+ * synchronous. Writes update the cache immediately and are batched into
+ * one transaction per task; IndexedDB commits transactions on a store in
+ * the order they were created. Failures are logged rather than thrown
+ * because the caller has already returned.
+ *
+ * @param factory - IDBFactory to use (defaults to the global indexedDB)
+ */
+export function createIndexedDBAdapter(factory?: IDBFactory): IndexedDBStorageAdapter {
+	const cache = new Map<string, string>();
+	let db: IDBDatabase | null = null;
+	let pending: ((store: IDBObjectStore) => void)[] = [];
+	let queue: Promise<void> = Promise.resolve();
+
+	/**
+	 * Start a transaction for the queued writes
+	 */
+	function commitPending(database: IDBDatabase): void {
+		if (pending.length === 0) return;
+
+		const writes = pending;
+		pending = [];
+		try {
+			const tx = database.transaction(IDB_STORE_NAME, 'readwrite');
+			const store = tx.objectStore(IDB_STORE_NAME);
+			writes.forEach((write) => write(store));
+			const done = transactionDone(tx);
+			queue = queue.then(() => done);
+		} catch (error) {
+			queue = queue.then(() => Promise.reject(error));
+		}
+		queue = queue.catch((error) => {
+			console.error('Failed to write to IndexedDB:', error);
+		});
+	}
+
+	function enqueue(write: (store: IDBObjectStore) => void): void {
+		const database = db;
+		if (!database) return;
+
+		pending.push(write);
+		if (pending.length === 1) {
+			queueMicrotask(() => commitPending(database));
+		}
+	}
+
+	/**
+	 * Replace the store contents with the tm_* keys from localStorage.
+	 * The localStorage copy is kept and marked as migrated until a later
+	 * hydrate finds the data in the store.
+	 */
+	async function replaceWithLocalStorage(database: IDBDatabase): Promise<void> {
+		const local = createLocalStorageAdapter();
+		if (!local.isAvailable()) return;
+
+		const entries = readLocalEntries(local);
+
+		commitPending(database);
+		await queue;
+		const tx = database.transaction(IDB_STORE_NAME, 'readwrite');
+		const store = tx.objectStore(IDB_STORE_NAME);
+		store.clear();
+		for (const [key, value] of entries) {
+			store.put(value, key);
+		}
+		await transactionDone(tx);
+
+		cache.clear();
+		for (const [key, value] of entries) {
+			cache.set(key, value);
+		}
+		local.removeItem(STORAGE_KEY_LOCAL_FALLBACK);
+		if (entries.length > 0) {
+			local.setItem(STORAGE_KEY_IDB_MIGRATED, new Date().toISOString());
+		}
+	}
+
+	/**
+	 * Take over the tm_* keys written to localStorage while IndexedDB could
+	 * not be opened. They were the latest data the app worked with, so they
+	 * replace the stored values; keys not written there are kept.
+	 */
+	async function mergeFallbackWrites(database: IDBDatabase, local: StorageAdapter): Promise<void> {
+		const entries = readLocalEntries(local);
+
+		const tx = database.transaction(IDB_STORE_NAME, 'readwrite');
+		const store = tx.objectStore(IDB_STORE_NAME);
+		for (const [key, value] of entries) {
+			store.put(value, key);
+		}
+		await transactionDone(tx);
+
+		for (const [key, value] of entries) {
+			cache.set(key, value);
+		}
+		local.removeItem(STORAGE_KEY_LOCAL_FALLBACK);
+		local.setItem(STORAGE_KEY_IDB_MIGRATED, new Date().toISOString());
+	}
+
+	/**
+	 * Free the localStorage quota once the migrated data was found in the store
+	 */
+	function dropMigratedCopy(local: StorageAdapter): void {
+		for (const key of local.keys().filter(isMigratableKey)) {
+			local.removeItem(key);
+		}
+		local.removeItem(STORAGE_KEY_IDB_MIGRATED);
+	}
+
+	return {
+		backend: 'indexedDB',
+
+		isAvailable(): boolean {
+			return db !== null;
+		},
+
+		getItem(key: string): string | null {
+			return cache.get(key) ?? null;
+		},
+
+		setItem(key: string, value: string): void {
+			cache.set(key, value);
+			enqueue((store) => store.put(value, key));
+		},
+
+		removeItem(key: string): void {
+			cache.delete(key);
+			enqueue((store) => store.delete(key));
+		},
+
+		keys(): string[] {
+			return Array.from(cache.keys());
+		},
+
+		async hydrate(): Promise<void> {
+			const database = await openDatabase(factory ?? indexedDB);
+
+			const tx = database.transaction(IDB_STORE_NAME, 'readonly');
+			const store = tx.objectStore(IDB_STORE_NAME);
+			const [keys, values] = await Promise.all([
+				requestToPromise(store.getAllKeys()),
+				requestToPromise(store.getAll())
+			]);
+
+			cache.clear();
+			keys.forEach((key, i) => {
+				cache.set(String(key), values[i] as string);
+			});
+
+			const local = createLocalStorageAdapter();
+			if (cache.size === 0) {
+				// First run on IndexedDB: bring existing data over
+				await replaceWithLocalStorage(database);
+			} else if (local.isAvailable()) {
+				if (local.getItem(STORAGE_KEY_LOCAL_FALLBACK) !== null) {
+					await mergeFallbackWrites(database, local);
+				} else if (local.getItem(STORAGE_KEY_IDB_MIGRATED) !== null) {
+					dropMigratedCopy(local);
+				}
+			}
+
+			db = database;
+		},
+
+		async importFromLocalStorage(): Promise<void> {
+			if (!db) {
+				throw new Error('IndexedDB adapter is not hydrated');
+			}
+			await replaceWithLocalStorage(db);
+		},
+
+		flush(): Promise<void> {
+			if (db) {
+				commitPending(db);
+			}
+			return queue;
+		},
+
+		async clear(): Promise<void> {
+			cache.clear();
+			if (!db) return;
+
+			pending = [];
+			await queue;
+			const tx = db.transaction(IDB_STORE_NAME, 'readwrite');
+			tx.objectStore(IDB_STORE_NAME).clear();
+			await transactionDone(tx);
+		}
+	};
+}
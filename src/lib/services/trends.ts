@@ -0,0 +1,287 @@
+/**
+ * Trends Service
+ *
+ * Feature: 024-cross-day-trends
+ *
+ * Pure functions for aggregating archived days into daily, weekly and
+ * monthly trends. Each period is scored with calculateAnalyticsSummary so
+ * trend values match the single-day analytics dashboard.
+ */
+
+import type {
+	ArchivedDay,
+	Interruption,
+	InterruptionCategory,
+	TaskProgress,
+	ConfirmedTask,
+	TrendCategory,
+	TrendPeriod,
+	TrendPoint,
+	TrendsSummary
+} from '$lib/types';
+
+import { TREND_ROLLING_WINDOW, TREND_UNCATEGORIZED } from '$lib/types';
+import { calculateAnalyticsSummary } from './analytics';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// =============================================================================
+// Date Helpers
+// =============================================================================
+
+/**
+ * Convert a YYYY-MM-DD date to a count of days since the epoch.
+ * Works in UTC so the result does not depend on the local timezone.
+ */
+function toDayNumber(date: string): number {
+	const [year, month, day] = date.split('-').map(Number);
+	return Math.floor(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+}
+
+/**
+ * Convert a day number back to a YYYY-MM-DD date
+ */
+function fromDayNumber(dayNumber: number): string {
+	return new Date(dayNumber * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * Get the first day of the period containing a date
+ */
+function getPeriodStart(date: string, period: TrendPeriod): string {
+	if (period === 'month') {
+		return `${date.slice(0, 7)}-01`;
+	}
+	if (period === 'week') {
+		const dayNumber = toDayNumber(date);
+		// Epoch day 0 was a Thursday; shift so Monday = 0
+		const weekday = (((dayNumber + 3) % 7) + 7) % 7;
+		return fromDayNumber(dayNumber - weekday);
+	}
+	return date;
+}
+
+/**
+ * Get the first day of the period after the one starting at periodStart
+ */
+function getNextPeriodStart(periodStart: string, period: TrendPeriod): string {
+	if (period === 'month') {
+		const [year, month] = periodStart.split('-').map(Number);
+		return month === 12
+			? `${year + 1}-01-01`
+			: `${year}-${String(month + 1).padStart(2, '0')}-01`;
+	}
+	return fromDayNumber(toDayNumber(periodStart) + (period === 'week' ? 7 : 1));
+}
+
+// =============================================================================
+// Aggregation Helpers
+// =============================================================================
+
+/**
+ * Create a per-category total with every listed category and
+ * 'Uncategorized' at zero
+ */
+function emptyCategoryTotals(
+	categories: readonly InterruptionCategory[]
+): Record<TrendCategory, number> {
+	const totals: Record<TrendCategory, number> = {};
+	for (const category of categories) {
+		totals[category.categoryId] = 0;
+	}
+	totals[TREND_UNCATEGORIZED] = 0;
+	return totals;
+}
+
+/**
+ * Score the archived days that fall in one period
+ */
+function summarizePeriod(
+	periodStart: string,
+	days: readonly ArchivedDay[],
+	categories: readonly InterruptionCategory[]
+): TrendPoint {
+	const taskProgress: TaskProgress[] = [];
+	const interruptions: Interruption[] = [];
+	const tasks: ConfirmedTask[] = [];
+	for (const day of days) {
+		taskProgress.push(...day.session.taskProgress);
+		interruptions.push(...day.interruptions);
+		tasks.push(...day.tasks);
+	}
+
+	const summary = calculateAnalyticsSummary(taskProgress, interruptions, tasks);
+	const interruptionSecByCategory = emptyCategoryTotals(categories);
+	for (const interruption of interruptions) {
+		// Categories no longer in the list are still counted under their ID
+		const key = interruption.category ?? TREND_UNCATEGORIZED;
+		interruptionSecByCategory[key] =
+			(interruptionSecByCategory[key] ?? 0) + interruption.durationSec;
+	}
+
+	// Without completed work both scores are 0, which would drag averages down
+	const hasWork = summary.totalActualSec > 0;
+
+	return {
+		periodStart,
+		dayCount: days.length,
+		concentrationScore: hasWork ? summary.concentrationScore : null,
+		scheduleAdherence: hasWork ? summary.scheduleAdherence : null,
+		totalInterruptionSec: summary.totalInterruptionSec,
+		interruptionSecByCategory,
+		adHocTaskCount: summary.adHocTaskCount,
+		importedTaskCount: summary.importedTaskCount
+	};
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Keep the items whose date falls within a range (inclusive).
+ *
+ * @param items - Archived days or index entries
+ * @param from - First date (YYYY-MM-DD)
+ * @param to - Last date (YYYY-MM-DD)
+ * @returns Matching items, in their original order
+ */
+export function filterDaysByRange<T extends { date: string }>(
+	items: readonly T[],
+	from: string,
+	to: string
+): T[] {
+	return items.filter((item) => item.date >= from && item.date <= to);
+}
+
+/**
+ * Calculate a trailing rolling average.
+ * Null values (periods without data) are skipped; a window with no values
+ * averages to null.
+ *
+ * @param values - Values in chronological order
+ * @param window - Number of values in each average, including the current one
+ * @returns Averages aligned with values, rounded to one decimal
+ *
+ * @example
+ * calculateRollingAverage([80, null, 90], 2) // [80, 80, 90]
+ */
+export function calculateRollingAverage(
+	values: readonly (number | null)[],
+	window: number
+): (number | null)[] {
+	const size = Math.max(1, Math.floor(window));
+	return values.map((_, index) => {
+		const inWindow = values
+			.slice(Math.max(0, index - size + 1), index + 1)
+			.filter((v): v is number => v !== null);
+		if (inWindow.length === 0) {
+			return null;
+		}
+		const mean = inWindow.reduce((sum, v) => sum + v, 0) / inWindow.length;
+		return Math.round(mean * 10) / 10;
+	});
+}
+
+/**
+ * Group archived days into one trend point per period of a date range.
+ * Every period in the range gets a point, including ones without data.
+ *
+ * @param days - Archived days (any order)
+ * @param from - First date of the range (YYYY-MM-DD)
+ * @param to - Last date of the range (YYYY-MM-DD)
+ * @param period - Granularity of the points
+ * @param categories - Interruption categories always listed in the totals
+ * @returns Trend points, oldest first (empty for an invalid range)
+ */
+export function calculateTrendPoints(
+	days: readonly ArchivedDay[],
+	from: string,
+	to: string,
+	period: TrendPeriod,
+	categories: readonly InterruptionCategory[] = []
+): TrendPoint[] {
+	if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+		return [];
+	}
+
+	const byPeriod = new Map<string, ArchivedDay[]>();
+	for (const day of filterDaysByRange(days, from, to)) {
+		const key = getPeriodStart(day.date, period);
+		const group = byPeriod.get(key);
+		if (group) {
+			group.push(day);
+		} else {
+			byPeriod.set(key, [day]);
+		}
+	}
+
+	const points: TrendPoint[] = [];
+	for (
+		let periodStart = getPeriodStart(from, period);
+		periodStart <= to;
+		periodStart = getNextPeriodStart(periodStart, period)
+	) {
+		points.push(summarizePeriod(periodStart, byPeriod.get(periodStart) ?? [], categories));
+	}
+	return points;
+}
+
+/**
+ * Calculate trends for a date range of archived days.
+ *
+ * @param days - Archived days (any order)
+ * @param from - First date of the range (YYYY-MM-DD)
+ * @param to - Last date of the range (YYYY-MM-DD)
+ * @param period - Granularity of the points (default: 'day')
+ * @param categories - Interruption categories always listed in the totals
+ * @returns Trend points, rolling averages and range totals
+ *
+ * @example
+ * const trends = calculateTrendsSummary(days, '2025-12-01', '2025-12-31', 'week');
+ */
+export function calculateTrendsSummary(
+	days: readonly ArchivedDay[],
+	from: string,
+	to: string,
+	period: TrendPeriod = 'day',
+	categories: readonly InterruptionCategory[] = []
+): TrendsSummary {
+	const points = calculateTrendPoints(days, from, to, period, categories);
+	const window = TREND_ROLLING_WINDOW[period];
+
+	const interruptionSecByCategory = emptyCategoryTotals(categories);
+	let dayCount = 0;
+	let adHocTaskCount = 0;
+	let importedTaskCount = 0;
+	for (const point of points) {
+		dayCount += point.dayCount;
+		adHocTaskCount += point.adHocTaskCount;
+		importedTaskCount += point.importedTaskCount;
+		for (const [category, seconds] of Object.entries(point.interruptionSecByCategory)) {
+			interruptionSecByCategory[category] = (interruptionSecByCategory[category] ?? 0) + seconds;
+		}
+	}
+
+	const totalTasks = adHocTaskCount + importedTaskCount;
+
+	return {
+		period,
+		points,
+		rollingConcentration: calculateRollingAverage(
+			points.map((p) => p.concentrationScore),
+			window
+		),
+		rollingAdherence: calculateRollingAverage(
+			points.map((p) => p.scheduleAdherence),
+			window
+		),
+		dayCount,
+		interruptionSecByCategory,
+		adHocTaskCount,
+		importedTaskCount,
+		adHocPercentage:
+			totalTasks > 0 ? Math.round((adHocTaskCount / totalTasks) * 1000) / 10 : null
+	};
+}
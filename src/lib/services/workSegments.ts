@@ -0,0 +1,64 @@
+/**
+ * Work Segments Service
+ *
+ * Feature: 033-work-segments
+ *
+ * Pure functions to keep track of the stretches of time a task was worked
+ * on. A task that is switched away from and resumed later is worked in
+ * several segments, so its start is the start of its first segment rather
+ * than its completion time minus its duration.
+ */
+
+import type { TaskProgress, WorkSegment } from '$lib/types';
+
+/**
+ * Open a new segment on a task that becomes active.
+ *
+ * @param progress - Progress of the task
+ * @param now - When the task became active (defaults to now)
+ * @returns Progress with the new segment appended
+ */
+export function startSegment(progress: TaskProgress, now: Date = new Date()): TaskProgress {
+	const segment: WorkSegment = { startedAt: now.toISOString(), endedAt: null, elapsedSec: 0 };
+	return { ...progress, segments: [...(progress.segments ?? []), segment] };
+}
+
+/**
+ * Close the open segment of a task that stops being active.
+ *
+ * The segment gets the time counted since the task was resumed, so this
+ * must be called before actualDurationSec is updated.
+ *
+ * @param progress - Progress of the task, with the elapsed time it was resumed at
+ * @param totalElapsedSec - Total time counted on the task so far
+ * @param now - When work on the task stopped (defaults to now)
+ * @returns Progress with its last segment closed, unchanged if none is open
+ */
+export function endSegment(
+	progress: TaskProgress,
+	totalElapsedSec: number,
+	now: Date = new Date()
+): TaskProgress {
+	const segments = progress.segments ?? [];
+	const last = segments[segments.length - 1];
+	if (!last || last.endedAt !== null) return progress;
+
+	const closed: WorkSegment = {
+		...last,
+		endedAt: now.toISOString(),
+		elapsedSec: Math.max(0, Math.round(totalElapsedSec - progress.actualDurationSec))
+	};
+
+	return { ...progress, segments: [...segments.slice(0, -1), closed] };
+}
+
+/**
+ * When work on a task first started.
+ *
+ * @param progress - Progress of the task
+ * @returns Start of the first segment, null if the task has none
+ */
+export function getFirstSegmentStart(progress: TaskProgress | undefined): Date | null {
+	const first = progress?.segments?.[0];
+	return first ? new Date(first.startedAt) : null;
+}
@@ -0,0 +1,92 @@
+/**
+ * Audit Store
+ *
+ * Feature: 032-audit-log
+ *
+ * Append-only, timestamped log of the state transitions of a session
+ * (tasks started, completed and reordered, elapsed edits, interruptions,
+ * pauses, timer recovery, tab leadership). Each event keeps the session
+ * lag right after it, so changes to totalLagSec can be traced.
+ *
+ * Uses Svelte 5 runes for reactive state management.
+ */
+
+import type { AuditEvent, AuditEventDetails, AuditEventType } from '$lib/types';
+import { storage } from '$lib/services/storage';
+import { createAuditEvent } from '$lib/services/auditLog';
+import { sessionStore } from '$lib/stores/sessionStore.svelte';
+
+// =============================================================================
+// State
+// =============================================================================
+
+let eventsState = $state<AuditEvent[]>([]);
+
+// =============================================================================
+// Store Implementation
+// =============================================================================
+
+/**
+ * Creates a store for the session's audit log.
+ *
+ * @returns An object exposing readable getters and actions to record events
+ */
+function createAuditStore() {
+	return {
+		// -------------------------------------------------------------------------
+		// Readable State (getters)
+		// -------------------------------------------------------------------------
+
+		/** Recorded events, oldest first */
+		get events(): AuditEvent[] {
+			return eventsState;
+		},
+
+		// -------------------------------------------------------------------------
+		// Actions
+		// -------------------------------------------------------------------------
+
+		/**
+		 * Load the audit log from storage.
+		 */
+		load(): void {
+			eventsState = storage.loadAuditLog();
+		},
+
+		/**
+		 * Append an event. Events are recorded during a session or while a
+		 * schedule is loaded, and are appended to the stored log so events
+		 * from other tabs are kept.
+		 *
+		 * @param type - Kind of transition
+		 * @param taskId - Task the event is about, null if none
+		 * @param details - Values to record with the event
+		 * @returns The recorded event, or null without a session or tasks
+		 */
+		record(
+			type: AuditEventType,
+			taskId: string | null = null,
+			details: AuditEventDetails = {}
+		): AuditEvent | null {
+			if (!sessionStore.session && storage.loadTasks().length === 0) return null;
+
+			const event = createAuditEvent(type, taskId, details, sessionStore.lagSec);
+			eventsState = [...storage.loadAuditLog(), event];
+			storage.saveAuditLog(eventsState);
+			return event;
+		},
+
+		/**
+		 * Clear the log, including storage.
+		 */
+		reset(): void {
+			eventsState = [];
+			storage.clearAuditLog();
+		}
+	};
+}
+
+/**
+ * The audit store singleton
+ */
+export const auditStore = createAuditStore();
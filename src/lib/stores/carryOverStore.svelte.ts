@@ -0,0 +1,114 @@
+/**
+ * Carry-Over Store
+ *
+ * Feature: 029-carry-over
+ *
+ * Holds unfinished tasks chosen in the end-of-day review until the day
+ * they were carried to. Due tasks are added to the import preview (see
+ * importStore.addCarriedTasks) and removed once that schedule is confirmed.
+ *
+ * Uses Svelte 5 runes for reactive state management.
+ */
+
+import type { CarriedTask } from '$lib/types';
+import { storage } from '$lib/services/storage';
+import { isCarriedTaskDue } from '$lib/services/carryOver';
+import { formatDateYYYYMMDD } from '$lib/utils/formatters';
+
+// =============================================================================
+// State
+// =============================================================================
+
+let carriedState = $state<CarriedTask[]>([]);
+
+// =============================================================================
+// Store Implementation
+// =============================================================================
+
+/**
+ * Creates a store for tasks carried over to later days.
+ *
+ * @returns An object exposing readable getters and actions for carried tasks
+ */
+function createCarryOverStore() {
+	return {
+		// -------------------------------------------------------------------------
+		// Readable State (getters)
+		// -------------------------------------------------------------------------
+
+		/** Tasks waiting to be carried over, in the order they were added */
+		get carried(): CarriedTask[] {
+			return carriedState;
+		},
+
+		// -------------------------------------------------------------------------
+		// Actions
+		// -------------------------------------------------------------------------
+
+		/**
+		 * Load carried tasks from storage.
+		 */
+		load(): void {
+			carriedState = storage.loadCarryOver();
+		},
+
+		/**
+		 * Queue tasks for later days.
+		 *
+		 * @returns true if the tasks were saved
+		 */
+		add(tasks: CarriedTask[]): boolean {
+			if (tasks.length === 0) {
+				return true;
+			}
+
+			const next = [...carriedState, ...tasks];
+			if (!storage.saveCarryOver(next)) {
+				return false;
+			}
+
+			carriedState = next;
+			return true;
+		},
+
+		/**
+		 * Tasks to add to the schedule of a date, including overdue ones.
+		 *
+		 * @param date - Day being planned
+		 */
+		findDue(date: Date): CarriedTask[] {
+			const dateKey = formatDateYYYYMMDD(date);
+			return carriedState.filter((t) => isCarriedTaskDue(t, dateKey));
+		},
+
+		/**
+		 * Remove the tasks due on a date, once they made it into (or were
+		 * deleted from) that day's schedule.
+		 *
+		 * @param date - Day that was planned
+		 * @returns true if any tasks were removed and the change was saved
+		 */
+		removeDue(date: Date): boolean {
+			const dateKey = formatDateYYYYMMDD(date);
+			const next = carriedState.filter((t) => !isCarriedTaskDue(t, dateKey));
+			if (next.length === carriedState.length || !storage.saveCarryOver(next)) {
+				return false;
+			}
+
+			carriedState = next;
+			return true;
+		},
+
+		/**
+		 * Reset in-memory state (for testing)
+		 */
+		reset(): void {
+			carriedState = [];
+		}
+	};
+}
+
+/**
+ * The carry-over store instance
+ */
+export const carryOverStore = createCarryOverStore();
@@ -0,0 +1,112 @@
+/**
+ * Estimate Store
+ *
+ * Feature: 025-estimate-learning
+ *
+ * Holds the estimate model learned from archived days. Each archived day
+ * adds its completed tasks; when no model is stored yet (first run or after
+ * a backup restore) it is rebuilt from the day archive.
+ *
+ * Uses Svelte 5 runes for reactive state management.
+ */
+
+import type { ArchivedDay, DurationSuggestion, EstimateModel } from '$lib/types';
+import { storage } from '$lib/services/storage';
+import { addDayToModel, suggestDuration, type EstimateTaskInfo } from '$lib/services/estimates';
+
+// =============================================================================
+// State
+// =============================================================================
+
+let modelState = $state<EstimateModel>({});
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Build a model from every archived day, oldest first
+ */
+function buildFromHistory(): EstimateModel {
+	let model: EstimateModel = {};
+	for (const entry of [...storage.listArchivedDays()].reverse()) {
+		const day = storage.loadArchivedDay(entry.sessionId);
+		if (day) {
+			model = addDayToModel(model, day);
+		}
+	}
+	return model;
+}
+
+// =============================================================================
+// Store Implementation
+// =============================================================================
+
+/**
+ * Creates a store for the estimate model.
+ *
+ * @returns An object exposing readable getters and actions for estimates
+ */
+function createEstimateStore() {
+	return {
+		// -------------------------------------------------------------------------
+		// Readable State (getters)
+		// -------------------------------------------------------------------------
+
+		/** Samples by key */
+		get model(): EstimateModel {
+			return modelState;
+		},
+
+		// -------------------------------------------------------------------------
+		// Actions
+		// -------------------------------------------------------------------------
+
+		/**
+		 * Load the model from storage, rebuilding it from history if missing.
+		 */
+		load(): void {
+			const stored = storage.loadEstimates();
+			if (stored) {
+				modelState = stored;
+				return;
+			}
+
+			modelState = buildFromHistory();
+			storage.saveEstimates(modelState);
+		},
+
+		/**
+		 * Learn from a newly archived day.
+		 *
+		 * @param day - The archived day
+		 */
+		recordDay(day: ArchivedDay): void {
+			modelState = addDayToModel(modelState, day);
+			storage.saveEstimates(modelState);
+		},
+
+		/**
+		 * Suggest a planned duration for a task.
+		 *
+		 * @param task - Task name, project and tags
+		 * @param plannedSec - Currently planned duration (seconds)
+		 * @returns Suggestion, or null if there is not enough history
+		 */
+		suggest(task: EstimateTaskInfo, plannedSec: number): DurationSuggestion | null {
+			return suggestDuration(modelState, task, plannedSec);
+		},
+
+		/**
+		 * Reset in-memory state (for testing)
+		 */
+		reset(): void {
+			modelState = {};
+		}
+	};
+}
+
+/**
+ * The estimate store instance
+ */
+export const estimateStore = createEstimateStore();
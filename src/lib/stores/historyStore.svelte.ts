@@ -0,0 +1,194 @@
+/**
+ * History Store
+ *
+ * Feature: 014-session-history
+ *
+ * Manages the archive of finished days. Each day is stored under its own
+ * sessionId together with its DaySummary, tasks, interruptions and notes,
+ * so past days can be reviewed after "Start New Day".
+ *
+ * Uses Svelte 5 runes for reactive state management.
+ */
+
+import type {
+	ArchivedDay,
+	ArchivedDayEntry,
+	ConfirmedTask,
+	DaySession,
+	DaySummary,
+	FocusBreak,
+	IdleGap,
+	Interruption,
+	Note
+} from '$lib/types';
+import { storage } from '$lib/services/storage';
+import { filterDaysByRange } from '$lib/services/trends';
+import { formatDateYYYYMMDD } from '$lib/utils/formatters';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Input for archiving a finished day.
+ */
+export interface ArchiveDayInput {
+	/** Final session state */
+	session: DaySession;
+	/** Confirmed tasks for the session */
+	tasks: ConfirmedTask[];
+	/** Interruptions recorded during the session */
+	interruptions: Interruption[];
+	/** Notes captured during the session */
+	notes: Note[];
+	/** Pomodoro breaks taken during the session (026-pomodoro) */
+	breaks?: FocusBreak[];
+	/** Idle time between tasks (027-idle-time) */
+	idleGaps?: IdleGap[];
+	/** Summary produced by sessionStore.endDay() */
+	summary: DaySummary;
+}
+
+// =============================================================================
+// State
+// =============================================================================
+
+let entriesState = $state<ArchivedDayEntry[]>([]);
+let selectedDayState = $state<ArchivedDay | null>(null);
+let isViewOpenState = $state(false);
+
+// =============================================================================
+// Store Implementation
+// =============================================================================
+
+/**
+ * Creates a history store that manages the list of archived days and the
+ * currently selected day.
+ *
+ * @returns An object exposing readable getters and actions for the day archive
+ */
+function createHistoryStore() {
+	return {
+		// -------------------------------------------------------------------------
+		// Readable State (getters)
+		// -------------------------------------------------------------------------
+
+		/** Archived days, newest first */
+		get entries(): ArchivedDayEntry[] {
+			return entriesState;
+		},
+
+		/** The archived day currently opened for review */
+		get selectedDay(): ArchivedDay | null {
+			return selectedDayState;
+		},
+
+		get isViewOpen(): boolean {
+			return isViewOpenState;
+		},
+
+		// -------------------------------------------------------------------------
+		// Actions
+		// -------------------------------------------------------------------------
+
+		/**
+		 * Load the archive index from storage.
+		 */
+		load(): void {
+			entriesState = storage.listArchivedDays();
+		},
+
+		/**
+		 * Archive a finished day under its sessionId.
+		 *
+		 * @param input - Session data and summary to archive
+		 * @returns The archived day, or null if it could not be persisted
+		 */
+		archiveDay(input: ArchiveDayInput): ArchivedDay | null {
+			const day: ArchivedDay = {
+				sessionId: input.session.sessionId,
+				date: formatDateYYYYMMDD(input.session.startedAt),
+				archivedAt: new Date().toISOString(),
+				summary: input.summary,
+				session: input.session,
+				tasks: input.tasks,
+				interruptions: input.interruptions,
+				notes: input.notes,
+				...(input.breaks && input.breaks.length > 0 && { breaks: input.breaks }),
+				...(input.idleGaps && input.idleGaps.length > 0 && { idleGaps: input.idleGaps })
+			};
+
+			if (!storage.archiveDay(day)) {
+				return null;
+			}
+
+			entriesState = storage.listArchivedDays();
+			return day;
+		},
+
+		/**
+		 * Open an archived day for review.
+		 *
+		 * @param sessionId - Session identifier of the archived day
+		 * @returns The loaded day, or null if not found
+		 */
+		selectDay(sessionId: string): ArchivedDay | null {
+			selectedDayState = storage.loadArchivedDay(sessionId);
+			return selectedDayState;
+		},
+
+		/**
+		 * Load every archived day within a date range, for trends.
+		 *
+		 * @param from - First date (YYYY-MM-DD)
+		 * @param to - Last date (YYYY-MM-DD)
+		 * @returns Archived days in the range, oldest first
+		 */
+		loadDaysInRange(from: string, to: string): ArchivedDay[] {
+			return filterDaysByRange(entriesState, from, to)
+				.map((entry) => storage.loadArchivedDay(entry.sessionId))
+				.filter((day): day is ArchivedDay => day !== null)
+				.reverse();
+		},
+
+		/**
+		 * Close the currently selected day.
+		 */
+		clearSelection(): void {
+			selectedDayState = null;
+		},
+
+		/**
+		 * Delete an archived day permanently.
+		 *
+		 * @param sessionId - Session identifier of the archived day
+		 * @returns true if the day was deleted
+		 */
+		deleteDay(sessionId: string): boolean {
+			if (!storage.deleteArchivedDay(sessionId)) {
+				return false;
+			}
+
+			entriesState = entriesState.filter((e) => e.sessionId !== sessionId);
+			if (selectedDayState?.sessionId === sessionId) {
+				selectedDayState = null;
+			}
+			return true;
+		},
+
+		/**
+		 * Toggle the history view panel visibility.
+		 */
+		toggleView(): void {
+			isViewOpenState = !isViewOpenState;
+			if (!isViewOpenState) {
+				selectedDayState = null;
+			}
+		}
+	};
+}
+
+/**
+ * The history store singleton
+ */
+export const historyStore = createHistoryStore();
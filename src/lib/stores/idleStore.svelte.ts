@@ -0,0 +1,260 @@
+/**
+ * Idle Store
+ *
+ * Feature: 027-idle-time
+ *
+ * Tracks the time between finishing one task and starting the next.
+ * Each gap starts as unallocated and can be marked as a break; gaps are
+ * recorded apart from tasks and interruptions so idle time is never
+ * folded into either.
+ *
+ * Uses Svelte 5 runes for reactive state management.
+ */
+
+import type { GapKind, IdleGap } from '$lib/types';
+import { createTimer, type TimerService } from '$lib/services/timer';
+import { storage } from '$lib/services/storage';
+
+// =============================================================================
+// State
+// =============================================================================
+
+let gapsState = $state<IdleGap[]>([]);
+let activeGapState = $state<IdleGap | null>(null);
+let elapsedMsState = $state(0);
+let gapTimer: TimerService | null = null;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Generate an RFC4122 version 4 UUID string.
+ *
+ * @returns A UUID v4 string in the format `xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx`
+ */
+function generateUUID(): string {
+	return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+		const r = (Math.random() * 16) | 0;
+		const v = c === 'x' ? r : (r & 0x3) | 0x8;
+		return v.toString(16);
+	});
+}
+
+/**
+ * Start (or restart) the gap timer from an elapsed position
+ */
+function startGapTimer(fromMs: number): void {
+	gapTimer?.destroy();
+	gapTimer = createTimer({
+		onTick: (elapsed: number) => {
+			elapsedMsState = elapsed;
+		}
+	});
+	gapTimer.start(fromMs);
+}
+
+// =============================================================================
+// Store Implementation
+// =============================================================================
+
+/**
+ * Creates a store for idle time between tasks.
+ *
+ * @returns An object exposing readable getters and actions for idle gaps
+ */
+function createIdleStore() {
+	return {
+		// -------------------------------------------------------------------------
+		// Readable State (getters)
+		// -------------------------------------------------------------------------
+
+		/** Whether the user is between tasks */
+		get isIdle(): boolean {
+			return activeGapState !== null;
+		},
+
+		get activeGap(): IdleGap | null {
+			return activeGapState;
+		},
+
+		/** Elapsed ms in the active gap */
+		get elapsedMs(): number {
+			return elapsedMsState;
+		},
+
+		/** Completed gaps for the current session */
+		get gaps(): IdleGap[] {
+			return gapsState;
+		},
+
+		/**
+		 * All gaps including the active one, with its duration so far.
+		 * Used for the timeline and for day totals.
+		 */
+		get timelineGaps(): IdleGap[] {
+			if (!activeGapState) {
+				return gapsState;
+			}
+			return [
+				...gapsState,
+				{ ...activeGapState, durationSec: Math.floor(elapsedMsState / 1000) }
+			];
+		},
+
+		/**
+		 * Get gaps for persistence (includes the active gap if any)
+		 */
+		get allGapsForPersistence(): IdleGap[] {
+			return activeGapState ? [...gapsState, activeGapState] : gapsState;
+		},
+
+		// -------------------------------------------------------------------------
+		// Actions
+		// -------------------------------------------------------------------------
+
+		/**
+		 * Start tracking idle time after a task.
+		 * Note: Caller is responsible for persisting via storage.saveIdleGaps
+		 *
+		 * @param afterTaskId - Task completed just before the gap, null if none
+		 * @param kind - Attribution of the gap, unallocated by default
+		 * @returns The active gap record
+		 * @throws Error if a gap is already active
+		 */
+		startGap(afterTaskId: string | null, kind: GapKind = 'unallocated'): IdleGap {
+			if (activeGapState) {
+				throw new Error('Already idle');
+			}
+
+			activeGapState = {
+				gapId: generateUUID(),
+				afterTaskId,
+				kind,
+				startedAt: new Date().toISOString(),
+				endedAt: null,
+				durationSec: 0
+			};
+			elapsedMsState = 0;
+			startGapTimer(0);
+
+			return activeGapState;
+		},
+
+		/**
+		 * End the active gap and record it.
+		 *
+		 * @returns The completed gap record
+		 * @throws Error if no gap is active
+		 */
+		endGap(): IdleGap {
+			if (!activeGapState) {
+				throw new Error('Not idle');
+			}
+
+			const elapsedMs = gapTimer?.stop() ?? 0;
+			const completed: IdleGap = {
+				...activeGapState,
+				endedAt: new Date().toISOString(),
+				durationSec: Math.floor(elapsedMs / 1000)
+			};
+
+			gapsState = [...gapsState, completed];
+			activeGapState = null;
+			elapsedMsState = 0;
+
+			return completed;
+		},
+
+		/**
+		 * End the active gap if there is one.
+		 * Used when the day ends or is archived between tasks.
+		 *
+		 * @returns The completed gap if one was active, null otherwise
+		 */
+		autoEndGap(): IdleGap | null {
+			return activeGapState ? this.endGap() : null;
+		},
+
+		/**
+		 * Go back to idle time after an interruption (037-task-less-interruptions)
+		 * or a pause (028-session-pause) between tasks ended the gap. The new gap follows the same task
+		 * as the last one and keeps its break or unallocated attribution.
+		 * Note: Caller is responsible for persisting via storage.saveIdleGaps
+		 *
+		 * @returns The active gap record, null if a gap is active or there was none
+		 */
+		resumeGap(): IdleGap | null {
+			const lastGap = gapsState.at(-1);
+			if (activeGapState || !lastGap) {
+				return null;
+			}
+
+			return this.startGap(lastGap.afterTaskId, lastGap.kind);
+		},
+
+		/**
+		 * Mark a gap (active or completed) as a break or as unallocated.
+		 *
+		 * @param gapId - ID of the gap to update
+		 * @param kind - New attribution
+		 * @returns true if the gap was found
+		 */
+		setKind(gapId: string, kind: GapKind): boolean {
+			if (activeGapState?.gapId === gapId) {
+				activeGapState = { ...activeGapState, kind };
+				return true;
+			}
+
+			const index = gapsState.findIndex((g) => g.gapId === gapId);
+			if (index === -1) {
+				return false;
+			}
+
+			gapsState = gapsState.map((g, i) => (i === index ? { ...g, kind } : g));
+			return true;
+		},
+
+		/**
+		 * Restore state from saved data. Used for session recovery.
+		 * An active gap (endedAt === null) resumes its timer from the saved
+		 * start time.
+		 *
+		 * @param saved - Saved gaps
+		 * @returns true if an active gap was restored
+		 */
+		restore(saved: IdleGap[]): boolean {
+			const active = saved.find((g) => g.endedAt === null);
+
+			gapsState = saved.filter((g) => g.endedAt !== null);
+
+			if (!active) {
+				return false;
+			}
+
+			activeGapState = active;
+			elapsedMsState = Math.max(0, Date.now() - new Date(active.startedAt).getTime());
+			startGapTimer(elapsedMsState);
+			return true;
+		},
+
+		/**
+		 * Reset all idle state, including storage.
+		 */
+		reset(): void {
+			gapTimer?.destroy();
+			gapTimer = null;
+
+			gapsState = [];
+			activeGapState = null;
+			elapsedMsState = 0;
+
+			storage.clearIdleGaps();
+		}
+	};
+}
+
+/**
+ * The idle store singleton
+ */
+export const idleStore = createIdleStore();
@@ -5,15 +5,32 @@
  * Handles file upload, parsing, preview, editing, and confirmation.
  */
 
-import { writable, derived } from 'svelte/store';
+import { writable, derived, get } from 'svelte/store';
 import type {
 	ImportState,
 	DraftTask,
 	ValidationError,
-	ConfirmedTask
+	ConfirmedTask,
+	ScheduleParseOptions,
+	ScheduleField,
+	ImportMapping,
+	SheetInfo,
+	ScheduleTemplate,
+	CarriedTask
 } from '$lib/types';
-import { parseScheduleFile } from '$lib/services/parser';
+import { REQUIRED_COLUMNS } from '$lib/types';
+import {
+	parseScheduleFile,
+	parseScheduleText,
+	isCalendarFile,
+	inspectScheduleFile,
+	hasScheduleColumns,
+	suggestColumnMapping,
+	findSavedMapping,
+	getLayoutKey
+} from '$lib/services/parser';
 import { storage } from '$lib/services/storage';
+import { settingsStore } from './settingsStore.svelte';
 
 /**
  * Normalize a date to today while keeping the time-of-day.
@@ -72,6 +89,15 @@ function updateTaskWarnings(tasks: DraftTask[]): DraftTask[] {
 	});
 }
 
+/**
+ * Check whether any sheet has enough columns to map every required field
+ */
+function canBeMapped(sheets: SheetInfo[]): boolean {
+	return sheets.some(
+		(sheet) => sheet.headers.filter((h) => h.trim() !== '').length >= REQUIRED_COLUMNS.length
+	);
+}
+
 /**
  * Initial state for the import store
  */
@@ -80,7 +106,8 @@ const initialState: ImportState = {
 	file: null,
 	uploadedAt: null,
 	tasks: [],
-	errors: []
+	errors: [],
+	mapping: null
 };
 
 /**
@@ -93,9 +120,15 @@ function createImportStore() {
 		subscribe,
 
 		/**
-		 * Upload and parse a file
+		 * Upload a file and parse it, or ask for a column mapping first.
+		 *
+		 * Files with the template or export columns, and files whose layout
+		 * has a remembered mapping, go straight to preview. Anything else
+		 * stops in the 'mapping' state (019-column-mapping).
+		 *
+		 * @param options - Parse options (e.g. carry over unfinished tasks from an export)
 		 */
-		async uploadFile(file: File): Promise<void> {
+		async uploadFile(file: File, options: ScheduleParseOptions = {}): Promise<void> {
 			// Set parsing state
 			update((state) => ({
 				...state,
@@ -103,11 +136,170 @@ function createImportStore() {
 				file,
 				uploadedAt: new Date(),
 				tasks: [],
-				errors: []
+				errors: [],
+				mapping: null
+			}));
+
+			// Calendar files have no columns to map (021-ics-import)
+			if (isCalendarFile(file)) {
+				await this._parse(file, options);
+				return;
+			}
+
+			const inspection = await inspectScheduleFile(file);
+			if (!inspection.success) {
+				update((state) => ({ ...state, status: 'error', errors: inspection.errors }));
+				return;
+			}
+
+			const { sheets, defaultSheet } = inspection;
+			const saved = findSavedMapping(sheets, settingsStore.columnMappings);
+			const defaultHeaders = sheets.find((s) => s.name === defaultSheet)?.headers ?? [];
+
+			const mapping: ImportMapping = saved
+				? { sheets, sheetName: saved.sheetName, columnMapping: saved.columnMapping, options }
+				: {
+						sheets,
+						sheetName: defaultSheet,
+						columnMapping: suggestColumnMapping(defaultHeaders),
+						options
+					};
+			update((state) => ({ ...state, mapping }));
+
+			if (saved) {
+				await this._parse(file, {
+					...options,
+					sheetName: saved.sheetName,
+					columnMapping: saved.columnMapping
+				});
+			} else if (hasScheduleColumns(defaultHeaders) || !canBeMapped(sheets)) {
+				// Parse directly; files with too few columns get the usual errors
+				await this._parse(file, options);
+			} else {
+				update((state) => ({ ...state, status: 'mapping' }));
+			}
+		},
+
+		/**
+		 * Add the events of a calendar file to the tasks in preview (021-ics-import).
+		 * On failure the preview is kept and the errors are shown alongside it.
+		 */
+		async mergeFile(file: File, options: ScheduleParseOptions = {}): Promise<void> {
+			const result = await parseScheduleFile(file, options);
+
+			if (!result.success) {
+				update((state) => ({ ...state, errors: result.errors }));
+				return;
+			}
+
+			update((state) => {
+				const tasks = [...state.tasks, ...result.tasks];
+				tasks.forEach((task, index) => {
+					task.sortOrder = index;
+				});
+				return { ...state, tasks: updateTaskWarnings(tasks), errors: [] };
+			});
+		},
+
+		/**
+		 * Parse a typed or pasted schedule (020-text-import)
+		 * @param text - One task per line, or tab-separated rows from a spreadsheet
+		 */
+		importText(text: string): void {
+			const result = parseScheduleText(text);
+
+			update((state) => ({
+				...state,
+				status: result.success ? 'preview' : 'error',
+				file: null,
+				uploadedAt: new Date(),
+				tasks: result.success ? updateTaskWarnings(result.tasks) : [],
+				errors: result.success ? [] : result.errors,
+				mapping: null
+			}));
+		},
+
+		/**
+		 * Load a saved schedule template into the preview (023-schedule-templates).
+		 * Times keep their time of day and move to today, like confirmed schedules.
+		 */
+		loadTemplate(template: ScheduleTemplate): void {
+			const tasks: DraftTask[] = template.tasks.map((task, index) => ({
+				id: crypto.randomUUID(),
+				name: task.name,
+				startTime: normalizeToToday(new Date(task.startTime)),
+				durationSeconds: task.durationSeconds,
+				type: task.type,
+				sortOrder: index,
+				hasWarning: false,
+				project: task.project,
+				tags: task.tags,
+				priority: task.priority,
+				notes: task.notes
 			}));
 
-			// Parse the file
-			const result = await parseScheduleFile(file);
+			update((state) => ({
+				...state,
+				status: 'preview',
+				file: null,
+				uploadedAt: new Date(),
+				tasks: updateTaskWarnings(tasks),
+				errors: [],
+				mapping: null
+			}));
+		},
+
+		/**
+		 * Add tasks carried over from earlier days to the preview
+		 * (029-carry-over). They are placed by time of day among the tasks
+		 * already there; an empty import starts a preview with just them.
+		 * Tasks already in the preview are not added twice.
+		 */
+		addCarriedTasks(carried: CarriedTask[]): void {
+			update((state) => {
+				if (state.status !== 'idle' && state.status !== 'preview') return state;
+
+				const existing = state.status === 'preview' ? state.tasks : [];
+				const added: DraftTask[] = carried
+					.filter((task) => !existing.some((t) => t.id === task.carryId))
+					.map((task) => ({
+						id: task.carryId,
+						name: task.name,
+						startTime: normalizeToToday(new Date(task.startTime)),
+						durationSeconds: task.durationSeconds,
+						type: task.type,
+						sortOrder: 0,
+						hasWarning: false,
+						project: task.project,
+						tags: task.tags,
+						priority: task.priority,
+						notes: task.notes,
+						carriedFrom: task.originDate
+					}));
+				if (added.length === 0) return state;
+
+				const tasks = [...existing, ...added].sort(
+					(a, b) => a.startTime.getTime() - b.startTime.getTime()
+				);
+				tasks.forEach((task, index) => {
+					task.sortOrder = index;
+				});
+
+				return {
+					...state,
+					status: 'preview',
+					uploadedAt: state.uploadedAt ?? new Date(),
+					tasks: updateTaskWarnings(tasks),
+					errors: []
+				};
+			});
+		},
+
+		/**
+		 * Parse the current file and move to preview or error
+		 */
+		async _parse(file: File, options: ScheduleParseOptions): Promise<boolean> {
+			const result = await parseScheduleFile(file, options);
 
 			if (result.success) {
 				update((state) => ({
@@ -124,6 +316,80 @@ function createImportStore() {
 					errors: result.errors
 				}));
 			}
+
+			return result.success;
+		},
+
+		/**
+		 * Choose the worksheet in the mapping step.
+		 * Resets the columns to the suggestions for that sheet's headers.
+		 */
+		selectMappingSheet(sheetName: string): void {
+			update((state) => {
+				if (!state.mapping) return state;
+				const sheet = state.mapping.sheets.find((s) => s.name === sheetName);
+				if (!sheet) return state;
+				return {
+					...state,
+					mapping: {
+						...state.mapping,
+						sheetName,
+						columnMapping: suggestColumnMapping(sheet.headers)
+					}
+				};
+			});
+		},
+
+		/**
+		 * Map a field to a file header in the mapping step
+		 * @param header - Header name, or null to leave the field unmapped
+		 */
+		setColumnMapping(field: ScheduleField, header: string | null): void {
+			update((state) => {
+				if (!state.mapping) return state;
+				const columnMapping = { ...state.mapping.columnMapping };
+				if (header) {
+					columnMapping[field] = header;
+				} else {
+					delete columnMapping[field];
+				}
+				return { ...state, mapping: { ...state.mapping, columnMapping } };
+			});
+		},
+
+		/**
+		 * Parse the file with the chosen sheet and columns.
+		 * The mapping is remembered for this layout once parsing succeeds.
+		 */
+		async applyMapping(): Promise<void> {
+			const { file, mapping } = get({ subscribe });
+			if (!file || !mapping) return;
+
+			update((state) => ({ ...state, status: 'parsing', errors: [] }));
+
+			const success = await this._parse(file, {
+				...mapping.options,
+				sheetName: mapping.sheetName,
+				columnMapping: mapping.columnMapping
+			});
+
+			const sheet = mapping.sheets.find((s) => s.name === mapping.sheetName);
+			if (success && sheet) {
+				settingsStore.saveColumnMapping({
+					layoutKey: getLayoutKey(sheet.headers),
+					sheetName: mapping.sheetName,
+					columnMapping: mapping.columnMapping
+				});
+			}
+		},
+
+		/**
+		 * Go back to the mapping step from preview or error
+		 */
+		editMapping(): void {
+			update((state) =>
+				state.mapping ? { ...state, status: 'mapping', tasks: [], errors: [] } : state
+			);
 		},
 
 		/**
@@ -227,7 +493,12 @@ function createImportStore() {
 					plannedDurationSec: task.durationSeconds,
 					type: task.type,
 					sortOrder: task.sortOrder,
-					status: 'pending' as const
+					status: 'pending' as const,
+					project: task.project,
+					tags: task.tags,
+					priority: task.priority,
+					notes: task.notes,
+					carriedFrom: task.carriedFrom
 				}));
 
 				// Save to localStorage
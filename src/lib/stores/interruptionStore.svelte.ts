@@ -11,7 +11,7 @@
  * Per Constitution III: Uses performance.now() for timer accuracy.
  */
 
-import type { Interruption, InterruptionSummary, InterruptionCategory } from '$lib/types';
+import type { Interruption, InterruptionSummary } from '$lib/types';
 import { createTimer, type TimerService } from '$lib/services/timer';
 import { storage } from '$lib/services/storage';
 
@@ -23,6 +23,8 @@ let isInterruptedState = $state(false);
 let activeInterruptionState = $state<Interruption | null>(null);
 let elapsedMsState = $state(0);
 let interruptionsState = $state<Interruption[]>([]);
+/** Interruptions the active one is nested in, outermost first (039-nested-interruptions) */
+let suspendedState = $state<Interruption[]>([]);
 let interruptionTimer: TimerService | null = null;
 
 // =============================================================================
@@ -42,6 +44,39 @@ function generateUUID(): string {
 	});
 }
 
+/**
+ * Start the interruption timer from an elapsed position.
+ *
+ * @param elapsedMs - Elapsed time to start from
+ */
+function startInterruptionTimer(elapsedMs: number): void {
+	// Clean up any existing timer
+	if (interruptionTimer) {
+		interruptionTimer.destroy();
+	}
+
+	interruptionTimer = createTimer({
+		onTick: (elapsed: number) => {
+			elapsedMsState = elapsed;
+		}
+	});
+	interruptionTimer.start(elapsedMs);
+}
+
+/**
+ * Total time of the interruptions nested in an interruption, at any depth
+ * (039-nested-interruptions).
+ *
+ * @param interruptionId - The outer interruption
+ * @param interruptions - Recorded interruptions
+ * @returns Seconds spent in nested interruptions
+ */
+function getNestedSec(interruptionId: string, interruptions: readonly Interruption[]): number {
+	return interruptions
+		.filter((i) => i.parentInterruptionId === interruptionId)
+		.reduce((sum, i) => sum + i.durationSec + getNestedSec(i.interruptionId, interruptions), 0);
+}
+
 // =============================================================================
 // Store Implementation
 /**
@@ -73,11 +108,19 @@ function createInterruptionStore() {
 		},
 
 		/**
-		 * Get all interruptions for persistence (includes active interruption if any)
+		 * Number of interruptions the active one is nested in (039-nested-interruptions)
+		 */
+		get nestingDepth(): number {
+			return suspendedState.length;
+		},
+
+		/**
+		 * Get all interruptions for persistence (includes the active interruption
+		 * and the ones it is nested in, if any)
 		 */
 		get allInterruptionsForPersistence(): Interruption[] {
 			if (activeInterruptionState) {
-				return [...interruptionsState, activeInterruptionState];
+				return [...interruptionsState, ...suspendedState, activeInterruptionState];
 			}
 			return interruptionsState;
 		},
@@ -90,10 +133,11 @@ function createInterruptionStore() {
 		 * Start a new interruption for the specified task.
 		 * Creates an interruption timer and sets isInterrupted to true.
 		 *
-		 * @param taskId - ID of the task being interrupted
+		 * @param taskId - ID of the task being interrupted, null when no task is
+		 *   active (037-task-less-interruptions)
 		 * @throws Error if already interrupted
 		 */
-		startInterruption(taskId: string): void {
+		startInterruption(taskId: string | null): void {
 			if (isInterruptedState) {
 				throw new Error('Already interrupted');
 			}
@@ -111,23 +155,52 @@ function createInterruptionStore() {
 			activeInterruptionState = interruption;
 			isInterruptedState = true;
 
-			// Clean up any existing timer
-			if (interruptionTimer) {
-				interruptionTimer.destroy();
+			startInterruptionTimer(0);
+		},
+
+		/**
+		 * Start an interruption inside the active one (039-nested-interruptions).
+		 * The active interruption is suspended with its time so far and goes on
+		 * when the new one ends, so the time in between counts only for the new one.
+		 * Note: Caller is responsible for persisting state via storage.saveInterruptionState
+		 *
+		 * @returns The new interruption
+		 * @throws Error if not currently interrupted
+		 */
+		nestInterruption(): Interruption {
+			if (!isInterruptedState || !activeInterruptionState) {
+				throw new Error('Not interrupted');
 			}
 
-			// Create and start interruption timer
-			interruptionTimer = createTimer({
-				onTick: (elapsed: number) => {
-					elapsedMsState = elapsed;
-				}
-			});
-			interruptionTimer.start(0);
+			const elapsedMs = interruptionTimer?.stop() ?? 0;
+			const outer: Interruption = {
+				...activeInterruptionState,
+				durationSec: Math.floor(elapsedMs / 1000)
+			};
+
+			const interruption: Interruption = {
+				interruptionId: generateUUID(),
+				taskId: outer.taskId,
+				startedAt: new Date().toISOString(),
+				endedAt: null,
+				durationSec: 0,
+				category: null,
+				note: null,
+				parentInterruptionId: outer.interruptionId
+			};
+
+			suspendedState = [...suspendedState, outer];
+			activeInterruptionState = interruption;
+			elapsedMsState = 0;
+
+			startInterruptionTimer(0);
+			return interruption;
 		},
 
 		/**
 		 * End the current interruption and record it.
-		 * Stops the interruption timer and adds to history.
+		 * Stops the interruption timer and adds to history. If it was nested in
+		 * another interruption, that one goes on (039-nested-interruptions).
 		 * Note: Caller is responsible for persisting state via storage.saveInterruptionState
 		 *
 		 * @returns The completed interruption record
@@ -152,6 +225,16 @@ function createInterruptionStore() {
 			// Add to history
 			interruptionsState = [...interruptionsState, completed];
 
+			// 039-nested-interruptions: Go on with the interruption it was nested in
+			const outer = suspendedState.at(-1);
+			if (outer) {
+				suspendedState = suspendedState.slice(0, -1);
+				activeInterruptionState = { ...outer, durationSec: 0 };
+				elapsedMsState = outer.durationSec * 1000;
+				startInterruptionTimer(elapsedMsState);
+				return completed;
+			}
+
 			// Reset active state
 			activeInterruptionState = null;
 			isInterruptedState = false;
@@ -160,6 +243,42 @@ function createInterruptionStore() {
 			return completed;
 		},
 
+		/**
+		 * Record an interruption after the fact (036-past-interruptions).
+		 * The interval must be checked with getPastInterruptionError first.
+		 * Note: Caller is responsible for persisting state via storage.saveInterruptionState
+		 *
+		 * @param taskId - ID of the task that was interrupted
+		 * @param startedAt - When the interruption started
+		 * @param durationSec - Length of the interruption
+		 * @param details - Category and note of the interruption
+		 * @returns The recorded interruption
+		 */
+		logPastInterruption(
+			taskId: string,
+			startedAt: Date,
+			durationSec: number,
+			details: Pick<Interruption, 'category' | 'note'>
+		): Interruption {
+			const interruption: Interruption = {
+				interruptionId: generateUUID(),
+				taskId,
+				startedAt: startedAt.toISOString(),
+				endedAt: new Date(startedAt.getTime() + durationSec * 1000).toISOString(),
+				durationSec,
+				category: details.category,
+				note: details.note,
+				loggedAt: new Date().toISOString()
+			};
+
+			// Keep the history in the order the interruptions happened
+			interruptionsState = [...interruptionsState, interruption].sort(
+				(a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime()
+			);
+
+			return interruption;
+		},
+
 		/**
 		 * Update a recorded interruption with category and/or note.
 		 * Note: Caller is responsible for persisting state via storage.saveInterruptionState
@@ -192,6 +311,31 @@ function createInterruptionStore() {
 			];
 		},
 
+		/**
+		 * Remove a recorded interruption, e.g. when it was turned into a task
+		 * (038-interruption-to-task). Interruptions nested in it move up to the
+		 * interruption it was nested in, if any (039-nested-interruptions).
+		 * Note: Caller is responsible for persisting state via storage.saveInterruptionState
+		 *
+		 * @param id - The interruption ID to remove
+		 * @returns true if the interruption was removed
+		 */
+		removeInterruption(id: string): boolean {
+			const removed = interruptionsState.find((i) => i.interruptionId === id);
+			if (!removed) {
+				return false;
+			}
+
+			interruptionsState = interruptionsState
+				.filter((i) => i.interruptionId !== id)
+				.map((i) =>
+					i.parentInterruptionId === id
+						? { ...i, parentInterruptionId: removed.parentInterruptionId }
+						: i
+				);
+			return true;
+		},
+
 		/**
 		 * Get aggregated interruption summary for a specific task.
 		 * Only includes completed interruptions (endedAt !== null).
@@ -225,6 +369,7 @@ function createInterruptionStore() {
 			// Reset all state
 			isInterruptedState = false;
 			activeInterruptionState = null;
+			suspendedState = [];
 			elapsedMsState = 0;
 			interruptionsState = [];
 
@@ -239,18 +384,33 @@ function createInterruptionStore() {
 		 * If an active interruption exists (endedAt === null), restores:
 		 * - isInterruptedState = true
 		 * - activeInterruptionState to the active interruption
-		 * - Starts the interruption timer from the saved start time
+		 * - The interruptions it is nested in (039-nested-interruptions)
+		 * - Starts the interruption timer from the saved start time, less the
+		 *   time of interruptions nested in it
 		 *
 		 * @param saved - Array of saved interruption records
 		 * @returns true if an active interruption was restored
 		 */
 		restore(saved: Interruption[]): boolean {
-			// Find any active interruption (endedAt === null)
-			const activeInterruption = saved.find((i) => i.endedAt === null);
+			// Find the active interruption (endedAt === null): the innermost open one
+			const open = saved.filter((i) => i.endedAt === null);
+			const activeInterruption = open.find(
+				(i) => !open.some((other) => other.parentInterruptionId === i.interruptionId)
+			);
 
 			// Set completed interruptions (filter out active)
 			interruptionsState = saved.filter((i) => i.endedAt !== null);
 
+			// Interruptions the active one is nested in, outermost first
+			const suspended: Interruption[] = [];
+			let parent = open.find((i) => i.interruptionId === activeInterruption?.parentInterruptionId);
+			while (parent) {
+				suspended.unshift(parent);
+				const parentId = parent.parentInterruptionId;
+				parent = open.find((i) => i.interruptionId === parentId);
+			}
+			suspendedState = suspended;
+
 			if (activeInterruption) {
 				// Restore active interruption state
 				activeInterruptionState = activeInterruption;
@@ -259,21 +419,12 @@ function createInterruptionStore() {
 				// Calculate elapsed time since interruption started
 				const startTime = new Date(activeInterruption.startedAt).getTime();
 				const now = Date.now();
-				const elapsedMs = now - startTime;
+				const nestedMs = getNestedSec(activeInterruption.interruptionId, interruptionsState) * 1000;
+				const elapsedMs = Math.max(0, now - startTime - nestedMs);
 				elapsedMsState = elapsedMs;
 
-				// Clean up any existing timer
-				if (interruptionTimer) {
-					interruptionTimer.destroy();
-				}
-
 				// Start interruption timer from elapsed position
-				interruptionTimer = createTimer({
-					onTick: (elapsed: number) => {
-						elapsedMsState = elapsed;
-					}
-				});
-				interruptionTimer.start(elapsedMs);
+				startInterruptionTimer(elapsedMs);
 
 				return true;
 			}
@@ -284,6 +435,8 @@ function createInterruptionStore() {
 		/**
 		 * Auto-end an active interruption if one exists.
 		 * Used when task is completed or session ends while interrupted.
+		 * Ends the innermost interruption only; call again while interrupted
+		 * to end the ones it was nested in (039-nested-interruptions).
 		 *
 		 * @returns The completed interruption if one was active, null otherwise
 		 */
@@ -0,0 +1,373 @@
+/**
+ * Pomodoro Store
+ *
+ * Feature: 026-pomodoro
+ *
+ * Splits work into focus intervals separated by short and long breaks.
+ * The focus timer only runs while a task timer runs (the page starts and
+ * pauses it); breaks pause the task timer and are recorded separately from
+ * interruptions so they never lower the concentration score.
+ *
+ * Interval and break lengths come from settingsStore.
+ * Uses Svelte 5 runes for reactive state management.
+ */
+
+import type { BreakKind, BreakPlan, FocusBreak, PersistedPomodoroState } from '$lib/types';
+import { createTimer, type TimerService } from '$lib/services/timer';
+import { storage } from '$lib/services/storage';
+import { settingsStore } from '$lib/stores/settingsStore.svelte';
+
+// =============================================================================
+// State
+// =============================================================================
+
+let focusElapsedMsState = $state(0);
+let isFocusingState = $state(false);
+let completedFocusCountState = $state(0);
+let activeBreakState = $state<FocusBreak | null>(null);
+let breakElapsedMsState = $state(0);
+let breaksState = $state<FocusBreak[]>([]);
+let pausedTaskElapsedMsState = $state<number | null>(null);
+let focusTimer: TimerService | null = null;
+let breakTimer: TimerService | null = null;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Generate an RFC4122 version 4 UUID string.
+ *
+ * @returns A UUID v4 string in the format `xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx`
+ */
+function generateUUID(): string {
+	return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+		const r = (Math.random() * 16) | 0;
+		const v = c === 'x' ? r : (r & 0x3) | 0x8;
+		return v.toString(16);
+	});
+}
+
+/**
+ * Focus interval length from settings (ms)
+ */
+function getFocusDurationMs(): number {
+	return settingsStore.pomodoroFocusMin * 60 * 1000;
+}
+
+/**
+ * Kind of the break that follows the given number of finished intervals
+ */
+function getBreakKind(completedFocusCount: number): BreakKind {
+	return completedFocusCount % settingsStore.pomodoroLongBreakEvery === 0 ? 'long' : 'short';
+}
+
+/**
+ * Start (or restart) the break timer from an elapsed position
+ */
+function startBreakTimer(fromMs: number): void {
+	breakTimer?.destroy();
+	breakTimer = createTimer({
+		onTick: (elapsed: number) => {
+			breakElapsedMsState = elapsed;
+		}
+	});
+	breakTimer.start(fromMs);
+}
+
+// =============================================================================
+// Store Implementation
+// =============================================================================
+
+/**
+ * Creates a store for Pomodoro focus intervals and breaks.
+ *
+ * @returns An object exposing readable getters and actions for focus and breaks
+ */
+function createPomodoroStore() {
+	return {
+		// -------------------------------------------------------------------------
+		// Readable State (getters)
+		// -------------------------------------------------------------------------
+
+		/** Whether Pomodoro mode is enabled in settings */
+		get isEnabled(): boolean {
+			return settingsStore.pomodoroEnabled;
+		},
+
+		/** Focus time into the current interval (ms) */
+		get focusElapsedMs(): number {
+			return focusElapsedMsState;
+		},
+
+		/** Focus time left before the next break (ms) */
+		get focusRemainingMs(): number {
+			return Math.max(0, getFocusDurationMs() - focusElapsedMsState);
+		},
+
+		/** Whether the focus timer is running */
+		get isFocusing(): boolean {
+			return isFocusingState;
+		},
+
+		/** Whether the current focus interval is finished and a break is due */
+		get isBreakDue(): boolean {
+			return (
+				settingsStore.pomodoroEnabled &&
+				activeBreakState === null &&
+				focusElapsedMsState >= getFocusDurationMs()
+			);
+		},
+
+		/** Focus intervals finished this session */
+		get completedFocusCount(): number {
+			return completedFocusCountState;
+		},
+
+		/** Kind of the next break */
+		get nextBreakKind(): BreakKind {
+			return getBreakKind(completedFocusCountState + 1);
+		},
+
+		get isOnBreak(): boolean {
+			return activeBreakState !== null;
+		},
+
+		get activeBreak(): FocusBreak | null {
+			return activeBreakState;
+		},
+
+		/** Elapsed ms on the active break */
+		get breakElapsedMs(): number {
+			return breakElapsedMsState;
+		},
+
+		/** Time left on the active break (ms), 0 once it has run over */
+		get breakRemainingMs(): number {
+			if (!activeBreakState) {
+				return 0;
+			}
+			return Math.max(0, activeBreakState.plannedDurationSec * 1000 - breakElapsedMsState);
+		},
+
+		/** Completed breaks for the current session */
+		get breaks(): FocusBreak[] {
+			return breaksState;
+		},
+
+		/** Task timer position saved when the break started, null if no task was running */
+		get pausedTaskElapsedMs(): number | null {
+			return pausedTaskElapsedMsState;
+		},
+
+		/**
+		 * Get state for persistence (includes the active break if any)
+		 */
+		get persistedState(): PersistedPomodoroState {
+			return {
+				breaks: activeBreakState ? [...breaksState, activeBreakState] : breaksState,
+				focusElapsedMs: focusTimer?.isRunning() ? focusTimer.getElapsed() : focusElapsedMsState,
+				completedFocusCount: completedFocusCountState,
+				pausedTaskElapsedMs: pausedTaskElapsedMsState
+			};
+		},
+
+		// -------------------------------------------------------------------------
+		// Actions
+		// -------------------------------------------------------------------------
+
+		/**
+		 * Start or resume the focus timer.
+		 * Does nothing when Pomodoro mode is off, on a break, or already focusing.
+		 */
+		startFocus(): void {
+			if (!settingsStore.pomodoroEnabled || activeBreakState || isFocusingState) {
+				return;
+			}
+
+			focusTimer?.destroy();
+			focusTimer = createTimer({
+				onTick: (elapsed: number) => {
+					focusElapsedMsState = elapsed;
+				}
+			});
+			focusTimer.start(focusElapsedMsState);
+			isFocusingState = true;
+		},
+
+		/**
+		 * Pause the focus timer, keeping progress in the current interval.
+		 */
+		pauseFocus(): void {
+			if (!isFocusingState) {
+				return;
+			}
+
+			focusElapsedMsState = focusTimer?.stop() ?? focusElapsedMsState;
+			isFocusingState = false;
+		},
+
+		/**
+		 * Finish the current focus interval and start a break.
+		 * Every pomodoroLongBreakEvery-th break is a long break.
+		 * Note: Caller is responsible for pausing the task timer and persisting
+		 * state via storage.savePomodoroState
+		 *
+		 * @param taskId - Task that was running, null if between tasks
+		 * @param pausedTaskElapsedMs - Task timer position to resume from, null if no task was running
+		 * @returns The active break record
+		 * @throws Error if already on a break
+		 */
+		startBreak(taskId: string | null, pausedTaskElapsedMs: number | null): FocusBreak {
+			if (activeBreakState) {
+				throw new Error('Already on a break');
+			}
+
+			this.pauseFocus();
+			completedFocusCountState += 1;
+			focusElapsedMsState = 0;
+
+			const kind = getBreakKind(completedFocusCountState);
+			const minutes =
+				kind === 'long' ? settingsStore.pomodoroLongBreakMin : settingsStore.pomodoroShortBreakMin;
+
+			activeBreakState = {
+				breakId: generateUUID(),
+				taskId,
+				kind,
+				startedAt: new Date().toISOString(),
+				endedAt: null,
+				durationSec: 0,
+				plannedDurationSec: minutes * 60
+			};
+			pausedTaskElapsedMsState = pausedTaskElapsedMs;
+			breakElapsedMsState = 0;
+			startBreakTimer(0);
+
+			return activeBreakState;
+		},
+
+		/**
+		 * End the active break and record it.
+		 * Note: Caller is responsible for resuming the task timer (from
+		 * pausedTaskElapsedMs, read before calling) and persisting state
+		 *
+		 * @returns The completed break record
+		 * @throws Error if not on a break
+		 */
+		endBreak(): FocusBreak {
+			if (!activeBreakState) {
+				throw new Error('Not on a break');
+			}
+
+			const elapsedMs = breakTimer?.stop() ?? 0;
+			const completed: FocusBreak = {
+				...activeBreakState,
+				endedAt: new Date().toISOString(),
+				durationSec: Math.floor(elapsedMs / 1000)
+			};
+
+			breaksState = [...breaksState, completed];
+			activeBreakState = null;
+			breakElapsedMsState = 0;
+			pausedTaskElapsedMsState = null;
+
+			return completed;
+		},
+
+		/**
+		 * End the active break if there is one.
+		 * Used when a task is completed or the day ends during a break.
+		 *
+		 * @returns The completed break if one was active, null otherwise
+		 */
+		autoEndBreak(): FocusBreak | null {
+			return activeBreakState ? this.endBreak() : null;
+		},
+
+		/**
+		 * Count the current focus interval as finished without taking a break.
+		 */
+		skipBreak(): void {
+			const wasFocusing = isFocusingState;
+			this.pauseFocus();
+			completedFocusCountState += 1;
+			focusElapsedMsState = 0;
+			if (wasFocusing) {
+				this.startFocus();
+			}
+		},
+
+		/**
+		 * Settings and progress for projecting planned break time.
+		 *
+		 * @returns The plan, or null when Pomodoro mode is off
+		 */
+		getBreakPlan(): BreakPlan | null {
+			if (!settingsStore.pomodoroEnabled) {
+				return null;
+			}
+
+			return {
+				focusSec: settingsStore.pomodoroFocusMin * 60,
+				shortBreakSec: settingsStore.pomodoroShortBreakMin * 60,
+				longBreakSec: settingsStore.pomodoroLongBreakMin * 60,
+				longBreakEvery: settingsStore.pomodoroLongBreakEvery,
+				focusElapsedSec: Math.floor(focusElapsedMsState / 1000),
+				completedFocusCount: completedFocusCountState,
+				breakRemainingSec: Math.ceil(this.breakRemainingMs / 1000)
+			};
+		},
+
+		/**
+		 * Restore state from saved data. Used for session recovery.
+		 * An active break (endedAt === null) resumes its timer from the saved
+		 * start time; the focus timer is left paused.
+		 *
+		 * @param saved - Saved Pomodoro state
+		 * @returns true if an active break was restored
+		 */
+		restore(saved: PersistedPomodoroState): boolean {
+			const active = saved.breaks.find((b) => b.endedAt === null);
+
+			breaksState = saved.breaks.filter((b) => b.endedAt !== null);
+			focusElapsedMsState = saved.focusElapsedMs;
+			completedFocusCountState = saved.completedFocusCount;
+			pausedTaskElapsedMsState = saved.pausedTaskElapsedMs;
+
+			if (!active) {
+				return false;
+			}
+
+			activeBreakState = active;
+			breakElapsedMsState = Math.max(0, Date.now() - new Date(active.startedAt).getTime());
+			startBreakTimer(breakElapsedMsState);
+			return true;
+		},
+
+		/**
+		 * Reset all Pomodoro state, including storage.
+		 */
+		reset(): void {
+			focusTimer?.destroy();
+			focusTimer = null;
+			breakTimer?.destroy();
+			breakTimer = null;
+
+			focusElapsedMsState = 0;
+			isFocusingState = false;
+			completedFocusCountState = 0;
+			activeBreakState = null;
+			breakElapsedMsState = 0;
+			breaksState = [];
+			pausedTaskElapsedMsState = null;
+
+			storage.clearPomodoroState();
+		}
+	};
+}
+
+/**
+ * The Pomodoro store singleton
+ */
+export const pomodoroStore = createPomodoroStore();
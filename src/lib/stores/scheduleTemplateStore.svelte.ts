@@ -0,0 +1,199 @@
+/**
+ * Schedule Template Store
+ *
+ * Feature: 023-schedule-templates
+ *
+ * Manages named schedules that recur on chosen weekdays ("Mon/Wed/Fri plan").
+ * On a new day the template for today's weekday is preloaded into the
+ * import preview (see importStore.loadTemplate).
+ *
+ * Uses Svelte 5 runes for reactive state management.
+ */
+
+import type { DraftTask, ScheduleTemplate, TemplateTask } from '$lib/types';
+import { MAX_SCHEDULE_TEMPLATES, MAX_TEMPLATE_NAME_LENGTH } from '$lib/types';
+import { storage } from '$lib/services/storage';
+
+// =============================================================================
+// State
+// =============================================================================
+
+let templatesState = $state<ScheduleTemplate[]>([]);
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Copy a draft task into a template task, dropping the ID and warnings
+ */
+function toTemplateTask(task: DraftTask): TemplateTask {
+	return {
+		name: task.name,
+		startTime: task.startTime.toISOString(),
+		durationSeconds: task.durationSeconds,
+		type: task.type,
+		project: task.project,
+		tags: task.tags,
+		priority: task.priority,
+		notes: task.notes
+	};
+}
+
+/**
+ * Keep valid weekday numbers, sorted and without duplicates
+ */
+function normalizeWeekdays(weekdays: number[]): number[] {
+	return [...new Set(weekdays)]
+		.filter((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+		.sort((a, b) => a - b);
+}
+
+// =============================================================================
+// Store Implementation
+// =============================================================================
+
+/**
+ * Creates a store for saved schedule templates.
+ *
+ * @returns An object exposing readable getters and actions for templates
+ */
+function createScheduleTemplateStore() {
+	return {
+		// -------------------------------------------------------------------------
+		// Readable State (getters)
+		// -------------------------------------------------------------------------
+
+		/** Saved templates, in the order they were created */
+		get templates(): ScheduleTemplate[] {
+			return templatesState;
+		},
+
+		// -------------------------------------------------------------------------
+		// Actions
+		// -------------------------------------------------------------------------
+
+		/**
+		 * Load templates from storage.
+		 */
+		load(): void {
+			templatesState = storage.loadTemplates();
+		},
+
+		/**
+		 * Save tasks as a template. A template with the same name
+		 * (case-insensitive) is replaced.
+		 *
+		 * @param name - Template name
+		 * @param weekdays - Weekdays to preload on (0 = Sunday)
+		 * @param tasks - Tasks in schedule order
+		 * @returns The saved template, or null if the name is empty, the
+		 *   template limit is reached or it could not be persisted
+		 */
+		saveTemplate(name: string, weekdays: number[], tasks: DraftTask[]): ScheduleTemplate | null {
+			const trimmed = name.trim().slice(0, MAX_TEMPLATE_NAME_LENGTH);
+			if (!trimmed || tasks.length === 0) {
+				return null;
+			}
+
+			const now = new Date().toISOString();
+			const existing = templatesState.find(
+				(t) => t.name.toLowerCase() === trimmed.toLowerCase()
+			);
+			if (!existing && templatesState.length >= MAX_SCHEDULE_TEMPLATES) {
+				return null;
+			}
+
+			const template: ScheduleTemplate = {
+				templateId: existing?.templateId ?? crypto.randomUUID(),
+				name: trimmed,
+				weekdays: normalizeWeekdays(weekdays),
+				tasks: [...tasks].sort((a, b) => a.sortOrder - b.sortOrder).map(toTemplateTask),
+				createdAt: existing?.createdAt ?? now,
+				updatedAt: now
+			};
+
+			const next = existing
+				? templatesState.map((t) => (t.templateId === existing.templateId ? template : t))
+				: [...templatesState, template];
+
+			if (!storage.saveTemplates(next)) {
+				return null;
+			}
+
+			templatesState = next;
+			return template;
+		},
+
+		/**
+		 * Change the weekdays a template is preloaded on.
+		 *
+		 * @returns true if the template exists and was saved
+		 */
+		setWeekdays(templateId: string, weekdays: number[]): boolean {
+			const template = templatesState.find((t) => t.templateId === templateId);
+			if (!template) {
+				return false;
+			}
+
+			const next = templatesState.map((t) =>
+				t.templateId === templateId
+					? { ...t, weekdays: normalizeWeekdays(weekdays), updatedAt: new Date().toISOString() }
+					: t
+			);
+			if (!storage.saveTemplates(next)) {
+				return false;
+			}
+
+			templatesState = next;
+			return true;
+		},
+
+		/**
+		 * Delete a template.
+		 *
+		 * @returns true if the template existed and the change was saved
+		 */
+		deleteTemplate(templateId: string): boolean {
+			const next = templatesState.filter((t) => t.templateId !== templateId);
+			if (next.length === templatesState.length || !storage.saveTemplates(next)) {
+				return false;
+			}
+
+			templatesState = next;
+			return true;
+		},
+
+		/**
+		 * Find the template to preload on a date.
+		 * When several apply, the one with the fewest weekdays wins (so a
+		 * "Mon/Wed/Fri plan" beats an every-day default), then the most
+		 * recently updated.
+		 *
+		 * @param date - Day to find a template for
+		 * @returns Matching template, or null if none applies
+		 */
+		findForDate(date: Date): ScheduleTemplate | null {
+			const weekday = date.getDay();
+			const matches = templatesState
+				.filter((t) => t.weekdays.includes(weekday) && t.tasks.length > 0)
+				.sort(
+					(a, b) =>
+						a.weekdays.length - b.weekdays.length || b.updatedAt.localeCompare(a.updatedAt)
+				);
+			return matches[0] ?? null;
+		},
+
+		/**
+		 * Reset in-memory state (for testing)
+		 */
+		reset(): void {
+			templatesState = [];
+		}
+	};
+}
+
+/**
+ * The schedule template store instance
+ */
+export const scheduleTemplateStore = createScheduleTemplateStore();
@@ -17,10 +17,15 @@ import type {
 	SessionStatus,
 	ProgressStatus,
 	TaskType,
-	ScheduleConfig
+	ScheduleConfig,
+	SessionPause,
+	Interruption
 } from '$lib/types';
+import { MAX_SKIP_REASON_LENGTH } from '$lib/types';
 import { storage } from '$lib/services/storage';
 import { calculateProjectedStart } from '$lib/services/projection';
+import { endSegment, startSegment } from '$lib/services/workSegments';
+import { MIN_CONVERTED_TASK_DURATION_SEC } from '$lib/services/interruptionTasks';
 
 // =============================================================================
 // Types
@@ -79,6 +84,11 @@ const currentProgressValue = $derived.by<TaskProgress | null>(() => {
 	return progress[index];
 });
 
+// 028-session-pause: The pause in progress, if any
+const activePauseValue = $derived<SessionPause | null>(
+	session?.pauses?.find((p) => p.endedAt === null) ?? null
+);
+
 const lagDisplayValue = $derived.by(() => {
 	const lag = session?.totalLagSec ?? 0;
 	return formatLag(lag);
@@ -186,6 +196,18 @@ function calculateFixedTaskWarning(elapsedMs: number): FixedTaskWarning | null {
 // Helpers
 // =============================================================================
 
+/**
+ * Close a pause at the current time (028-session-pause)
+ */
+function endPause(pause: SessionPause): SessionPause {
+	const now = Date.now();
+	return {
+		...pause,
+		endedAt: new Date(now).toISOString(),
+		durationSec: Math.max(0, Math.floor((now - new Date(pause.startedAt).getTime()) / 1000))
+	};
+}
+
 /**
  * Generate a UUID v4
  */
@@ -270,6 +292,21 @@ function createSessionStore() {
 			return lagDisplayValue;
 		},
 
+		/** Whether the whole session is paused (028-session-pause) */
+		get isPaused(): boolean {
+			return activePauseValue !== null;
+		},
+
+		/** The pause in progress, null if not paused (028-session-pause) */
+		get activePause(): SessionPause | null {
+			return activePauseValue;
+		},
+
+		/** All pauses for the session, including the active one (028-session-pause) */
+		get pauses(): readonly SessionPause[] {
+			return session?.pauses ?? [];
+		},
+
 		/**
 		 * Get fixed task warning based on current elapsed time.
 		 *
@@ -399,7 +436,8 @@ function createSessionStore() {
 			console.groupEnd();
 
 			progress[currentIndex] = {
-				...currentProgress,
+				// 033-work-segments: Close the segment before the duration is overwritten
+				...endSegment(currentProgress, actualDurationSec),
 				actualDurationSec,
 				completedAt: new Date().toISOString(),
 				status: 'complete' as ProgressStatus
@@ -496,7 +534,7 @@ function createSessionStore() {
 				for (let i = nextIndex + 1; i < progress.length; i++) {
 					if (progress[i].status !== 'missed') {
 						progress[i] = {
-							...progress[i],
+							...startSegment(progress[i]),
 							status: 'active' as ProgressStatus
 						};
 						nextIndex = i;
@@ -515,6 +553,68 @@ function createSessionStore() {
 			storage.saveSession(session);
 		},
 
+		/**
+		 * Skip a task that will not be done, with an optional reason.
+		 *
+		 * Feature: 030-skip-task
+		 *
+		 * The task is marked missed. Unlike markMissed, skipping the current
+		 * task does not start another one: like completeTask, the next task
+		 * in schedule order stays pending until the user starts it, and the
+		 * day is complete when no tasks are left.
+		 *
+		 * @param taskId - ID of the pending or active task to skip
+		 * @param reason - Why it was skipped (blank for no reason)
+		 * @param currentElapsedSec - Time spent so far, kept when skipping the active task
+		 * @returns true if the task was skipped
+		 */
+		skipTask(taskId: string, reason: string, currentElapsedSec = 0): boolean {
+			if (!session || session.status !== 'running') return false;
+
+			const progress = [...session.taskProgress];
+			const index = progress.findIndex((p) => p.taskId === taskId);
+			if (index === -1) return false;
+
+			const skipped = progress[index];
+			if (skipped.status !== 'pending' && skipped.status !== 'active') return false;
+
+			const trimmed = reason.trim().slice(0, MAX_SKIP_REASON_LENGTH);
+			progress[index] = {
+				...(skipped.status === 'active' ? endSegment(skipped, currentElapsedSec) : skipped),
+				actualDurationSec:
+					skipped.status === 'active' ? currentElapsedSec : skipped.actualDurationSec,
+				completedAt: new Date().toISOString(),
+				status: 'missed' as ProgressStatus,
+				...(trimmed && { skipReason: trimmed })
+			};
+
+			if (index !== session.currentTaskIndex) {
+				session = { ...session, lastPersistedAt: Date.now(), taskProgress: progress };
+				storage.saveSession(session);
+				return true;
+			}
+
+			// Next task in chronological order, as in completeTask
+			const next = tasks
+				.map((task, idx) => ({ task, idx }))
+				.filter(({ idx }) => progress[idx].status === 'pending')
+				.sort((a, b) => a.task.plannedStart.getTime() - b.task.plannedStart.getTime())[0];
+
+			session = {
+				...session,
+				...(next
+					? { currentTaskIndex: next.idx }
+					: { status: 'complete' as SessionStatus, endedAt: new Date().toISOString() }),
+				currentTaskElapsedMs: 0,
+				lastPersistedAt: Date.now(),
+				taskProgress: progress,
+				timerStartedAtMs: 0
+			};
+
+			storage.saveSession(session);
+			return true;
+		},
+
 		/**
 		 * End the current session and generate summary.
 		 *
@@ -554,11 +654,18 @@ function createSessionStore() {
 				: Date.now();
 			const sessionDurationSec = Math.floor((endedAt - startedAt) / 1000);
 
-			// Mark session as complete
+			// 028-session-pause: Ending the day ends any pause
+			const pauses = (session.pauses ?? []).map((p) =>
+				p.endedAt === null ? endPause(p) : p
+			);
+			const pausedSec = pauses.reduce((sum, p) => sum + p.durationSec, 0);
+
+			// Mark session as complete (keep the original end time if already complete)
 			session = {
 				...session,
 				status: 'complete',
-				endedAt: new Date().toISOString()
+				endedAt: session.endedAt ?? new Date().toISOString(),
+				...(session.pauses && { pauses })
 			};
 
 			storage.saveSession(session);
@@ -570,7 +677,8 @@ function createSessionStore() {
 				tasksOnTime,
 				tasksLate,
 				tasksMissed,
-				sessionDurationSec
+				sessionDurationSec,
+				pausedSec
 			};
 		},
 
@@ -934,6 +1042,100 @@ function createSessionStore() {
 			return true;
 		},
 
+		/**
+		 * Add lag from idle time between tasks.
+		 *
+		 * Feature: 027-idle-time
+		 *
+		 * @param lagSec - Idle time beyond the planned slack (seconds)
+		 */
+		addIdleLag(lagSec: number): void {
+			if (!session || lagSec <= 0) {
+				return;
+			}
+
+			session = {
+				...session,
+				totalLagSec: session.totalLagSec + lagSec,
+				lastPersistedAt: Date.now()
+			};
+
+			storage.saveSession(session);
+		},
+
+		/**
+		 * Pause the whole session.
+		 *
+		 * Feature: 028-session-pause
+		 *
+		 * Saves the current task's elapsed time so it resumes from there;
+		 * timer recovery adds no away time while the session is paused.
+		 * Note: Caller is responsible for stopping the task timer first.
+		 *
+		 * @param reason - Why the day is paused
+		 * @param currentElapsedMs - Elapsed time on the current task (0 if no task is active)
+		 * @returns The active pause record
+		 * @throws Error if no session is running or it is already paused
+		 */
+		pauseSession(reason: string, currentElapsedMs: number): SessionPause {
+			if (!session || session.status !== 'running') {
+				throw new Error('No active session');
+			}
+			if (activePauseValue) {
+				throw new Error('Session already paused');
+			}
+
+			const isTaskActive = currentProgressValue?.status === 'active';
+			const pause: SessionPause = {
+				pauseId: generateUUID(),
+				reason: reason.trim() || 'Paused',
+				taskId: isTaskActive ? (currentTaskValue?.taskId ?? null) : null,
+				startedAt: new Date().toISOString(),
+				endedAt: null,
+				durationSec: 0
+			};
+
+			session = {
+				...session,
+				currentTaskElapsedMs: isTaskActive ? currentElapsedMs : session.currentTaskElapsedMs,
+				lastPersistedAt: Date.now(),
+				pauses: [...(session.pauses ?? []), pause]
+			};
+
+			storage.saveSession(session);
+			return pause;
+		},
+
+		/**
+		 * Resume a paused session.
+		 *
+		 * Feature: 028-session-pause
+		 *
+		 * Note: Caller is responsible for restarting the task timer from
+		 * session.currentTaskElapsedMs when pause.taskId is set.
+		 *
+		 * @returns The completed pause record
+		 * @throws Error if the session is not paused
+		 */
+		resumeSession(): SessionPause {
+			if (!session || !activePauseValue) {
+				throw new Error('Session not paused');
+			}
+
+			const completed = endPause(activePauseValue);
+			session = {
+				...session,
+				lastPersistedAt: Date.now(),
+				timerStartedAtMs: completed.taskId ? Date.now() : session.timerStartedAtMs,
+				pauses: (session.pauses ?? []).map((p) =>
+					p.pauseId === completed.pauseId ? completed : p
+				)
+			};
+
+			storage.saveSession(session);
+			return completed;
+		},
+
 		/**
 		 * Jump to a specific task, PAUSING (not completing) any currently active task.
 		 *
@@ -983,7 +1185,7 @@ function createSessionStore() {
 			// (save elapsed time but do NOT mark complete)
 			if (currentProgress.status === 'active') {
 				newProgress[currentIndex] = {
-					...currentProgress,
+					...endSegment(currentProgress, currentElapsedSec), // 033-work-segments
 					actualDurationSec: currentElapsedSec, // Save elapsed time for resuming later
 					status: 'pending' as ProgressStatus   // Back to pending, not complete
 					// Note: completedAt is NOT set - task is not complete
@@ -993,8 +1195,9 @@ function createSessionStore() {
 			// Set target task as active, restore any previously saved elapsed time
 			const targetSavedElapsedMs = targetProgress.actualDurationSec * 1000;
 
+			// 033-work-segments: Each resume starts a new work segment
 			newProgress[targetIndex] = {
-				...newProgress[targetIndex],
+				...startSegment(newProgress[targetIndex]),
 				status: 'active' as ProgressStatus
 			};
 
@@ -1014,6 +1217,109 @@ function createSessionStore() {
 			return true;
 		},
 
+		/**
+		 * Turn an interruption into an ad-hoc task (038-interruption-to-task).
+		 *
+		 * The task starts when the interruption started and gets its time:
+		 * - Keep working: the task becomes the current task; a task that was
+		 *   active is paused as when jumping to another task, and the new task
+		 *   goes after it
+		 * - Otherwise: the task is recorded as complete, inserted before the
+		 *   current task, which is left as it is
+		 *
+		 * @param interruption - The ended interruption
+		 * @param name - Name of the new task
+		 * @param keepWorking - Whether work on the task goes on
+		 * @param currentElapsedSec - Elapsed time of the active task when it was interrupted
+		 * @returns The created ConfirmedTask, or null if session not active
+		 */
+		convertInterruptionToTask(
+			interruption: Interruption,
+			name: string,
+			keepWorking: boolean,
+			currentElapsedSec: number
+		): ConfirmedTask | null {
+			if (!session || session.status !== 'running' || interruption.endedAt === null) {
+				return null;
+			}
+
+			const startedAt = new Date(interruption.startedAt);
+			const elapsedSec = interruption.durationSec;
+			const currentIndex = session.currentTaskIndex;
+			// A task that was being worked on is paused and the new task goes after it
+			const pausesCurrent =
+				keepWorking && session.taskProgress[currentIndex]?.status === 'active';
+			const insertIndex = pausesCurrent ? currentIndex + 1 : currentIndex;
+
+			const newTask: ConfirmedTask = {
+				taskId: generateUUID(),
+				name,
+				plannedStart: startedAt,
+				plannedDurationSec: Math.max(MIN_CONVERTED_TASK_DURATION_SEC, elapsedSec),
+				type: 'flexible',
+				sortOrder: insertIndex, // Will be recalculated
+				status: 'pending',
+				isAdHoc: true
+			};
+
+			// The elapsed time of an active task lives in currentTaskElapsedMs until
+			// it is paused or completed, so it has none recorded yet
+			const newProgress: TaskProgress = {
+				taskId: newTask.taskId,
+				plannedDurationSec: newTask.plannedDurationSec,
+				actualDurationSec: keepWorking ? 0 : elapsedSec,
+				completedAt: keepWorking ? null : interruption.endedAt,
+				status: keepWorking ? 'active' : 'complete',
+				segments: [
+					{
+						startedAt: interruption.startedAt,
+						endedAt: keepWorking ? null : interruption.endedAt,
+						elapsedSec: keepWorking ? 0 : elapsedSec
+					}
+				]
+			};
+
+			const progress = [...session.taskProgress];
+
+			// Pause the interrupted task where it stopped
+			if (pausesCurrent) {
+				progress[currentIndex] = {
+					...endSegment(progress[currentIndex], currentElapsedSec, startedAt),
+					actualDurationSec: currentElapsedSec,
+					status: 'pending'
+				};
+			}
+
+			const newTasks = [...tasks];
+			newTasks.splice(insertIndex, 0, newTask);
+			progress.splice(insertIndex, 0, newProgress);
+			for (let i = 0; i < newTasks.length; i++) {
+				newTasks[i] = { ...newTasks[i], sortOrder: i };
+			}
+
+			tasks = newTasks;
+			session = keepWorking
+				? {
+						...session,
+						currentTaskIndex: insertIndex,
+						currentTaskElapsedMs: elapsedSec * 1000,
+						taskProgress: progress,
+						timerStartedAtMs: Date.now(),
+						lastPersistedAt: Date.now()
+					}
+				: {
+						...session,
+						currentTaskIndex: currentIndex + 1, // Still the same task
+						taskProgress: progress,
+						lastPersistedAt: Date.now()
+					};
+
+			storage.saveTasks(newTasks);
+			storage.saveSession(session);
+
+			return newTask;
+		},
+
 		/**
 		 * Mark a completed task as incomplete.
 		 *
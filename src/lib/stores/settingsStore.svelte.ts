@@ -4,13 +4,24 @@
  * Feature: 008-settings
  * Task: T004 - Create settingsStore with Svelte 5 runes
  *
- * Manages user preference settings with persistence to localStorage.
+ * Manages user preference settings, persisted through the storage service.
  * Uses Svelte 5 runes for reactive state management.
  */
 
-import type { Settings, Theme, SettingsStorage } from '$lib/types';
-import { DEFAULT_SETTINGS, STORAGE_KEY_SETTINGS } from '$lib/types';
+import type { InterruptionCategory, SavedColumnMapping, Settings, Theme } from '$lib/types';
+import {
+	DEFAULT_INTERRUPTION_CATEGORIES,
+	DEFAULT_SETTINGS,
+	MAX_INTERRUPTION_NOTE_LENGTH,
+	MAX_SAVED_COLUMN_MAPPINGS
+} from '$lib/types';
 import { applyTheme } from '$lib/services/theme';
+import { storage } from '$lib/services/storage';
+import {
+	createCategory,
+	getCategoryNameError,
+	isValidCategoryColor
+} from '$lib/services/interruptionCategories';
 
 // =============================================================================
 // State
@@ -38,6 +49,37 @@ function validateFixedTaskAlert(minutes: number): number {
 	return Math.max(0, Math.min(30, Math.floor(minutes)));
 }
 
+/**
+ * Clamp a Pomodoro setting to a whole number within a range (026-pomodoro)
+ */
+function clampWhole(value: number, min: number, max: number): number {
+	return Math.max(min, Math.min(max, Math.floor(value)));
+}
+
+/**
+ * Keep the well-formed stored categories, or the defaults if there are none
+ * (034-interruption-categories)
+ */
+function validateCategories(value: unknown): InterruptionCategory[] {
+	const categories = Array.isArray(value)
+		? value.filter(
+				(c): c is InterruptionCategory =>
+					typeof c?.categoryId === 'string' && typeof c?.name === 'string'
+			)
+		: [];
+	if (categories.length === 0) {
+		return DEFAULT_INTERRUPTION_CATEGORIES.map((c) => ({ ...c }));
+	}
+
+	return categories.map((c) => ({
+		categoryId: c.categoryId,
+		name: c.name,
+		color: isValidCategoryColor(c.color) ? c.color : '#6b7280',
+		defaultNote: typeof c.defaultNote === 'string' ? c.defaultNote : '',
+		archived: c.archived === true
+	}));
+}
+
 /**
  * Validate theme value
  */
@@ -82,6 +124,34 @@ function createSettingsStore() {
 			return settings.vibrationEnabled;
 		},
 
+		get columnMappings(): SavedColumnMapping[] {
+			return settings.columnMappings;
+		},
+
+		get pomodoroEnabled(): boolean {
+			return settings.pomodoroEnabled;
+		},
+
+		get pomodoroFocusMin(): number {
+			return settings.pomodoroFocusMin;
+		},
+
+		get pomodoroShortBreakMin(): number {
+			return settings.pomodoroShortBreakMin;
+		},
+
+		get pomodoroLongBreakMin(): number {
+			return settings.pomodoroLongBreakMin;
+		},
+
+		get pomodoroLongBreakEvery(): number {
+			return settings.pomodoroLongBreakEvery;
+		},
+
+		get interruptionCategories(): InterruptionCategory[] {
+			return settings.interruptionCategories;
+		},
+
 		get isPanelOpen(): boolean {
 			return isPanelOpen;
 		},
@@ -175,31 +245,208 @@ function createSettingsStore() {
 			this._persist();
 		},
 
+		/**
+		 * Remember an import column mapping for a file layout (019-column-mapping).
+		 * Replaces any mapping for the same layout and keeps the newest
+		 * MAX_SAVED_COLUMN_MAPPINGS entries.
+		 * @param entry - Layout key, sheet name and chosen columns
+		 */
+		saveColumnMapping(entry: SavedColumnMapping): void {
+			const others = settings.columnMappings.filter(
+				(m) => !(m.layoutKey === entry.layoutKey && m.sheetName === entry.sheetName)
+			);
+			settings.columnMappings = [entry, ...others].slice(0, MAX_SAVED_COLUMN_MAPPINGS);
+			this._persist();
+		},
+
+		/**
+		 * Forget all remembered import column mappings
+		 */
+		clearColumnMappings(): void {
+			settings.columnMappings = [];
+			this._persist();
+		},
+
+		/**
+		 * Set whether Pomodoro mode is enabled (026-pomodoro)
+		 * @param enabled - true to enable, false to disable
+		 */
+		setPomodoroEnabled(enabled: boolean): void {
+			settings.pomodoroEnabled = enabled;
+			this._persist();
+		},
+
+		/**
+		 * Set the focus interval length
+		 * @param minutes - 5-120 minutes
+		 */
+		setPomodoroFocusMinutes(minutes: number): void {
+			settings.pomodoroFocusMin = clampWhole(minutes, 5, 120);
+			this._persist();
+		},
+
+		/**
+		 * Set the short break length
+		 * @param minutes - 1-30 minutes
+		 */
+		setPomodoroShortBreakMinutes(minutes: number): void {
+			settings.pomodoroShortBreakMin = clampWhole(minutes, 1, 30);
+			this._persist();
+		},
+
+		/**
+		 * Set the long break length
+		 * @param minutes - 1-60 minutes
+		 */
+		setPomodoroLongBreakMinutes(minutes: number): void {
+			settings.pomodoroLongBreakMin = clampWhole(minutes, 1, 60);
+			this._persist();
+		},
+
+		/**
+		 * Set how often a long break replaces a short one
+		 * @param count - Every 1-12 breaks
+		 */
+		setPomodoroLongBreakEvery(count: number): void {
+			settings.pomodoroLongBreakEvery = clampWhole(count, 1, 12);
+			this._persist();
+		},
+
+		// -------------------------------------------------------------------------
+		// Interruption Category Actions (034-interruption-categories)
+		// -------------------------------------------------------------------------
+
+		/**
+		 * Add an interruption category at the end of the list
+		 * @param name - Category name, unique and 1-30 characters once trimmed
+		 * @returns The new category, or null if the name cannot be used
+		 */
+		addInterruptionCategory(name: string): InterruptionCategory | null {
+			if (getCategoryNameError(name, settings.interruptionCategories)) {
+				return null;
+			}
+
+			const category = createCategory(name.trim(), settings.interruptionCategories);
+			settings.interruptionCategories = [...settings.interruptionCategories, category];
+			this._persist();
+			return category;
+		},
+
+		/**
+		 * Rename an interruption category; interruptions keep referring to it
+		 * @param categoryId - Category to rename
+		 * @param name - New name, unique and 1-30 characters once trimmed
+		 * @returns true if renamed
+		 */
+		renameInterruptionCategory(categoryId: string, name: string): boolean {
+			if (getCategoryNameError(name, settings.interruptionCategories, categoryId)) {
+				return false;
+			}
+			return this._updateCategory(categoryId, { name: name.trim() });
+		},
+
+		/**
+		 * Set the color of an interruption category
+		 * @param categoryId - Category to recolor
+		 * @param color - #rrggbb color
+		 * @returns true if recolored
+		 */
+		setInterruptionCategoryColor(categoryId: string, color: string): boolean {
+			if (!isValidCategoryColor(color)) {
+				return false;
+			}
+			return this._updateCategory(categoryId, { color: color.toLowerCase() });
+		},
+
+		/**
+		 * Set the note filled in when the category is picked
+		 * @param categoryId - Category to update
+		 * @param note - Default note (max 200 characters, blank for none)
+		 * @returns true if updated
+		 */
+		setInterruptionCategoryDefaultNote(categoryId: string, note: string): boolean {
+			const defaultNote = note.trim().slice(0, MAX_INTERRUPTION_NOTE_LENGTH);
+			return this._updateCategory(categoryId, { defaultNote });
+		},
+
+		/**
+		 * Archive or restore an interruption category. Archived categories are
+		 * not offered for new interruptions but still name past ones.
+		 * @param categoryId - Category to update
+		 * @param archived - true to archive, false to restore
+		 * @returns true if updated
+		 */
+		setInterruptionCategoryArchived(categoryId: string, archived: boolean): boolean {
+			return this._updateCategory(categoryId, { archived });
+		},
+
+		/**
+		 * Move an interruption category to another position in the list
+		 * @param categoryId - Category to move
+		 * @param toIndex - New position (clamped to the list)
+		 * @returns true if moved
+		 */
+		moveInterruptionCategory(categoryId: string, toIndex: number): boolean {
+			const categories = [...settings.interruptionCategories];
+			const fromIndex = categories.findIndex((c) => c.categoryId === categoryId);
+			if (fromIndex === -1) {
+				return false;
+			}
+
+			const target = Math.max(0, Math.min(categories.length - 1, Math.floor(toIndex)));
+			const [moved] = categories.splice(fromIndex, 1);
+			categories.splice(target, 0, moved);
+			settings.interruptionCategories = categories;
+			this._persist();
+			return true;
+		},
+
+		/**
+		 * Apply changes to one interruption category and persist
+		 * @returns true if the category exists
+		 */
+		_updateCategory(categoryId: string, changes: Partial<InterruptionCategory>): boolean {
+			if (!settings.interruptionCategories.some((c) => c.categoryId === categoryId)) {
+				return false;
+			}
+
+			settings.interruptionCategories = settings.interruptionCategories.map((c) =>
+				c.categoryId === categoryId ? { ...c, ...changes } : c
+			);
+			this._persist();
+			return true;
+		},
+
 		// -------------------------------------------------------------------------
 		// Persistence
 		// -------------------------------------------------------------------------
 
 		/**
-		 * Load settings from localStorage
+		 * Load settings from storage
 		 * @returns true if settings were loaded, false if using defaults
 		 */
 		load(): boolean {
 			try {
-				const stored = localStorage.getItem(STORAGE_KEY_SETTINGS);
+				const stored = storage.loadSettings();
 				if (!stored) {
 					return false;
 				}
 
-				const parsed = JSON.parse(stored) as SettingsStorage;
-
 				// Validate and apply stored settings
 				settings = {
-					theme: validateTheme(parsed.data?.theme ?? 'system'),
-					warningThresholdSec: validateWarningThreshold(parsed.data?.warningThresholdSec ?? 300),
-					fixedTaskAlertMin: validateFixedTaskAlert(parsed.data?.fixedTaskAlertMin ?? 10),
-					soundEnabled: parsed.data?.soundEnabled ?? true,
-					vibrationEnabled: parsed.data?.vibrationEnabled ?? true,
-					defaultScheduleStartTime: parsed.data?.defaultScheduleStartTime ?? ''
+					theme: validateTheme(stored.theme ?? 'system'),
+					warningThresholdSec: validateWarningThreshold(stored.warningThresholdSec ?? 300),
+					fixedTaskAlertMin: validateFixedTaskAlert(stored.fixedTaskAlertMin ?? 10),
+					soundEnabled: stored.soundEnabled ?? true,
+					vibrationEnabled: stored.vibrationEnabled ?? true,
+					defaultScheduleStartTime: stored.defaultScheduleStartTime ?? '',
+					columnMappings: Array.isArray(stored.columnMappings) ? stored.columnMappings : [],
+					pomodoroEnabled: stored.pomodoroEnabled ?? false,
+					pomodoroFocusMin: clampWhole(stored.pomodoroFocusMin ?? 25, 5, 120),
+					pomodoroShortBreakMin: clampWhole(stored.pomodoroShortBreakMin ?? 5, 1, 30),
+					pomodoroLongBreakMin: clampWhole(stored.pomodoroLongBreakMin ?? 15, 1, 60),
+					pomodoroLongBreakEvery: clampWhole(stored.pomodoroLongBreakEvery ?? 4, 1, 12),
+					interruptionCategories: validateCategories(stored.interruptionCategories)
 				};
 
 				lastError = null;
@@ -214,23 +461,17 @@ function createSettingsStore() {
 		},
 
 		/**
-		 * Persist current settings to localStorage
+		 * Persist current settings to storage
 		 * @returns true if successful, false on error
 		 */
 		_persist(): boolean {
-			try {
-				const storage: SettingsStorage = {
-					version: 1,
-					data: { ...settings }
-				};
-				localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(storage));
-				lastError = null;
-				return true;
-			} catch (error) {
-				console.error('Failed to save settings:', error);
+			if (!storage.saveSettings({ ...settings })) {
 				lastError = 'Failed to save settings. Storage may be full.';
 				return false;
 			}
+
+			lastError = null;
+			return true;
 		},
 
 		/**
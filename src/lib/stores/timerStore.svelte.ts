@@ -24,6 +24,8 @@ import { storage } from '$lib/services/storage';
 let elapsedMsState = $state(0);
 let durationMs = $state(0);
 let running = $state(false);
+// 028-session-pause: Stopped by a session pause (resume() continues from elapsed)
+let paused = $state(false);
 let timer: TimerService | null = null;
 
 // T012: Sync interval ID for periodic persistence
@@ -241,6 +243,16 @@ function calculateRecovery(session: DaySession | null): TimerRecoveryResult {
 	const lastSync = session.lastPersistedAt;
 	const savedElapsed = session.currentTaskElapsedMs;
 
+	// 028-session-pause: Time away while paused never counts towards the task
+	if (session.pauses?.some((p) => p.endedAt === null)) {
+		return {
+			success: true,
+			recoveredElapsedMs: Math.max(0, Math.min(savedElapsed, MAX_RECOVERY_ELAPSED_MS)),
+			awayTimeMs: 0,
+			isValid: true
+		};
+	}
+
 	// Validate: lastSync should not be in the future
 	if (lastSync > now) {
 		console.warn('Timer recovery: timestamp in future, resetting');
@@ -301,6 +313,11 @@ function createTimerStore() {
 			return running;
 		},
 
+		/** Whether the timer is stopped by a session pause (028-session-pause) */
+		get isPaused(): boolean {
+			return paused;
+		},
+
 		get displayTime(): string {
 			return displayTimeValue;
 		},
@@ -321,6 +338,7 @@ function createTimerStore() {
 		 */
 		start(durationSec: number, startFromMs: number = 0): void {
 			if (running) return;
+			paused = false;
 
 			// Set duration in milliseconds
 			durationMs = durationSec * 1000;
@@ -356,6 +374,7 @@ function createTimerStore() {
 			// T016: Stop persistence sync and backup interval
 			stopPersistenceSync();
 			stopBackupInterval();
+			paused = false;
 
 			if (!running || !timer) {
 				return elapsedMsState;
@@ -371,6 +390,45 @@ function createTimerStore() {
 			return finalElapsed;
 		},
 
+		/**
+		 * Pause the timer for a session pause, keeping elapsed and duration.
+		 *
+		 * Feature: 028-session-pause
+		 *
+		 * @returns Elapsed time in milliseconds when paused
+		 */
+		pause(): number {
+			const wasRunning = running;
+			const elapsed = this.stop();
+			paused = wasRunning;
+			return elapsed;
+		},
+
+		/**
+		 * Continue a paused timer from where it stopped.
+		 *
+		 * Feature: 028-session-pause
+		 */
+		resume(): void {
+			if (!paused) return;
+			this.start(durationMs / 1000, elapsedMsState);
+		},
+
+		/**
+		 * Show a paused task after reload without starting the timer.
+		 *
+		 * Feature: 028-session-pause
+		 *
+		 * @param durationSec - Planned duration in seconds
+		 * @param elapsedMs - Elapsed time when the session was paused
+		 */
+		restorePaused(durationSec: number, elapsedMs: number): void {
+			this.reset();
+			durationMs = durationSec * 1000;
+			elapsedMsState = elapsedMs;
+			paused = true;
+		},
+
 		/**
 		 * Set elapsed time for the running timer (for corrections).
 		 *
@@ -421,6 +479,7 @@ function createTimerStore() {
 			elapsedMsState = 0;
 			durationMs = 0;
 			running = false;
+			paused = false;
 		},
 
 		/**
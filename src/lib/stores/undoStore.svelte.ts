@@ -0,0 +1,179 @@
+/**
+ * Undo Store
+ *
+ * Feature: 031-undo-redo
+ *
+ * Undo and redo stacks for destructive actions during a session
+ * (reordering, jumping to, completing and skipping tasks, elapsed
+ * corrections, note deletes). Each entry holds a snapshot of the state
+ * before the action; the page captures and restores the snapshots.
+ * Stacks are bounded by MAX_UNDO_ENTRIES and persisted, so history
+ * survives a reload.
+ *
+ * Uses Svelte 5 runes for reactive state management.
+ */
+
+import type { UndoEntry, UndoSnapshot } from '$lib/types';
+import { MAX_UNDO_ENTRIES } from '$lib/types';
+import { storage } from '$lib/services/storage';
+
+// =============================================================================
+// State
+// =============================================================================
+
+let sessionIdState = $state<string | null>(null);
+let undoState = $state<UndoEntry[]>([]);
+let redoState = $state<UndoEntry[]>([]);
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Deep copy a snapshot, so later changes to the stores never leak into it
+ */
+function copySnapshot(snapshot: UndoSnapshot): UndoSnapshot {
+	const copy = JSON.parse(JSON.stringify(snapshot)) as UndoSnapshot;
+	copy.tasks = copy.tasks.map((task, i) => ({
+		...task,
+		plannedStart: new Date(snapshot.tasks[i].plannedStart)
+	}));
+	return copy;
+}
+
+/**
+ * Keep the most recent entries of a stack
+ */
+function bound(entries: UndoEntry[]): UndoEntry[] {
+	return entries.slice(-MAX_UNDO_ENTRIES);
+}
+
+function persist(): void {
+	if (sessionIdState) {
+		storage.saveUndoHistory({ sessionId: sessionIdState, undo: undoState, redo: redoState });
+	}
+}
+
+// =============================================================================
+// Store Implementation
+// =============================================================================
+
+/**
+ * Creates a store for the session's undo history.
+ *
+ * @returns An object exposing readable getters and actions to record, undo and redo
+ */
+function createUndoStore() {
+	return {
+		// -------------------------------------------------------------------------
+		// Readable State (getters)
+		// -------------------------------------------------------------------------
+
+		get canUndo(): boolean {
+			return undoState.length > 0;
+		},
+
+		get canRedo(): boolean {
+			return redoState.length > 0;
+		},
+
+		/** Label of the action undo would revert, if any */
+		get undoLabel(): string | null {
+			return undoState.at(-1)?.label ?? null;
+		},
+
+		/** Label of the action redo would apply again, if any */
+		get redoLabel(): string | null {
+			return redoState.at(-1)?.label ?? null;
+		},
+
+		// -------------------------------------------------------------------------
+		// Actions
+		// -------------------------------------------------------------------------
+
+		/**
+		 * Load the history of a session from storage.
+		 * History left over from another session is discarded.
+		 *
+		 * @param sessionId - The running session
+		 */
+		load(sessionId: string): void {
+			const saved = storage.loadUndoHistory();
+			if (saved && saved.sessionId === sessionId) {
+				sessionIdState = sessionId;
+				undoState = bound(saved.undo);
+				redoState = bound(saved.redo);
+				return;
+			}
+
+			this.reset();
+		},
+
+		/**
+		 * Record an action that can be undone. Clears the redo stack.
+		 *
+		 * @param label - Short description of the action
+		 * @param before - State before the action
+		 */
+		record(label: string, before: UndoSnapshot): void {
+			const sessionId = before.session.sessionId;
+			if (sessionId !== sessionIdState) {
+				sessionIdState = sessionId;
+				undoState = [];
+			}
+
+			undoState = bound([...undoState, { label, snapshot: copySnapshot(before) }]);
+			redoState = [];
+			persist();
+		},
+
+		/**
+		 * Take the most recent action off the undo stack.
+		 *
+		 * @param current - State now, kept so the action can be redone
+		 * @returns The entry whose snapshot to restore, or null if there is nothing to undo
+		 */
+		undo(current: UndoSnapshot): UndoEntry | null {
+			const entry = undoState.at(-1);
+			if (!entry) return null;
+
+			undoState = undoState.slice(0, -1);
+			redoState = bound([...redoState, { label: entry.label, snapshot: copySnapshot(current) }]);
+			persist();
+
+			return { label: entry.label, snapshot: copySnapshot(entry.snapshot) };
+		},
+
+		/**
+		 * Take the most recently undone action off the redo stack.
+		 *
+		 * @param current - State now, kept so the action can be undone again
+		 * @returns The entry whose snapshot to restore, or null if there is nothing to redo
+		 */
+		redo(current: UndoSnapshot): UndoEntry | null {
+			const entry = redoState.at(-1);
+			if (!entry) return null;
+
+			redoState = redoState.slice(0, -1);
+			undoState = bound([...undoState, { label: entry.label, snapshot: copySnapshot(current) }]);
+			persist();
+
+			return { label: entry.label, snapshot: copySnapshot(entry.snapshot) };
+		},
+
+		/**
+		 * Clear all history, including storage.
+		 */
+		reset(): void {
+			sessionIdState = null;
+			undoState = [];
+			redoState = [];
+			storage.clearUndoHistory();
+		}
+	};
+}
+
+/**
+ * The undo store singleton
+ */
+export const undoStore = createUndoStore();
@@ -10,8 +10,8 @@
 /** Task type - determines if task time is movable */
 export type TaskType = 'fixed' | 'flexible';
 
-/** Import workflow state */
-export type ImportStatus = 'idle' | 'parsing' | 'preview' | 'error' | 'ready';
+/** Import workflow state ('mapping' added in 019-column-mapping) */
+export type ImportStatus = 'idle' | 'parsing' | 'mapping' | 'preview' | 'error' | 'ready';
 
 /** Task status (post-confirmation) */
 export type TaskStatus = 'pending' | 'active' | 'complete';
@@ -26,7 +26,7 @@ export type SessionStatus = 'idle' | 'running' | 'complete';
 export type ProgressStatus = 'pending' | 'active' | 'complete' | 'missed';
 
 /** Supported file extensions */
-export type SupportedFileType = '.xlsx' | '.xls' | '.csv';
+export type SupportedFileType = '.xlsx' | '.xls' | '.csv' | '.ics';
 
 /** Risk level for fixed task indicators in impact panel */
 export type RiskLevel = 'green' | 'yellow' | 'red';
@@ -43,6 +43,13 @@ export type DisplayStatus = 'completed' | 'current' | 'pending';
  */
 export type ScheduleStartMode = 'now' | 'custom';
 
+/**
+ * Planner-assigned task priority
+ *
+ * @new 018-task-metadata
+ */
+export type TaskPriority = 'high' | 'medium' | 'low';
+
 // =============================================================================
 // Core Entities
 // =============================================================================
@@ -66,6 +73,32 @@ export interface DraftTask {
 	sortOrder: number;
 	/** True if task overlaps another or is in past */
 	hasWarning: boolean;
+	/**
+	 * Optional project from the "Project" column
+	 * @new 018-task-metadata
+	 */
+	project?: string;
+	/**
+	 * Optional tags from the "Tags" column (comma separated in the file)
+	 * @new 018-task-metadata
+	 */
+	tags?: string[];
+	/**
+	 * Optional priority from the "Priority" column
+	 * @new 018-task-metadata
+	 */
+	priority?: TaskPriority;
+	/**
+	 * Optional free-text notes from the "Notes" column
+	 * @new 018-task-metadata
+	 */
+	notes?: string;
+	/**
+	 * Day the task was carried over from (YYYY-MM-DD), if it was left
+	 * unfinished on an earlier day
+	 * @new 029-carry-over
+	 */
+	carriedFrom?: string;
 }
 
 /**
@@ -89,6 +122,31 @@ export interface ConfirmedTask {
 	status: TaskStatus;
 	/** True if task was created during session (ad-hoc), false/undefined if imported */
 	isAdHoc?: boolean;
+	/**
+	 * Optional project from the "Project" column
+	 * @new 018-task-metadata
+	 */
+	project?: string;
+	/**
+	 * Optional tags from the "Tags" column (comma separated in the file)
+	 * @new 018-task-metadata
+	 */
+	tags?: string[];
+	/**
+	 * Optional priority from the "Priority" column
+	 * @new 018-task-metadata
+	 */
+	priority?: TaskPriority;
+	/**
+	 * Optional free-text notes from the "Notes" column
+	 * @new 018-task-metadata
+	 */
+	notes?: string;
+	/**
+	 * Day the task was carried over from (YYYY-MM-DD)
+	 * @new 029-carry-over
+	 */
+	carriedFrom?: string;
 }
 
 /**
@@ -120,6 +178,11 @@ export interface ImportState {
 	tasks: DraftTask[];
 	/** Validation errors */
 	errors: ValidationError[];
+	/**
+	 * Sheet and column choices for the uploaded file, null until inspected
+	 * @new 019-column-mapping
+	 */
+	mapping: ImportMapping | null;
 }
 
 // =============================================================================
@@ -141,6 +204,16 @@ export interface TaskProgress {
 	completedAt: string | null;
 	/** Current execution state */
 	status: ProgressStatus;
+	/**
+	 * Why the task was skipped, when it was marked missed with a reason
+	 * @new 030-skip-task
+	 */
+	skipReason?: string;
+	/**
+	 * Stretches of time the task was worked on, oldest first
+	 * @new 033-work-segments
+	 */
+	segments?: WorkSegment[];
 }
 
 /**
@@ -181,6 +254,14 @@ export interface DaySession {
 	 * @new 011-auto-start-time
 	 */
 	scheduleConfig?: ScheduleConfig;
+
+	/**
+	 * Session pauses, including the active one (endedAt === null).
+	 * Missing in sessions saved before pausing existed.
+	 *
+	 * @new 028-session-pause
+	 */
+	pauses?: SessionPause[];
 }
 
 // =============================================================================
@@ -268,6 +349,21 @@ export interface DaySummary {
 	tasksMissed: number;
 	/** Session duration (startedAt to endedAt) */
 	sessionDurationSec: number;
+	/**
+	 * Time between tasks not attributed to anything (seconds)
+	 * @new 027-idle-time
+	 */
+	unallocatedSec?: number;
+	/**
+	 * Break time, between tasks or during Pomodoro breaks (seconds)
+	 * @new 027-idle-time
+	 */
+	breakSec?: number;
+	/**
+	 * Time the whole session was paused (seconds)
+	 * @new 028-session-pause
+	 */
+	pausedSec?: number;
 }
 
 // =============================================================================
@@ -302,6 +398,27 @@ export interface ProjectedTask {
 		name: string;
 		startTime: Date;
 	};
+	/**
+	 * Pomodoro break time planned while working on this task (seconds),
+	 * set only when breaks fall inside the task
+	 * @new 026-pomodoro
+	 */
+	plannedBreakSec?: number;
+	/**
+	 * True when the task was skipped or missed (shown as completed otherwise)
+	 * @new 030-skip-task
+	 */
+	isSkipped?: boolean;
+	/**
+	 * Why the task was skipped, if a reason was given
+	 * @new 030-skip-task
+	 */
+	skipReason?: string;
+	/**
+	 * Stretches of time the task was worked on, when there are any
+	 * @new 033-work-segments
+	 */
+	segments?: WorkSegment[];
 }
 
 /**
@@ -459,7 +576,7 @@ export const STORAGE_KEY_SESSION = 'tm_session';
 export const STORAGE_KEY_TAB = 'tm_active_tab';
 
 /** Current schema version */
-export const CURRENT_SCHEMA_VERSION = 7;
+export const CURRENT_SCHEMA_VERSION = 8;
 
 /** localStorage key for settings */
 export const STORAGE_KEY_SETTINGS = 'tm_settings';
@@ -522,8 +639,25 @@ export const MIDNIGHT_MS = 24 * 60 * 60 * 1000;
 // Interruption Tracking Types (004-interruption-tracking)
 // =============================================================================
 
-/** Category for classifying interruptions */
-export type InterruptionCategory = 'Phone' | 'Luci' | 'Colleague' | 'Personal' | 'Other';
+/**
+ * User-defined category for classifying interruptions.
+ * Managed in settings, in display order. Archived categories are no longer
+ * offered but keep naming the interruptions recorded with them.
+ *
+ * @new 034-interruption-categories
+ */
+export interface InterruptionCategory {
+	/** Unique identifier, stored in Interruption.category */
+	categoryId: string;
+	/** Display name (1-30 characters) */
+	name: string;
+	/** Display color (#rrggbb) */
+	color: string;
+	/** Note filled in when the category is picked for an interruption without one */
+	defaultNote: string;
+	/** Whether the category is hidden from the category picker */
+	archived: boolean;
+}
 
 /**
  * A single interruption event during task execution.
@@ -532,18 +666,36 @@ export type InterruptionCategory = 'Phone' | 'Luci' | 'Colleague' | 'Personal' |
 export interface Interruption {
 	/** Unique identifier (UUID v4) */
 	interruptionId: string;
-	/** Reference to the task that was interrupted */
-	taskId: string;
+	/**
+	 * Reference to the task that was interrupted, null for an interruption
+	 * while no task was active, e.g. between tasks (037-task-less-interruptions)
+	 */
+	taskId: string | null;
 	/** When the interruption started (ISO 8601 string) */
 	startedAt: string;
 	/** When the interruption ended (ISO 8601 string), null if ongoing */
 	endedAt: string | null;
 	/** Duration in seconds (calculated on end), 0 if ongoing */
 	durationSec: number;
-	/** Optional category selected by user */
-	category: InterruptionCategory | null;
+	/** Optional category selected by user (InterruptionCategory.categoryId) */
+	category: string | null;
 	/** Optional note added by user (max 200 chars) */
 	note: string | null;
+	/**
+	 * When the interruption was logged after the fact (ISO string), missing
+	 * for interruptions tracked as they happened. Its time was counted on the
+	 * task, so it is taken off the task's focused time.
+	 * @new 036-past-interruptions
+	 */
+	loggedAt?: string;
+	/**
+	 * The interruption this one started in, missing for interruptions that
+	 * interrupted work. The outer interruption's durationSec leaves out the
+	 * time of the ones nested in it; while it is suspended, durationSec holds
+	 * its time so far.
+	 * @new 039-nested-interruptions
+	 */
+	parentInterruptionId?: string;
 }
 
 /**
@@ -595,15 +747,41 @@ export const STORAGE_KEY_INTERRUPTIONS = 'tm_interruptions';
 /** Maximum note length */
 export const MAX_INTERRUPTION_NOTE_LENGTH = 200;
 
-/** Interruption categories for UI iteration */
-export const INTERRUPTION_CATEGORIES: InterruptionCategory[] = [
-	'Phone',
-	'Luci',
-	'Colleague',
-	'Personal',
-	'Other'
+/**
+ * Categories a new user starts with
+ *
+ * @new 034-interruption-categories
+ */
+export const DEFAULT_INTERRUPTION_CATEGORIES: InterruptionCategory[] = [
+	{ categoryId: 'phone', name: 'Phone', color: '#3b82f6', defaultNote: '', archived: false },
+	{ categoryId: 'colleague', name: 'Colleague', color: '#10b981', defaultNote: '', archived: false },
+	{ categoryId: 'personal', name: 'Personal', color: '#f59e0b', defaultNote: '', archived: false },
+	{ categoryId: 'other', name: 'Other', color: '#6b7280', defaultNote: '', archived: false }
+];
+
+/**
+ * Colors offered for categories, also used in turn for new ones
+ *
+ * @new 034-interruption-categories
+ */
+export const CATEGORY_COLORS: string[] = [
+	'#3b82f6',
+	'#10b981',
+	'#f59e0b',
+	'#ef4444',
+	'#8b5cf6',
+	'#ec4899',
+	'#14b8a6',
+	'#6b7280'
 ];
 
+/**
+ * Maximum category name length
+ *
+ * @new 034-interruption-categories
+ */
+export const MAX_CATEGORY_NAME_LENGTH = 30;
+
 // =============================================================================
 // Note Capture Types (005-note-capture)
 // =============================================================================
@@ -674,10 +852,30 @@ export interface AnalyticsSummary {
 	totalInterruptionCount: number;
 	/** Total interruption time across all tasks (seconds) */
 	totalInterruptionSec: number;
+	/**
+	 * Interruptions while no task was active, included in the totals above
+	 * @new 037-task-less-interruptions
+	 */
+	noTaskInterruptionCount: number;
+	/**
+	 * Time of the interruptions while no task was active (seconds)
+	 * @new 037-task-less-interruptions
+	 */
+	noTaskInterruptionSec: number;
 	/** Number of ad-hoc tasks (created during session) - T042 (009-ad-hoc-tasks) */
 	adHocTaskCount: number;
 	/** Number of imported tasks (from schedule file) - T042 (009-ad-hoc-tasks) */
 	importedTaskCount: number;
+	/**
+	 * Time between tasks not attributed to anything (seconds)
+	 * @new 027-idle-time
+	 */
+	unallocatedSec: number;
+	/**
+	 * Break time between tasks and during Pomodoro breaks (seconds)
+	 * @new 027-idle-time
+	 */
+	breakSec: number;
 }
 
 /**
@@ -699,8 +897,23 @@ export interface TaskPerformance {
 	interruptionCount: number;
 	/** Total interruption time for this task (seconds) */
 	interruptionSec: number;
+	/**
+	 * Actual duration minus the interruptions logged after the fact (seconds)
+	 * @new 036-past-interruptions
+	 */
+	focusedSec: number;
 	/** Task completion status */
 	status: ProgressStatus;
+	/**
+	 * Number of separate stretches the task was worked in
+	 * @new 033-work-segments
+	 */
+	segmentCount: number;
+	/**
+	 * When work on the task first started (ISO string), null if never started
+	 * @new 033-work-segments
+	 */
+	firstStartedAt: string | null;
 }
 
 // =============================================================================
@@ -751,8 +964,18 @@ export interface TaskExportRow {
 	interruptionTime: string;
 	/** Status display string: Complete, In Progress, Pending, Missed */
 	status: string;
+	/** Why a Missed task was skipped, empty when not given (030-skip-task) */
+	skipReason: string;
 	/** Source of the task: Imported or Ad-hoc - T045 (009-ad-hoc-tasks) */
 	source: 'Imported' | 'Ad-hoc';
+	/** Project, empty when not set (018-task-metadata) */
+	project: string;
+	/** Tags joined with ", ", empty when not set (018-task-metadata) */
+	tags: string;
+	/** Priority display string: High, Medium, Low or empty (018-task-metadata) */
+	priority: string;
+	/** Task notes, empty when not set (018-task-metadata) */
+	notes: string;
 }
 
 /**
@@ -843,6 +1066,56 @@ export interface Settings {
 	 * @new 011-auto-start-time
 	 */
 	defaultScheduleStartTime: string;
+
+	/**
+	 * Remembered import column mappings, newest first.
+	 * Matched by file layout so the mapping step is skipped next time.
+	 *
+	 * @new 019-column-mapping
+	 */
+	columnMappings: SavedColumnMapping[];
+
+	/**
+	 * Whether Pomodoro mode splits work into focus intervals and breaks
+	 *
+	 * @new 026-pomodoro
+	 */
+	pomodoroEnabled: boolean;
+
+	/**
+	 * Focus interval length in minutes (5-120)
+	 *
+	 * @new 026-pomodoro
+	 */
+	pomodoroFocusMin: number;
+
+	/**
+	 * Short break length in minutes (1-30)
+	 *
+	 * @new 026-pomodoro
+	 */
+	pomodoroShortBreakMin: number;
+
+	/**
+	 * Long break length in minutes (1-60)
+	 *
+	 * @new 026-pomodoro
+	 */
+	pomodoroLongBreakMin: number;
+
+	/**
+	 * Every Nth break is a long break (1-12)
+	 *
+	 * @new 026-pomodoro
+	 */
+	pomodoroLongBreakEvery: number;
+
+	/**
+	 * Interruption categories, in display order
+	 *
+	 * @new 034-interruption-categories
+	 */
+	interruptionCategories: InterruptionCategory[];
 }
 
 /**
@@ -871,5 +1144,1289 @@ export const DEFAULT_SETTINGS: Settings = {
 	fixedTaskAlertMin: 10, // 10 minutes
 	soundEnabled: true,
 	vibrationEnabled: true,
-	defaultScheduleStartTime: '' // Empty = "Start Now" is default
+	defaultScheduleStartTime: '', // Empty = "Start Now" is default
+	columnMappings: [],
+	pomodoroEnabled: false,
+	pomodoroFocusMin: 25,
+	pomodoroShortBreakMin: 5,
+	pomodoroLongBreakMin: 15,
+	pomodoroLongBreakEvery: 4,
+	interruptionCategories: DEFAULT_INTERRUPTION_CATEGORIES
 };
+
+// =============================================================================
+// Session History Types (014-session-history)
+// =============================================================================
+
+/**
+ * A finished day preserved in the history archive.
+ * Created when the user starts a new day, keyed by the session's sessionId.
+ *
+ * @new 014-session-history
+ */
+export interface ArchivedDay {
+	/** Session identifier (from DaySession.sessionId) */
+	sessionId: string;
+	/** Local calendar date of the session (YYYY-MM-DD) */
+	date: string;
+	/** When the day was archived (ISO 8601 string) */
+	archivedAt: string;
+	/** Summary produced by sessionStore.endDay() */
+	summary: DaySummary;
+	/** Final session state, including task progress */
+	session: DaySession;
+	/** Confirmed tasks as they stood at the end of the day */
+	tasks: ConfirmedTask[];
+	/** All interruptions recorded during the session */
+	interruptions: Interruption[];
+	/** All notes captured during the session */
+	notes: Note[];
+	/**
+	 * Pomodoro breaks taken during the session (missing in older archives)
+	 * @new 026-pomodoro
+	 */
+	breaks?: FocusBreak[];
+	/**
+	 * Idle time between tasks (missing in older archives)
+	 * @new 027-idle-time
+	 */
+	idleGaps?: IdleGap[];
+}
+
+/**
+ * Index entry for an archived day.
+ * Lets the history list render without loading every day in full.
+ *
+ * @new 014-session-history
+ */
+export interface ArchivedDayEntry {
+	/** Session identifier (matches ArchivedDay.sessionId) */
+	sessionId: string;
+	/** Local calendar date of the session (YYYY-MM-DD) */
+	date: string;
+	/** When the day was archived (ISO 8601 string) */
+	archivedAt: string;
+	/** Summary produced by sessionStore.endDay() */
+	summary: DaySummary;
+	/** Number of tasks in the day's schedule */
+	taskCount: number;
+}
+
+// =============================================================================
+// Session History Constants (014-session-history)
+// =============================================================================
+
+/**
+ * localStorage key for the archived day index
+ *
+ * @new 014-session-history
+ */
+export const STORAGE_KEY_HISTORY = 'tm_history';
+
+/**
+ * localStorage key prefix for individual archived days (suffixed with sessionId)
+ *
+ * @new 014-session-history
+ */
+export const STORAGE_KEY_HISTORY_DAY_PREFIX = 'tm_history_';
+
+// =============================================================================
+// Storage Backend Types (015-indexeddb-storage)
+// =============================================================================
+
+/**
+ * Where persisted app data lives.
+ * - 'localStorage': synchronous, ~5 MB quota (default)
+ * - 'indexedDB': larger quota, written asynchronously behind an in-memory cache
+ *
+ * @new 015-indexeddb-storage
+ */
+export type StorageBackend = 'localStorage' | 'indexedDB';
+
+// =============================================================================
+// Storage Backend Constants (015-indexeddb-storage)
+// =============================================================================
+
+/**
+ * localStorage key for the selected storage backend.
+ * Always kept in localStorage so the backend can be chosen before hydration.
+ *
+ * @new 015-indexeddb-storage
+ */
+export const STORAGE_KEY_BACKEND = 'tm_storage_backend';
+
+/**
+ * localStorage key marking app data that was copied to IndexedDB.
+ * The localStorage copy is kept until a later start finds the data in
+ * IndexedDB, so a failed open can still fall back to it.
+ *
+ * @new 015-indexeddb-storage
+ */
+export const STORAGE_KEY_IDB_MIGRATED = 'tm_idb_migrated';
+
+/**
+ * localStorage key marking app data written to localStorage because
+ * IndexedDB could not be opened. The next successful open takes it over.
+ *
+ * @new 015-indexeddb-storage
+ */
+export const STORAGE_KEY_LOCAL_FALLBACK = 'tm_storage_fallback';
+
+/**
+ * Keys that stay in localStorage regardless of the selected backend
+ * (bootstrap and cross-tab coordination keys).
+ *
+ * @new 015-indexeddb-storage
+ */
+export const LOCAL_ONLY_STORAGE_KEYS: readonly string[] = [
+	STORAGE_KEY_TAB,
+	STORAGE_KEY_BACKEND,
+	STORAGE_KEY_IDB_MIGRATED,
+	STORAGE_KEY_LOCAL_FALLBACK
+];
+
+/**
+ * Prefix shared by every persisted app key
+ *
+ * @new 015-indexeddb-storage
+ */
+export const STORAGE_KEY_PREFIX = 'tm_';
+
+/**
+ * IndexedDB database name
+ *
+ * @new 015-indexeddb-storage
+ */
+export const IDB_DATABASE_NAME = 'micro-time-manager';
+
+/**
+ * IndexedDB object store holding key/value pairs
+ *
+ * @new 015-indexeddb-storage
+ */
+export const IDB_STORE_NAME = 'keyval';
+
+/**
+ * IndexedDB database version (object store layout, not the app schema version)
+ *
+ * @new 015-indexeddb-storage
+ */
+export const IDB_DATABASE_VERSION = 1;
+
+// =============================================================================
+// Backup Types (016-json-backup)
+// =============================================================================
+
+/**
+ * Confirmed task as written to storage and backups (dates as ISO strings)
+ *
+ * @new 016-json-backup
+ */
+export interface BackupTask extends Omit<ConfirmedTask, 'plannedStart'> {
+	/** Planned start time (ISO 8601 string) */
+	plannedStart: string;
+}
+
+/**
+ * Stored app data captured in a backup.
+ * Shapes follow the backup's schemaVersion; older backups are migrated
+ * on restore with the same migrateV* chain as localStorage.
+ *
+ * @new 016-json-backup
+ */
+export interface BackupData {
+	/** Confirmed tasks */
+	tasks: BackupTask[];
+	/** Current day session, null if none */
+	session: DaySession | null;
+	/** Interruption state, null if none */
+	interruptions: PersistedInterruptionState | null;
+	/** Notes */
+	notes: Note[];
+	/** Settings, null if never saved */
+	settings: SettingsStorage | null;
+	/** Archived days (014-session-history) */
+	history: {
+		/** Archive index, newest first */
+		index: ArchivedDayEntry[];
+		/** Stored archived days keyed by sessionId */
+		days: Record<string, unknown>;
+	};
+	/**
+	 * Saved schedule templates (missing in older backups)
+	 * @new 023-schedule-templates
+	 */
+	templates?: ScheduleTemplate[];
+	/**
+	 * Pomodoro state, null if none (missing in older backups)
+	 * @new 026-pomodoro
+	 */
+	pomodoro?: PersistedPomodoroState | null;
+	/**
+	 * Idle time between tasks (missing in older backups)
+	 * @new 027-idle-time
+	 */
+	idle?: IdleGap[];
+	/**
+	 * Tasks waiting to be carried to a later day (missing in older backups)
+	 * @new 029-carry-over
+	 */
+	carryOver?: CarriedTask[];
+	/**
+	 * Audit log of the current session (missing in older backups)
+	 * @new 032-audit-log
+	 */
+	audit?: AuditEvent[];
+}
+
+/**
+ * Versioned JSON backup of all app data
+ *
+ * @new 016-json-backup
+ */
+export interface BackupFile {
+	/** Format marker to recognise backup files */
+	format: typeof BACKUP_FORMAT;
+	/** Storage schema version the data was written with */
+	schemaVersion: number;
+	/** When the backup was created (ISO 8601 string) */
+	exportedAt: string;
+	/** Stored app data */
+	data: BackupData;
+}
+
+/**
+ * Result of parsing a backup file
+ *
+ * @new 016-json-backup
+ */
+export type BackupParseResult =
+	| { success: true; backup: BackupFile }
+	| { success: false; error: string };
+
+// =============================================================================
+// Backup Constants (016-json-backup)
+// =============================================================================
+
+/**
+ * Format marker written to every backup file
+ *
+ * @new 016-json-backup
+ */
+export const BACKUP_FORMAT = 'micro-time-manager-backup';
+
+// =============================================================================
+// Export Re-import Types (017-export-reimport)
+// =============================================================================
+
+/**
+ * Options for parsing a schedule file
+ *
+ * @new 017-export-reimport
+ */
+export interface ScheduleParseOptions {
+	/**
+	 * When the file is one of the app's own exports, skip tasks whose
+	 * Status is "Complete" so only unfinished work carries over.
+	 * Ignored for regular schedule templates.
+	 */
+	unfinishedOnly?: boolean;
+	/**
+	 * Worksheet to read instead of the auto-detected one
+	 * @new 019-column-mapping
+	 */
+	sheetName?: string;
+	/**
+	 * File headers to read each field from. When set, it replaces
+	 * header-name matching entirely (unmapped fields are treated as absent).
+	 * @new 019-column-mapping
+	 */
+	columnMapping?: ColumnMapping;
+	/**
+	 * Day whose events are imported from an .ics file (defaults to today)
+	 * @new 021-ics-import
+	 */
+	calendarDate?: Date;
+}
+
+// =============================================================================
+// Export Re-import Constants (017-export-reimport)
+// =============================================================================
+
+/**
+ * Sheet name of the task list in exported workbooks
+ *
+ * @new 017-export-reimport
+ */
+export const EXPORT_TASKS_SHEET_NAME = 'Tasks';
+
+/**
+ * Export column names that stand in for REQUIRED_COLUMNS when
+ * re-importing an exported workbook or tasks CSV
+ *
+ * @new 017-export-reimport
+ */
+export const EXPORT_COLUMN_ALIASES: Partial<Record<(typeof REQUIRED_COLUMNS)[number], string>> = {
+	'Start Time': 'Planned Start',
+	Duration: 'Planned Duration'
+};
+
+/**
+ * Status column in exported task lists
+ *
+ * @new 017-export-reimport
+ */
+export const EXPORT_STATUS_COLUMN = 'Status';
+
+// =============================================================================
+// Task Metadata Constants (018-task-metadata)
+// =============================================================================
+
+/**
+ * Optional schedule columns read alongside REQUIRED_COLUMNS
+ * (case-insensitive matching, order irrelevant)
+ *
+ * @new 018-task-metadata
+ */
+export const OPTIONAL_COLUMNS = ['Project', 'Tags', 'Priority', 'Notes'] as const;
+
+/**
+ * Accepted priority values, highest first
+ *
+ * @new 018-task-metadata
+ */
+export const TASK_PRIORITIES: readonly TaskPriority[] = ['high', 'medium', 'low'];
+
+/**
+ * Maximum project name length
+ *
+ * @new 018-task-metadata
+ */
+export const MAX_PROJECT_LENGTH = 100;
+
+/**
+ * Maximum length of a single tag
+ *
+ * @new 018-task-metadata
+ */
+export const MAX_TAG_LENGTH = 50;
+
+/**
+ * Maximum number of tags per task
+ *
+ * @new 018-task-metadata
+ */
+export const MAX_TAGS_PER_TASK = 10;
+
+/**
+ * Maximum task notes length
+ *
+ * @new 018-task-metadata
+ */
+export const MAX_TASK_NOTES_LENGTH = 500;
+
+// =============================================================================
+// Column Mapping Types (019-column-mapping)
+// =============================================================================
+
+/**
+ * A schedule field that can be read from a file column
+ *
+ * @new 019-column-mapping
+ */
+export type ScheduleField = (typeof REQUIRED_COLUMNS)[number] | (typeof OPTIONAL_COLUMNS)[number];
+
+/**
+ * Which file header each field is read from.
+ * Missing fields are not read.
+ *
+ * @new 019-column-mapping
+ */
+export type ColumnMapping = Partial<Record<ScheduleField, string>>;
+
+/**
+ * A worksheet found in an uploaded file
+ *
+ * @new 019-column-mapping
+ */
+export interface SheetInfo {
+	/** Sheet name ("Sheet1" for CSV files) */
+	name: string;
+	/** Header row */
+	headers: string[];
+	/** First data row, for showing example values */
+	sampleRow: string[];
+}
+
+/**
+ * Result of inspecting a file before parsing
+ *
+ * @new 019-column-mapping
+ */
+export type InspectResult =
+	| { success: true; sheets: SheetInfo[]; defaultSheet: string }
+	| { success: false; errors: ValidationError[] };
+
+/**
+ * Sheet and column choices for the file being imported
+ *
+ * @new 019-column-mapping
+ */
+export interface ImportMapping {
+	/** All sheets in the file */
+	sheets: SheetInfo[];
+	/** Selected sheet */
+	sheetName: string;
+	/** Selected columns */
+	columnMapping: ColumnMapping;
+	/** Options the upload was started with (e.g. unfinishedOnly) */
+	options: ScheduleParseOptions;
+}
+
+/**
+ * A column mapping remembered for a file layout
+ *
+ * @new 019-column-mapping
+ */
+export interface SavedColumnMapping {
+	/** Normalized header row the mapping applies to */
+	layoutKey: string;
+	/** Sheet the headers were found on */
+	sheetName: string;
+	/** Chosen columns */
+	columnMapping: ColumnMapping;
+}
+
+// =============================================================================
+// Column Mapping Constants (019-column-mapping)
+// =============================================================================
+
+/**
+ * Header names recognised for each field (case-insensitive), best match first
+ *
+ * @new 019-column-mapping
+ */
+export const HEADER_SYNONYMS: Record<ScheduleField, readonly string[]> = {
+	'Task Name': ['task name', 'task', 'name', 'activity', 'title', 'item', 'description'],
+	'Start Time': ['start time', 'planned start', 'start', 'begin', 'begins', 'time', 'from', 'when'],
+	Duration: ['duration', 'planned duration', 'length', 'minutes', 'mins', 'estimate', 'time needed'],
+	Type: ['type', 'kind', 'fixed/flexible', 'schedule type', 'mode'],
+	Project: ['project', 'client', 'workstream'],
+	Tags: ['tags', 'tag', 'labels', 'label', 'categories'],
+	Priority: ['priority', 'importance', 'prio'],
+	Notes: ['notes', 'note', 'comments', 'comment', 'details']
+};
+
+/**
+ * Maximum number of remembered column mappings
+ *
+ * @new 019-column-mapping
+ */
+export const MAX_SAVED_COLUMN_MAPPINGS = 20;
+
+// =============================================================================
+// Schedule Template Types (023-schedule-templates)
+// =============================================================================
+
+/**
+ * Task saved in a schedule template.
+ * Only the time of day of startTime is used when the template is loaded.
+ *
+ * @new 023-schedule-templates
+ */
+export interface TemplateTask {
+	name: string;
+	/** ISO 8601 string */
+	startTime: string;
+	durationSeconds: number;
+	type: TaskType;
+	project?: string;
+	tags?: string[];
+	priority?: TaskPriority;
+	notes?: string;
+}
+
+/**
+ * Named schedule that can be preloaded on the weekdays it applies to
+ *
+ * @new 023-schedule-templates
+ */
+export interface ScheduleTemplate {
+	/** UUID v4 */
+	templateId: string;
+	/** Display name, e.g. "Mon/Wed/Fri plan" */
+	name: string;
+	/** Weekdays to preload the template on (0 = Sunday … 6 = Saturday); empty = never */
+	weekdays: number[];
+	/** Tasks in schedule order */
+	tasks: TemplateTask[];
+	/** ISO 8601 string */
+	createdAt: string;
+	/** ISO 8601 string */
+	updatedAt: string;
+}
+
+// =============================================================================
+// Schedule Template Constants (023-schedule-templates)
+// =============================================================================
+
+/**
+ * localStorage key for saved schedule templates
+ *
+ * @new 023-schedule-templates
+ */
+export const STORAGE_KEY_TEMPLATES = 'tm_templates';
+
+/**
+ * Maximum number of saved schedule templates
+ *
+ * @new 023-schedule-templates
+ */
+export const MAX_SCHEDULE_TEMPLATES = 20;
+
+/**
+ * Maximum length of a template name
+ *
+ * @new 023-schedule-templates
+ */
+export const MAX_TEMPLATE_NAME_LENGTH = 60;
+
+/**
+ * Short weekday labels, indexed like Date.getDay()
+ *
+ * @new 023-schedule-templates
+ */
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+// =============================================================================
+// Cross-Day Trend Types (024-cross-day-trends)
+// =============================================================================
+
+/**
+ * Granularity of a trend point
+ *
+ * @new 024-cross-day-trends
+ */
+export type TrendPeriod = 'day' | 'week' | 'month';
+
+/**
+ * Interruption category as reported in trends: a category ID
+ * (034-interruption-categories), or 'Uncategorized' for interruptions
+ * without a category.
+ *
+ * @new 024-cross-day-trends
+ */
+export type TrendCategory = string;
+
+/**
+ * Metrics aggregated over the archived days in one period.
+ * Periods without archived days are kept (dayCount 0) so gaps show up
+ * in the trend and rolling averages span calendar time.
+ *
+ * @new 024-cross-day-trends
+ */
+export interface TrendPoint {
+	/** First day of the period (YYYY-MM-DD); weeks start on Monday */
+	periodStart: string;
+	/** Number of archived sessions in the period */
+	dayCount: number;
+	/** Concentration score (0-100), or null if no task was completed */
+	concentrationScore: number | null;
+	/** Schedule adherence percentage, or null if no task was completed */
+	scheduleAdherence: number | null;
+	/** Total interruption time (seconds) */
+	totalInterruptionSec: number;
+	/** Interruption time per category (seconds) */
+	interruptionSecByCategory: Record<TrendCategory, number>;
+	/** Number of ad-hoc tasks */
+	adHocTaskCount: number;
+	/** Number of imported tasks */
+	importedTaskCount: number;
+}
+
+/**
+ * Trends across a date range of archived days.
+ *
+ * @new 024-cross-day-trends
+ */
+export interface TrendsSummary {
+	/** Granularity of points */
+	period: TrendPeriod;
+	/** One point per period in the range, oldest first */
+	points: TrendPoint[];
+	/** Rolling average of concentrationScore, aligned with points */
+	rollingConcentration: (number | null)[];
+	/** Rolling average of scheduleAdherence, aligned with points */
+	rollingAdherence: (number | null)[];
+	/** Number of archived sessions in the range */
+	dayCount: number;
+	/** Interruption time per category across the range (seconds) */
+	interruptionSecByCategory: Record<TrendCategory, number>;
+	/** Ad-hoc tasks across the range */
+	adHocTaskCount: number;
+	/** Imported tasks across the range */
+	importedTaskCount: number;
+	/** Share of ad-hoc tasks (0-100), or null if there were no tasks */
+	adHocPercentage: number | null;
+}
+
+// =============================================================================
+// Cross-Day Trend Constants (024-cross-day-trends)
+// =============================================================================
+
+/**
+ * Number of points in each rolling average, per granularity
+ * (7 days, 4 weeks, 3 months)
+ *
+ * @new 024-cross-day-trends
+ */
+export const TREND_ROLLING_WINDOW: Record<TrendPeriod, number> = {
+	day: 7,
+	week: 4,
+	month: 3
+};
+
+/**
+ * Trend key for interruptions without a category
+ *
+ * @new 024-cross-day-trends
+ */
+export const TREND_UNCATEGORIZED: TrendCategory = 'Uncategorized';
+
+// =============================================================================
+// Estimate Learning Types (025-estimate-learning)
+// =============================================================================
+
+/**
+ * Planned vs actual duration of one completed task
+ *
+ * @new 025-estimate-learning
+ */
+export interface EstimateSample {
+	plannedSec: number;
+	actualSec: number;
+}
+
+/**
+ * Past samples keyed by normalized task name, project or tag
+ * ("name:weekly report", "project:acme", "tag:email"), oldest first.
+ *
+ * @new 025-estimate-learning
+ */
+export type EstimateModel = Record<string, EstimateSample[]>;
+
+/**
+ * Statistics over the samples for one key
+ *
+ * @new 025-estimate-learning
+ */
+export interface EstimateStats {
+	/** Number of samples */
+	sampleCount: number;
+	/** Median actual duration (seconds) */
+	medianActualSec: number;
+	/** Median overrun of actual vs planned, in percent (negative = finished early) */
+	medianOverrunPercent: number;
+	/** Overrun at ESTIMATE_PERCENTILE, in percent */
+	percentileOverrunPercent: number;
+}
+
+/**
+ * Suggested duration for a task, based on past actuals
+ *
+ * @new 025-estimate-learning
+ */
+export interface DurationSuggestion {
+	/** What the suggestion is based on: the task name, its project or one of its tags */
+	basis: 'name' | 'project' | 'tag';
+	/** Task name, project or tag the samples were matched on */
+	label: string;
+	/** Suggested planned duration (seconds, whole minutes) */
+	suggestedSec: number;
+	stats: EstimateStats;
+}
+
+// =============================================================================
+// Estimate Learning Constants (025-estimate-learning)
+// =============================================================================
+
+/**
+ * localStorage key for the estimate model
+ *
+ * @new 025-estimate-learning
+ */
+export const STORAGE_KEY_ESTIMATES = 'tm_estimates';
+
+/**
+ * Samples kept per key; older samples are dropped
+ *
+ * @new 025-estimate-learning
+ */
+export const MAX_ESTIMATE_SAMPLES = 20;
+
+/**
+ * Samples needed before a key is used for suggestions
+ *
+ * @new 025-estimate-learning
+ */
+export const MIN_ESTIMATE_SAMPLES = 2;
+
+/**
+ * Percentile reported alongside the median overrun
+ *
+ * @new 025-estimate-learning
+ */
+export const ESTIMATE_PERCENTILE = 90;
+
+// =============================================================================
+// Pomodoro Types (026-pomodoro)
+// =============================================================================
+
+/**
+ * Length of a Pomodoro break
+ *
+ * @new 026-pomodoro
+ */
+export type BreakKind = 'short' | 'long';
+
+/**
+ * A break taken after a focus interval.
+ * Kept apart from interruptions: breaks are planned rest, so they never
+ * count against the concentration score.
+ *
+ * @new 026-pomodoro
+ */
+export interface FocusBreak {
+	/** Unique identifier (UUID v4) */
+	breakId: string;
+	/** Task that was running when the break started, null if between tasks */
+	taskId: string | null;
+	kind: BreakKind;
+	/** When the break started (ISO 8601 string) */
+	startedAt: string;
+	/** When the break ended (ISO 8601 string), null if ongoing */
+	endedAt: string | null;
+	/** Duration in seconds (calculated on end), 0 if ongoing */
+	durationSec: number;
+	/** Break length from settings when the break started (seconds) */
+	plannedDurationSec: number;
+}
+
+/**
+ * Shape for persisting Pomodoro state.
+ * Includes pausedTaskElapsedMs to restore the task timer after a break.
+ *
+ * @new 026-pomodoro
+ */
+export interface PersistedPomodoroState {
+	/** All breaks (completed and active) */
+	breaks: FocusBreak[];
+	/** Focus time into the current interval (ms) */
+	focusElapsedMs: number;
+	/** Focus intervals finished this session (decides when a long break is due) */
+	completedFocusCount: number;
+	/** Elapsed ms on task timer when the break started, null if no task was running */
+	pausedTaskElapsedMs: number | null;
+}
+
+/**
+ * Pomodoro settings and progress used to project break time
+ *
+ * @new 026-pomodoro
+ */
+export interface BreakPlan {
+	/** Focus interval length (seconds) */
+	focusSec: number;
+	/** Short break length (seconds) */
+	shortBreakSec: number;
+	/** Long break length (seconds) */
+	longBreakSec: number;
+	/** Every Nth break is a long break */
+	longBreakEvery: number;
+	/** Focus time already spent in the current interval (seconds) */
+	focusElapsedSec: number;
+	/** Focus intervals finished so far */
+	completedFocusCount: number;
+	/** Time left on the active break (seconds), 0 if not on a break */
+	breakRemainingSec: number;
+}
+
+// =============================================================================
+// Pomodoro Constants (026-pomodoro)
+// =============================================================================
+
+/**
+ * localStorage key for Pomodoro state
+ *
+ * @new 026-pomodoro
+ */
+export const STORAGE_KEY_POMODORO = 'tm_pomodoro';
+
+// =============================================================================
+// Idle Time Types (027-idle-time)
+// =============================================================================
+
+/**
+ * How time between tasks is attributed
+ *
+ * @new 027-idle-time
+ */
+export type GapKind = 'unallocated' | 'break';
+
+/**
+ * Time between finishing one task and starting the next.
+ * Starts as unallocated; the user can mark it as a break.
+ *
+ * @new 027-idle-time
+ */
+export interface IdleGap {
+	/** Unique identifier (UUID v4) */
+	gapId: string;
+	/** Task completed just before the gap, null if none */
+	afterTaskId: string | null;
+	kind: GapKind;
+	/** When the gap started (ISO 8601 string) */
+	startedAt: string;
+	/** When the gap ended (ISO 8601 string), null if ongoing */
+	endedAt: string | null;
+	/** Duration in seconds (calculated on end), 0 if ongoing */
+	durationSec: number;
+}
+
+/**
+ * Time outside tasks, split by attribution
+ *
+ * @new 027-idle-time
+ */
+export interface IdleTimeTotals {
+	/** Gap time not attributed to anything (seconds) */
+	unallocatedSec: number;
+	/** Gap time marked as break plus Pomodoro breaks taken during tasks (seconds) */
+	breakSec: number;
+}
+
+// =============================================================================
+// Idle Time Constants (027-idle-time)
+// =============================================================================
+
+/**
+ * localStorage key for idle gaps
+ *
+ * @new 027-idle-time
+ */
+export const STORAGE_KEY_IDLE = 'tm_idle';
+
+// =============================================================================
+// Session Pause Types (028-session-pause)
+// =============================================================================
+
+/**
+ * A pause of the whole day (lunch, stopping for the evening).
+ * Paused time stops the task timer, so it never counts towards task
+ * elapsed time, lag or concentration.
+ *
+ * @new 028-session-pause
+ */
+export interface SessionPause {
+	/** Unique identifier (UUID v4) */
+	pauseId: string;
+	/** Why the day was paused */
+	reason: string;
+	/** Task that was running when the pause started, null if between tasks */
+	taskId: string | null;
+	/** When the pause started (ISO 8601 string) */
+	startedAt: string;
+	/** When the pause ended (ISO 8601 string), null if ongoing */
+	endedAt: string | null;
+	/** Duration in seconds (calculated on resume), 0 if ongoing */
+	durationSec: number;
+}
+
+// =============================================================================
+// Session Pause Constants (028-session-pause)
+// =============================================================================
+
+/**
+ * Reasons offered when pausing the day
+ *
+ * @new 028-session-pause
+ */
+export const PAUSE_REASONS: readonly string[] = ['Lunch', 'Personal', 'End of day'];
+
+/**
+ * Maximum length of a pause reason
+ *
+ * @new 028-session-pause
+ */
+export const MAX_PAUSE_REASON_LENGTH = 100;
+
+// =============================================================================
+// Carry-Over Types (029-carry-over)
+// =============================================================================
+
+/**
+ * What to do with an unfinished task at the end of the day
+ *
+ * @new 029-carry-over
+ */
+export type CarryOverAction = 'carry' | 'drop' | 'defer';
+
+/**
+ * Unfinished or missed task listed in the end-of-day review
+ *
+ * @new 029-carry-over
+ */
+export interface CarryOverCandidate {
+	taskId: string;
+	name: string;
+	status: ProgressStatus;
+	/** Planned minus actual duration (seconds) */
+	remainingSec: number;
+}
+
+/**
+ * Choice made for a task in the end-of-day review
+ *
+ * @new 029-carry-over
+ */
+export interface CarryOverDecision {
+	taskId: string;
+	action: CarryOverAction;
+	/** Day to add the task to (YYYY-MM-DD); ignored when dropped */
+	targetDate: string;
+}
+
+/**
+ * Task waiting to be added to the schedule of a later day.
+ * Only the time of day of startTime is used, like template tasks.
+ *
+ * @new 029-carry-over
+ */
+export interface CarriedTask extends TemplateTask {
+	/** Unique identifier (UUID v4), reused as the draft task ID */
+	carryId: string;
+	/** Day the task was left unfinished (YYYY-MM-DD) */
+	originDate: string;
+	/** First day to add the task to (YYYY-MM-DD) */
+	targetDate: string;
+}
+
+// =============================================================================
+// Carry-Over Constants (029-carry-over)
+// =============================================================================
+
+/**
+ * localStorage key for tasks waiting to be carried over
+ *
+ * @new 029-carry-over
+ */
+export const STORAGE_KEY_CARRY_OVER = 'tm_carry_over';
+
+/**
+ * Shortest duration given to a carried task, for tasks that overran their plan
+ *
+ * @new 029-carry-over
+ */
+export const MIN_CARRIED_DURATION_SEC = 5 * 60;
+
+// =============================================================================
+// Skip Task Constants (030-skip-task)
+// =============================================================================
+
+/**
+ * Maximum length of a skip reason
+ *
+ * @new 030-skip-task
+ */
+export const MAX_SKIP_REASON_LENGTH = 200;
+
+/**
+ * Reason recorded when a fixed task is missed because its time has passed
+ *
+ * @new 030-skip-task
+ */
+export const AUTO_MISSED_REASON = 'Scheduled time passed';
+
+// =============================================================================
+// Undo Types (031-undo-redo)
+// =============================================================================
+
+/**
+ * State of the running day before or after an undoable action.
+ * Restoring it puts the session, tasks, interruptions, notes, gaps,
+ * Pomodoro breaks and task timer back as they were.
+ *
+ * @new 031-undo-redo
+ */
+export interface UndoSnapshot {
+	/** When the snapshot was taken (epoch ms) */
+	capturedAt: number;
+	session: DaySession;
+	tasks: ConfirmedTask[];
+	interruptions: Interruption[];
+	notes: Note[];
+	idleGaps: IdleGap[];
+	/** Elapsed time on the current task (milliseconds) */
+	timerElapsedMs: number;
+	/** Whether the task timer was counting; a running timer keeps counting after restore */
+	timerRunning: boolean;
+	/** Breaks (an active one too) and focus progress (026-pomodoro); absent in older snapshots */
+	pomodoro?: PersistedPomodoroState;
+}
+
+/**
+ * Undoable action with the state to go back to
+ *
+ * @new 031-undo-redo
+ */
+export interface UndoEntry {
+	/** Short description shown to the user, e.g. "complete task" */
+	label: string;
+	snapshot: UndoSnapshot;
+}
+
+/**
+ * Undo and redo stacks of a session (most recent last)
+ *
+ * @new 031-undo-redo
+ */
+export interface UndoHistory {
+	/** Session the entries belong to; history of other sessions is ignored */
+	sessionId: string;
+	undo: UndoEntry[];
+	redo: UndoEntry[];
+}
+
+// =============================================================================
+// Undo Constants (031-undo-redo)
+// =============================================================================
+
+/**
+ * localStorage key for the undo history of the running session
+ *
+ * @new 031-undo-redo
+ */
+export const STORAGE_KEY_UNDO = 'tm_undo';
+
+/**
+ * Most entries kept on each of the undo and redo stacks
+ *
+ * @new 031-undo-redo
+ */
+export const MAX_UNDO_ENTRIES = 20;
+
+// =============================================================================
+// Audit Log Types (032-audit-log)
+// =============================================================================
+
+/**
+ * Kind of state transition recorded in the audit log
+ *
+ * @new 032-audit-log
+ */
+export type AuditEventType =
+	| 'day-started'
+	| 'task-started'
+	| 'task-jumped'
+	| 'task-completed'
+	| 'task-uncompleted'
+	| 'task-skipped'
+	| 'task-reordered'
+	| 'task-edited'
+	| 'elapsed-edited'
+	| 'interruption-started'
+	| 'interruption-ended'
+	| 'interruption-logged'
+	| 'interruption-converted'
+	| 'session-paused'
+	| 'session-resumed'
+	| 'recovery-applied'
+	| 'leadership-changed'
+	| 'undo'
+	| 'redo'
+	| 'day-ended';
+
+/**
+ * Values recorded with an audit event, e.g. the actual duration of a
+ * completed task or the time away for a recovery
+ *
+ * @new 032-audit-log
+ */
+export type AuditEventDetails = Record<string, string | number | boolean | null>;
+
+/**
+ * Entry of the append-only audit log of a session
+ *
+ * @new 032-audit-log
+ */
+export interface AuditEvent {
+	/** Unique identifier (UUID v4) */
+	eventId: string;
+	type: AuditEventType;
+	/** When the event happened (ISO 8601) */
+	at: string;
+	/** Task the event is about, null if none */
+	taskId: string | null;
+	/** Session lag right after the event (seconds, negative = ahead) */
+	lagSec: number;
+	details: AuditEventDetails;
+}
+
+/**
+ * Audit log row for export
+ *
+ * @new 032-audit-log
+ */
+export interface AuditExportRow {
+	/** Event time in HH:MM:SS format */
+	time: string;
+	/** Event name, e.g. "Task completed" */
+	event: string;
+	/** Task name or empty if none */
+	task: string;
+	/** Description of the recorded values */
+	details: string;
+	/** Session lag after the event in +/-HH:MM:SS format */
+	lag: string;
+}
+
+// =============================================================================
+// Audit Log Constants (032-audit-log)
+// =============================================================================
+
+/**
+ * localStorage key for the audit log of the current session
+ *
+ * @new 032-audit-log
+ */
+export const STORAGE_KEY_AUDIT = 'tm_audit';
+
+// =============================================================================
+// Work Segment Types (033-work-segments)
+// =============================================================================
+
+/**
+ * One uninterrupted stretch of work on a task, from when it became active
+ * until it was completed, skipped or switched away from.
+ *
+ * @new 033-work-segments
+ */
+export interface WorkSegment {
+	/** When the task became active (ISO string) */
+	startedAt: string;
+	/** When work on the task stopped (ISO string), null while still active */
+	endedAt: string | null;
+	/** Time counted on the task during the segment (seconds) */
+	elapsedSec: number;
+}
+
+// =============================================================================
+// Interruption Category Types (034-interruption-categories)
+// =============================================================================
+
+/**
+ * Number and time of interruptions in one category
+ *
+ * @new 034-interruption-categories
+ */
+export interface CategoryTotal {
+	/** Category ID, null for interruptions without a category */
+	categoryId: string | null;
+	/** Display name */
+	name: string;
+	/** Display color (#rrggbb) */
+	color: string;
+	/** Number of interruptions */
+	count: number;
+	/** Total interruption time (seconds) */
+	totalSec: number;
+}
+
+// =============================================================================
+// Interruption Analysis Types (035-interruption-analysis)
+// =============================================================================
+
+/**
+ * Interruptions of one category with their median length
+ *
+ * @new 035-interruption-analysis
+ */
+export interface CategoryBreakdown extends CategoryTotal {
+	/** Median interruption length (seconds) */
+	medianSec: number;
+}
+
+/**
+ * Interruptions that started within one hour of the day
+ *
+ * @new 035-interruption-analysis
+ */
+export interface HourlyInterruptions {
+	/** Hour of the day in local time (0-23) */
+	hour: number;
+	/** Number of interruptions that started in this hour */
+	count: number;
+	/** Total time of these interruptions (seconds) */
+	totalSec: number;
+}
+
+/**
+ * Longest stretch of work without an interruption
+ *
+ * @new 035-interruption-analysis
+ */
+export interface UninterruptedStreak {
+	/** When the stretch started (ISO string) */
+	startedAt: string;
+	/** When the stretch ended (ISO string) */
+	endedAt: string;
+	/** Length of the stretch (seconds) */
+	durationSec: number;
+}
+
+/**
+ * Time it took to get back to the interrupted work after an interruption
+ *
+ * @new 035-interruption-analysis
+ */
+export interface ResumeCost {
+	/** Reference to Interruption.interruptionId */
+	interruptionId: string;
+	/** Task that was interrupted, null if no task was active */
+	taskId: string | null;
+	/**
+	 * Seconds from the end of the interruption until the task was worked on
+	 * again (any task, for an interruption between tasks), 0 if work went on
+	 * right away, null if that has not happened yet
+	 */
+	resumeCostSec: number | null;
+}
+
+/**
+ * What interruptions cost a single task
+ *
+ * @new 035-interruption-analysis
+ */
+export interface TaskInterruptionCost {
+	/** Task identifier (from ConfirmedTask) */
+	taskId: string;
+	/** Task name for display */
+	taskName: string;
+	/** Number of interruptions during this task */
+	interruptionCount: number;
+	/** Total interruption time (seconds) */
+	interruptionSec: number;
+	/** Total resume cost of the interruptions that have one (seconds) */
+	resumeCostSec: number;
+}
+
+// =============================================================================
+// Task-less Interruption Constants (037-task-less-interruptions)
+// =============================================================================
+
+/**
+ * Shown in place of the task name for interruptions while no task was active
+ *
+ * @new 037-task-less-interruptions
+ */
+export const NO_TASK_LABEL = '(no task)';
@@ -0,0 +1,95 @@
+/**
+ * Task Metadata Utility
+ *
+ * Feature: 018-task-metadata
+ *
+ * Parses and formats the optional Project/Tags/Priority/Notes fields:
+ * - Tags: "client, urgent; review" → ['client', 'urgent', 'review']
+ * - Priority: "High", "h", "1" → 'high'
+ */
+
+import { TASK_PRIORITIES } from '$lib/types';
+import type { TaskPriority } from '$lib/types';
+
+// Separators accepted between tags
+const TAG_SEPARATOR_PATTERN = /[,;]/;
+
+// Short forms accepted for priority values
+const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+	h: 'high',
+	'1': 'high',
+	m: 'medium',
+	med: 'medium',
+	'2': 'medium',
+	l: 'low',
+	'3': 'low'
+};
+
+/**
+ * Split a tags cell into a list of tags.
+ * Empty entries are dropped and duplicates (case-insensitive) removed.
+ *
+ * @param input - Comma or semicolon separated tags
+ * @returns List of trimmed tags (empty if none)
+ */
+export function parseTags(input: string): string[] {
+	if (!input || typeof input !== 'string') {
+		return [];
+	}
+
+	const seen = new Set<string>();
+	const tags: string[] = [];
+
+	for (const part of input.split(TAG_SEPARATOR_PATTERN)) {
+		const tag = part.trim();
+		const key = tag.toLowerCase();
+		if (tag && !seen.has(key)) {
+			seen.add(key);
+			tags.push(tag);
+		}
+	}
+
+	return tags;
+}
+
+/**
+ * Join tags back into a single editable/exportable string
+ *
+ * @param tags - List of tags
+ * @returns Tags joined with ", " (empty string if none)
+ */
+export function formatTags(tags: string[] | undefined): string {
+	return tags?.join(', ') ?? '';
+}
+
+/**
+ * Parse a priority cell (case-insensitive)
+ *
+ * @param input - "high", "medium", "low" or a short form (h/m/l, 1/2/3)
+ * @returns Priority or null if not recognised
+ */
+export function parsePriority(input: string): TaskPriority | null {
+	if (!input || typeof input !== 'string') {
+		return null;
+	}
+
+	const normalized = input.trim().toLowerCase();
+	if ((TASK_PRIORITIES as readonly string[]).includes(normalized)) {
+		return normalized as TaskPriority;
+	}
+
+	return PRIORITY_ALIASES[normalized] ?? null;
+}
+
+/**
+ * Format a priority for display
+ *
+ * @param priority - Task priority
+ * @returns "High", "Medium", "Low" or empty string if not set
+ */
+export function formatPriority(priority: TaskPriority | undefined): string {
+	if (!priority) {
+		return '';
+	}
+	return priority.charAt(0).toUpperCase() + priority.slice(1);
+}
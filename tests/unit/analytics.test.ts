@@ -11,9 +11,21 @@ import { describe, it, expect } from 'vitest';
 import {
 	getConcentrationRating,
 	calculateAnalyticsSummary,
-	calculateTaskPerformance
+	calculateTaskPerformance,
+	calculateCategoryBreakdown,
+	calculateHourlyInterruptions,
+	findLongestUninterruptedStreak,
+	calculateResumeCosts,
+	calculateInterruptionCostByTask
 } from '$lib/services/analytics';
-import type { TaskProgress, Interruption, ConfirmedTask } from '$lib/types';
+import type {
+	TaskProgress,
+	Interruption,
+	ConfirmedTask,
+	SessionPause,
+	FocusBreak
+} from '$lib/types';
+import { DEFAULT_INTERRUPTION_CATEGORIES } from '$lib/types';
 
 // =============================================================================
 // T006: getConcentrationRating tests
@@ -188,6 +200,80 @@ describe('calculateAnalyticsSummary', () => {
 		expect(summary.concentrationRating).toBe('Excellent');
 	});
 
+	it('counts interruptions with no task without lowering concentration', () => {
+		const taskProgress: TaskProgress[] = [
+			{
+				taskId: '1',
+				plannedDurationSec: 1800,
+				actualDurationSec: 1800,
+				completedAt: '2025-01-01T10:00:00Z',
+				status: 'complete'
+			}
+		];
+
+		const interruptions: Interruption[] = [
+			{
+				interruptionId: 'i1',
+				taskId: '1',
+				startedAt: '2025-01-01T09:30:00Z',
+				endedAt: '2025-01-01T09:33:00Z',
+				durationSec: 180,
+				category: null,
+				note: null
+			},
+			{
+				interruptionId: 'i2',
+				taskId: null,
+				startedAt: '2025-01-01T10:05:00Z',
+				endedAt: '2025-01-01T10:15:00Z',
+				durationSec: 600,
+				category: null,
+				note: null
+			}
+		];
+
+		const summary = calculateAnalyticsSummary(taskProgress, interruptions);
+
+		expect(summary.totalInterruptionCount).toBe(2);
+		expect(summary.totalInterruptionSec).toBe(780);
+		expect(summary.noTaskInterruptionCount).toBe(1);
+		expect(summary.noTaskInterruptionSec).toBe(600);
+		expect(summary.concentrationScore).toBe(90);
+	});
+
+	it('only lowers concentration by the part of a logged interruption during the task', () => {
+		const taskProgress: TaskProgress[] = [
+			{
+				taskId: '1',
+				plannedDurationSec: 1800,
+				actualDurationSec: 1800,
+				completedAt: '2025-01-01T09:30:00Z',
+				status: 'complete',
+				segments: [
+					{ startedAt: '2025-01-01T09:00:00Z', endedAt: '2025-01-01T09:30:00Z', elapsedSec: 1800 }
+				]
+			}
+		];
+		// 09:15-09:45 is only half within the task's work
+		const interruptions: Interruption[] = [
+			{
+				interruptionId: 'logged',
+				taskId: '1',
+				startedAt: '2025-01-01T09:15:00Z',
+				endedAt: '2025-01-01T09:45:00Z',
+				durationSec: 1800,
+				category: null,
+				note: null,
+				loggedAt: '2025-01-01T10:00:00Z'
+			}
+		];
+
+		const summary = calculateAnalyticsSummary(taskProgress, interruptions);
+
+		expect(summary.totalInterruptionSec).toBe(1800);
+		expect(summary.concentrationScore).toBe(50);
+	});
+
 	it('returns 100% concentration with no interruptions', () => {
 		const taskProgress: TaskProgress[] = [
 			{
@@ -426,6 +512,92 @@ describe('calculateTaskPerformance', () => {
 		expect(result[1].interruptionSec).toBe(300);
 	});
 
+	it('takes interruptions logged after the fact off the focused time', () => {
+		const taskProgress: TaskProgress[] = [
+			{
+				taskId: '1',
+				plannedDurationSec: 1800,
+				actualDurationSec: 2000,
+				completedAt: '2025-01-01T09:35:00Z',
+				status: 'complete',
+				segments: [
+					{ startedAt: '2025-01-01T09:00:00Z', endedAt: '2025-01-01T09:35:00Z', elapsedSec: 2000 }
+				]
+			}
+		];
+		const interruptions: Interruption[] = [
+			{
+				interruptionId: 'live',
+				taskId: '1',
+				startedAt: '2025-01-01T09:05:00Z',
+				endedAt: '2025-01-01T09:07:00Z',
+				durationSec: 120,
+				category: null,
+				note: null
+			},
+			{
+				interruptionId: 'logged',
+				taskId: '1',
+				startedAt: '2025-01-01T09:10:00Z',
+				endedAt: '2025-01-01T09:15:00Z',
+				durationSec: 300,
+				category: null,
+				note: null,
+				loggedAt: '2025-01-01T09:20:00Z'
+			}
+		];
+
+		const result = calculateTaskPerformance([baseTasks[0]], taskProgress, interruptions);
+
+		expect(result[0].interruptionSec).toBe(420);
+		expect(result[0].actualDurationSec).toBe(2000);
+		expect(result[0].focusedSec).toBe(1700);
+	});
+
+	it('takes off only the part of a logged interruption during the task', () => {
+		const taskProgress: TaskProgress[] = [
+			{
+				taskId: '1',
+				plannedDurationSec: 1800,
+				actualDurationSec: 1800,
+				completedAt: '2025-01-01T09:30:00Z',
+				status: 'complete',
+				segments: [
+					{ startedAt: '2025-01-01T09:00:00Z', endedAt: '2025-01-01T09:30:00Z', elapsedSec: 1800 }
+				]
+			},
+			{
+				taskId: '2',
+				plannedDurationSec: 1800,
+				actualDurationSec: 1200,
+				completedAt: '2025-01-01T09:50:00Z',
+				status: 'complete',
+				segments: [
+					{ startedAt: '2025-01-01T09:30:00Z', endedAt: '2025-01-01T09:50:00Z', elapsedSec: 1200 }
+				]
+			}
+		];
+		// 09:20-09:45 starts while task 1 was worked on and crosses into task 2
+		const interruptions: Interruption[] = [
+			{
+				interruptionId: 'logged',
+				taskId: '2',
+				startedAt: '2025-01-01T09:20:00Z',
+				endedAt: '2025-01-01T09:45:00Z',
+				durationSec: 1500,
+				category: null,
+				note: null,
+				loggedAt: '2025-01-01T10:00:00Z'
+			}
+		];
+
+		const result = calculateTaskPerformance(baseTasks, taskProgress, interruptions);
+
+		expect(result[0].focusedSec).toBe(1800);
+		expect(result[1].interruptionSec).toBe(1500);
+		expect(result[1].focusedSec).toBe(300);
+	});
+
 	it('handles tasks with no progress record', () => {
 		const result = calculateTaskPerformance(baseTasks, [], []);
 
@@ -452,3 +624,217 @@ describe('calculateTaskPerformance', () => {
 		expect(result[0].interruptionSec).toBe(0);
 	});
 });
+
+// =============================================================================
+// Interruption analysis tests (035-interruption-analysis)
+// =============================================================================
+
+describe('interruption analysis', () => {
+	function createInterruption(
+		interruptionId: string,
+		taskId: string,
+		startedAt: Date,
+		durationSec: number,
+		category: string | null = null
+	): Interruption {
+		return {
+			interruptionId,
+			taskId,
+			startedAt: startedAt.toISOString(),
+			endedAt: new Date(startedAt.getTime() + durationSec * 1000).toISOString(),
+			durationSec,
+			category,
+			note: null
+		};
+	}
+
+	function at(hours: number, minutes: number): Date {
+		return new Date(2025, 0, 1, hours, minutes);
+	}
+
+	// Task 1 worked 09:00-09:30, task 2 from 09:30 to 10:30 with a break
+	// from 10:00 to 10:10 between its two segments
+	const taskProgress: TaskProgress[] = [
+		{
+			taskId: '1',
+			plannedDurationSec: 1800,
+			actualDurationSec: 1800,
+			completedAt: at(9, 30).toISOString(),
+			status: 'complete',
+			segments: [
+				{ startedAt: at(9, 0).toISOString(), endedAt: at(9, 30).toISOString(), elapsedSec: 1800 }
+			]
+		},
+		{
+			taskId: '2',
+			plannedDurationSec: 3600,
+			actualDurationSec: 3000,
+			completedAt: at(10, 40).toISOString(),
+			status: 'complete',
+			segments: [
+				{ startedAt: at(9, 30).toISOString(), endedAt: at(10, 0).toISOString(), elapsedSec: 1800 },
+				{ startedAt: at(10, 10).toISOString(), endedAt: at(10, 40).toISOString(), elapsedSec: 1800 }
+			]
+		}
+	];
+
+	const interruptions = [
+		createInterruption('a', '1', at(9, 10), 120, 'phone'),
+		createInterruption('b', '1', at(9, 20), 60, 'phone'),
+		createInterruption('c', '2', at(9, 50), 300, 'phone'),
+		createInterruption('d', '2', at(10, 20), 60, null)
+	];
+
+	it('breaks down finished interruptions by category with the median length', () => {
+		const ongoing = { ...createInterruption('e', '2', at(10, 30), 0, 'phone'), endedAt: null };
+		const breakdown = calculateCategoryBreakdown(
+			[...interruptions, ongoing],
+			DEFAULT_INTERRUPTION_CATEGORIES
+		);
+
+		expect(breakdown.map((b) => [b.categoryId, b.count, b.totalSec, b.medianSec])).toEqual([
+			['phone', 3, 480, 120],
+			[null, 1, 60, 60]
+		]);
+	});
+
+	it('counts interruptions by the hour they started in', () => {
+		const hourly = calculateHourlyInterruptions(interruptions);
+
+		expect(hourly).toHaveLength(24);
+		expect(hourly[9]).toEqual({ hour: 9, count: 3, totalSec: 480 });
+		expect(hourly[10]).toEqual({ hour: 10, count: 1, totalSec: 60 });
+		expect(hourly[11].count).toBe(0);
+	});
+
+	it('finds the longest stretch of work across tasks without an interruption', () => {
+		const streak = findLongestUninterruptedStreak(taskProgress, interruptions);
+
+		// 09:21 to 09:50 spans the switch from task 1 to task 2
+		expect(streak).toEqual({
+			startedAt: at(9, 21).toISOString(),
+			endedAt: at(9, 50).toISOString(),
+			durationSec: 1740
+		});
+		expect(findLongestUninterruptedStreak([], interruptions)).toBeNull();
+	});
+
+	it('counts an open segment up to now', () => {
+		const active: TaskProgress = {
+			taskId: '3',
+			plannedDurationSec: 600,
+			actualDurationSec: 0,
+			completedAt: null,
+			status: 'active',
+			segments: [{ startedAt: at(11, 0).toISOString(), endedAt: null, elapsedSec: 0 }]
+		};
+
+		const streak = findLongestUninterruptedStreak([active], [], [], [], at(12, 0));
+		expect(streak?.durationSec).toBe(3600);
+	});
+
+	it('ends a stretch at a day pause or a Pomodoro break', () => {
+		const worked: TaskProgress = {
+			taskId: '3',
+			plannedDurationSec: 7200,
+			actualDurationSec: 4200,
+			completedAt: at(13, 0).toISOString(),
+			status: 'complete',
+			segments: [
+				{ startedAt: at(11, 0).toISOString(), endedAt: at(13, 0).toISOString(), elapsedSec: 4200 }
+			]
+		};
+		const pause: SessionPause = {
+			pauseId: 'p1',
+			reason: 'Lunch',
+			taskId: '3',
+			startedAt: at(11, 20).toISOString(),
+			endedAt: at(11, 50).toISOString(),
+			durationSec: 1800
+		};
+		const focusBreak: FocusBreak = {
+			breakId: 'b1',
+			taskId: '3',
+			kind: 'long',
+			startedAt: at(12, 20).toISOString(),
+			endedAt: at(12, 40).toISOString(),
+			durationSec: 1200,
+			plannedDurationSec: 900
+		};
+
+		expect(findLongestUninterruptedStreak([worked], [])?.durationSec).toBe(7200);
+
+		// 11:50 to 12:20 between the pause and the break
+		const streak = findLongestUninterruptedStreak([worked], [], [pause], [focusBreak]);
+		expect(streak).toEqual({
+			startedAt: at(11, 50).toISOString(),
+			endedAt: at(12, 20).toISOString(),
+			durationSec: 1800
+		});
+	});
+
+	it('measures the time from each interruption until the task was worked on again', () => {
+		const ongoing = { ...createInterruption('e', '2', at(10, 45), 0), endedAt: null };
+		// Ends at 10:02, after task 2 was left at 10:00
+		const left = createInterruption('f', '2', at(9, 59), 180);
+		const costs = calculateResumeCosts(taskProgress, [...interruptions, left, ongoing]);
+
+		// The timer went on right after a to d, in the same segment
+		expect(costs).toEqual([
+			{ interruptionId: 'a', taskId: '1', resumeCostSec: 0 },
+			{ interruptionId: 'b', taskId: '1', resumeCostSec: 0 },
+			{ interruptionId: 'c', taskId: '2', resumeCostSec: 0 },
+			{ interruptionId: 'd', taskId: '2', resumeCostSec: 0 },
+			{ interruptionId: 'f', taskId: '2', resumeCostSec: 480 } // 10:02 to 10:10
+		]);
+
+		const late = createInterruption('g', '2', at(11, 0), 60);
+		expect(calculateResumeCosts(taskProgress, [late])[0].resumeCostSec).toBeNull();
+	});
+
+	it('measures an interruption between tasks until any task was worked on', () => {
+		const between = { ...createInterruption('h', '2', at(10, 1), 240), taskId: null };
+		const other = createInterruption('i', '1', at(10, 1), 240);
+
+		expect(calculateResumeCosts(taskProgress, [between, other])).toEqual([
+			{ interruptionId: 'h', taskId: null, resumeCostSec: 300 }, // 10:05 to 10:10
+			{ interruptionId: 'i', taskId: '1', resumeCostSec: null } // Task 1 was done
+		]);
+	});
+
+	it('sums up the cost of interruptions per task', () => {
+		const tasks: ConfirmedTask[] = ['1', '2', '3'].map((taskId, index) => ({
+			taskId,
+			name: `Task ${taskId}`,
+			plannedStart: at(9, 0),
+			plannedDurationSec: 1800,
+			type: 'flexible',
+			sortOrder: index,
+			status: 'complete'
+		}));
+
+		const left = createInterruption('f', '2', at(9, 59), 180);
+		const costs = calculateInterruptionCostByTask(
+			tasks,
+			[...interruptions, left],
+			calculateResumeCosts(taskProgress, [...interruptions, left])
+		);
+
+		expect(costs).toEqual([
+			{
+				taskId: '1',
+				taskName: 'Task 1',
+				interruptionCount: 2,
+				interruptionSec: 180,
+				resumeCostSec: 0
+			},
+			{
+				taskId: '2',
+				taskName: 'Task 2',
+				interruptionCount: 3,
+				interruptionSec: 540,
+				resumeCostSec: 480
+			}
+		]);
+	});
+});
@@ -0,0 +1,154 @@
+/**
+ * Audit Log Tests
+ *
+ * Feature: 032-audit-log
+ *
+ * Tests for describing audit events, preparing them for export and
+ * recording them in the audit store.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createAuditEvent, describeAuditEvent, getTaskEditDetails } from '$lib/services/auditLog';
+import { prepareAuditLogExport } from '$lib/services/export';
+import type { ConfirmedTask } from '$lib/types';
+
+function createTask(taskId: string, name: string): ConfirmedTask {
+	return {
+		taskId,
+		name,
+		plannedStart: new Date('2025-12-19T09:00:00.000Z'),
+		plannedDurationSec: 1800,
+		type: 'flexible',
+		sortOrder: 0,
+		status: 'pending'
+	};
+}
+
+// =============================================================================
+// describeAuditEvent tests
+// =============================================================================
+
+describe('describeAuditEvent', () => {
+	it('describes the recorded values of an event', () => {
+		const completed = createAuditEvent(
+			'task-completed',
+			'a',
+			{ actualSec: 1510, plannedSec: 1800 },
+			0
+		);
+		const reordered = createAuditEvent('task-reordered', 'a', { fromIndex: 0, toIndex: 2 }, 0);
+		const recovered = createAuditEvent(
+			'recovery-applied',
+			'a',
+			{ success: true, awayTimeMs: 90_000, recoveredElapsedMs: 600_000, error: null },
+			0
+		);
+
+		expect(describeAuditEvent(completed)).toBe('25m 10s of 30m planned');
+		expect(describeAuditEvent(reordered)).toBe('Position 1 to 3');
+		expect(describeAuditEvent(recovered)).toBe('Away 1m 30s, resumed at 10m');
+	});
+
+	it('describes the old and new values of a task edit', () => {
+		const task = createTask('a', 'Write report');
+		const details = getTaskEditDetails(task, {
+			name: 'Write report',
+			plannedDurationSec: 2700,
+			type: 'fixed'
+		});
+
+		expect(details).toEqual({
+			plannedDurationSecFrom: 1800,
+			plannedDurationSecTo: 2700,
+			typeFrom: 'flexible',
+			typeTo: 'fixed'
+		});
+		expect(describeAuditEvent(createAuditEvent('task-edited', 'a', details, 0))).toBe(
+			'Duration 30m to 45m, Type flexible to fixed'
+		);
+		expect(getTaskEditDetails(task, { name: 'Write report' })).toEqual({});
+	});
+
+	it('returns an empty description when nothing was recorded', () => {
+		expect(describeAuditEvent(createAuditEvent('interruption-started', 'a', {}, 0))).toBe('');
+	});
+});
+
+// =============================================================================
+// prepareAuditLogExport tests
+// =============================================================================
+
+describe('prepareAuditLogExport', () => {
+	it('exports one row per event with task name and lag', () => {
+		const events = [
+			createAuditEvent('day-started', null, { taskCount: 2 }, 0, new Date(2025, 11, 19, 9, 0)),
+			createAuditEvent('task-skipped', 'b', { reason: 'Cancelled', elapsedSec: 0 }, -120)
+		];
+
+		const tasks = [createTask('a', 'Email'), createTask('b', 'Review')];
+		const rows = prepareAuditLogExport(events, tasks);
+
+		expect(rows).toHaveLength(2);
+		expect(rows[0]).toEqual({
+			time: '09:00:00',
+			event: 'Day started',
+			task: '',
+			details: '2 tasks',
+			lag: '+00:00:00'
+		});
+		expect(rows[1]).toMatchObject({
+			event: 'Task skipped',
+			task: 'Review',
+			details: 'Cancelled, after 0s',
+			lag: '-00:02:00'
+		});
+	});
+});
+
+// =============================================================================
+// auditStore tests
+// =============================================================================
+
+describe('auditStore', () => {
+	beforeEach(() => {
+		// Mock localStorage
+		const store: Record<string, string> = {};
+		vi.spyOn(Storage.prototype, 'getItem').mockImplementation((key: string) => store[key] || null);
+		vi.spyOn(Storage.prototype, 'setItem').mockImplementation((key: string, value: string) => {
+			store[key] = value;
+		});
+		vi.spyOn(Storage.prototype, 'removeItem').mockImplementation((key: string) => {
+			delete store[key];
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.resetModules();
+	});
+
+	it('records nothing outside a session', async () => {
+		const { auditStore } = await import('$lib/stores/auditStore.svelte');
+
+		expect(auditStore.record('leadership-changed', null, { isLeader: true })).toBeNull();
+		expect(auditStore.events).toEqual([]);
+	});
+
+	it('appends events with the session lag and keeps them across reloads', async () => {
+		const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+		const { auditStore } = await import('$lib/stores/auditStore.svelte');
+
+		sessionStore.startDay([createTask('a', 'Email')]);
+		auditStore.record('day-started', null, { taskCount: 1 });
+		auditStore.record('task-started', 'a', { resumedAtSec: 0 });
+
+		auditStore.load();
+
+		expect(auditStore.events.map((e) => e.type)).toEqual(['day-started', 'task-started']);
+		expect(auditStore.events[1]).toMatchObject({ taskId: 'a', lagSec: sessionStore.lagSec });
+
+		auditStore.reset();
+		auditStore.load();
+		expect(auditStore.events).toEqual([]);
+	});
+});
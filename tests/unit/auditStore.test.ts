@@ -0,0 +1,91 @@
+/**
+ * Unit tests for auditStore
+ *
+ * Feature: 032-audit-log
+ *
+ * Tests: load, record with and without a running session, reset
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ConfirmedTask } from '$lib/types';
+
+const task: ConfirmedTask = {
+	taskId: 'task-1',
+	name: 'Task 1',
+	plannedStart: new Date('2025-12-19T09:00:00.000Z'),
+	plannedDurationSec: 1800,
+	type: 'flexible',
+	sortOrder: 0,
+	status: 'pending'
+};
+
+describe('auditStore', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2025-12-19T10:00:00.000Z'));
+
+		// Mock localStorage
+		const store: Record<string, string> = {};
+		vi.spyOn(Storage.prototype, 'getItem').mockImplementation((key: string) => store[key] || null);
+		vi.spyOn(Storage.prototype, 'setItem').mockImplementation((key: string, value: string) => {
+			store[key] = value;
+		});
+		vi.spyOn(Storage.prototype, 'removeItem').mockImplementation((key: string) => {
+			delete store[key];
+		});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+		vi.resetModules();
+	});
+
+	it('records nothing without a session or tasks', async () => {
+		const { auditStore } = await import('$lib/stores/auditStore.svelte');
+
+		expect(auditStore.record('leadership-changed', null, { isLeader: true })).toBeNull();
+		expect(auditStore.events).toEqual([]);
+	});
+
+	it('records edits while tasks are loaded but no day is running', async () => {
+		const { auditStore } = await import('$lib/stores/auditStore.svelte');
+		const { storage } = await import('$lib/services/storage');
+		storage.saveTasks([task]);
+
+		const event = auditStore.record('task-edited', 'task-1', {
+			nameFrom: 'Task',
+			nameTo: 'Task 1'
+		});
+
+		expect(event?.type).toBe('task-edited');
+		expect(auditStore.events).toHaveLength(1);
+	});
+
+	it('loads the stored log after the day has ended', async () => {
+		const { auditStore } = await import('$lib/stores/auditStore.svelte');
+		const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+		sessionStore.startDay([task]);
+		auditStore.record('day-started', null, { taskCount: 1 });
+		sessionStore.endDay();
+		auditStore.record('day-ended');
+
+		vi.resetModules();
+		const reloaded = (await import('$lib/stores/auditStore.svelte')).auditStore;
+		reloaded.load();
+
+		expect(reloaded.events.map((e) => e.type)).toEqual(['day-started', 'day-ended']);
+	});
+
+	it('clears the log on reset', async () => {
+		const { auditStore } = await import('$lib/stores/auditStore.svelte');
+		const { storage } = await import('$lib/services/storage');
+		storage.saveTasks([task]);
+		auditStore.record('task-reordered');
+
+		auditStore.reset();
+
+		expect(auditStore.events).toEqual([]);
+		expect(storage.loadAuditLog()).toEqual([]);
+	});
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for backup service
+ *
+ * Feature: 016-json-backup
+ *
+ * Tests: parseBackupFile, getBackupFilename
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseBackupFile, getBackupFilename } from '$lib/services/backup';
+import { BACKUP_FORMAT, CURRENT_SCHEMA_VERSION } from '$lib/types';
+
+function makeBackupJSON(overrides: Record<string, unknown> = {}, data: Record<string, unknown> = {}): string {
+	return JSON.stringify({
+		format: BACKUP_FORMAT,
+		schemaVersion: CURRENT_SCHEMA_VERSION,
+		exportedAt: '2025-12-19T18:00:00.000Z',
+		data: {
+			tasks: [],
+			session: null,
+			interruptions: null,
+			notes: [],
+			settings: null,
+			history: { index: [], days: {} },
+			...data
+		},
+		...overrides
+	});
+}
+
+describe('parseBackupFile', () => {
+	it('accepts a valid backup', () => {
+		const result = parseBackupFile(makeBackupJSON());
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.backup.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+			expect(result.backup.data.tasks).toEqual([]);
+		}
+	});
+
+	it('rejects invalid JSON', () => {
+		const result = parseBackupFile('{not json');
+
+		expect(result).toEqual({ success: false, error: 'File is not valid JSON' });
+	});
+
+	it('rejects files without the backup format marker', () => {
+		const result = parseBackupFile(makeBackupJSON({ format: 'something-else' }));
+
+		expect(result.success).toBe(false);
+	});
+
+	it('rejects backups from a newer schema version', () => {
+		const result = parseBackupFile(makeBackupJSON({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 }));
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Backup was created by a newer version of the app'
+		});
+	});
+
+	it('rejects a missing schema version', () => {
+		const result = parseBackupFile(makeBackupJSON({ schemaVersion: undefined }));
+
+		expect(result.success).toBe(false);
+	});
+
+	it('rejects backups whose tasks are not an array', () => {
+		const result = parseBackupFile(makeBackupJSON({}, { tasks: 'nope' }));
+
+		expect(result.success).toBe(false);
+	});
+
+	it('fills defaults for sections missing from older backups', () => {
+		const text = JSON.stringify({
+			format: BACKUP_FORMAT,
+			schemaVersion: 3,
+			exportedAt: '2025-12-19T18:00:00.000Z',
+			data: { tasks: [], session: null }
+		});
+
+		const result = parseBackupFile(text);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.backup.data.notes).toEqual([]);
+			expect(result.backup.data.settings).toBeNull();
+			expect(result.backup.data.history).toEqual({ index: [], days: {} });
+			expect(result.backup.data.templates).toEqual([]);
+		}
+	});
+
+	it('rejects invalid schedule templates', () => {
+		const result = parseBackupFile(makeBackupJSON({}, { templates: {} }));
+
+		expect(result.success).toBe(false);
+	});
+});
+
+describe('getBackupFilename', () => {
+	it('uses the backup date', () => {
+		expect(getBackupFilename('2025-12-19T12:00:00.000Z')).toBe('2025-12-19_backup.json');
+	});
+});
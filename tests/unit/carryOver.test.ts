@@ -0,0 +1,177 @@
+/**
+ * Carry-Over Service Tests
+ *
+ * Feature: 029-carry-over
+ *
+ * Tests for the end-of-day review: which tasks are offered, how much time
+ * they keep and which reviewed tasks are queued for later days.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	getNextDateKey,
+	getCarryOverCandidates,
+	createCarriedTasks,
+	isCarriedTaskDue
+} from '$lib/services/carryOver';
+import type { CarriedTask, ConfirmedTask, TaskProgress } from '$lib/types';
+import { MIN_CARRIED_DURATION_SEC } from '$lib/types';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTask(taskId: string, overrides: Partial<ConfirmedTask> = {}): ConfirmedTask {
+	return {
+		taskId,
+		name: `Task ${taskId}`,
+		plannedStart: new Date('2025-12-19T09:00:00.000Z'),
+		plannedDurationSec: 3600,
+		type: 'flexible',
+		sortOrder: 0,
+		status: 'pending',
+		...overrides
+	};
+}
+
+function createProgress(
+	taskId: string,
+	status: TaskProgress['status'],
+	actualDurationSec = 0
+): TaskProgress {
+	return {
+		taskId,
+		plannedDurationSec: 3600,
+		actualDurationSec,
+		completedAt: status === 'complete' ? '2025-12-19T10:00:00.000Z' : null,
+		status
+	};
+}
+
+// =============================================================================
+// getNextDateKey tests
+// =============================================================================
+
+describe('getNextDateKey', () => {
+	it('returns the next calendar day across month ends', () => {
+		expect(getNextDateKey(new Date(2025, 11, 19, 18, 30))).toBe('2025-12-20');
+		expect(getNextDateKey(new Date(2025, 11, 31, 23, 59))).toBe('2026-01-01');
+	});
+});
+
+// =============================================================================
+// getCarryOverCandidates tests
+// =============================================================================
+
+describe('getCarryOverCandidates', () => {
+	const tasks = [createTask('a'), createTask('b'), createTask('c'), createTask('d')];
+
+	it('lists pending, active and missed tasks but not completed ones', () => {
+		const candidates = getCarryOverCandidates(tasks, [
+			createProgress('a', 'complete', 3000),
+			createProgress('b', 'active'),
+			createProgress('c', 'missed'),
+			createProgress('d', 'pending')
+		]);
+
+		expect(candidates.map((c) => [c.taskId, c.status])).toEqual([
+			['b', 'active'],
+			['c', 'missed'],
+			['d', 'pending']
+		]);
+	});
+
+	it('keeps the planned time minus the time already spent', () => {
+		const candidates = getCarryOverCandidates(
+			tasks,
+			[
+				createProgress('a', 'active'),
+				// Started earlier and switched away from
+				createProgress('b', 'pending', 600),
+				createProgress('c', 'missed'),
+				createProgress('d', 'complete', 3600)
+			],
+			1200
+		);
+
+		expect(candidates.map((c) => c.remainingSec)).toEqual([2400, 3000, 3600]);
+	});
+
+	it('gives tasks that overran their plan a minimum duration', () => {
+		const candidates = getCarryOverCandidates(
+			[createTask('a')],
+			[createProgress('a', 'active')],
+			4000
+		);
+
+		expect(candidates[0].remainingSec).toBe(MIN_CARRIED_DURATION_SEC);
+	});
+});
+
+// =============================================================================
+// createCarriedTasks tests
+// =============================================================================
+
+describe('createCarriedTasks', () => {
+	const tasks = [
+		createTask('a', { project: 'Acme', tags: ['ops'], priority: 'high', type: 'fixed' }),
+		createTask('b'),
+		createTask('c', { carriedFrom: '2025-12-17' })
+	];
+	const candidates = getCarryOverCandidates(
+		tasks,
+		[createProgress('a', 'active'), createProgress('b', 'pending'), createProgress('c', 'missed')],
+		900
+	);
+
+	it('queues carried and deferred tasks and leaves out dropped ones', () => {
+		const carried = createCarriedTasks(
+			[
+				{ taskId: 'a', action: 'carry', targetDate: '2025-12-20' },
+				{ taskId: 'b', action: 'drop', targetDate: '2025-12-20' },
+				{ taskId: 'c', action: 'defer', targetDate: '2025-12-24' }
+			],
+			tasks,
+			candidates,
+			'2025-12-19'
+		);
+
+		expect(carried).toHaveLength(2);
+		expect(carried[0]).toMatchObject({
+			name: 'Task a',
+			durationSeconds: 2700,
+			type: 'fixed',
+			project: 'Acme',
+			tags: ['ops'],
+			priority: 'high',
+			originDate: '2025-12-19',
+			targetDate: '2025-12-20'
+		});
+		expect(carried[1].targetDate).toBe('2025-12-24');
+	});
+
+	it('keeps the first origin date when a task is carried again', () => {
+		const [carried] = createCarriedTasks(
+			[{ taskId: 'c', action: 'carry', targetDate: '2025-12-20' }],
+			tasks,
+			candidates,
+			'2025-12-19'
+		);
+
+		expect(carried.originDate).toBe('2025-12-17');
+	});
+});
+
+// =============================================================================
+// isCarriedTaskDue tests
+// =============================================================================
+
+describe('isCarriedTaskDue', () => {
+	it('is due on its target date and after, but not before', () => {
+		const task = { targetDate: '2025-12-20' } as CarriedTask;
+
+		expect(isCarriedTaskDue(task, '2025-12-19')).toBe(false);
+		expect(isCarriedTaskDue(task, '2025-12-20')).toBe(true);
+		expect(isCarriedTaskDue(task, '2025-12-22')).toBe(true);
+	});
+});
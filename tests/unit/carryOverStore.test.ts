@@ -0,0 +1,131 @@
+/**
+ * Unit tests for carryOverStore
+ *
+ * Feature: 029-carry-over
+ *
+ * Tests: add, findDue, removeDue, load, and adding carried tasks to the
+ * import preview (importStore.addCarriedTasks)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { get } from 'svelte/store';
+import type { CarriedTask, DraftTask } from '$lib/types';
+
+function makeCarried(name: string, overrides: Partial<CarriedTask> = {}): CarriedTask {
+	return {
+		carryId: `carry-${name}`,
+		name,
+		startTime: new Date(2025, 11, 18, 14, 0).toISOString(),
+		durationSeconds: 1800,
+		type: 'flexible',
+		originDate: '2025-12-18',
+		targetDate: '2025-12-19',
+		...overrides
+	};
+}
+
+// Friday 2025-12-19, 08:00 local time
+const TODAY = new Date(2025, 11, 19, 8, 0);
+
+describe('carryOverStore', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(TODAY);
+
+		// Mock localStorage
+		const store: Record<string, string> = {};
+		vi.spyOn(Storage.prototype, 'getItem').mockImplementation((key: string) => store[key] || null);
+		vi.spyOn(Storage.prototype, 'setItem').mockImplementation((key: string, value: string) => {
+			store[key] = value;
+		});
+		vi.spyOn(Storage.prototype, 'removeItem').mockImplementation((key: string) => {
+			delete store[key];
+		});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+		vi.resetModules();
+	});
+
+	it('finds tasks due today, including overdue ones', async () => {
+		const { carryOverStore } = await import('$lib/stores/carryOverStore.svelte');
+
+		carryOverStore.add([
+			makeCarried('Overdue', { targetDate: '2025-12-17' }),
+			makeCarried('Today'),
+			makeCarried('Next week', { targetDate: '2025-12-26' })
+		]);
+
+		expect(carryOverStore.findDue(TODAY).map((t) => t.name)).toEqual(['Overdue', 'Today']);
+	});
+
+	it('removes due tasks and keeps deferred ones across reloads', async () => {
+		const { carryOverStore } = await import('$lib/stores/carryOverStore.svelte');
+
+		carryOverStore.add([makeCarried('Today'), makeCarried('Later', { targetDate: '2025-12-26' })]);
+
+		expect(carryOverStore.removeDue(TODAY)).toBe(true);
+		expect(carryOverStore.removeDue(TODAY)).toBe(false);
+
+		carryOverStore.reset();
+		carryOverStore.load();
+
+		expect(carryOverStore.carried.map((t) => t.name)).toEqual(['Later']);
+	});
+
+	describe('importStore.addCarriedTasks()', () => {
+		function makeDraft(name: string, hour: number): DraftTask {
+			return {
+				id: `id-${name}`,
+				name,
+				startTime: new Date(2025, 11, 19, hour, 0),
+				durationSeconds: 1800,
+				type: 'fixed',
+				sortOrder: 0,
+				hasWarning: false
+			};
+		}
+
+		it('starts a preview with just the carried tasks, marked with their origin', async () => {
+			const { importStore } = await import('$lib/stores/importStore');
+
+			importStore.addCarriedTasks([makeCarried('Report')]);
+			const state = get(importStore);
+
+			expect(state.status).toBe('preview');
+			expect(state.tasks).toHaveLength(1);
+			expect(state.tasks[0]).toMatchObject({
+				id: 'carry-Report',
+				name: 'Report',
+				durationSeconds: 1800,
+				carriedFrom: '2025-12-18'
+			});
+			// Moved to today at the same time of day
+			expect(state.tasks[0].startTime.getDate()).toBe(19);
+			expect(state.tasks[0].startTime.getHours()).toBe(14);
+		});
+
+		it('places carried tasks by time among the preview tasks, once', async () => {
+			const { importStore } = await import('$lib/stores/importStore');
+
+			importStore.setTasks([makeDraft('Standup', 9), makeDraft('Wrap-up', 17)]);
+			importStore.addCarriedTasks([makeCarried('Report')]);
+			importStore.addCarriedTasks([makeCarried('Report')]);
+
+			const tasks = get(importStore).tasks;
+			expect(tasks.map((t) => t.name)).toEqual(['Standup', 'Report', 'Wrap-up']);
+			expect(tasks.map((t) => t.sortOrder)).toEqual([0, 1, 2]);
+		});
+
+		it('keeps carriedFrom on confirmed tasks', async () => {
+			const { importStore } = await import('$lib/stores/importStore');
+
+			importStore.addCarriedTasks([makeCarried('Report')]);
+			const [confirmed] = importStore.confirmSchedule();
+
+			expect(confirmed.carriedFrom).toBe('2025-12-18');
+		});
+	});
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for estimateStore
+ *
+ * Feature: 025-estimate-learning
+ *
+ * Tests: load (including rebuild from history), recordDay, suggest
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ArchivedDay } from '$lib/types';
+
+function makeDay(sessionId: string, date: string, actualSec: number): ArchivedDay {
+	return {
+		sessionId,
+		date,
+		archivedAt: `${date}T18:00:00.000Z`,
+		summary: {
+			totalPlannedSec: 1800,
+			totalActualSec: actualSec,
+			finalLagSec: actualSec - 1800,
+			tasksOnTime: 0,
+			tasksLate: 1,
+			tasksMissed: 0,
+			sessionDurationSec: 28800
+		},
+		session: {
+			sessionId,
+			startedAt: `${date}T09:00:00.000Z`,
+			endedAt: `${date}T17:00:00.000Z`,
+			status: 'complete',
+			currentTaskIndex: 0,
+			currentTaskElapsedMs: 0,
+			lastPersistedAt: 0,
+			totalLagSec: 0,
+			timerStartedAtMs: 0,
+			taskProgress: [
+				{
+					taskId: 'task-1',
+					plannedDurationSec: 1800,
+					actualDurationSec: actualSec,
+					completedAt: `${date}T10:00:00.000Z`,
+					status: 'complete'
+				}
+			]
+		},
+		tasks: [
+			{
+				taskId: 'task-1',
+				name: 'Email',
+				plannedStart: new Date(`${date}T09:00:00.000Z`),
+				plannedDurationSec: 1800,
+				type: 'flexible',
+				sortOrder: 0,
+				status: 'complete'
+			}
+		],
+		interruptions: [],
+		notes: []
+	};
+}
+
+describe('estimateStore', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2025-12-19T18:00:00.000Z'));
+
+		// Mock localStorage
+		const store: Record<string, string> = {};
+		vi.spyOn(Storage.prototype, 'getItem').mockImplementation((key: string) => store[key] || null);
+		vi.spyOn(Storage.prototype, 'setItem').mockImplementation((key: string, value: string) => {
+			store[key] = value;
+		});
+		vi.spyOn(Storage.prototype, 'removeItem').mockImplementation((key: string) => {
+			delete store[key];
+		});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+		vi.resetModules();
+	});
+
+	it('suggests a duration once a task has been recorded twice', async () => {
+		const { estimateStore } = await import('$lib/stores/estimateStore.svelte');
+		estimateStore.load();
+
+		estimateStore.recordDay(makeDay('s-1', '2025-12-18', 2400));
+		expect(estimateStore.suggest({ name: 'email' }, 1800)).toBeNull();
+
+		estimateStore.recordDay(makeDay('s-2', '2025-12-19', 2400));
+		expect(estimateStore.suggest({ name: 'email' }, 1800)?.suggestedSec).toBe(2400);
+	});
+
+	it('persists the model across reloads', async () => {
+		const first = await import('$lib/stores/estimateStore.svelte');
+		first.estimateStore.load();
+		first.estimateStore.recordDay(makeDay('s-1', '2025-12-18', 2400));
+		first.estimateStore.recordDay(makeDay('s-2', '2025-12-19', 2400));
+
+		vi.resetModules();
+		const { estimateStore } = await import('$lib/stores/estimateStore.svelte');
+		estimateStore.load();
+
+		expect(estimateStore.model['name:email']).toHaveLength(2);
+	});
+
+	it('rebuilds the model from archived days when none is stored', async () => {
+		const { storage } = await import('$lib/services/storage');
+		storage.archiveDay(makeDay('s-1', '2025-12-18', 2400));
+		storage.archiveDay(makeDay('s-2', '2025-12-19', 3000));
+
+		const { estimateStore } = await import('$lib/stores/estimateStore.svelte');
+		estimateStore.load();
+
+		expect(estimateStore.model['name:email'].map((s) => s.actualSec)).toEqual([2400, 3000]);
+		expect(storage.loadEstimates()).toEqual(estimateStore.model);
+	});
+});
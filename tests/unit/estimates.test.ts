@@ -0,0 +1,212 @@
+/**
+ * Estimates Service Tests
+ *
+ * Feature: 025-estimate-learning
+ *
+ * Tests for learning durations from planned vs actual task times.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	normalizeTaskName,
+	addDayToModel,
+	calculateEstimateStats,
+	suggestDuration
+} from '$lib/services/estimates';
+import type { ArchivedDay, ConfirmedTask, EstimateModel, TaskProgress } from '$lib/types';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+interface TaskRun {
+	name: string;
+	plannedSec: number;
+	actualSec: number;
+	completed?: boolean;
+	project?: string;
+	tags?: string[];
+}
+
+function createDay(runs: TaskRun[]): ArchivedDay {
+	const tasks: ConfirmedTask[] = runs.map((run, i) => ({
+		taskId: `task-${i}`,
+		name: run.name,
+		plannedStart: new Date('2025-12-19T09:00:00.000Z'),
+		plannedDurationSec: run.plannedSec,
+		type: 'flexible',
+		sortOrder: i,
+		status: 'complete',
+		project: run.project,
+		tags: run.tags
+	}));
+	const taskProgress: TaskProgress[] = runs.map((run, i) => ({
+		taskId: `task-${i}`,
+		plannedDurationSec: run.plannedSec,
+		actualDurationSec: run.actualSec,
+		completedAt: run.completed === false ? null : '2025-12-19T10:00:00.000Z',
+		status: run.completed === false ? 'pending' : 'complete'
+	}));
+
+	return {
+		sessionId: 'session-1',
+		date: '2025-12-19',
+		archivedAt: '2025-12-19T18:00:00.000Z',
+		summary: {
+			totalPlannedSec: 0,
+			totalActualSec: 0,
+			finalLagSec: 0,
+			tasksOnTime: 0,
+			tasksLate: 0,
+			tasksMissed: 0,
+			sessionDurationSec: 0
+		},
+		session: {
+			sessionId: 'session-1',
+			startedAt: '2025-12-19T09:00:00.000Z',
+			endedAt: '2025-12-19T17:00:00.000Z',
+			status: 'complete',
+			currentTaskIndex: 0,
+			currentTaskElapsedMs: 0,
+			lastPersistedAt: 0,
+			totalLagSec: 0,
+			timerStartedAtMs: 0,
+			taskProgress
+		},
+		tasks,
+		interruptions: [],
+		notes: []
+	};
+}
+
+// =============================================================================
+// normalizeTaskName tests
+// =============================================================================
+
+describe('normalizeTaskName', () => {
+	it('lowercases and collapses punctuation and whitespace', () => {
+		expect(normalizeTaskName('  Weekly Report: Draft ')).toBe('weekly report draft');
+		expect(normalizeTaskName('weekly-report draft')).toBe('weekly report draft');
+	});
+});
+
+// =============================================================================
+// addDayToModel tests
+// =============================================================================
+
+describe('addDayToModel', () => {
+	it('records completed tasks under name, project and tags', () => {
+		const model = addDayToModel(
+			{},
+			createDay([
+				{ name: 'Email', plannedSec: 1800, actualSec: 2400, project: 'Acme', tags: ['Inbox'] }
+			])
+		);
+
+		const sample = { plannedSec: 1800, actualSec: 2400 };
+		expect(model).toEqual({
+			'name:email': [sample],
+			'project:acme': [sample],
+			'tag:inbox': [sample]
+		});
+	});
+
+	it('skips tasks that were not completed', () => {
+		const model = addDayToModel(
+			{},
+			createDay([{ name: 'Email', plannedSec: 1800, actualSec: 600, completed: false }])
+		);
+
+		expect(model).toEqual({});
+	});
+
+	it('keeps only the most recent samples', () => {
+		let model: EstimateModel = {};
+		for (let i = 1; i <= 25; i++) {
+			model = addDayToModel(model, createDay([{ name: 'Email', plannedSec: 600, actualSec: i }]));
+		}
+
+		expect(model['name:email']).toHaveLength(20);
+		expect(model['name:email'][0].actualSec).toBe(6);
+	});
+});
+
+// =============================================================================
+// calculateEstimateStats tests
+// =============================================================================
+
+describe('calculateEstimateStats', () => {
+	it('calculates median actual and overrun percentiles', () => {
+		const stats = calculateEstimateStats([
+			{ plannedSec: 1000, actualSec: 1000 },
+			{ plannedSec: 1000, actualSec: 1200 },
+			{ plannedSec: 1000, actualSec: 1500 },
+			{ plannedSec: 1000, actualSec: 3000 }
+		]);
+
+		expect(stats.sampleCount).toBe(4);
+		expect(stats.medianActualSec).toBe(1350);
+		expect(stats.medianOverrunPercent).toBe(35);
+		// 90th percentile between 50% and 200%
+		expect(stats.percentileOverrunPercent).toBe(155);
+	});
+});
+
+// =============================================================================
+// suggestDuration tests
+// =============================================================================
+
+describe('suggestDuration', () => {
+	function learn(runs: TaskRun[]): EstimateModel {
+		return runs.reduce<EstimateModel>((model, run) => addDayToModel(model, createDay([run])), {});
+	}
+
+	it('suggests the median actual for a known task name', () => {
+		const model = learn([
+			{ name: 'Weekly report', plannedSec: 3600, actualSec: 4800 },
+			{ name: 'weekly report', plannedSec: 3600, actualSec: 4830 }
+		]);
+
+		const suggestion = suggestDuration(model, { name: 'Weekly Report' }, 3600);
+
+		expect(suggestion?.basis).toBe('name');
+		expect(suggestion?.suggestedSec).toBe(4800);
+		expect(suggestion?.stats.sampleCount).toBe(2);
+	});
+
+	it('needs more than one sample', () => {
+		const model = learn([{ name: 'Email', plannedSec: 1800, actualSec: 2400 }]);
+
+		expect(suggestDuration(model, { name: 'Email' }, 1800)).toBeNull();
+	});
+
+	it('falls back to the project overrun for unknown names', () => {
+		const model = learn([
+			{ name: 'Spec', plannedSec: 1000, actualSec: 1200, project: 'Acme' },
+			{ name: 'Review', plannedSec: 1000, actualSec: 1300, project: 'Acme' }
+		]);
+
+		const suggestion = suggestDuration(model, { name: 'Deploy', project: 'acme' }, 3600);
+
+		expect(suggestion?.basis).toBe('project');
+		expect(suggestion?.label).toBe('acme');
+		// +25% of 1h
+		expect(suggestion?.suggestedSec).toBe(4500);
+	});
+
+	it('uses the tag with the most samples', () => {
+		const model = learn([
+			{ name: 'A', plannedSec: 600, actualSec: 600, tags: ['calls'] },
+			{ name: 'B', plannedSec: 600, actualSec: 600, tags: ['calls'] },
+			{ name: 'C', plannedSec: 600, actualSec: 1200, tags: ['email'] },
+			{ name: 'D', plannedSec: 600, actualSec: 1200, tags: ['email'] },
+			{ name: 'E', plannedSec: 600, actualSec: 1200, tags: ['email'] }
+		]);
+
+		const suggestion = suggestDuration(model, { name: 'F', tags: ['calls', 'email'] }, 600);
+
+		expect(suggestion?.basis).toBe('tag');
+		expect(suggestion?.label).toBe('email');
+		expect(suggestion?.suggestedSec).toBe(1200);
+	});
+});
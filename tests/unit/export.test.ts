@@ -86,8 +86,12 @@ function createMockSummary(overrides: Partial<AnalyticsSummary> = {}): Analytics
 		concentrationRating: 'Excellent',
 		totalInterruptionCount: 5,
 		totalInterruptionSec: 450,
+		noTaskInterruptionCount: 0,
+		noTaskInterruptionSec: 0,
 		adHocTaskCount: 2,
 		importedTaskCount: 8,
+		unallocatedSec: 1200,
+		breakSec: 900,
 		...overrides
 	};
 }
@@ -136,6 +140,69 @@ describe('prepareTasksExport', () => {
 		expect(result[0].variance).toBe('-00:05:00'); // 5 min under
 	});
 
+	it('should use the first work segment as actual start (033-work-segments)', () => {
+		const tasks = [createMockTask()];
+		const progress = [
+			createMockProgress({
+				segments: [
+					{
+						startedAt: new Date('2025-12-19T09:05:00').toISOString(),
+						endedAt: new Date('2025-12-19T09:20:00').toISOString(),
+						elapsedSec: 900
+					}
+				]
+			})
+		];
+
+		const result = prepareTasksExport(tasks, progress, [], '2025-12-19T08:00:00.000Z');
+
+		expect(result[0].actualStart).toBe('09:05:00');
+	});
+
+	it('should include task metadata when set', () => {
+		const tasks = [
+			createMockTask({
+				project: 'Website',
+				tags: ['client', 'review'],
+				priority: 'high',
+				notes: 'Bring the mockups'
+			})
+		];
+
+		const result = prepareTasksExport(tasks, [createMockProgress()], [], '2025-12-19T09:00:00.000Z');
+
+		expect(result[0].project).toBe('Website');
+		expect(result[0].tags).toBe('client, review');
+		expect(result[0].priority).toBe('High');
+		expect(result[0].notes).toBe('Bring the mockups');
+	});
+
+	it('should leave metadata empty when not set', () => {
+		const result = prepareTasksExport(
+			[createMockTask()],
+			[createMockProgress()],
+			[],
+			'2025-12-19T09:00:00.000Z'
+		);
+
+		expect(result[0].project).toBe('');
+		expect(result[0].tags).toBe('');
+		expect(result[0].priority).toBe('');
+		expect(result[0].notes).toBe('');
+	});
+
+	it('should include the skip reason of missed tasks (030-skip-task)', () => {
+		const result = prepareTasksExport(
+			[createMockTask()],
+			[createMockProgress({ status: 'missed', skipReason: 'Meeting cancelled' })],
+			[],
+			'2025-12-19T09:00:00.000Z'
+		);
+
+		expect(result[0].status).toBe('Missed');
+		expect(result[0].skipReason).toBe('Meeting cancelled');
+	});
+
 	it('should aggregate interruption count and time', () => {
 		const tasks = [createMockTask()];
 		const progress = [createMockProgress()];
@@ -208,6 +275,15 @@ describe('prepareInterruptionsExport', () => {
 		expect(result[0].note).toBe('');
 	});
 
+	it('should show interruptions with no task as "(no task)"', () => {
+		const tasks = [createMockTask()];
+		const interruptions = [createMockInterruption({ taskId: null })];
+
+		const result = prepareInterruptionsExport(interruptions, tasks);
+
+		expect(result[0].task).toBe('(no task)');
+	});
+
 	it('should handle in-progress interruption', () => {
 		const tasks = [createMockTask()];
 		const interruptions = [createMockInterruption({ endedAt: null, durationSec: 0 })];
@@ -283,7 +359,7 @@ describe('prepareSummaryExport', () => {
 
 		const result = prepareSummaryExport(summary, sessionStart, sessionEnd);
 
-		expect(result).toHaveLength(10);
+		expect(result).toHaveLength(12);
 		expect(result.map((r) => r.metric)).toEqual([
 			'Session Date',
 			'Session Start',
@@ -294,7 +370,9 @@ describe('prepareSummaryExport', () => {
 			'Interruption Count',
 			'Concentration Score',
 			'Schedule Adherence',
-			'Tasks Completed'
+			'Tasks Completed',
+			'Unallocated Time',
+			'Break Time'
 		]);
 	});
 
@@ -339,6 +417,14 @@ describe('prepareSummaryExport', () => {
 		expect(result[9].value).toBe('7 of 10');
 	});
 
+	it('should format unallocated and break time as HH:MM:SS', () => {
+		const summary = createMockSummary({ unallocatedSec: 1200, breakSec: 900 });
+		const result = prepareSummaryExport(summary, '2025-12-19T09:00:00.000Z', '2025-12-19T17:30:00.000Z');
+
+		expect(result[10].value).toBe('00:20:00');
+		expect(result[11].value).toBe('00:15:00');
+	});
+
 	it('should handle null session end (in progress)', () => {
 		const summary = createMockSummary();
 		const result = prepareSummaryExport(summary, '2025-12-19T09:00:00.000Z', null);
@@ -377,7 +463,7 @@ describe('generateExcelWorkbook', () => {
 		generateExcelWorkbook = exportModule.generateExcelWorkbook;
 	});
 
-	it('should create a workbook with four sheets', () => {
+	it('should create a workbook with five sheets', () => {
 		const tasks = [createMockTask()];
 		const progress = [createMockProgress()];
 		const interruptions = [createMockInterruption()];
@@ -396,11 +482,12 @@ describe('generateExcelWorkbook', () => {
 			sessionEnd
 		);
 
-		expect(workbook.SheetNames).toHaveLength(4);
+		expect(workbook.SheetNames).toHaveLength(5);
 		expect(workbook.SheetNames).toContain('Tasks');
 		expect(workbook.SheetNames).toContain('Interruptions');
 		expect(workbook.SheetNames).toContain('Notes');
 		expect(workbook.SheetNames).toContain('Summary');
+		expect(workbook.SheetNames).toContain('Audit Log'); // 032-audit-log
 	});
 
 	it('should include task data in Tasks sheet', () => {
@@ -515,7 +602,7 @@ describe('generateExcelWorkbook', () => {
 		);
 
 		// Should still create all sheets even if empty
-		expect(workbook.SheetNames).toHaveLength(4);
+		expect(workbook.SheetNames).toHaveLength(5);
 	});
 });
 
@@ -627,11 +714,11 @@ describe('prepareCSVExportData', () => {
 		);
 
 		expect(result.tasks).toBeDefined();
-		expect(result.tasks.headers).toHaveLength(11); // T046, T047: Added Source column
+		expect(result.tasks.headers).toHaveLength(16); // Source (009) + Project/Tags/Priority/Notes (018) + Skip Reason (030)
 		expect(result.tasks.data).toHaveLength(1);
 	});
 
-	it('should prepare all four data types', () => {
+	it('should prepare all five data types', () => {
 		const tasks = [createMockTask()];
 		const progress = [createMockProgress()];
 		const interruptions = [createMockInterruption()];
@@ -654,5 +741,6 @@ describe('prepareCSVExportData', () => {
 		expect(result.interruptions).toBeDefined();
 		expect(result.notes).toBeDefined();
 		expect(result.summary).toBeDefined();
+		expect(result.audit).toBeDefined();
 	});
 });
@@ -0,0 +1,189 @@
+/**
+ * Unit tests for historyStore
+ *
+ * Feature: 014-session-history
+ *
+ * Tests: load, archiveDay, selectDay, clearSelection, loadDaysInRange, deleteDay, toggleView
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ArchiveDayInput } from '$lib/stores/historyStore.svelte';
+
+function makeInput(sessionId: string, startedAt: string): ArchiveDayInput {
+	return {
+		session: {
+			sessionId,
+			startedAt,
+			endedAt: '2025-12-19T17:00:00.000Z',
+			status: 'complete',
+			currentTaskIndex: 0,
+			currentTaskElapsedMs: 0,
+			lastPersistedAt: 0,
+			totalLagSec: 0,
+			timerStartedAtMs: 0,
+			taskProgress: [
+				{
+					taskId: 'task-1',
+					plannedDurationSec: 1800,
+					actualDurationSec: 1500,
+					completedAt: '2025-12-19T09:25:00.000Z',
+					status: 'complete'
+				}
+			]
+		},
+		tasks: [
+			{
+				taskId: 'task-1',
+				name: 'Email',
+				plannedStart: new Date('2025-12-19T09:00:00.000Z'),
+				plannedDurationSec: 1800,
+				type: 'flexible',
+				sortOrder: 0,
+				status: 'complete'
+			}
+		],
+		interruptions: [],
+		notes: [
+			{
+				noteId: 'note-1',
+				content: 'Follow up with finance',
+				createdAt: '2025-12-19T09:10:00.000Z',
+				updatedAt: null,
+				taskId: 'task-1'
+			}
+		],
+		summary: {
+			totalPlannedSec: 1800,
+			totalActualSec: 1500,
+			finalLagSec: -300,
+			tasksOnTime: 1,
+			tasksLate: 0,
+			tasksMissed: 0,
+			sessionDurationSec: 28800
+		}
+	};
+}
+
+describe('historyStore', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2025-12-19T18:00:00.000Z'));
+
+		// Mock localStorage
+		const store: Record<string, string> = {};
+		vi.spyOn(Storage.prototype, 'getItem').mockImplementation((key: string) => store[key] || null);
+		vi.spyOn(Storage.prototype, 'setItem').mockImplementation((key: string, value: string) => {
+			store[key] = value;
+		});
+		vi.spyOn(Storage.prototype, 'removeItem').mockImplementation((key: string) => {
+			delete store[key];
+		});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+		vi.resetModules();
+	});
+
+	describe('initial state', () => {
+		it('should start with no entries and no selection', async () => {
+			const { historyStore } = await import('$lib/stores/historyStore.svelte');
+
+			expect(historyStore.entries).toEqual([]);
+			expect(historyStore.selectedDay).toBeNull();
+			expect(historyStore.isViewOpen).toBe(false);
+		});
+	});
+
+	describe('archiveDay()', () => {
+		it('should archive the day and add it to entries', async () => {
+			const { historyStore } = await import('$lib/stores/historyStore.svelte');
+
+			const day = historyStore.archiveDay(makeInput('s-1', '2025-12-19T09:00:00.000Z'));
+
+			expect(day).not.toBeNull();
+			expect(day?.archivedAt).toBe('2025-12-19T18:00:00.000Z');
+			expect(historyStore.entries).toHaveLength(1);
+			expect(historyStore.entries[0].sessionId).toBe('s-1');
+			expect(historyStore.entries[0].summary.tasksOnTime).toBe(1);
+		});
+
+		it('should be visible after reloading the store', async () => {
+			const first = await import('$lib/stores/historyStore.svelte');
+			first.historyStore.archiveDay(makeInput('s-1', '2025-12-19T09:00:00.000Z'));
+
+			vi.resetModules();
+			const { historyStore } = await import('$lib/stores/historyStore.svelte');
+			historyStore.load();
+
+			expect(historyStore.entries.map((e) => e.sessionId)).toEqual(['s-1']);
+		});
+	});
+
+	describe('selectDay()', () => {
+		it('should load the full archived day', async () => {
+			const { historyStore } = await import('$lib/stores/historyStore.svelte');
+			historyStore.archiveDay(makeInput('s-1', '2025-12-19T09:00:00.000Z'));
+
+			historyStore.selectDay('s-1');
+
+			expect(historyStore.selectedDay?.tasks[0].name).toBe('Email');
+			expect(historyStore.selectedDay?.notes[0].content).toBe('Follow up with finance');
+		});
+
+		it('should clear selection with clearSelection()', async () => {
+			const { historyStore } = await import('$lib/stores/historyStore.svelte');
+			historyStore.archiveDay(makeInput('s-1', '2025-12-19T09:00:00.000Z'));
+			historyStore.selectDay('s-1');
+
+			historyStore.clearSelection();
+
+			expect(historyStore.selectedDay).toBeNull();
+		});
+	});
+
+	describe('loadDaysInRange()', () => {
+		it('should load the days in the range, oldest first', async () => {
+			const { historyStore } = await import('$lib/stores/historyStore.svelte');
+			historyStore.archiveDay(makeInput('s-1', '2025-12-19T09:00:00.000Z'));
+			historyStore.archiveDay(makeInput('s-2', '2025-12-17T09:00:00.000Z'));
+			historyStore.archiveDay(makeInput('s-3', '2025-12-10T09:00:00.000Z'));
+
+			const days = historyStore.loadDaysInRange('2025-12-15', '2025-12-19');
+
+			expect(days.map((d) => d.sessionId)).toEqual(['s-2', 's-1']);
+			expect(days[0].tasks[0].plannedStart).toBeInstanceOf(Date);
+		});
+	});
+
+	describe('deleteDay()', () => {
+		it('should remove the day from entries and clear it if selected', async () => {
+			const { historyStore } = await import('$lib/stores/historyStore.svelte');
+			historyStore.archiveDay(makeInput('s-1', '2025-12-19T09:00:00.000Z'));
+			historyStore.archiveDay(makeInput('s-2', '2025-12-18T09:00:00.000Z'));
+			historyStore.selectDay('s-1');
+
+			const result = historyStore.deleteDay('s-1');
+
+			expect(result).toBe(true);
+			expect(historyStore.entries.map((e) => e.sessionId)).toEqual(['s-2']);
+			expect(historyStore.selectedDay).toBeNull();
+		});
+	});
+
+	describe('toggleView()', () => {
+		it('should toggle visibility and drop the selection on close', async () => {
+			const { historyStore } = await import('$lib/stores/historyStore.svelte');
+			historyStore.archiveDay(makeInput('s-1', '2025-12-19T09:00:00.000Z'));
+
+			historyStore.toggleView();
+			historyStore.selectDay('s-1');
+			expect(historyStore.isViewOpen).toBe(true);
+
+			historyStore.toggleView();
+			expect(historyStore.isViewOpen).toBe(false);
+			expect(historyStore.selectedDay).toBeNull();
+		});
+	});
+});
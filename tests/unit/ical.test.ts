@@ -0,0 +1,354 @@
+import { describe, it, expect } from 'vitest';
+import { generateCalendar, parseCalendar } from '$lib/services/ical';
+import type { ConfirmedTask, ProjectedTask } from '$lib/types';
+
+// Times are around midday UTC so they fall on the same local day in any
+// timezone within ±11 hours
+const DAY = new Date(2025, 11, 18);
+
+function calendar(...events: string[][]): string {
+	return [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+		'END:VCALENDAR'
+	].join('\r\n');
+}
+
+describe('parseCalendar', () => {
+	it('reads UTC events as fixed tasks', () => {
+		const result = parseCalendar(
+			calendar(['SUMMARY:Client call', 'DTSTART:20251218T120000Z', 'DTEND:20251218T124500Z']),
+			DAY,
+			'cal.ics'
+		);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks).toHaveLength(1);
+			expect(result.tasks[0].name).toBe('Client call');
+			expect(result.tasks[0].type).toBe('fixed');
+			expect(result.tasks[0].startTime.getTime()).toBe(Date.UTC(2025, 11, 18, 12, 0));
+			expect(result.tasks[0].durationSeconds).toBe(2700);
+		}
+	});
+
+	it('converts TZID times using the named timezone', () => {
+		// 07:00 in New York (EST, UTC-5) is 12:00 UTC
+		const result = parseCalendar(
+			calendar([
+				'SUMMARY:Planning',
+				'DTSTART;TZID=America/New_York:20251218T070000',
+				'DURATION:PT1H30M'
+			]),
+			DAY,
+			'cal.ics'
+		);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks[0].startTime.getTime()).toBe(Date.UTC(2025, 11, 18, 12, 0));
+			expect(result.tasks[0].durationSeconds).toBe(5400);
+		}
+	});
+
+	it('falls back to the VTIMEZONE offset for unknown TZIDs', () => {
+		const text = [
+			'BEGIN:VCALENDAR',
+			'BEGIN:VTIMEZONE',
+			'TZID:Custom Zone',
+			'BEGIN:STANDARD',
+			'TZOFFSETTO:+0200',
+			'END:STANDARD',
+			'END:VTIMEZONE',
+			'BEGIN:VEVENT',
+			'SUMMARY:Review',
+			'DTSTART;TZID="Custom Zone":20251218T140000',
+			'DTEND;TZID="Custom Zone":20251218T150000',
+			'END:VEVENT',
+			'END:VCALENDAR'
+		].join('\r\n');
+
+		const result = parseCalendar(text, DAY, 'cal.ics');
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks[0].startTime.getTime()).toBe(Date.UTC(2025, 11, 18, 12, 0));
+		}
+	});
+
+	it('unfolds long lines and unescapes text', () => {
+		const text = calendar([
+			'SUMMARY:Design review\\, part',
+			'  two',
+			'DTSTART:20251218T120000Z',
+			'DTEND:20251218T130000Z'
+		]);
+
+		const result = parseCalendar(text, DAY, 'cal.ics');
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks[0].name).toBe('Design review, part two');
+		}
+	});
+
+	it('keeps only events on the chosen day, sorted by start', () => {
+		const result = parseCalendar(
+			calendar(
+				['SUMMARY:Later', 'DTSTART:20251218T140000Z', 'DTEND:20251218T150000Z'],
+				['SUMMARY:Other day', 'DTSTART:20251219T120000Z', 'DTEND:20251219T130000Z'],
+				['SUMMARY:Earlier', 'DTSTART:20251218T110000Z', 'DTEND:20251218T113000Z']
+			),
+			DAY,
+			'cal.ics'
+		);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks.map((t) => t.name)).toEqual(['Earlier', 'Later']);
+			expect(result.tasks.map((t) => t.sortOrder)).toEqual([0, 1]);
+		}
+	});
+
+	it('skips all-day and cancelled events', () => {
+		const result = parseCalendar(
+			calendar(
+				['SUMMARY:Holiday', 'DTSTART;VALUE=DATE:20251218', 'DTEND;VALUE=DATE:20251219'],
+				[
+					'SUMMARY:Cancelled',
+					'STATUS:CANCELLED',
+					'DTSTART:20251218T120000Z',
+					'DTEND:20251218T130000Z'
+				],
+				['SUMMARY:Kept', 'DTSTART:20251218T120000Z', 'DTEND:20251218T130000Z']
+			),
+			DAY,
+			'cal.ics'
+		);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks.map((t) => t.name)).toEqual(['Kept']);
+		}
+	});
+
+	it('expands daily repeats with an interval', () => {
+		const event = (rrule: string) =>
+			parseCalendar(
+				calendar([
+					'SUMMARY:Standup',
+					'DTSTART:20251215T120000Z',
+					'DTEND:20251215T121500Z',
+					`RRULE:${rrule}`
+				]),
+				DAY,
+				'cal.ics'
+			);
+
+		// 15th + 3 days = 18th
+		expect(event('FREQ=DAILY').success).toBe(true);
+		expect(event('FREQ=DAILY;INTERVAL=3').success).toBe(true);
+		expect(event('FREQ=DAILY;INTERVAL=2').success).toBe(false);
+
+		const result = event('FREQ=DAILY');
+		if (result.success) {
+			expect(result.tasks[0].startTime.getTime()).toBe(Date.UTC(2025, 11, 18, 12, 0));
+			expect(result.tasks[0].durationSeconds).toBe(900);
+		}
+	});
+
+	it('stops repeating after COUNT or UNTIL', () => {
+		const event = (rrule: string) =>
+			parseCalendar(
+				calendar([
+					'SUMMARY:Standup',
+					'DTSTART:20251215T120000Z',
+					'DTEND:20251215T121500Z',
+					`RRULE:${rrule}`
+				]),
+				DAY,
+				'cal.ics'
+			);
+
+		expect(event('FREQ=DAILY;COUNT=4').success).toBe(true);
+		expect(event('FREQ=DAILY;COUNT=3').success).toBe(false);
+		expect(event('FREQ=DAILY;UNTIL=20251218T120000Z').success).toBe(true);
+		expect(event('FREQ=DAILY;UNTIL=20251217T235959Z').success).toBe(false);
+	});
+
+	it('expands weekly repeats on BYDAY weekdays', () => {
+		// 2025-12-18 is a Thursday; DTSTART is Monday 2025-12-01
+		const event = (rrule: string) =>
+			parseCalendar(
+				calendar([
+					'SUMMARY:1:1',
+					'DTSTART:20251201T120000Z',
+					'DTEND:20251201T123000Z',
+					`RRULE:${rrule}`
+				]),
+				DAY,
+				'cal.ics'
+			);
+
+		expect(event('FREQ=WEEKLY').success).toBe(false);
+		expect(event('FREQ=WEEKLY;BYDAY=MO,TH').success).toBe(true);
+		// The 18th is two weeks after the start week
+		expect(event('FREQ=WEEKLY;INTERVAL=2;BYDAY=TH').success).toBe(true);
+		expect(event('FREQ=WEEKLY;INTERVAL=3;BYDAY=TH').success).toBe(false);
+	});
+
+	it('honours EXDATE and moved instances', () => {
+		const excluded = parseCalendar(
+			calendar([
+				'SUMMARY:Standup',
+				'DTSTART:20251215T120000Z',
+				'DTEND:20251215T121500Z',
+				'RRULE:FREQ=DAILY',
+				'EXDATE:20251217T120000Z,20251218T120000Z'
+			]),
+			DAY,
+			'cal.ics'
+		);
+		expect(excluded.success).toBe(false);
+
+		const moved = parseCalendar(
+			calendar(
+				[
+					'UID:standup-1',
+					'SUMMARY:Standup',
+					'DTSTART:20251215T120000Z',
+					'DTEND:20251215T121500Z',
+					'RRULE:FREQ=DAILY'
+				],
+				[
+					'UID:standup-1',
+					'RECURRENCE-ID:20251218T120000Z',
+					'SUMMARY:Standup (moved)',
+					'DTSTART:20251218T140000Z',
+					'DTEND:20251218T141500Z'
+				]
+			),
+			DAY,
+			'cal.ics'
+		);
+		expect(moved.success).toBe(true);
+		if (moved.success) {
+			expect(moved.tasks.map((t) => t.name)).toEqual(['Standup (moved)']);
+		}
+	});
+
+	it('reports events without an end time', () => {
+		const result = parseCalendar(
+			calendar(['SUMMARY:Open ended', 'DTSTART:20251218T120000Z']),
+			DAY,
+			'cal.ics'
+		);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0].row).toBe(3);
+			expect(result.errors[0].message).toContain('no end time');
+		}
+	});
+
+	it('reports when no events fall on the day', () => {
+		const result = parseCalendar(calendar(), DAY, 'cal.ics');
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0].message).toBe('No timed events found on 2025-12-18.');
+		}
+	});
+
+	it('rejects text that is not a calendar', () => {
+		const result = parseCalendar('Task Name,Duration', DAY, 'cal.ics');
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0].message).toContain('not a valid iCalendar');
+		}
+	});
+});
+
+// =============================================================================
+// Calendar Export (022-ics-export)
+// =============================================================================
+
+function createProjected(overrides: Partial<ConfirmedTask> = {}): ProjectedTask {
+	const task: ConfirmedTask = {
+		taskId: 'task-1',
+		name: 'Deep work',
+		plannedStart: new Date(Date.UTC(2025, 11, 18, 9, 0)),
+		plannedDurationSec: 3600,
+		type: 'flexible',
+		sortOrder: 0,
+		status: 'pending',
+		...overrides
+	};
+	return {
+		task,
+		projectedStart: new Date(Date.UTC(2025, 11, 18, 9, 30)),
+		projectedEnd: new Date(Date.UTC(2025, 11, 18, 10, 30)),
+		riskLevel: null,
+		bufferSec: 0,
+		displayStatus: 'pending',
+		isDraggable: true,
+		elapsedSec: 0,
+		willBeInterrupted: false
+	};
+}
+
+describe('generateCalendar', () => {
+	const stamp = new Date(Date.UTC(2025, 11, 18, 8, 0));
+
+	it('writes one VEVENT per task with projected times', () => {
+		const ics = generateCalendar(
+			[createProjected(), createProjected({ taskId: 'task-2', name: 'Review' })],
+			stamp
+		);
+
+		expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+		expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+		expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+		expect(ics).toContain('DTSTART:20251218T093000Z');
+		expect(ics).toContain('DTEND:20251218T103000Z');
+		expect(ics).toContain('DTSTAMP:20251218T080000Z');
+	});
+
+	it('derives stable UIDs from the task ID', () => {
+		const first = generateCalendar([createProjected()], stamp);
+		const second = generateCalendar([createProjected()], new Date());
+
+		expect(first).toContain('UID:task-1@micro-time-manager');
+		expect(second).toContain('UID:task-1@micro-time-manager');
+	});
+
+	it('marks fixed tasks busy and flexible tasks free', () => {
+		expect(generateCalendar([createProjected({ type: 'fixed' })], stamp)).toContain(
+			'TRANSP:OPAQUE'
+		);
+		expect(generateCalendar([createProjected()], stamp)).toContain('TRANSP:TRANSPARENT');
+	});
+
+	it('escapes text and folds long lines', () => {
+		const ics = generateCalendar(
+			[createProjected({ name: 'Plan; review, ship', notes: 'x'.repeat(120) })],
+			stamp
+		);
+
+		expect(ics).toContain('SUMMARY:Plan\\; review\\, ship');
+		expect(ics.split('\r\n').every((line) => line.length <= 75)).toBe(true);
+	});
+
+	it('can be read back by parseCalendar', () => {
+		const ics = generateCalendar([createProjected({ name: 'Plan, review' })], stamp);
+		const result = parseCalendar(ics, DAY, 'plan.ics');
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks[0].name).toBe('Plan, review');
+			expect(result.tasks[0].durationSeconds).toBe(3600);
+		}
+	});
+});
@@ -0,0 +1,155 @@
+/**
+ * Idle Time Service Tests
+ *
+ * Feature: 027-idle-time
+ *
+ * Tests for gap durations, lag from idle time and unallocated vs break totals.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	getGapDurationSec,
+	calculatePlannedSlackSec,
+	calculateGapLagSec,
+	calculateIdleSinceTaskSec,
+	calculateIdleTotals
+} from '$lib/services/idle';
+import type { ConfirmedTask, FocusBreak, IdleGap } from '$lib/types';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTask(taskId: string, start: string, durationSec: number): ConfirmedTask {
+	return {
+		taskId,
+		name: taskId,
+		plannedStart: new Date(start),
+		plannedDurationSec: durationSec,
+		type: 'flexible',
+		sortOrder: 0,
+		status: 'pending'
+	};
+}
+
+function createGap(overrides: Partial<IdleGap> = {}): IdleGap {
+	return {
+		gapId: 'gap-1',
+		afterTaskId: 'task-1',
+		kind: 'unallocated',
+		startedAt: '2025-12-19T10:00:00.000Z',
+		endedAt: '2025-12-19T10:20:00.000Z',
+		durationSec: 1200,
+		...overrides
+	};
+}
+
+function createBreak(taskId: string | null, durationSec: number): FocusBreak {
+	return {
+		breakId: `break-${taskId}`,
+		taskId,
+		kind: 'short',
+		startedAt: '2025-12-19T11:00:00.000Z',
+		endedAt: '2025-12-19T11:05:00.000Z',
+		durationSec,
+		plannedDurationSec: 300
+	};
+}
+
+// =============================================================================
+// getGapDurationSec tests
+// =============================================================================
+
+describe('getGapDurationSec', () => {
+	it('counts an ongoing gap up to now', () => {
+		const gap = createGap({ endedAt: null, durationSec: 0 });
+		const now = new Date('2025-12-19T10:07:30.000Z').getTime();
+
+		expect(getGapDurationSec(gap, now)).toBe(450);
+		expect(getGapDurationSec(createGap(), now)).toBe(1200);
+	});
+});
+
+// =============================================================================
+// calculateGapLagSec tests
+// =============================================================================
+
+describe('calculateGapLagSec', () => {
+	const first = createTask('task-1', '2025-12-19T09:00:00.000Z', 3600);
+
+	it('counts all idle time as lag between back-to-back tasks', () => {
+		const next = createTask('task-2', '2025-12-19T10:00:00.000Z', 1800);
+
+		expect(calculatePlannedSlackSec(first, next)).toBe(0);
+		expect(calculateGapLagSec(1200, first, next)).toBe(1200);
+	});
+
+	it('only counts idle time past the planned slack', () => {
+		const next = createTask('task-2', '2025-12-19T10:15:00.000Z', 1800);
+
+		expect(calculatePlannedSlackSec(first, next)).toBe(900);
+		expect(calculateGapLagSec(1200, first, next)).toBe(300);
+		expect(calculateGapLagSec(600, first, next)).toBe(0);
+	});
+
+	it('has no slack without a previous task', () => {
+		const next = createTask('task-2', '2025-12-19T10:15:00.000Z', 1800);
+
+		expect(calculateGapLagSec(600, null, next)).toBe(600);
+	});
+});
+
+// =============================================================================
+// calculateIdleSinceTaskSec tests
+// =============================================================================
+
+describe('calculateIdleSinceTaskSec', () => {
+	it('adds up every gap piece after the same task', () => {
+		const gaps = [
+			createGap({ gapId: 'gap-0', afterTaskId: 'task-0', durationSec: 900 }),
+			createGap({ gapId: 'gap-1', durationSec: 600 }),
+			createGap({ gapId: 'gap-2', kind: 'break', durationSec: 300 })
+		];
+
+		expect(calculateIdleSinceTaskSec(gaps, 'task-1')).toBe(900);
+	});
+
+	it('counts an ongoing piece up to now', () => {
+		const gaps = [
+			createGap({ durationSec: 600 }),
+			createGap({ gapId: 'gap-2', endedAt: null, durationSec: 0 })
+		];
+		const now = new Date('2025-12-19T10:05:00.000Z').getTime();
+
+		expect(calculateIdleSinceTaskSec(gaps, 'task-1', now)).toBe(900);
+	});
+
+	it('has no idle time when the last gap follows another task', () => {
+		expect(calculateIdleSinceTaskSec([createGap()], 'task-2')).toBe(0);
+		expect(calculateIdleSinceTaskSec([], null)).toBe(0);
+	});
+});
+
+// =============================================================================
+// calculateIdleTotals tests
+// =============================================================================
+
+describe('calculateIdleTotals', () => {
+	it('splits gaps into unallocated and break time', () => {
+		const totals = calculateIdleTotals([
+			createGap({ gapId: 'a', durationSec: 600 }),
+			createGap({ gapId: 'b', kind: 'break', durationSec: 900 })
+		]);
+
+		expect(totals).toEqual({ unallocatedSec: 600, breakSec: 900 });
+	});
+
+	it('adds Pomodoro breaks taken during tasks but not those between tasks', () => {
+		const totals = calculateIdleTotals(
+			[createGap({ kind: 'break', durationSec: 900 })],
+			[createBreak('task-1', 300), createBreak(null, 400)]
+		);
+
+		expect(totals).toEqual({ unallocatedSec: 0, breakSec: 1200 });
+	});
+});
@@ -0,0 +1,220 @@
+/**
+ * Unit tests for idleStore
+ *
+ * Feature: 027-idle-time
+ *
+ * Tests: starting/ending gaps, marking breaks, restore, reset
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const START = new Date('2025-12-19T09:00:00.000Z').getTime();
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Move the clock without firing animation frames
+ */
+function setMinutesSinceStart(minutes: number): void {
+	vi.setSystemTime(new Date(START + minutes * MINUTE_MS));
+}
+
+describe('idleStore', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date(START));
+
+		// Mock localStorage
+		const store: Record<string, string> = {};
+		vi.spyOn(Storage.prototype, 'getItem').mockImplementation((key: string) => store[key] || null);
+		vi.spyOn(Storage.prototype, 'setItem').mockImplementation((key: string, value: string) => {
+			store[key] = value;
+		});
+		vi.spyOn(Storage.prototype, 'removeItem').mockImplementation((key: string) => {
+			delete store[key];
+		});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+		vi.resetModules();
+	});
+
+	it('records a gap after a task with its duration', async () => {
+		const { idleStore } = await import('$lib/stores/idleStore.svelte');
+
+		const started = idleStore.startGap('task-1');
+		expect(started.kind).toBe('unallocated');
+		expect(idleStore.isIdle).toBe(true);
+
+		setMinutesSinceStart(20);
+		const completed = idleStore.endGap();
+
+		expect(completed.afterTaskId).toBe('task-1');
+		expect(completed.durationSec).toBe(1200);
+		expect(completed.endedAt).not.toBeNull();
+		expect(idleStore.gaps).toEqual([completed]);
+		expect(idleStore.isIdle).toBe(false);
+	});
+
+	it('throws when starting a gap while idle or ending one while not', async () => {
+		const { idleStore } = await import('$lib/stores/idleStore.svelte');
+
+		expect(() => idleStore.endGap()).toThrow('Not idle');
+
+		idleStore.startGap(null);
+		expect(() => idleStore.startGap(null)).toThrow('Already idle');
+	});
+
+	it('marks the active gap and completed gaps as breaks', async () => {
+		const { idleStore } = await import('$lib/stores/idleStore.svelte');
+
+		const first = idleStore.startGap('task-1');
+		idleStore.endGap();
+		const second = idleStore.startGap('task-2');
+
+		expect(idleStore.setKind(first.gapId, 'break')).toBe(true);
+		expect(idleStore.setKind(second.gapId, 'break')).toBe(true);
+		expect(idleStore.setKind('missing', 'break')).toBe(false);
+
+		expect(idleStore.gaps[0].kind).toBe('break');
+		expect(idleStore.activeGap?.kind).toBe('break');
+		expect(idleStore.allGapsForPersistence).toHaveLength(2);
+	});
+
+	it('restores an active gap from its start time', async () => {
+		const { idleStore } = await import('$lib/stores/idleStore.svelte');
+
+		const wasIdle = idleStore.restore([
+			{
+				gapId: 'gap-1',
+				afterTaskId: 'task-1',
+				kind: 'unallocated',
+				startedAt: new Date(START - 5 * MINUTE_MS).toISOString(),
+				endedAt: null,
+				durationSec: 0
+			}
+		]);
+
+		expect(wasIdle).toBe(true);
+		expect(idleStore.elapsedMs).toBe(5 * MINUTE_MS);
+		expect(idleStore.timelineGaps[0].durationSec).toBe(300);
+		expect(idleStore.gaps).toEqual([]);
+	});
+
+	it('resumes idle time after the same task, only after an earlier gap', async () => {
+		const { idleStore } = await import('$lib/stores/idleStore.svelte');
+
+		expect(idleStore.resumeGap()).toBeNull();
+
+		idleStore.startGap('task-1');
+		expect(idleStore.resumeGap()).toBeNull();
+		idleStore.endGap();
+
+		expect(idleStore.resumeGap()?.afterTaskId).toBe('task-1');
+		expect(idleStore.isIdle).toBe(true);
+	});
+
+	it('keeps a break when going back to idle time', async () => {
+		const { idleStore } = await import('$lib/stores/idleStore.svelte');
+
+		const gap = idleStore.startGap('task-1');
+		idleStore.setKind(gap.gapId, 'break');
+		idleStore.endGap();
+
+		expect(idleStore.resumeGap()?.kind).toBe('break');
+	});
+
+	it('counts idle time on both sides of an interruption as lag', async () => {
+		const { idleStore } = await import('$lib/stores/idleStore.svelte');
+		const { interruptionStore } = await import('$lib/stores/interruptionStore.svelte');
+		const { calculateGapLagSec, calculateIdleSinceTaskSec } = await import('$lib/services/idle');
+
+		const previousTask = {
+			taskId: 'task-1',
+			name: 'Task 1',
+			plannedStart: new Date(START - 60 * MINUTE_MS),
+			plannedDurationSec: 3600,
+			type: 'flexible' as const,
+			sortOrder: 0,
+			status: 'complete' as const
+		};
+		// 10 minutes of planned slack before the next task
+		const nextTask = {
+			...previousTask,
+			taskId: 'task-2',
+			plannedStart: new Date(START + 10 * MINUTE_MS),
+			sortOrder: 1
+		};
+
+		// Idle, interrupted, idle again, then the next task starts: as the page does it
+		idleStore.startGap('task-1');
+		setMinutesSinceStart(10);
+		interruptionStore.startInterruption(null);
+		idleStore.autoEndGap();
+		setMinutesSinceStart(15);
+		interruptionStore.endInterruption();
+		idleStore.resumeGap();
+		setMinutesSinceStart(20);
+		const gap = idleStore.endGap();
+
+		const idleSec = calculateIdleSinceTaskSec(idleStore.gaps, gap.afterTaskId);
+		expect(idleSec).toBe(15 * 60);
+		expect(calculateGapLagSec(idleSec, previousTask, nextTask)).toBe(5 * 60);
+	});
+
+	it('counts idle time on both sides of a day pause', async () => {
+		const { idleStore } = await import('$lib/stores/idleStore.svelte');
+		const { calculateIdleSinceTaskSec } = await import('$lib/services/idle');
+
+		// A break between tasks, paused for lunch, then resumed: as the page does it
+		const gap = idleStore.startGap('task-1');
+		idleStore.setKind(gap.gapId, 'break');
+		setMinutesSinceStart(5);
+		idleStore.autoEndGap();
+		setMinutesSinceStart(35);
+		expect(idleStore.resumeGap()?.kind).toBe('break');
+		setMinutesSinceStart(45);
+		idleStore.endGap();
+
+		expect(calculateIdleSinceTaskSec(idleStore.gaps, 'task-1')).toBe(15 * 60);
+	});
+
+	it('never counts interrupted time between tasks as idle time', async () => {
+		const { idleStore } = await import('$lib/stores/idleStore.svelte');
+		const { interruptionStore } = await import('$lib/stores/interruptionStore.svelte');
+		const { calculateIdleTotals } = await import('$lib/services/idle');
+
+		// Idle after a task, interrupted, then idle again: as the page does it
+		idleStore.startGap('task-1');
+		setMinutesSinceStart(5);
+		interruptionStore.startInterruption(null);
+		idleStore.autoEndGap();
+		setMinutesSinceStart(15);
+		interruptionStore.endInterruption();
+		idleStore.resumeGap();
+		setMinutesSinceStart(20);
+
+		const idle = calculateIdleTotals(idleStore.timelineGaps);
+		const interruptedSec = interruptionStore.interruptions.reduce(
+			(sum, i) => sum + i.durationSec,
+			0
+		);
+
+		expect(idle.unallocatedSec).toBe(10 * 60);
+		expect(interruptedSec).toBe(10 * 60);
+		expect(idle.unallocatedSec + interruptedSec).toBeLessThanOrEqual(20 * 60);
+	});
+
+	it('clears gaps on reset', async () => {
+		const { idleStore } = await import('$lib/stores/idleStore.svelte');
+
+		idleStore.startGap('task-1');
+		idleStore.endGap();
+		idleStore.startGap('task-2');
+		idleStore.reset();
+
+		expect(idleStore.gaps).toEqual([]);
+		expect(idleStore.isIdle).toBe(false);
+	});
+});
@@ -0,0 +1,169 @@
+/**
+ * Interruption Categories Tests
+ *
+ * Feature: 034-interruption-categories
+ *
+ * Tests for looking up, checking and totaling interruption categories,
+ * and managing them in the settings store.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	getActiveCategories,
+	getCategoryColor,
+	getCategoryName,
+	getCategoryNameError,
+	totalByCategory
+} from '$lib/services/interruptionCategories';
+import type { Interruption, InterruptionCategory } from '$lib/types';
+import { DEFAULT_INTERRUPTION_CATEGORIES } from '$lib/types';
+
+function createInterruption(durationSec: number, category: string | null): Interruption {
+	return {
+		interruptionId: crypto.randomUUID(),
+		taskId: 'task-1',
+		startedAt: '2025-12-19T09:10:00.000Z',
+		endedAt: '2025-12-19T09:15:00.000Z',
+		durationSec,
+		category,
+		note: null
+	};
+}
+
+const categories: InterruptionCategory[] = [
+	{ categoryId: 'phone', name: 'Phone', color: '#3b82f6', defaultNote: '', archived: false },
+	{ categoryId: 'meeting', name: 'Meeting', color: '#ef4444', defaultNote: 'Ad-hoc', archived: true }
+];
+
+// =============================================================================
+// Lookup tests
+// =============================================================================
+
+describe('category lookup', () => {
+	it('names known, unknown and missing categories', () => {
+		expect(getCategoryName(categories, 'meeting')).toBe('Meeting');
+		expect(getCategoryName(categories, 'Luci')).toBe('Luci');
+		expect(getCategoryName(categories, null)).toBe('');
+		expect(getCategoryColor(categories, 'Luci')).toBe('#9ca3af');
+	});
+
+	it('leaves archived categories out unless selected', () => {
+		expect(getActiveCategories(categories).map((c) => c.categoryId)).toEqual(['phone']);
+		expect(getActiveCategories(categories, 'meeting')).toHaveLength(2);
+	});
+});
+
+// =============================================================================
+// getCategoryNameError tests
+// =============================================================================
+
+describe('getCategoryNameError', () => {
+	it('requires a unique name of at most 30 characters', () => {
+		expect(getCategoryNameError('  ', categories)).toBe('Category name is required');
+		expect(getCategoryNameError('x'.repeat(31), categories)).toMatch(/30 characters/);
+		expect(getCategoryNameError(' phone ', categories)).toBe(
+			'A category named "phone" already exists'
+		);
+		expect(getCategoryNameError('Phone', categories, 'phone')).toBeNull();
+		expect(getCategoryNameError('Email', categories)).toBeNull();
+	});
+});
+
+// =============================================================================
+// totalByCategory tests
+// =============================================================================
+
+describe('totalByCategory', () => {
+	it('totals interruptions in list order, then unknown, then uncategorized', () => {
+		const totals = totalByCategory(
+			[
+				createInterruption(60, null),
+				createInterruption(120, 'Luci'),
+				createInterruption(300, 'meeting'),
+				createInterruption(30, 'phone'),
+				createInterruption(90, 'phone')
+			],
+			categories
+		);
+
+		expect(totals.map((t) => [t.name, t.count, t.totalSec])).toEqual([
+			['Phone', 2, 120],
+			['Meeting', 1, 300],
+			['Luci', 1, 120],
+			['Uncategorized', 1, 60]
+		]);
+		expect(totals[1].color).toBe('#ef4444');
+	});
+});
+
+// =============================================================================
+// settingsStore category actions
+// =============================================================================
+
+describe('settingsStore interruption categories', () => {
+	beforeEach(() => {
+		// Mock localStorage
+		const store: Record<string, string> = {};
+		vi.spyOn(Storage.prototype, 'getItem').mockImplementation((key: string) => store[key] || null);
+		vi.spyOn(Storage.prototype, 'setItem').mockImplementation((key: string, value: string) => {
+			store[key] = value;
+		});
+		vi.spyOn(Storage.prototype, 'removeItem').mockImplementation((key: string) => {
+			delete store[key];
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.resetModules();
+	});
+
+	it('starts with the default categories', async () => {
+		const { settingsStore } = await import('$lib/stores/settingsStore.svelte');
+
+		expect(settingsStore.interruptionCategories).toEqual(DEFAULT_INTERRUPTION_CATEGORIES);
+	});
+
+	it('adds, renames, recolors and archives categories and keeps them across reloads', async () => {
+		const { settingsStore } = await import('$lib/stores/settingsStore.svelte');
+
+		const added = settingsStore.addInterruptionCategory('  Slack  ');
+		expect(added?.name).toBe('Slack');
+		expect(settingsStore.addInterruptionCategory('slack')).toBeNull();
+
+		const id = added!.categoryId;
+		expect(settingsStore.renameInterruptionCategory(id, 'Chat')).toBe(true);
+		expect(settingsStore.renameInterruptionCategory(id, 'Phone')).toBe(false);
+		expect(settingsStore.setInterruptionCategoryColor(id, '#ABCDEF')).toBe(true);
+		expect(settingsStore.setInterruptionCategoryColor(id, 'red')).toBe(false);
+		settingsStore.setInterruptionCategoryDefaultNote(id, '  Answered a message ');
+		settingsStore.setInterruptionCategoryArchived(id, true);
+
+		vi.resetModules();
+		const reloaded = (await import('$lib/stores/settingsStore.svelte')).settingsStore;
+		reloaded.load();
+
+		expect(reloaded.interruptionCategories.at(-1)).toEqual({
+			categoryId: id,
+			name: 'Chat',
+			color: '#abcdef',
+			defaultNote: 'Answered a message',
+			archived: true
+		});
+	});
+
+	it('moves a category to another position', async () => {
+		const { settingsStore } = await import('$lib/stores/settingsStore.svelte');
+
+		expect(settingsStore.moveInterruptionCategory('other', 0)).toBe(true);
+		settingsStore.moveInterruptionCategory('phone', 99);
+
+		expect(settingsStore.interruptionCategories.map((c) => c.categoryId)).toEqual([
+			'other',
+			'colleague',
+			'personal',
+			'phone'
+		]);
+		expect(settingsStore.moveInterruptionCategory('missing', 0)).toBe(false);
+	});
+});
@@ -0,0 +1,62 @@
+/**
+ * Interruption Tasks Tests
+ *
+ * Feature: 038-interruption-to-task
+ *
+ * Tests for naming the task an interruption is turned into and deciding
+ * which interruptions can be turned into one.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canConvertToTask, getConvertedTaskName } from '$lib/services/interruptionTasks';
+import type { Interruption } from '$lib/types';
+import { DEFAULT_INTERRUPTION_CATEGORIES } from '$lib/types';
+
+function createInterruption(overrides: Partial<Interruption> = {}): Interruption {
+	return {
+		interruptionId: crypto.randomUUID(),
+		taskId: 'task-1',
+		startedAt: '2025-12-19T09:10:00.000Z',
+		endedAt: '2025-12-19T09:15:00.000Z',
+		durationSec: 300,
+		category: null,
+		note: null,
+		...overrides
+	};
+}
+
+// =============================================================================
+// getConvertedTaskName tests
+// =============================================================================
+
+describe('getConvertedTaskName', () => {
+	it('uses the note, then the category name, then a default', () => {
+		const categories = DEFAULT_INTERRUPTION_CATEGORIES;
+		const withNote = createInterruption({ note: ' Fix login bug ', category: 'phone' });
+
+		expect(getConvertedTaskName(withNote, categories)).toBe('Fix login bug');
+		expect(getConvertedTaskName(createInterruption({ category: 'phone' }), categories)).toBe(
+			'Phone'
+		);
+		expect(getConvertedTaskName(createInterruption(), categories)).toBe('Interruption');
+	});
+
+	it('cuts long notes to the task name limit', () => {
+		const name = getConvertedTaskName(createInterruption({ note: 'x'.repeat(300) }), []);
+
+		expect(name).toHaveLength(200);
+	});
+});
+
+// =============================================================================
+// canConvertToTask tests
+// =============================================================================
+
+describe('canConvertToTask', () => {
+	it('leaves out interruptions logged after the fact', () => {
+		const logged = createInterruption({ loggedAt: '2025-12-19T10:00:00.000Z' });
+
+		expect(canConvertToTask(createInterruption())).toBe(true);
+		expect(canConvertToTask(logged)).toBe(false);
+	});
+});
@@ -1,12 +1,23 @@
 import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
 import {
 	parseScheduleFile,
+	parseScheduleText,
+	inspectScheduleFile,
+	suggestColumnMapping,
+	isMappingComplete,
+	hasScheduleColumns,
+	getLayoutKey,
+	findSavedMapping,
+	isExportLayout,
 	isValidFileType,
 	isValidFileSize,
 	getSupportedExtensions,
 	getAcceptString
 } from '$lib/services/parser';
+import { generateExcelWorkbook, generateCSV } from '$lib/services/export';
 import { MAX_FILE_SIZE } from '$lib/types';
+import type { AnalyticsSummary, ConfirmedTask, TaskProgress } from '$lib/types';
 
 // Helper to create a mock File
 function createMockFile(
@@ -18,6 +29,15 @@ function createMockFile(
 	return new File([blob], name, { type });
 }
 
+// Helper to create a mock File whose contents can be read.
+// jsdom's File does not implement arrayBuffer(), so provide it
+function createReadableFile(name: string, content: ArrayBuffer | string, type?: string): File {
+	const file = createMockFile(name, content, type);
+	const buffer = typeof content === 'string' ? new TextEncoder().encode(content).buffer : content;
+	Object.defineProperty(file, 'arrayBuffer', { value: async () => buffer });
+	return file;
+}
+
 // Helper to create a large file
 function createLargeFile(sizeInBytes: number): File {
 	const content = new Uint8Array(sizeInBytes);
@@ -45,6 +65,11 @@ describe('Parser Service', () => {
 			expect(isValidFileType(file)).toBe(true);
 		});
 
+		it('accepts .ics files', () => {
+			const file = createMockFile('calendar.ics', '', 'text/calendar');
+			expect(isValidFileType(file)).toBe(true);
+		});
+
 		it('rejects .txt files', () => {
 			const file = createMockFile('schedule.txt', '', 'text/plain');
 			expect(isValidFileType(file)).toBe(false);
@@ -79,6 +104,7 @@ describe('Parser Service', () => {
 			expect(extensions).toContain('.xlsx');
 			expect(extensions).toContain('.xls');
 			expect(extensions).toContain('.csv');
+			expect(extensions).toContain('.ics');
 		});
 	});
 
@@ -88,6 +114,7 @@ describe('Parser Service', () => {
 			expect(accept).toContain('.xlsx');
 			expect(accept).toContain('.xls');
 			expect(accept).toContain('.csv');
+			expect(accept).toContain('.ics');
 		});
 	});
 });
@@ -119,3 +146,533 @@ describe('parseScheduleFile', () => {
 	// or creating actual test fixtures. These will be added in
 	// integration tests with real xlsx files.
 });
+
+// =============================================================================
+// Export Re-import (017-export-reimport)
+// =============================================================================
+
+describe('export re-import', () => {
+	const tasks: ConfirmedTask[] = [
+		{
+			taskId: 'task-1',
+			name: 'Standup',
+			plannedStart: new Date(2025, 11, 18, 9, 0, 0),
+			plannedDurationSec: 900,
+			type: 'fixed',
+			sortOrder: 0,
+			status: 'complete'
+		},
+		{
+			taskId: 'task-2',
+			name: 'Report',
+			plannedStart: new Date(2025, 11, 18, 9, 15, 0),
+			plannedDurationSec: 3600,
+			type: 'flexible',
+			sortOrder: 1,
+			status: 'pending'
+		},
+		{
+			taskId: 'task-3',
+			name: 'Review',
+			plannedStart: new Date(2025, 11, 18, 10, 15, 0),
+			plannedDurationSec: 1800,
+			type: 'flexible',
+			sortOrder: 2,
+			status: 'pending'
+		}
+	];
+
+	const progress: TaskProgress[] = [
+		{
+			taskId: 'task-1',
+			plannedDurationSec: 900,
+			actualDurationSec: 840,
+			completedAt: '2025-12-18T09:14:00.000Z',
+			status: 'complete'
+		},
+		{
+			taskId: 'task-2',
+			plannedDurationSec: 3600,
+			actualDurationSec: 0,
+			completedAt: null,
+			status: 'missed'
+		},
+		{
+			taskId: 'task-3',
+			plannedDurationSec: 1800,
+			actualDurationSec: 0,
+			completedAt: null,
+			status: 'pending'
+		}
+	];
+
+	const summary: AnalyticsSummary = {
+		totalPlannedSec: 6300,
+		totalActualSec: 840,
+		tasksCompleted: 1,
+		totalTasks: 3,
+		scheduleAdherence: 100,
+		concentrationScore: 100,
+		concentrationRating: 'Excellent',
+		totalInterruptionCount: 0,
+		totalInterruptionSec: 0,
+		noTaskInterruptionCount: 0,
+		noTaskInterruptionSec: 0,
+		adHocTaskCount: 0,
+		importedTaskCount: 3,
+		unallocatedSec: 0,
+		breakSec: 0
+	};
+
+	function createExportWorkbookFile(): File {
+		const workbook = generateExcelWorkbook(
+			tasks,
+			progress,
+			[],
+			[],
+			summary,
+			'2025-12-18T09:00:00.000Z',
+			null
+		);
+		const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+		return createReadableFile('2025-12-18_productivity.xlsx', buffer);
+	}
+
+	it('detects the export column layout', () => {
+		expect(isExportLayout(['Task Name', 'Type', 'Planned Start', 'Planned Duration', 'Status'])).toBe(true);
+		expect(isExportLayout(['Task Name', 'Start Time', 'Duration', 'Type'])).toBe(false);
+	});
+
+	it('imports every task from an exported workbook', async () => {
+		const result = await parseScheduleFile(createExportWorkbookFile());
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks.map((t) => t.name)).toEqual(['Standup', 'Report', 'Review']);
+			expect(result.tasks[0].type).toBe('fixed');
+			expect(result.tasks[0].startTime.getHours()).toBe(9);
+			expect(result.tasks[1].durationSeconds).toBe(3600);
+		}
+	});
+
+	it('carries over only unfinished tasks when requested', async () => {
+		const result = await parseScheduleFile(createExportWorkbookFile(), { unfinishedOnly: true });
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks.map((t) => t.name)).toEqual(['Report', 'Review']);
+		}
+	});
+
+	it('reads an exported tasks CSV', async () => {
+		const csv = generateCSV(
+			['Task Name', 'Type', 'Planned Start', 'Planned Duration', 'Status'],
+			[
+				['Standup', 'fixed', '09:00:00', '00:15:00', 'Complete'],
+				['Report', 'flexible', '09:15:00', '01:00:00', 'Missed']
+			]
+		);
+		const file = createReadableFile('2025-12-18_tasks.csv', csv, 'text/csv');
+
+		const result = await parseScheduleFile(file, { unfinishedOnly: true });
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks).toHaveLength(1);
+			expect(result.tasks[0].name).toBe('Report');
+		}
+	});
+
+	it('reports an error when no unfinished tasks remain', async () => {
+		const csv = generateCSV(
+			['Task Name', 'Type', 'Planned Start', 'Planned Duration', 'Status'],
+			[['Standup', 'fixed', '09:00:00', '00:15:00', 'Complete']]
+		);
+		const file = createReadableFile('tasks.csv', csv, 'text/csv');
+
+		const result = await parseScheduleFile(file, { unfinishedOnly: true });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0].message).toContain('No unfinished tasks');
+		}
+	});
+});
+
+// =============================================================================
+// Task Metadata Columns (018-task-metadata)
+// =============================================================================
+
+describe('optional task metadata columns', () => {
+	const HEADERS = ['Task Name', 'Start Time', 'Duration', 'Type', 'Project', 'Tags', 'Priority', 'Notes'];
+
+	function createScheduleCSV(rows: string[][], headers: string[] = HEADERS): File {
+		return createReadableFile('schedule.csv', generateCSV(headers, rows), 'text/csv');
+	}
+
+	it('reads project, tags, priority and notes', async () => {
+		const file = createScheduleCSV([
+			['Standup', '09:00', '15m', 'fixed', 'Team', 'daily; sync', 'High', 'Share blockers'],
+			['Report', '', '1h', 'flexible', '', '', '', '']
+		]);
+
+		const result = await parseScheduleFile(file);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			const standup = result.tasks.find((t) => t.name === 'Standup')!;
+			expect(standup.project).toBe('Team');
+			expect(standup.tags).toEqual(['daily', 'sync']);
+			expect(standup.priority).toBe('high');
+			expect(standup.notes).toBe('Share blockers');
+
+			const report = result.tasks.find((t) => t.name === 'Report')!;
+			expect(report.project).toBeUndefined();
+			expect(report.tags).toBeUndefined();
+			expect(report.priority).toBeUndefined();
+			expect(report.notes).toBeUndefined();
+		}
+	});
+
+	it('matches optional columns case-insensitively in any order', async () => {
+		const file = createScheduleCSV(
+			[['Standup', '09:00', '15m', 'fixed', 'urgent', 'Team']],
+			['task name', 'start time', 'duration', 'type', 'TAGS', 'project']
+		);
+
+		const result = await parseScheduleFile(file);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks[0].project).toBe('Team');
+			expect(result.tasks[0].tags).toEqual(['urgent']);
+		}
+	});
+
+	it('reports an invalid priority with its row', async () => {
+		const file = createScheduleCSV([
+			['Standup', '09:00', '15m', 'fixed', '', '', 'high', ''],
+			['Report', '10:00', '1h', 'fixed', '', '', 'someday', '']
+		]);
+
+		const result = await parseScheduleFile(file);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors).toHaveLength(1);
+			expect(result.errors[0].row).toBe(3);
+			expect(result.errors[0].column).toBe('Priority');
+			expect(result.errors[0].value).toBe('someday');
+		}
+	});
+
+	it('reports project, tag and notes values that are too long', async () => {
+		const file = createScheduleCSV([
+			['Standup', '09:00', '15m', 'fixed', 'p'.repeat(101), 't'.repeat(51), '', 'n'.repeat(501)]
+		]);
+
+		const result = await parseScheduleFile(file);
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors.map((e) => e.column)).toEqual(['Project', 'Tags', 'Notes']);
+			expect(result.errors.every((e) => e.row === 2)).toBe(true);
+		}
+	});
+
+	it('keeps metadata when re-importing an export', async () => {
+		const tasks: ConfirmedTask[] = [
+			{
+				taskId: 't1',
+				name: 'Report',
+				plannedStart: new Date('2025-12-18T09:00:00'),
+				plannedDurationSec: 3600,
+				type: 'flexible',
+				sortOrder: 0,
+				status: 'pending',
+				project: 'Finance',
+				tags: ['q4', 'board'],
+				priority: 'medium',
+				notes: 'Use the new template'
+			}
+		];
+		const progress: TaskProgress[] = [
+			{
+				taskId: 't1',
+				plannedDurationSec: 3600,
+				actualDurationSec: 0,
+				completedAt: null,
+				status: 'pending'
+			}
+		];
+		const summary: AnalyticsSummary = {
+			totalPlannedSec: 3600,
+			totalActualSec: 0,
+			tasksCompleted: 0,
+			totalTasks: 1,
+			scheduleAdherence: 0,
+			concentrationScore: 100,
+			concentrationRating: 'Excellent',
+			totalInterruptionCount: 0,
+			totalInterruptionSec: 0,
+			noTaskInterruptionCount: 0,
+			noTaskInterruptionSec: 0,
+			adHocTaskCount: 0,
+			importedTaskCount: 1,
+			unallocatedSec: 0,
+			breakSec: 0
+		};
+		const workbook = generateExcelWorkbook(tasks, progress, [], [], summary, '2025-12-18T09:00:00.000Z', null);
+		const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+		const file = createReadableFile('2025-12-18_productivity.xlsx', buffer);
+
+		const result = await parseScheduleFile(file);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks[0].project).toBe('Finance');
+			expect(result.tasks[0].tags).toEqual(['q4', 'board']);
+			expect(result.tasks[0].priority).toBe('medium');
+			expect(result.tasks[0].notes).toBe('Use the new template');
+		}
+	});
+});
+
+// =============================================================================
+// Sheet Picker and Column Mapping (019-column-mapping)
+// =============================================================================
+
+describe('column mapping', () => {
+	function createWorkbookFile(sheets: Record<string, string[][]>): File {
+		const workbook = XLSX.utils.book_new();
+		for (const [name, rows] of Object.entries(sheets)) {
+			XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+		}
+		const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+		return createReadableFile('planner.xlsx', buffer);
+	}
+
+	const plannerRows = [
+		['Activity', 'Begin', 'Length', 'Kind', 'Client'],
+		['Standup', '09:00', '15m', 'fixed', 'Acme'],
+		['Write report', '', '1h', 'flexible', '']
+	];
+
+	it('lists sheets with headers and a sample row', async () => {
+		const file = createWorkbookFile({ Cover: [['Weekly plan']], Plan: plannerRows });
+
+		const result = await inspectScheduleFile(file);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.defaultSheet).toBe('Cover');
+			expect(result.sheets.map((s) => s.name)).toEqual(['Cover', 'Plan']);
+			expect(result.sheets[1].headers).toEqual(plannerRows[0]);
+			expect(result.sheets[1].sampleRow).toEqual(plannerRows[1]);
+		}
+	});
+
+	it('suggests columns from header synonyms', () => {
+		const mapping = suggestColumnMapping(plannerRows[0]);
+
+		expect(mapping).toEqual({
+			'Task Name': 'Activity',
+			'Start Time': 'Begin',
+			Duration: 'Length',
+			Type: 'Kind',
+			Project: 'Client'
+		});
+		expect(isMappingComplete(mapping)).toBe(true);
+	});
+
+	it('prefers exact field names and uses each header once', () => {
+		const mapping = suggestColumnMapping(['Name', 'Task Name', 'Time', 'Duration']);
+
+		expect(mapping['Task Name']).toBe('Task Name');
+		expect(mapping['Start Time']).toBe('Time');
+		expect(isMappingComplete(mapping)).toBe(false);
+	});
+
+	it('only skips the mapping step for template or export headers', () => {
+		expect(hasScheduleColumns(['Task Name', 'Start Time', 'Duration', 'Type'])).toBe(true);
+		expect(hasScheduleColumns(['Task Name', 'Type', 'Planned Start', 'Planned Duration'])).toBe(true);
+		expect(hasScheduleColumns(plannerRows[0])).toBe(false);
+	});
+
+	it('parses the chosen sheet with a column mapping', async () => {
+		const file = createWorkbookFile({ Cover: [['Weekly plan']], Plan: plannerRows });
+
+		const result = await parseScheduleFile(file, {
+			sheetName: 'Plan',
+			columnMapping: suggestColumnMapping(plannerRows[0])
+		});
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks.map((t) => t.name).sort()).toEqual(['Standup', 'Write report']);
+			expect(result.tasks.find((t) => t.name === 'Standup')?.project).toBe('Acme');
+		}
+	});
+
+	it('reports unmapped required fields', async () => {
+		const file = createWorkbookFile({ Plan: plannerRows });
+
+		const result = await parseScheduleFile(file, {
+			sheetName: 'Plan',
+			columnMapping: { 'Task Name': 'Activity', Duration: 'Length', Type: 'Kind' }
+		});
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0].message).toBe("Required column 'Start Time' not found.");
+		}
+	});
+
+	it('reports a sheet that does not exist', async () => {
+		const file = createWorkbookFile({ Plan: plannerRows });
+
+		const result = await parseScheduleFile(file, { sheetName: 'Missing' });
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0].message).toContain("Sheet 'Missing' not found");
+		}
+	});
+
+	it('finds a remembered mapping by sheet and layout', () => {
+		const sheets = [{ name: 'Plan', headers: plannerRows[0], sampleRow: plannerRows[1] }];
+		const saved = {
+			layoutKey: getLayoutKey([' activity', 'BEGIN', 'length', 'kind', 'client ']),
+			sheetName: 'Plan',
+			columnMapping: suggestColumnMapping(plannerRows[0])
+		};
+
+		expect(findSavedMapping(sheets, [saved])).toBe(saved);
+		expect(findSavedMapping(sheets, [{ ...saved, sheetName: 'Other' }])).toBeUndefined();
+		expect(findSavedMapping(sheets, [{ ...saved, layoutKey: 'activity|begin' }])).toBeUndefined();
+	});
+});
+
+// =============================================================================
+// Plain-text Import (020-text-import)
+// =============================================================================
+
+describe('parseScheduleText', () => {
+	it('reads time, name, duration and type from each line', () => {
+		const result = parseScheduleText('09:00 Standup 15m fixed\nDeep work 2h');
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			const standup = result.tasks.find((t) => t.name === 'Standup')!;
+			expect(standup.type).toBe('fixed');
+			expect(standup.startTime.getHours()).toBe(9);
+			expect(standup.durationSeconds).toBe(900);
+
+			const deepWork = result.tasks.find((t) => t.name === 'Deep work')!;
+			expect(deepWork.type).toBe('flexible');
+			expect(deepWork.durationSeconds).toBe(7200);
+		}
+	});
+
+	it('accepts 12-hour times, combined durations and list markers', () => {
+		const result = parseScheduleText('- 1:30 PM Client call 1h 30m\n* Email triage 20m flexible');
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			const call = result.tasks.find((t) => t.name === 'Client call')!;
+			expect(call.startTime.getHours()).toBe(13);
+			expect(call.durationSeconds).toBe(5400);
+			expect(call.type).toBe('fixed');
+			expect(result.tasks.find((t) => t.name === 'Email triage')?.type).toBe('flexible');
+		}
+	});
+
+	it('reports lines without a duration with their line number', () => {
+		const result = parseScheduleText('Standup 15m\n\nPlan the week');
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors).toHaveLength(1);
+			expect(result.errors[0].row).toBe(3);
+			expect(result.errors[0].column).toBe('Duration');
+		}
+	});
+
+	it('requires a start time for fixed tasks', () => {
+		const result = parseScheduleText('Standup 15m fixed');
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0].column).toBe('Start Time');
+		}
+	});
+
+	it('reports empty text', () => {
+		const result = parseScheduleText('  \n ');
+
+		expect(result.success).toBe(false);
+		if (!result.success) {
+			expect(result.errors[0].message).toContain('No tasks found');
+		}
+	});
+
+	it('reads tab-separated rows copied from a spreadsheet', () => {
+		const result = parseScheduleText(
+			'Task Name\tStart Time\tDuration\tType\tProject\nStandup\t09:00\t15m\tfixed\tTeam'
+		);
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks[0].name).toBe('Standup');
+			expect(result.tasks[0].project).toBe('Team');
+		}
+	});
+
+	it('maps synonym headers in tab-separated rows', () => {
+		const result = parseScheduleText('Activity\tBegin\tLength\tKind\nReview\t\t30m\tflexible');
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks[0].name).toBe('Review');
+			expect(result.tasks[0].durationSeconds).toBe(1800);
+		}
+	});
+
+	it('reads tab-separated rows without headers as plain lines', () => {
+		const result = parseScheduleText('10:00\tStandup\t15m\nWrite docs\t1h');
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks.map((t) => t.name).sort()).toEqual(['Standup', 'Write docs']);
+		}
+	});
+});
+
+// =============================================================================
+// iCalendar Files (021-ics-import)
+// =============================================================================
+
+describe('parseScheduleFile with .ics files', () => {
+	it('imports the events of the chosen day as fixed tasks', async () => {
+		const ics = [
+			'BEGIN:VCALENDAR',
+			'BEGIN:VEVENT',
+			'SUMMARY:Standup',
+			'DTSTART:20251218T090000',
+			'DTEND:20251218T091500',
+			'END:VEVENT',
+			'END:VCALENDAR'
+		].join('\r\n');
+		const file = createReadableFile('calendar.ics', ics, 'text/calendar');
+
+		const result = await parseScheduleFile(file, { calendarDate: new Date(2025, 11, 18) });
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.tasks).toHaveLength(1);
+			expect(result.tasks[0].name).toBe('Standup');
+			expect(result.tasks[0].type).toBe('fixed');
+			expect(result.tasks[0].durationSeconds).toBe(900);
+		}
+	});
+});
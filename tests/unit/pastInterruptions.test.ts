@@ -0,0 +1,133 @@
+/**
+ * Past Interruptions Tests
+ *
+ * Feature: 036-past-interruptions
+ *
+ * Tests for checking interruptions logged after the fact and finding the
+ * task they belong to.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	findInterruptedTask,
+	getInterruptedWorkSec,
+	getPastInterruptionError
+} from '$lib/services/pastInterruptions';
+import type { Interruption, TaskProgress } from '$lib/types';
+
+function at(hours: number, minutes: number): Date {
+	return new Date(2025, 11, 19, hours, minutes);
+}
+
+// Task a worked 09:00-09:30, task b active since 09:30
+const taskProgress: TaskProgress[] = [
+	{
+		taskId: 'a',
+		plannedDurationSec: 1800,
+		actualDurationSec: 1800,
+		completedAt: at(9, 30).toISOString(),
+		status: 'complete',
+		segments: [
+			{ startedAt: at(9, 0).toISOString(), endedAt: at(9, 30).toISOString(), elapsedSec: 1800 }
+		]
+	},
+	{
+		taskId: 'b',
+		plannedDurationSec: 3600,
+		actualDurationSec: 0,
+		completedAt: null,
+		status: 'active',
+		segments: [{ startedAt: at(9, 30).toISOString(), endedAt: null, elapsedSec: 0 }]
+	},
+	{
+		taskId: 'c',
+		plannedDurationSec: 600,
+		actualDurationSec: 0,
+		completedAt: null,
+		status: 'pending'
+	}
+];
+
+const now = at(10, 0);
+
+// =============================================================================
+// getInterruptedWorkSec tests
+// =============================================================================
+
+describe('getInterruptedWorkSec', () => {
+	it('counts only the part of the interruption during the task', () => {
+		const interruption: Interruption = {
+			interruptionId: 'logged',
+			taskId: 'b',
+			startedAt: at(9, 25).toISOString(),
+			endedAt: at(9, 40).toISOString(),
+			durationSec: 900,
+			category: null,
+			note: null,
+			loggedAt: now.toISOString()
+		};
+
+		expect(getInterruptedWorkSec(taskProgress[0], interruption, now)).toBe(300);
+		expect(getInterruptedWorkSec(taskProgress[1], interruption, now)).toBe(600);
+		expect(getInterruptedWorkSec(taskProgress[2], interruption, now)).toBe(0);
+	});
+});
+
+// =============================================================================
+// findInterruptedTask tests
+// =============================================================================
+
+describe('findInterruptedTask', () => {
+	it('picks the task worked on during the interruption', () => {
+		expect(findInterruptedTask(taskProgress, at(9, 10), 600, now)).toBe('a');
+		expect(findInterruptedTask(taskProgress, at(9, 50), 600, now)).toBe('b');
+	});
+
+	it('picks the task with the most overlap when spanning a switch', () => {
+		expect(findInterruptedTask(taskProgress, at(9, 25), 900, now)).toBe('b');
+	});
+
+	it('returns null outside any work', () => {
+		expect(findInterruptedTask(taskProgress, at(8, 30), 600, now)).toBeNull();
+	});
+});
+
+// =============================================================================
+// getPastInterruptionError tests
+// =============================================================================
+
+describe('getPastInterruptionError', () => {
+	const recorded: Interruption[] = [
+		{
+			interruptionId: 'i1',
+			taskId: 'a',
+			startedAt: at(9, 10).toISOString(),
+			endedAt: at(9, 12).toISOString(),
+			durationSec: 120,
+			category: null,
+			note: null
+		}
+	];
+
+	it('accepts the last minutes of the active task', () => {
+		expect(getPastInterruptionError(taskProgress, recorded, at(9, 50), 600, now)).toBeNull();
+	});
+
+	it('rejects empty, future and unworked intervals', () => {
+		expect(getPastInterruptionError(taskProgress, recorded, at(9, 50), 0, now)).toBe(
+			'Duration must be more than 0'
+		);
+		expect(getPastInterruptionError(taskProgress, recorded, at(9, 55), 600, now)).toBe(
+			'The interruption cannot end in the future'
+		);
+		expect(getPastInterruptionError(taskProgress, recorded, at(8, 0), 600, now)).toBe(
+			'The interruption must overlap the time a task was worked on'
+		);
+	});
+
+	it('rejects intervals overlapping a recorded interruption', () => {
+		expect(getPastInterruptionError(taskProgress, recorded, at(9, 5), 360, now)).toBe(
+			'The interruption overlaps one already recorded'
+		);
+	});
+});
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for pomodoroStore
+ *
+ * Feature: 026-pomodoro
+ *
+ * Tests: focus intervals, short/long breaks, skipBreak, restore, getBreakPlan
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const START = new Date('2025-12-19T09:00:00.000Z').getTime();
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Move the clock without firing animation frames
+ */
+function setMinutesSinceStart(minutes: number): void {
+	vi.setSystemTime(new Date(START + minutes * MINUTE_MS));
+}
+
+describe('pomodoroStore', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date(START));
+
+		// Mock localStorage
+		const store: Record<string, string> = {};
+		vi.spyOn(Storage.prototype, 'getItem').mockImplementation((key: string) => store[key] || null);
+		vi.spyOn(Storage.prototype, 'setItem').mockImplementation((key: string, value: string) => {
+			store[key] = value;
+		});
+		vi.spyOn(Storage.prototype, 'removeItem').mockImplementation((key: string) => {
+			delete store[key];
+		});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+		vi.resetModules();
+	});
+
+	async function loadStores(enabled = true) {
+		const { settingsStore } = await import('$lib/stores/settingsStore.svelte');
+		const { pomodoroStore } = await import('$lib/stores/pomodoroStore.svelte');
+		settingsStore.setPomodoroEnabled(enabled);
+		return { settingsStore, pomodoroStore };
+	}
+
+	it('does not track focus when Pomodoro mode is off', async () => {
+		const { pomodoroStore } = await loadStores(false);
+
+		pomodoroStore.startFocus();
+
+		expect(pomodoroStore.isFocusing).toBe(false);
+		expect(pomodoroStore.getBreakPlan()).toBeNull();
+	});
+
+	it('makes a break due once the focus interval is done', async () => {
+		const { pomodoroStore } = await loadStores();
+
+		pomodoroStore.startFocus();
+		setMinutesSinceStart(24);
+		pomodoroStore.pauseFocus();
+		expect(pomodoroStore.isBreakDue).toBe(false);
+		expect(pomodoroStore.focusRemainingMs).toBe(MINUTE_MS);
+
+		pomodoroStore.startFocus();
+		setMinutesSinceStart(26);
+		pomodoroStore.pauseFocus();
+		expect(pomodoroStore.isBreakDue).toBe(true);
+	});
+
+	it('records a break with its duration and paused task position', async () => {
+		const { pomodoroStore } = await loadStores();
+
+		const started = pomodoroStore.startBreak('task-1', 90_000);
+		expect(started.kind).toBe('short');
+		expect(started.plannedDurationSec).toBe(300);
+		expect(pomodoroStore.isOnBreak).toBe(true);
+		expect(pomodoroStore.pausedTaskElapsedMs).toBe(90_000);
+
+		setMinutesSinceStart(6);
+		const completed = pomodoroStore.endBreak();
+
+		expect(completed.durationSec).toBe(360);
+		expect(completed.endedAt).not.toBeNull();
+		expect(pomodoroStore.breaks).toEqual([completed]);
+		expect(pomodoroStore.isOnBreak).toBe(false);
+		expect(pomodoroStore.pausedTaskElapsedMs).toBeNull();
+	});
+
+	it('makes every fourth break a long break, counting skipped ones', async () => {
+		const { pomodoroStore } = await loadStores();
+
+		pomodoroStore.skipBreak();
+		pomodoroStore.skipBreak();
+		pomodoroStore.skipBreak();
+		expect(pomodoroStore.nextBreakKind).toBe('long');
+
+		const started = pomodoroStore.startBreak(null, null);
+		expect(started.kind).toBe('long');
+		expect(started.plannedDurationSec).toBe(15 * 60);
+		expect(pomodoroStore.completedFocusCount).toBe(4);
+	});
+
+	it('throws when starting a break while on one', async () => {
+		const { pomodoroStore } = await loadStores();
+
+		pomodoroStore.startBreak(null, null);
+
+		expect(() => pomodoroStore.startBreak(null, null)).toThrow('Already on a break');
+	});
+
+	it('restores an active break from its start time', async () => {
+		const { pomodoroStore } = await loadStores();
+
+		const wasOnBreak = pomodoroStore.restore({
+			breaks: [
+				{
+					breakId: 'b-1',
+					taskId: 'task-1',
+					kind: 'short',
+					startedAt: new Date(START - 2 * MINUTE_MS).toISOString(),
+					endedAt: null,
+					durationSec: 0,
+					plannedDurationSec: 300
+				}
+			],
+			focusElapsedMs: 0,
+			completedFocusCount: 1,
+			pausedTaskElapsedMs: 60_000
+		});
+
+		expect(wasOnBreak).toBe(true);
+		expect(pomodoroStore.breakRemainingMs).toBe(3 * MINUTE_MS);
+		expect(pomodoroStore.pausedTaskElapsedMs).toBe(60_000);
+		expect(pomodoroStore.persistedState.breaks).toHaveLength(1);
+	});
+
+	it('describes focus progress and break lengths in the break plan', async () => {
+		const { settingsStore, pomodoroStore } = await loadStores();
+		settingsStore.setPomodoroFocusMinutes(50);
+		settingsStore.setPomodoroShortBreakMinutes(10);
+
+		pomodoroStore.startFocus();
+		setMinutesSinceStart(20);
+		pomodoroStore.pauseFocus();
+
+		expect(pomodoroStore.getBreakPlan()).toEqual({
+			focusSec: 3000,
+			shortBreakSec: 600,
+			longBreakSec: 900,
+			longBreakEvery: 4,
+			focusElapsedSec: 1200,
+			completedFocusCount: 0,
+			breakRemainingSec: 0
+		});
+	});
+
+	it('clears breaks and focus progress on reset', async () => {
+		const { pomodoroStore } = await loadStores();
+
+		pomodoroStore.startBreak(null, null);
+		pomodoroStore.endBreak();
+		pomodoroStore.reset();
+
+		expect(pomodoroStore.breaks).toEqual([]);
+		expect(pomodoroStore.completedFocusCount).toBe(0);
+	});
+});
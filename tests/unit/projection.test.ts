@@ -2,9 +2,10 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import {
 	calculateProjectedStart,
 	calculateRiskLevel,
-	createProjectedTasks
+	createProjectedTasks,
+	findPassedFixedTasks
 } from '$lib/services/projection';
-import type { ConfirmedTask, TaskProgress } from '$lib/types';
+import type { BreakPlan, ConfirmedTask, TaskProgress } from '$lib/types';
 import { settingsStore } from '$lib/stores/settingsStore.svelte';
 
 // Mock settingsStore for consistent test behavior
@@ -214,6 +215,154 @@ describe('createProjectedTasks', () => {
 		expect(result[0].task).toBe(tasks[0]);
 		expect(result[1].task).toBe(tasks[1]);
 	});
+
+	it('starts tasks worked in pieces at their first work segment (033-work-segments)', () => {
+		const tasks = createMockTasks(2);
+		const progress = createMockProgress(tasks, 1);
+		const segments = [
+			{
+				startedAt: new Date('2025-12-18T08:00:00.000').toISOString(),
+				endedAt: new Date('2025-12-18T08:10:00.000').toISOString(),
+				elapsedSec: 600
+			},
+			{
+				startedAt: new Date('2025-12-18T08:40:00.000').toISOString(),
+				endedAt: new Date('2025-12-18T09:00:00.000').toISOString(),
+				elapsedSec: 1200
+			}
+		];
+		progress[0] = { ...progress[0], actualDurationSec: 1800, segments };
+
+		const result = createProjectedTasks(tasks, progress, 1, 0);
+
+		// completedAt - actualDuration would give 08:30
+		expect(result[0].projectedStart.getTime()).toBe(new Date('2025-12-18T08:00:00.000').getTime());
+		expect(result[0].segments).toEqual(segments);
+		expect(result[1].segments).toBeUndefined();
+	});
+});
+
+describe('createProjectedTasks with a break plan (026-pomodoro)', () => {
+	const plan: BreakPlan = {
+		focusSec: 25 * 60,
+		shortBreakSec: 5 * 60,
+		longBreakSec: 15 * 60,
+		longBreakEvery: 4,
+		focusElapsedSec: 0,
+		completedFocusCount: 0,
+		breakRemainingSec: 0
+	};
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2025-12-18T09:00:00.000'));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('inserts breaks between focus intervals', () => {
+		const tasks = createMockTasks(2);
+		const progress = createMockProgress(tasks, 0);
+		const result = createProjectedTasks(tasks, progress, 0, 0, undefined, plan);
+
+		// 25 min focus, 5 min break, 5 min focus
+		expect(result[0].projectedEnd.getTime()).toBe(new Date('2025-12-18T09:35:00.000').getTime());
+		expect(result[0].plannedBreakSec).toBe(300);
+		// 20 min focus, 5 min break, 10 min focus
+		expect(result[1].projectedStart.getTime()).toBe(new Date('2025-12-18T09:35:00.000').getTime());
+		expect(result[1].projectedEnd.getTime()).toBe(new Date('2025-12-18T10:10:00.000').getTime());
+	});
+
+	it('takes a break that falls due at the end of a task before the next one', () => {
+		const tasks = createMockTasks(2);
+		tasks[0].plannedDurationSec = 25 * 60;
+		const progress = createMockProgress(tasks, 0);
+		const result = createProjectedTasks(tasks, progress, 0, 0, undefined, plan);
+
+		expect(result[0].projectedEnd.getTime()).toBe(new Date('2025-12-18T09:25:00.000').getTime());
+		expect(result[0].plannedBreakSec).toBeUndefined();
+		expect(result[1].projectedStart.getTime()).toBe(new Date('2025-12-18T09:30:00.000').getTime());
+	});
+
+	it('finishes the active break before the current task resumes', () => {
+		const tasks = createMockTasks(1);
+		const progress = createMockProgress(tasks, 0);
+		const result = createProjectedTasks(tasks, progress, 0, 0, undefined, {
+			...plan,
+			breakRemainingSec: 5 * 60
+		});
+
+		// 5 min break left, 25 min focus, 5 min break, 5 min focus
+		expect(result[0].projectedEnd.getTime()).toBe(new Date('2025-12-18T09:40:00.000').getTime());
+		expect(result[0].plannedBreakSec).toBe(600);
+	});
+
+	it('plans a long break after every fourth interval', () => {
+		const tasks = createMockTasks(1);
+		const progress = createMockProgress(tasks, 0);
+		const result = createProjectedTasks(tasks, progress, 0, 0, undefined, {
+			...plan,
+			focusElapsedSec: 20 * 60,
+			completedFocusCount: 3
+		});
+
+		// 5 min focus, 15 min long break, 25 min focus
+		expect(result[0].projectedEnd.getTime()).toBe(new Date('2025-12-18T09:45:00.000').getTime());
+		expect(result[0].plannedBreakSec).toBe(900);
+	});
+
+	it('lets a fixed task absorb a pending break in the gap before it', () => {
+		const tasks = createMockTasks(2);
+		tasks[0].plannedDurationSec = 25 * 60;
+		tasks[1].type = 'fixed';
+		tasks[1].plannedStart = new Date('2025-12-18T10:00:00.000');
+		const progress = createMockProgress(tasks, 0);
+		const result = createProjectedTasks(tasks, progress, 0, 0, undefined, plan);
+
+		expect(result[1].projectedStart.getTime()).toBe(tasks[1].plannedStart.getTime());
+		// Arrives at 09:30 after the break
+		expect(result[1].bufferSec).toBe(1800);
+	});
+});
+
+describe('findPassedFixedTasks (030-skip-task)', () => {
+	// Tasks at 09:00, 09:30 and 10:00, 30 minutes each
+	const tasks = createMockTasks(3).map((task) => ({ ...task, type: 'fixed' as const }));
+	const at = (time: string) => new Date(`2025-12-18T${time}.000`).getTime();
+
+	it('finds pending fixed tasks once their whole window is over', () => {
+		const progress = createMockProgress(tasks, -1);
+
+		expect(findPassedFixedTasks(tasks, progress, at('09:29:59'))).toEqual([]);
+		expect(findPassedFixedTasks(tasks, progress, at('10:00:00')).map((t) => t.taskId)).toEqual([
+			'task-0',
+			'task-1'
+		]);
+	});
+
+	it('ignores flexible, started and finished tasks', () => {
+		const mixed = [{ ...tasks[0], type: 'flexible' as const }, tasks[1], tasks[2]];
+		const progress = createMockProgress(mixed, 2);
+		progress[2] = { ...progress[2], status: 'pending', actualDurationSec: 300 };
+
+		expect(findPassedFixedTasks(mixed, progress, at('12:00:00'))).toEqual([]);
+	});
+
+	it('marks missed tasks as skipped in projections', () => {
+		const progress = createMockProgress(tasks, 1);
+		progress[0] = { ...progress[0], status: 'missed', skipReason: 'Cancelled' };
+
+		const result = createProjectedTasks(tasks, progress, 1, 0);
+
+		expect(result[0]).toMatchObject({
+			displayStatus: 'completed',
+			isSkipped: true,
+			skipReason: 'Cancelled'
+		});
+		expect(result[1].isSkipped).toBeUndefined();
+	});
 });
 
 // Helper functions
@@ -0,0 +1,141 @@
+/**
+ * Unit tests for scheduleTemplateStore
+ *
+ * Feature: 023-schedule-templates
+ *
+ * Tests: saveTemplate, setWeekdays, deleteTemplate, findForDate, load
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { DraftTask } from '$lib/types';
+
+function makeTask(name: string, sortOrder: number, overrides: Partial<DraftTask> = {}): DraftTask {
+	return {
+		id: `id-${name}`,
+		name,
+		startTime: new Date('2025-12-19T09:00:00.000Z'),
+		durationSeconds: 900,
+		type: 'fixed',
+		sortOrder,
+		hasWarning: true,
+		...overrides
+	};
+}
+
+// 2025-12-19 is a Friday (weekday 5)
+const FRIDAY = new Date(2025, 11, 19, 8, 0);
+
+describe('scheduleTemplateStore', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2025-12-19T08:00:00.000Z'));
+
+		// Mock localStorage
+		const store: Record<string, string> = {};
+		vi.spyOn(Storage.prototype, 'getItem').mockImplementation((key: string) => store[key] || null);
+		vi.spyOn(Storage.prototype, 'setItem').mockImplementation((key: string, value: string) => {
+			store[key] = value;
+		});
+		vi.spyOn(Storage.prototype, 'removeItem').mockImplementation((key: string) => {
+			delete store[key];
+		});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+		vi.resetModules();
+	});
+
+	describe('saveTemplate()', () => {
+		it('stores tasks in schedule order without IDs or warnings', async () => {
+			const { scheduleTemplateStore } = await import('$lib/stores/scheduleTemplateStore.svelte');
+
+			const template = scheduleTemplateStore.saveTemplate(' Standup days ', [5, 1, 3, 1], [
+				makeTask('Review', 1, { type: 'flexible', tags: ['team'] }),
+				makeTask('Standup', 0)
+			]);
+
+			expect(template).not.toBeNull();
+			expect(template?.name).toBe('Standup days');
+			expect(template?.weekdays).toEqual([1, 3, 5]);
+			expect(template?.tasks.map((t) => t.name)).toEqual(['Standup', 'Review']);
+			expect(template?.tasks[1]).toEqual({
+				name: 'Review',
+				startTime: '2025-12-19T09:00:00.000Z',
+				durationSeconds: 900,
+				type: 'flexible',
+				project: undefined,
+				tags: ['team'],
+				priority: undefined,
+				notes: undefined
+			});
+		});
+
+		it('replaces a template with the same name', async () => {
+			const { scheduleTemplateStore } = await import('$lib/stores/scheduleTemplateStore.svelte');
+
+			const first = scheduleTemplateStore.saveTemplate('Plan', [1], [makeTask('A', 0)]);
+			const second = scheduleTemplateStore.saveTemplate('plan', [2], [makeTask('B', 0)]);
+
+			expect(scheduleTemplateStore.templates).toHaveLength(1);
+			expect(second?.templateId).toBe(first?.templateId);
+			expect(scheduleTemplateStore.templates[0].tasks[0].name).toBe('B');
+		});
+
+		it('rejects an empty name or schedule', async () => {
+			const { scheduleTemplateStore } = await import('$lib/stores/scheduleTemplateStore.svelte');
+
+			expect(scheduleTemplateStore.saveTemplate('  ', [1], [makeTask('A', 0)])).toBeNull();
+			expect(scheduleTemplateStore.saveTemplate('Plan', [1], [])).toBeNull();
+			expect(scheduleTemplateStore.templates).toEqual([]);
+		});
+
+		it('persists across reloads', async () => {
+			const first = await import('$lib/stores/scheduleTemplateStore.svelte');
+			first.scheduleTemplateStore.saveTemplate('Plan', [5], [makeTask('A', 0)]);
+
+			vi.resetModules();
+			const { scheduleTemplateStore } = await import('$lib/stores/scheduleTemplateStore.svelte');
+			scheduleTemplateStore.load();
+
+			expect(scheduleTemplateStore.templates.map((t) => t.name)).toEqual(['Plan']);
+		});
+	});
+
+	describe('findForDate()', () => {
+		it('returns the template for the weekday', async () => {
+			const { scheduleTemplateStore } = await import('$lib/stores/scheduleTemplateStore.svelte');
+			scheduleTemplateStore.saveTemplate('Mon/Wed', [1, 3], [makeTask('A', 0)]);
+			scheduleTemplateStore.saveTemplate('Fri', [5], [makeTask('B', 0)]);
+
+			expect(scheduleTemplateStore.findForDate(FRIDAY)?.name).toBe('Fri');
+			expect(scheduleTemplateStore.findForDate(new Date(2025, 11, 20))).toBeNull();
+		});
+
+		it('prefers the template with the fewest weekdays', async () => {
+			const { scheduleTemplateStore } = await import('$lib/stores/scheduleTemplateStore.svelte');
+			scheduleTemplateStore.saveTemplate('Mon/Wed/Fri', [1, 3, 5], [makeTask('A', 0)]);
+			scheduleTemplateStore.saveTemplate('Every day', [0, 1, 2, 3, 4, 5, 6], [makeTask('B', 0)]);
+
+			expect(scheduleTemplateStore.findForDate(FRIDAY)?.name).toBe('Mon/Wed/Fri');
+			expect(scheduleTemplateStore.findForDate(new Date(2025, 11, 20))?.name).toBe('Every day');
+		});
+	});
+
+	describe('setWeekdays() and deleteTemplate()', () => {
+		it('updates weekdays and removes templates', async () => {
+			const { scheduleTemplateStore } = await import('$lib/stores/scheduleTemplateStore.svelte');
+			const template = scheduleTemplateStore.saveTemplate('Plan', [1], [makeTask('A', 0)]);
+			const id = template!.templateId;
+
+			expect(scheduleTemplateStore.setWeekdays(id, [5, 7, 5])).toBe(true);
+			expect(scheduleTemplateStore.templates[0].weekdays).toEqual([5]);
+			expect(scheduleTemplateStore.findForDate(FRIDAY)?.templateId).toBe(id);
+
+			expect(scheduleTemplateStore.deleteTemplate(id)).toBe(true);
+			expect(scheduleTemplateStore.deleteTemplate(id)).toBe(false);
+			expect(scheduleTemplateStore.templates).toEqual([]);
+		});
+	});
+});
@@ -10,7 +10,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import type { ConfirmedTask } from '$lib/types';
+import type { ConfirmedTask, Interruption } from '$lib/types';
 
 // Test fixtures
 function createMockTasks(count: number): ConfirmedTask[] {
@@ -1921,4 +1921,306 @@ describe('sessionStore', () => {
 			expect(result).toBe(false);
 		});
 	});
+
+	describe('pauseSession() and resumeSession() (028-session-pause)', () => {
+		it('should record the pause reason, task and duration', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+			sessionStore.startDay(createMockTasks(2));
+			sessionStore.jumpToTask('task-1', 0);
+
+			const pause = sessionStore.pauseSession('Lunch', 600000);
+
+			expect(pause.reason).toBe('Lunch');
+			expect(pause.taskId).toBe('task-1');
+			expect(sessionStore.isPaused).toBe(true);
+			expect(sessionStore.session?.currentTaskElapsedMs).toBe(600000);
+
+			vi.advanceTimersByTime(45 * 60 * 1000);
+			const ended = sessionStore.resumeSession();
+
+			expect(ended.durationSec).toBe(2700);
+			expect(ended.endedAt).not.toBeNull();
+			expect(sessionStore.isPaused).toBe(false);
+			expect(sessionStore.pauses).toEqual([ended]);
+		});
+
+		it('should fall back to a default reason when blank', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+			sessionStore.startDay(createMockTasks(2));
+
+			expect(sessionStore.pauseSession('   ', 0).reason).toBe('Paused');
+		});
+
+		it('should throw when pausing twice or resuming while not paused', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+
+			expect(() => sessionStore.pauseSession('Lunch', 0)).toThrow('No active session');
+
+			sessionStore.startDay(createMockTasks(2));
+			expect(() => sessionStore.resumeSession()).toThrow('Session not paused');
+
+			sessionStore.pauseSession('Lunch', 0);
+			expect(() => sessionStore.pauseSession('Lunch', 0)).toThrow('Session already paused');
+		});
+
+		it('should include paused time in the day summary', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+			sessionStore.startDay(createMockTasks(2));
+
+			sessionStore.pauseSession('Personal', 0);
+			vi.advanceTimersByTime(10 * 60 * 1000);
+			sessionStore.resumeSession();
+			sessionStore.pauseSession('End of day', 0);
+			vi.advanceTimersByTime(5 * 60 * 1000);
+
+			const summary = sessionStore.endDay();
+
+			expect(summary?.pausedSec).toBe(900);
+			expect(sessionStore.isPaused).toBe(false);
+		});
+	});
+
+	describe('skipTask() (030-skip-task)', () => {
+		it('should mark a pending task missed with its reason', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+			sessionStore.startDay(createMockTasks(3));
+
+			expect(sessionStore.skipTask('task-3', '  Not needed today  ')).toBe(true);
+
+			expect(sessionStore.taskProgress[2].status).toBe('missed');
+			expect(sessionStore.taskProgress[2].skipReason).toBe('Not needed today');
+			expect(sessionStore.currentTaskIndex).toBe(0);
+		});
+
+		it('should not start the next task when skipping the active one', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+			sessionStore.startDay(createMockTasks(3));
+			sessionStore.jumpToTask('task-1', 0);
+
+			sessionStore.skipTask('task-1', '', 600);
+
+			expect(sessionStore.taskProgress[0].actualDurationSec).toBe(600);
+			expect(sessionStore.taskProgress[0].skipReason).toBeUndefined();
+			expect(sessionStore.currentTaskIndex).toBe(1);
+			expect(sessionStore.taskProgress[1].status).toBe('pending');
+			expect(sessionStore.session?.timerStartedAtMs).toBe(0);
+		});
+
+		it('should complete the day when the last task left is skipped', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+			sessionStore.startDay(createMockTasks(2));
+			sessionStore.completeTask(1800);
+
+			sessionStore.skipTask('task-2', 'Out of time');
+
+			expect(sessionStore.status).toBe('complete');
+			expect(sessionStore.endDay().tasksMissed).toBe(1);
+		});
+
+		it('should not skip completed or missed tasks', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+
+			expect(sessionStore.skipTask('task-1', '')).toBe(false);
+
+			sessionStore.startDay(createMockTasks(3));
+			sessionStore.completeTask(1800);
+			sessionStore.skipTask('task-3', '');
+
+			expect(sessionStore.skipTask('task-1', '')).toBe(false);
+			expect(sessionStore.skipTask('task-3', '')).toBe(false);
+		});
+	});
+
+	describe('work segments (033-work-segments)', () => {
+		it('should record a segment each time a task is worked on', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+			sessionStore.startDay(createMockTasks(3));
+
+			sessionStore.jumpToTask('task-2', 0);
+			vi.advanceTimersByTime(600_000);
+			sessionStore.jumpToTask('task-3', 600);
+			vi.advanceTimersByTime(300_000);
+			sessionStore.jumpToTask('task-2', 300);
+			vi.advanceTimersByTime(900_000);
+			sessionStore.completeTask(1500);
+
+			expect(sessionStore.taskProgress[1].segments).toEqual([
+				{
+					startedAt: '2025-12-18T09:00:00.000Z',
+					endedAt: '2025-12-18T09:10:00.000Z',
+					elapsedSec: 600
+				},
+				{
+					startedAt: '2025-12-18T09:15:00.000Z',
+					endedAt: '2025-12-18T09:30:00.000Z',
+					elapsedSec: 900
+				}
+			]);
+			expect(sessionStore.taskProgress[2].segments).toHaveLength(1);
+			expect(sessionStore.taskProgress[2].segments?.[0].elapsedSec).toBe(300);
+		});
+
+		it('should close the open segment when the active task is skipped', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+			sessionStore.startDay(createMockTasks(2));
+			sessionStore.jumpToTask('task-1', 0);
+			vi.advanceTimersByTime(120_000);
+
+			sessionStore.skipTask('task-1', 'Blocked', 120);
+
+			expect(sessionStore.taskProgress[0].segments).toEqual([
+				{
+					startedAt: '2025-12-18T09:00:00.000Z',
+					endedAt: '2025-12-18T09:02:00.000Z',
+					elapsedSec: 120
+				}
+			]);
+		});
+
+		it('should leave tasks that were never started without segments', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+			sessionStore.startDay(createMockTasks(2));
+
+			sessionStore.skipTask('task-2', '');
+
+			expect(sessionStore.taskProgress[1].segments).toBeUndefined();
+		});
+	});
+
+	describe('convertInterruptionToTask() (038-interruption-to-task)', () => {
+		function createInterruption(taskId: string | null, durationSec: number): Interruption {
+			const endedAt = new Date(Date.now());
+			return {
+				interruptionId: 'int-1',
+				taskId,
+				startedAt: new Date(endedAt.getTime() - durationSec * 1000).toISOString(),
+				endedAt: endedAt.toISOString(),
+				durationSec,
+				category: null,
+				note: null
+			};
+		}
+
+		it('should pause the interrupted task and keep working on the new one', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+			sessionStore.startDay(createMockTasks(3));
+			sessionStore.jumpToTask('task-1', 0);
+			vi.advanceTimersByTime(900_000);
+
+			const task = sessionStore.convertInterruptionToTask(
+				createInterruption('task-1', 300),
+				'Debugging',
+				true,
+				600
+			);
+
+			expect(task).toMatchObject({ name: 'Debugging', isAdHoc: true, plannedDurationSec: 300 });
+			expect(sessionStore.tasks.map((t) => t.name)).toEqual([
+				'Task 1',
+				'Debugging',
+				'Task 2',
+				'Task 3'
+			]);
+			expect(sessionStore.currentTaskIndex).toBe(1);
+			expect(sessionStore.session?.currentTaskElapsedMs).toBe(300_000);
+			expect(sessionStore.taskProgress[0]).toMatchObject({
+				status: 'pending',
+				actualDurationSec: 600,
+				segments: [
+					{
+						startedAt: '2025-12-18T09:00:00.000Z',
+						endedAt: '2025-12-18T09:10:00.000Z',
+						elapsedSec: 600
+					}
+				]
+			});
+			expect(sessionStore.taskProgress[1]).toMatchObject({
+				status: 'active',
+				segments: [{ startedAt: '2025-12-18T09:10:00.000Z', endedAt: null, elapsedSec: 0 }]
+			});
+		});
+
+		it('should start the new task before the next one when no task was active', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+			sessionStore.startDay(createMockTasks(2));
+			sessionStore.jumpToTask('task-1', 0);
+			sessionStore.skipTask('task-1', '', 0);
+			vi.advanceTimersByTime(120_000);
+
+			sessionStore.convertInterruptionToTask(createInterruption(null, 120), 'Call', true, 0);
+
+			expect(sessionStore.tasks.map((t) => t.name)).toEqual(['Task 1', 'Call', 'Task 2']);
+			expect(sessionStore.currentTaskIndex).toBe(1);
+			expect(sessionStore.taskProgress[2].status).toBe('pending');
+		});
+
+		it('should record a finished interruption as a completed task', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+			sessionStore.startDay(createMockTasks(2));
+			sessionStore.jumpToTask('task-1', 0);
+			vi.advanceTimersByTime(900_000);
+
+			const interruption = createInterruption('task-1', 30);
+			sessionStore.convertInterruptionToTask(interruption, 'Question', false, 0);
+
+			expect(sessionStore.tasks.map((t) => t.name)).toEqual(['Question', 'Task 1', 'Task 2']);
+			expect(sessionStore.currentTask?.taskId).toBe('task-1');
+			expect(sessionStore.taskProgress[0]).toMatchObject({
+				status: 'complete',
+				plannedDurationSec: 60,
+				actualDurationSec: 30,
+				completedAt: '2025-12-18T09:15:00.000Z'
+			});
+			expect(sessionStore.taskProgress[1].status).toBe('active');
+		});
+
+		it('should keep tasks and progress lined up for projection', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+			const { createProjectedTasks } = await import('$lib/services/projection');
+			sessionStore.startDay(createMockTasks(3));
+			sessionStore.jumpToTask('task-2', 0);
+			vi.advanceTimersByTime(900_000);
+
+			const task = sessionStore.convertInterruptionToTask(
+				createInterruption('task-2', 300),
+				'Debugging',
+				true,
+				600
+			);
+
+			const projected = createProjectedTasks(
+				sessionStore.tasks,
+				[...sessionStore.taskProgress],
+				sessionStore.currentTaskIndex,
+				300_000
+			);
+			expect(projected.map((p) => p.task.taskId)).toEqual([
+				'task-1',
+				'task-2',
+				task?.taskId,
+				'task-3'
+			]);
+			expect(sessionStore.taskProgress.map((p) => p.taskId)).toEqual(
+				sessionStore.tasks.map((t) => t.taskId)
+			);
+			expect(projected.map((p) => p.displayStatus)).toEqual([
+				'pending',
+				'pending',
+				'current',
+				'pending'
+			]);
+		});
+
+		it('should not convert without a running session or before the interruption ends', async () => {
+			const { sessionStore } = await import('$lib/stores/sessionStore.svelte');
+			const interruption = createInterruption('task-1', 60);
+
+			expect(sessionStore.convertInterruptionToTask(interruption, 'X', false, 0)).toBeNull();
+
+			sessionStore.startDay(createMockTasks(1));
+			expect(
+				sessionStore.convertInterruptionToTask({ ...interruption, endedAt: null }, 'X', true, 0)
+			).toBeNull();
+		});
+	});
 });
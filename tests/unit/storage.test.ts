@@ -1,7 +1,14 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { storage } from '$lib/services/storage';
-import type { ConfirmedTask, DaySession, TabInfo } from '$lib/types';
+import type { ArchivedDay, BackupFile, ConfirmedTask, DaySession, Settings, TabInfo } from '$lib/types';
 import {
+	BACKUP_FORMAT,
+	CURRENT_SCHEMA_VERSION,
+	DEFAULT_INTERRUPTION_CATEGORIES,
+	STORAGE_KEY_INTERRUPTIONS,
+	STORAGE_KEY_SETTINGS,
+	STORAGE_KEY_HISTORY,
+	STORAGE_KEY_HISTORY_DAY_PREFIX,
 	STORAGE_KEY_TASKS,
 	STORAGE_KEY_SCHEMA,
 	STORAGE_KEY_SESSION,
@@ -109,6 +116,52 @@ describe('storage service', () => {
 			expect(saved[0].plannedStart).toBe('2025-12-17T14:30:00.000Z');
 		});
 
+		it('persists optional task metadata and omits unset fields', () => {
+			const tasks: ConfirmedTask[] = [
+				{
+					taskId: 'task-1',
+					name: 'Budget review',
+					plannedStart: new Date('2025-12-17T10:00:00Z'),
+					plannedDurationSec: 1800,
+					type: 'flexible',
+					sortOrder: 0,
+					status: 'pending',
+					project: 'Finance',
+					tags: ['q4', 'board'],
+					priority: 'high',
+					notes: 'Bring last year numbers'
+				},
+				{
+					taskId: 'task-2',
+					name: 'Plain task',
+					plannedStart: new Date('2025-12-17T10:30:00Z'),
+					plannedDurationSec: 600,
+					type: 'flexible',
+					sortOrder: 1,
+					status: 'pending',
+					tags: []
+				}
+			];
+
+			storage.saveTasks(tasks);
+
+			const saved = JSON.parse(localStorageMock._getStore()[STORAGE_KEY_TASKS]);
+			expect(saved[0]).toMatchObject({
+				project: 'Finance',
+				tags: ['q4', 'board'],
+				priority: 'high',
+				notes: 'Bring last year numbers'
+			});
+			expect(Object.keys(saved[1])).not.toContain('tags');
+
+			const loaded = storage.loadTasks();
+			expect(loaded[0].project).toBe('Finance');
+			expect(loaded[0].tags).toEqual(['q4', 'board']);
+			expect(loaded[0].priority).toBe('high');
+			expect(loaded[0].notes).toBe('Bring last year numbers');
+			expect(loaded[1].project).toBeUndefined();
+		});
+
 		it('returns false when localStorage is not available', () => {
 			// eslint-disable-next-line @typescript-eslint/no-explicit-any
 			const originalLocalStorage = (globalThis as any).localStorage;
@@ -223,12 +276,12 @@ describe('storage service', () => {
 
 			expect(localStorageMock.setItem).toHaveBeenCalledWith(
 				STORAGE_KEY_SCHEMA,
-				'7'
+				'8'
 			);
 		});
 
 		it('does not update schema when version matches', () => {
-			localStorageMock.setItem(STORAGE_KEY_SCHEMA, '7');
+			localStorageMock.setItem(STORAGE_KEY_SCHEMA, '8');
 			vi.clearAllMocks(); // Clear the manual setItem call
 
 			storage.init();
@@ -456,8 +509,8 @@ describe('storage service', () => {
 			// Initialize storage (triggers migration)
 			storage.init();
 
-			// Schema version should be updated to 7
-			expect(storage.getSchemaVersion()).toBe(7);
+			// Schema version should be updated to 8
+			expect(storage.getSchemaVersion()).toBe(8);
 
 			// Tasks should still be accessible
 			const tasks = storage.loadTasks();
@@ -465,8 +518,8 @@ describe('storage service', () => {
 			expect(tasks[0].taskId).toBe('task-1');
 		});
 
-		it('does not run migration when already at v7', () => {
-			localStorageMock.setItem(STORAGE_KEY_SCHEMA, '7');
+		it('does not run migration when already at v8', () => {
+			localStorageMock.setItem(STORAGE_KEY_SCHEMA, '8');
 			vi.clearAllMocks();
 
 			storage.init();
@@ -491,6 +544,67 @@ describe('storage service', () => {
 		});
 	});
 
+	describe('schema migration v7 to v8 (034-interruption-categories)', () => {
+		function storedInterruption(category: string | null) {
+			return {
+				interruptionId: crypto.randomUUID(),
+				taskId: 'task-1',
+				startedAt: '2025-12-18T09:10:00.000Z',
+				endedAt: '2025-12-18T09:15:00.000Z',
+				durationSec: 300,
+				category,
+				note: null
+			};
+		}
+
+		it('turns category names into IDs and keeps every name in use', () => {
+			localStorageMock.setItem(STORAGE_KEY_SCHEMA, '7');
+			localStorageMock.setItem(
+				STORAGE_KEY_INTERRUPTIONS,
+				JSON.stringify({
+					interruptions: [storedInterruption('Phone'), storedInterruption(null)],
+					pausedTaskElapsedMs: 0
+				})
+			);
+			localStorageMock.setItem(STORAGE_KEY_HISTORY, JSON.stringify([{ sessionId: 's-1' }]));
+			localStorageMock.setItem(
+				STORAGE_KEY_HISTORY_DAY_PREFIX + 's-1',
+				JSON.stringify({ sessionId: 's-1', interruptions: [storedInterruption('Luci')] })
+			);
+			localStorageMock.setItem(
+				STORAGE_KEY_SETTINGS,
+				JSON.stringify({ version: 1, data: { theme: 'dark' } })
+			);
+
+			storage.init();
+
+			const interruptions = storage.loadInterruptionState().interruptions;
+			expect(interruptions.map((i) => i.category)).toEqual(['phone', null]);
+
+			const day = JSON.parse(localStorageMock._getStore()[STORAGE_KEY_HISTORY_DAY_PREFIX + 's-1']);
+			expect(day.interruptions[0].category).toBe('luci');
+
+			const settings = storage.loadSettings();
+			expect(settings?.theme).toBe('dark');
+			expect(settings?.interruptionCategories.map((c) => c.categoryId)).toEqual([
+				...DEFAULT_INTERRUPTION_CATEGORIES.map((c) => c.categoryId),
+				'luci'
+			]);
+			expect(settings?.interruptionCategories.at(-1)).toMatchObject({
+				name: 'Luci',
+				archived: false
+			});
+		});
+
+		it('gives new users only the default categories', () => {
+			storage.init();
+
+			expect(storage.loadSettings()?.interruptionCategories).toEqual(
+				DEFAULT_INTERRUPTION_CATEGORIES
+			);
+		});
+	});
+
 	describe('session round-trip persistence', () => {
 		it('preserves session data through save/load cycle', () => {
 			const originalSession: DaySession = {
@@ -542,4 +656,272 @@ describe('storage service', () => {
 			expect(loadedSession?.taskProgress[2].status).toBe('active');
 		});
 	});
+
+	// ==========================================================================
+	// Session History Storage Tests (014-session-history)
+	// ==========================================================================
+
+	describe('session history', () => {
+		function makeArchivedDay(sessionId: string, startedAt: string): ArchivedDay {
+			return {
+				sessionId,
+				date: startedAt.slice(0, 10),
+				archivedAt: '2025-12-18T18:00:00.000Z',
+				summary: {
+					totalPlannedSec: 3600,
+					totalActualSec: 3000,
+					finalLagSec: -600,
+					tasksOnTime: 1,
+					tasksLate: 0,
+					tasksMissed: 0,
+					sessionDurationSec: 3000
+				},
+				session: {
+					sessionId,
+					startedAt,
+					endedAt: '2025-12-18T17:00:00.000Z',
+					status: 'complete',
+					currentTaskIndex: 0,
+					currentTaskElapsedMs: 0,
+					lastPersistedAt: 0,
+					totalLagSec: -600,
+					timerStartedAtMs: 0,
+					taskProgress: [
+						{
+							taskId: 'task-1',
+							plannedDurationSec: 3600,
+							actualDurationSec: 3000,
+							completedAt: '2025-12-18T10:00:00.000Z',
+							status: 'complete'
+						}
+					]
+				},
+				tasks: [
+					{
+						taskId: 'task-1',
+						name: 'Deep Work',
+						plannedStart: new Date('2025-12-18T09:00:00.000Z'),
+						plannedDurationSec: 3600,
+						type: 'flexible',
+						sortOrder: 0,
+						status: 'complete'
+					}
+				],
+				interruptions: [],
+				notes: []
+			};
+		}
+
+		it('archives a day under its sessionId and indexes it', () => {
+			const result = storage.archiveDay(makeArchivedDay('s-1', '2025-12-18T09:00:00.000Z'));
+
+			expect(result).toBe(true);
+			const store = localStorageMock._getStore();
+			expect(store[STORAGE_KEY_HISTORY_DAY_PREFIX + 's-1']).toBeDefined();
+			expect(JSON.parse(store[STORAGE_KEY_HISTORY])).toHaveLength(1);
+		});
+
+		it('lists archived days newest first', () => {
+			storage.archiveDay(makeArchivedDay('s-old', '2025-12-16T09:00:00.000Z'));
+			storage.archiveDay(makeArchivedDay('s-new', '2025-12-18T09:00:00.000Z'));
+			storage.archiveDay(makeArchivedDay('s-mid', '2025-12-17T09:00:00.000Z'));
+
+			const entries = storage.listArchivedDays();
+
+			expect(entries.map((e) => e.sessionId)).toEqual(['s-new', 's-mid', 's-old']);
+			expect(entries[0].taskCount).toBe(1);
+		});
+
+		it('replaces an existing entry when the same session is archived again', () => {
+			storage.archiveDay(makeArchivedDay('s-1', '2025-12-18T09:00:00.000Z'));
+			storage.archiveDay(makeArchivedDay('s-1', '2025-12-18T09:00:00.000Z'));
+
+			expect(storage.listArchivedDays()).toHaveLength(1);
+		});
+
+		it('loads an archived day without moving task dates to today', () => {
+			storage.archiveDay(makeArchivedDay('s-1', '2025-12-18T09:00:00.000Z'));
+
+			const day = storage.loadArchivedDay('s-1');
+
+			expect(day).not.toBeNull();
+			expect(day?.tasks[0].plannedStart).toBeInstanceOf(Date);
+			expect(day?.tasks[0].plannedStart.toISOString()).toBe('2025-12-18T09:00:00.000Z');
+			expect(day?.session.taskProgress[0].status).toBe('complete');
+		});
+
+		it('returns null for an unknown archived day', () => {
+			expect(storage.loadArchivedDay('missing')).toBeNull();
+		});
+
+		it('deletes an archived day and its index entry', () => {
+			storage.archiveDay(makeArchivedDay('s-1', '2025-12-18T09:00:00.000Z'));
+			storage.archiveDay(makeArchivedDay('s-2', '2025-12-17T09:00:00.000Z'));
+
+			const result = storage.deleteArchivedDay('s-1');
+
+			expect(result).toBe(true);
+			expect(storage.loadArchivedDay('s-1')).toBeNull();
+			expect(storage.listArchivedDays().map((e) => e.sessionId)).toEqual(['s-2']);
+		});
+
+		it('keeps history when current tasks are cleared', () => {
+			storage.archiveDay(makeArchivedDay('s-1', '2025-12-18T09:00:00.000Z'));
+
+			storage.clearTasks();
+
+			expect(storage.listArchivedDays()).toHaveLength(1);
+		});
+	});
+
+	// ==========================================================================
+	// Backup Tests (016-json-backup)
+	// ==========================================================================
+
+	describe('backup and restore', () => {
+		it('creates a backup tagged with the current schema version', () => {
+			storage.init();
+			storage.saveNotes([
+				{
+					noteId: 'note-1',
+					content: 'Call back',
+					createdAt: '2025-12-18T09:00:00.000Z',
+					updatedAt: null,
+					taskId: null
+				}
+			]);
+
+			const backup = storage.createBackup();
+
+			expect(backup?.format).toBe(BACKUP_FORMAT);
+			expect(backup?.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+			expect(backup?.data.notes).toHaveLength(1);
+			expect(backup?.data.session).toBeNull();
+		});
+
+		it('restores a backup over existing data', () => {
+			storage.init();
+			storage.saveNotes([]);
+			const backup = storage.createBackup()!;
+			backup.data.tasks = [
+				{
+					taskId: 'task-restored',
+					name: 'Restored Task',
+					plannedStart: '2025-12-18T09:00:00.000Z',
+					plannedDurationSec: 600,
+					type: 'flexible',
+					sortOrder: 0,
+					status: 'pending'
+				}
+			];
+			localStorageMock.setItem('tm_notes', JSON.stringify([{ noteId: 'stale' }]));
+
+			const result = storage.restoreBackup(backup);
+
+			expect(result).toBe(true);
+			expect(storage.loadTasks()[0].taskId).toBe('task-restored');
+			expect(storage.loadNotes()).toEqual([]);
+		});
+
+		it('does not add the time since the backup to a running task', async () => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date('2025-12-18T10:00:00.000Z'));
+			storage.init();
+			storage.saveSession({
+				sessionId: 's-1',
+				startedAt: '2025-12-18T09:00:00.000Z',
+				endedAt: null,
+				status: 'running',
+				currentTaskIndex: 0,
+				currentTaskElapsedMs: 600000,
+				lastPersistedAt: Date.now(),
+				totalLagSec: 0,
+				timerStartedAtMs: Date.now() - 600000,
+				taskProgress: []
+			});
+			const backup = storage.createBackup()!;
+
+			// Restored two hours later
+			vi.setSystemTime(new Date('2025-12-18T12:00:00.000Z'));
+			storage.restoreBackup(backup);
+			const { timerStore } = await import('$lib/stores/timerStore.svelte');
+			const recovery = timerStore.recover();
+			vi.useRealTimers();
+
+			expect(recovery.success).toBe(true);
+			expect(recovery.awayTimeMs).toBe(0);
+			expect(recovery.recoveredElapsedMs).toBe(600000);
+		});
+
+		it('runs older backups through the schema migrations', () => {
+			const backup: BackupFile = {
+				format: BACKUP_FORMAT,
+				schemaVersion: 6,
+				exportedAt: '2025-12-18T18:00:00.000Z',
+				data: {
+					tasks: [],
+					session: null,
+					interruptions: null,
+					notes: [],
+					settings: {
+						version: 1,
+						data: {
+							theme: 'dark',
+							warningThresholdSec: 300,
+							fixedTaskAlertMin: 10,
+							soundEnabled: true,
+							vibrationEnabled: true
+						} as Settings
+					},
+					history: { index: [], days: {} }
+				}
+			};
+
+			storage.restoreBackup(backup);
+
+			const settings = JSON.parse(localStorageMock._getStore()[STORAGE_KEY_SETTINGS]);
+			expect(settings.data.defaultScheduleStartTime).toBe('');
+			expect(storage.getSchemaVersion()).toBe(CURRENT_SCHEMA_VERSION);
+		});
+
+		it('includes archived days in the backup', () => {
+			storage.init();
+			storage.archiveDay({
+				sessionId: 's-1',
+				date: '2025-12-18',
+				archivedAt: '2025-12-18T18:00:00.000Z',
+				summary: {
+					totalPlannedSec: 0,
+					totalActualSec: 0,
+					finalLagSec: 0,
+					tasksOnTime: 0,
+					tasksLate: 0,
+					tasksMissed: 0,
+					sessionDurationSec: 0
+				},
+				session: {
+					sessionId: 's-1',
+					startedAt: '2025-12-18T09:00:00.000Z',
+					endedAt: '2025-12-18T17:00:00.000Z',
+					status: 'complete',
+					currentTaskIndex: 0,
+					currentTaskElapsedMs: 0,
+					lastPersistedAt: 0,
+					totalLagSec: 0,
+					timerStartedAtMs: 0,
+					taskProgress: []
+				},
+				tasks: [],
+				interruptions: [],
+				notes: []
+			});
+
+			const backup = storage.createBackup()!;
+			localStorageMock.clear();
+			storage.restoreBackup(backup);
+
+			expect(storage.listArchivedDays().map((e) => e.sessionId)).toEqual(['s-1']);
+			expect(storage.loadArchivedDay('s-1')).not.toBeNull();
+		});
+	});
 });
@@ -0,0 +1,300 @@
+/**
+ * Unit tests for storage adapters
+ *
+ * Feature: 015-indexeddb-storage
+ *
+ * Tests: createLocalStorageAdapter, createIndexedDBAdapter (hydrate,
+ *        migration from localStorage, fallback writes, write ordering),
+ *        isMigratableKey, storage.setAdapter, storage.initAsync fallback,
+ *        storage.useLocalStorage, storage.getPreferredBackend
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { storage } from '$lib/services/storage';
+import {
+	createIndexedDBAdapter,
+	createLocalStorageAdapter,
+	isMigratableKey,
+	type StorageAdapter
+} from '$lib/services/storageAdapter';
+import {
+	CURRENT_SCHEMA_VERSION,
+	STORAGE_KEY_BACKEND,
+	STORAGE_KEY_IDB_MIGRATED,
+	STORAGE_KEY_LOCAL_FALLBACK,
+	STORAGE_KEY_SCHEMA,
+	STORAGE_KEY_SESSION,
+	STORAGE_KEY_TAB,
+	STORAGE_KEY_TASKS
+} from '$lib/types';
+
+// Mock localStorage
+const localStorageMock = (() => {
+	let store: Record<string, string> = {};
+	return {
+		getItem: vi.fn((key: string) => store[key] ?? null),
+		setItem: vi.fn((key: string, value: string) => {
+			store[key] = value;
+		}),
+		removeItem: vi.fn((key: string) => {
+			delete store[key];
+		}),
+		clear: vi.fn(() => {
+			store = {};
+		}),
+		get length() {
+			return Object.keys(store).length;
+		},
+		key: vi.fn((index: number) => Object.keys(store)[index] ?? null)
+	};
+})();
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+Object.defineProperty(globalThis as any, 'localStorage', {
+	value: localStorageMock,
+	writable: true
+});
+
+/**
+ * In-memory adapter standing in for a hydrated IndexedDB adapter
+ */
+function createMemoryAdapter(): StorageAdapter & { data: Map<string, string> } {
+	const data = new Map<string, string>();
+	return {
+		backend: 'indexedDB',
+		data,
+		isAvailable: () => true,
+		getItem: (key) => data.get(key) ?? null,
+		setItem: (key, value) => {
+			data.set(key, value);
+		},
+		removeItem: (key) => {
+			data.delete(key);
+		},
+		keys: () => Array.from(data.keys())
+	};
+}
+
+describe('storage adapters', () => {
+	beforeEach(() => {
+		localStorageMock.clear();
+		vi.clearAllMocks();
+	});
+
+	afterEach(() => {
+		storage.setAdapter(createLocalStorageAdapter());
+	});
+
+	describe('createLocalStorageAdapter', () => {
+		it('reads and writes through to localStorage', () => {
+			const adapter = createLocalStorageAdapter();
+
+			adapter.setItem('tm_test', 'value');
+
+			expect(localStorageMock.setItem).toHaveBeenCalledWith('tm_test', 'value');
+			expect(adapter.getItem('tm_test')).toBe('value');
+			expect(adapter.keys()).toEqual(['tm_test']);
+
+			adapter.removeItem('tm_test');
+			expect(adapter.getItem('tm_test')).toBeNull();
+		});
+
+		it('reports localStorage as its backend', () => {
+			expect(createLocalStorageAdapter().backend).toBe('localStorage');
+		});
+	});
+
+	describe('createIndexedDBAdapter', () => {
+		let factory: IDBFactory;
+
+		beforeEach(() => {
+			factory = new IDBFactory();
+		});
+
+		/**
+		 * Open the same database again, as on the next page load
+		 */
+		async function reopen() {
+			const adapter = createIndexedDBAdapter(factory);
+			await adapter.hydrate();
+			return adapter;
+		}
+
+		it('copies app data from localStorage on first use and keeps it there', async () => {
+			localStorageMock.setItem(STORAGE_KEY_TASKS, '[1]');
+			localStorageMock.setItem(STORAGE_KEY_TAB, 'tab');
+
+			const adapter = await reopen();
+
+			expect(adapter.getItem(STORAGE_KEY_TASKS)).toBe('[1]');
+			expect(adapter.keys()).not.toContain(STORAGE_KEY_TAB);
+			// Still there if IndexedDB fails to open next time
+			expect(localStorageMock.getItem(STORAGE_KEY_TASKS)).toBe('[1]');
+			expect(localStorageMock.getItem(STORAGE_KEY_IDB_MIGRATED)).not.toBeNull();
+		});
+
+		it('drops the localStorage copy once the data is found in IndexedDB', async () => {
+			localStorageMock.setItem(STORAGE_KEY_TASKS, '[1]');
+			const first = await reopen();
+			first.setItem(STORAGE_KEY_TASKS, '[1,2]');
+			await first.flush();
+
+			const adapter = await reopen();
+
+			expect(adapter.getItem(STORAGE_KEY_TASKS)).toBe('[1,2]');
+			expect(localStorageMock.getItem(STORAGE_KEY_TASKS)).toBeNull();
+			expect(localStorageMock.getItem(STORAGE_KEY_IDB_MIGRATED)).toBeNull();
+			expect(localStorageMock.getItem(STORAGE_KEY_TAB)).toBeNull();
+		});
+
+		it('takes over data written to localStorage while IndexedDB could not be opened', async () => {
+			const first = await reopen();
+			first.setItem(STORAGE_KEY_TASKS, '[1]');
+			first.setItem(STORAGE_KEY_SESSION, 'old');
+			await first.flush();
+
+			// Fallback: the app wrote to localStorage instead
+			localStorageMock.setItem(STORAGE_KEY_BACKEND, 'indexedDB');
+			storage.useLocalStorage();
+			localStorageMock.setItem(STORAGE_KEY_SESSION, 'new');
+
+			const adapter = await reopen();
+
+			expect(adapter.getItem(STORAGE_KEY_SESSION)).toBe('new');
+			expect(adapter.getItem(STORAGE_KEY_TASKS)).toBe('[1]');
+			expect(localStorageMock.getItem(STORAGE_KEY_LOCAL_FALLBACK)).toBeNull();
+
+			// The data now lives in IndexedDB alone
+			const next = await reopen();
+			expect(next.getItem(STORAGE_KEY_SESSION)).toBe('new');
+			expect(localStorageMock.getItem(STORAGE_KEY_SESSION)).toBeNull();
+		});
+
+		it('commits writes in the order they were made', async () => {
+			const first = await reopen();
+			first.setItem('tm_a', '1');
+			first.setItem('tm_b', '1');
+			first.setItem('tm_a', '2');
+			await Promise.resolve();
+			first.removeItem('tm_b');
+			first.setItem('tm_c', '1');
+			await first.flush();
+
+			const adapter = await reopen();
+
+			expect(adapter.getItem('tm_a')).toBe('2');
+			expect(adapter.getItem('tm_b')).toBeNull();
+			expect(adapter.getItem('tm_c')).toBe('1');
+		});
+	});
+
+	describe('isMigratableKey', () => {
+		it('accepts app data keys', () => {
+			expect(isMigratableKey(STORAGE_KEY_TASKS)).toBe(true);
+			expect(isMigratableKey(STORAGE_KEY_SESSION)).toBe(true);
+		});
+
+		it('keeps tab and backend keys in localStorage', () => {
+			expect(isMigratableKey(STORAGE_KEY_TAB)).toBe(false);
+			expect(isMigratableKey(STORAGE_KEY_BACKEND)).toBe(false);
+		});
+
+		it('ignores keys from other apps', () => {
+			expect(isMigratableKey('other_key')).toBe(false);
+		});
+	});
+
+	describe('storage.setAdapter', () => {
+		it('runs schema migrations against the new adapter', () => {
+			const adapter = createMemoryAdapter();
+
+			storage.setAdapter(adapter);
+
+			expect(adapter.data.get(STORAGE_KEY_SCHEMA)).toBe(String(CURRENT_SCHEMA_VERSION));
+		});
+
+		it('routes app data to the active adapter', () => {
+			const adapter = createMemoryAdapter();
+			storage.setAdapter(adapter);
+
+			storage.saveNotes([]);
+
+			expect(adapter.data.has('tm_notes')).toBe(true);
+			expect(localStorageMock.setItem).not.toHaveBeenCalledWith('tm_notes', expect.any(String));
+			expect(storage.getBackend()).toBe('indexedDB');
+		});
+
+		it('keeps tab info in localStorage', () => {
+			const adapter = createMemoryAdapter();
+			storage.setAdapter(adapter);
+
+			storage.saveTabInfo({ tabId: 'tab-1', activeSince: 1, lastHeartbeat: 1 });
+
+			expect(adapter.data.has(STORAGE_KEY_TAB)).toBe(false);
+			expect(localStorageMock.setItem).toHaveBeenCalledWith(STORAGE_KEY_TAB, expect.any(String));
+		});
+	});
+
+	describe('storage.getPreferredBackend', () => {
+		it('defaults to localStorage', () => {
+			expect(storage.getPreferredBackend()).toBe('localStorage');
+		});
+
+		it('returns indexedDB when selected', () => {
+			localStorageMock.setItem(STORAGE_KEY_BACKEND, 'indexedDB');
+
+			expect(storage.getPreferredBackend()).toBe('indexedDB');
+		});
+	});
+
+	describe('storage.initAsync', () => {
+		it('stays on localStorage and migrates when IndexedDB is not selected', async () => {
+			const backend = await storage.initAsync();
+
+			expect(backend).toBe('localStorage');
+			expect(localStorageMock.getItem(STORAGE_KEY_SCHEMA)).toBe(String(CURRENT_SCHEMA_VERSION));
+		});
+
+		it('falls back to localStorage when IndexedDB is unavailable', async () => {
+			localStorageMock.setItem(STORAGE_KEY_BACKEND, 'indexedDB');
+
+			const backend = await storage.initAsync();
+
+			expect(backend).toBe('localStorage');
+		});
+
+		it('falls back to localStorage and migrates it after a failed init', () => {
+			storage.setAdapter(createMemoryAdapter());
+
+			const backend = storage.useLocalStorage();
+
+			expect(backend).toBe('localStorage');
+			expect(storage.getBackend()).toBe('localStorage');
+			expect(localStorageMock.getItem(STORAGE_KEY_SCHEMA)).toBe(String(CURRENT_SCHEMA_VERSION));
+		});
+	});
+
+	describe('storage.switchBackend', () => {
+		it('copies data back to localStorage when leaving IndexedDB', async () => {
+			const adapter = createMemoryAdapter();
+			storage.setAdapter(adapter);
+			storage.saveNotes([]);
+			localStorageMock.setItem(STORAGE_KEY_BACKEND, 'indexedDB');
+
+			const result = await storage.switchBackend('localStorage');
+
+			expect(result).toBe(true);
+			expect(localStorageMock.getItem('tm_notes')).toBe('[]');
+			expect(localStorageMock.getItem(STORAGE_KEY_BACKEND)).toBeNull();
+			expect(storage.getBackend()).toBe('localStorage');
+		});
+
+		it('fails when IndexedDB is unavailable', async () => {
+			const result = await storage.switchBackend('indexedDB');
+
+			expect(result).toBe(false);
+			expect(storage.getBackend()).toBe('localStorage');
+		});
+	});
+});
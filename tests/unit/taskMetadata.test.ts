@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { formatPriority, formatTags, parsePriority, parseTags } from '$lib/utils/taskMetadata';
+
+describe('parseTags', () => {
+	it('splits on commas and semicolons', () => {
+		expect(parseTags('client, urgent; review')).toEqual(['client', 'urgent', 'review']);
+	});
+
+	it('drops empty entries and duplicates', () => {
+		expect(parseTags(' a ,, A; b ;')).toEqual(['a', 'b']);
+	});
+
+	it('returns empty list for blank input', () => {
+		expect(parseTags('')).toEqual([]);
+		expect(parseTags('  ')).toEqual([]);
+	});
+});
+
+describe('formatTags', () => {
+	it('joins tags with comma and space', () => {
+		expect(formatTags(['a', 'b'])).toBe('a, b');
+	});
+
+	it('returns empty string when unset', () => {
+		expect(formatTags(undefined)).toBe('');
+	});
+});
+
+describe('parsePriority', () => {
+	it('accepts full names case-insensitively', () => {
+		expect(parsePriority('High')).toBe('high');
+		expect(parsePriority(' MEDIUM ')).toBe('medium');
+		expect(parsePriority('low')).toBe('low');
+	});
+
+	it('accepts short forms', () => {
+		expect(parsePriority('h')).toBe('high');
+		expect(parsePriority('2')).toBe('medium');
+		expect(parsePriority('L')).toBe('low');
+	});
+
+	it('returns null for unknown values', () => {
+		expect(parsePriority('urgent')).toBeNull();
+		expect(parsePriority('')).toBeNull();
+	});
+});
+
+describe('formatPriority', () => {
+	it('capitalizes the priority', () => {
+		expect(formatPriority('medium')).toBe('Medium');
+	});
+
+	it('returns empty string when unset', () => {
+		expect(formatPriority(undefined)).toBe('');
+	});
+});
@@ -161,6 +161,75 @@ describe('timerStore', () => {
 		});
 	});
 
+	describe('pause() and resume() (028-session-pause)', () => {
+		it('should keep elapsed time while paused and continue from it', async () => {
+			mockDateNow
+				.mockReturnValueOnce(0) // start
+				.mockReturnValueOnce(5000) // pause
+				.mockReturnValue(60000); // resumed a minute later
+
+			const { timerStore } = await import('$lib/stores/timerStore.svelte');
+
+			timerStore.start(60);
+			expect(timerStore.pause()).toBe(5000);
+			expect(timerStore.isPaused).toBe(true);
+			expect(timerStore.isRunning).toBe(false);
+
+			timerStore.resume();
+
+			expect(timerStore.isRunning).toBe(true);
+			expect(timerStore.isPaused).toBe(false);
+			expect(timerStore.snapshot().elapsedMs).toBe(5000);
+		});
+
+		it('should not resume a timer that was not running when paused', async () => {
+			const { timerStore } = await import('$lib/stores/timerStore.svelte');
+
+			timerStore.pause();
+			timerStore.resume();
+
+			expect(timerStore.isPaused).toBe(false);
+			expect(timerStore.isRunning).toBe(false);
+		});
+
+		it('should add no away time on recovery while the session is paused', async () => {
+			mockDateNow.mockReturnValue(3_600_000);
+			localStorage.setItem(
+				'tm_session',
+				JSON.stringify({
+					sessionId: 'session-1',
+					startedAt: '2025-12-19T09:00:00.000Z',
+					endedAt: null,
+					status: 'running',
+					currentTaskIndex: 0,
+					currentTaskElapsedMs: 120000,
+					lastPersistedAt: 600_000,
+					totalLagSec: 0,
+					taskProgress: [],
+					timerStartedAtMs: 0,
+					pauses: [
+						{
+							pauseId: 'pause-1',
+							reason: 'Lunch',
+							taskId: 'task-1',
+							startedAt: '2025-12-19T12:00:00.000Z',
+							endedAt: null,
+							durationSec: 0
+						}
+					]
+				})
+			);
+
+			const { timerStore } = await import('$lib/stores/timerStore.svelte');
+			const recovery = timerStore.recover();
+			localStorage.removeItem('tm_session');
+
+			expect(recovery.success).toBe(true);
+			expect(recovery.recoveredElapsedMs).toBe(120000);
+			expect(recovery.awayTimeMs).toBe(0);
+		});
+	});
+
 	describe('reset()', () => {
 		it('should stop the timer', async () => {
 			mockDateNow.mockReturnValue(0);
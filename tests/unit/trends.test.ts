@@ -0,0 +1,319 @@
+/**
+ * Trends Service Tests
+ *
+ * Feature: 024-cross-day-trends
+ *
+ * Tests for cross-day trend aggregation functions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	filterDaysByRange,
+	calculateRollingAverage,
+	calculateTrendPoints,
+	calculateTrendsSummary
+} from '$lib/services/trends';
+import type { ArchivedDay, Interruption } from '$lib/types';
+import { DEFAULT_INTERRUPTION_CATEGORIES } from '$lib/types';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createInterruption(
+	durationSec: number,
+	category: string | null = null
+): Interruption {
+	return {
+		interruptionId: crypto.randomUUID(),
+		taskId: 'task-1',
+		startedAt: '2025-12-19T09:10:00.000Z',
+		endedAt: '2025-12-19T09:15:00.000Z',
+		durationSec,
+		category,
+		note: null
+	};
+}
+
+function createDay(
+	date: string,
+	options: {
+		plannedSec?: number;
+		actualSec?: number;
+		completed?: boolean;
+		interruptions?: Interruption[];
+		adHocTasks?: number;
+	} = {}
+): ArchivedDay {
+	const {
+		plannedSec = 3600,
+		actualSec = 3600,
+		completed = true,
+		interruptions = [],
+		adHocTasks = 0
+	} = options;
+
+	return {
+		sessionId: `session-${date}-${crypto.randomUUID()}`,
+		date,
+		archivedAt: `${date}T18:00:00.000Z`,
+		summary: {
+			totalPlannedSec: plannedSec,
+			totalActualSec: actualSec,
+			finalLagSec: actualSec - plannedSec,
+			tasksOnTime: 1,
+			tasksLate: 0,
+			tasksMissed: 0,
+			sessionDurationSec: actualSec
+		},
+		session: {
+			sessionId: `session-${date}`,
+			startedAt: `${date}T09:00:00.000Z`,
+			endedAt: `${date}T17:00:00.000Z`,
+			status: 'complete',
+			currentTaskIndex: 0,
+			currentTaskElapsedMs: 0,
+			lastPersistedAt: 0,
+			totalLagSec: 0,
+			timerStartedAtMs: 0,
+			taskProgress: [
+				{
+					taskId: 'task-1',
+					plannedDurationSec: plannedSec,
+					actualDurationSec: completed ? actualSec : 0,
+					completedAt: completed ? `${date}T10:00:00.000Z` : null,
+					status: completed ? 'complete' : 'pending'
+				}
+			]
+		},
+		tasks: [
+			{
+				taskId: 'task-1',
+				name: 'Imported',
+				plannedStart: new Date(`${date}T09:00:00.000Z`),
+				plannedDurationSec: plannedSec,
+				type: 'flexible',
+				sortOrder: 0,
+				status: completed ? 'complete' : 'pending'
+			},
+			...Array.from({ length: adHocTasks }, (_, i) => ({
+				taskId: `adhoc-${i}`,
+				name: 'Ad-hoc',
+				plannedStart: new Date(`${date}T12:00:00.000Z`),
+				plannedDurationSec: 600,
+				type: 'flexible' as const,
+				sortOrder: i + 1,
+				status: 'pending' as const,
+				isAdHoc: true
+			}))
+		],
+		interruptions,
+		notes: []
+	};
+}
+
+// =============================================================================
+// filterDaysByRange tests
+// =============================================================================
+
+describe('filterDaysByRange', () => {
+	it('keeps days within the range, inclusive', () => {
+		const days = [
+			{ date: '2025-12-01' },
+			{ date: '2025-12-05' },
+			{ date: '2025-12-10' },
+			{ date: '2025-12-11' }
+		];
+
+		expect(filterDaysByRange(days, '2025-12-05', '2025-12-10')).toEqual([
+			{ date: '2025-12-05' },
+			{ date: '2025-12-10' }
+		]);
+	});
+});
+
+// =============================================================================
+// calculateRollingAverage tests
+// =============================================================================
+
+describe('calculateRollingAverage', () => {
+	it('averages the trailing window', () => {
+		expect(calculateRollingAverage([10, 20, 30, 40], 2)).toEqual([10, 15, 25, 35]);
+	});
+
+	it('skips null values and returns null for empty windows', () => {
+		expect(calculateRollingAverage([null, 80, null, null, 90], 2)).toEqual([
+			null,
+			80,
+			80,
+			null,
+			90
+		]);
+	});
+
+	it('rounds to one decimal', () => {
+		expect(calculateRollingAverage([10, 10, 11], 3)).toEqual([10, 10, 10.3]);
+	});
+});
+
+// =============================================================================
+// calculateTrendPoints tests
+// =============================================================================
+
+describe('calculateTrendPoints', () => {
+	it('returns one point per day, including days without sessions', () => {
+		const days = [
+			createDay('2025-12-03', { interruptions: [createInterruption(360, 'phone')] }),
+			createDay('2025-12-01')
+		];
+
+		const points = calculateTrendPoints(days, '2025-12-01', '2025-12-03', 'day');
+
+		expect(points.map((p) => p.periodStart)).toEqual(['2025-12-01', '2025-12-02', '2025-12-03']);
+		expect(points[0].concentrationScore).toBe(100);
+		expect(points[1].dayCount).toBe(0);
+		expect(points[1].concentrationScore).toBeNull();
+		expect(points[2].concentrationScore).toBe(90);
+	});
+
+	it('scores days without completed work as null', () => {
+		const points = calculateTrendPoints(
+			[createDay('2025-12-01', { completed: false })],
+			'2025-12-01',
+			'2025-12-01',
+			'day'
+		);
+
+		expect(points[0].dayCount).toBe(1);
+		expect(points[0].concentrationScore).toBeNull();
+		expect(points[0].scheduleAdherence).toBeNull();
+	});
+
+	it('groups by week starting on Monday', () => {
+		// 2025-12-01 is a Monday
+		const days = [
+			createDay('2025-12-01', { plannedSec: 3600, actualSec: 3600 }),
+			createDay('2025-12-07', { plannedSec: 3600, actualSec: 1200 }),
+			createDay('2025-12-08')
+		];
+
+		const points = calculateTrendPoints(days, '2025-12-03', '2025-12-09', 'week');
+
+		// 2025-12-01 is outside the range, so week one only contains the 7th
+		expect(points.map((p) => p.periodStart)).toEqual(['2025-12-01', '2025-12-08']);
+		expect(points[0].dayCount).toBe(1);
+		expect(points[0].scheduleAdherence).toBe(300);
+		expect(points[1].dayCount).toBe(1);
+	});
+
+	it('weights grouped days by time worked', () => {
+		const days = [
+			createDay('2025-12-01', {
+				actualSec: 3600,
+				interruptions: [createInterruption(1800, 'colleague')]
+			}),
+			createDay('2025-12-02', { actualSec: 1800 })
+		];
+
+		const points = calculateTrendPoints(days, '2025-12-01', '2025-12-07', 'week');
+
+		// (5400 - 1800) / 5400
+		expect(points[0].concentrationScore).toBe(66.7);
+	});
+
+	it('groups by calendar month across a year boundary', () => {
+		const points = calculateTrendPoints(
+			[createDay('2025-12-15'), createDay('2026-01-20')],
+			'2025-11-20',
+			'2026-01-31',
+			'month'
+		);
+
+		expect(points.map((p) => p.periodStart)).toEqual(['2025-11-01', '2025-12-01', '2026-01-01']);
+		expect(points.map((p) => p.dayCount)).toEqual([0, 1, 1]);
+	});
+
+	it('returns no points for an inverted or incomplete range', () => {
+		const days = [createDay('2025-12-01')];
+
+		expect(calculateTrendPoints(days, '2025-12-02', '2025-12-01', 'day')).toEqual([]);
+		expect(calculateTrendPoints(days, '', '2025-12-01', 'day')).toEqual([]);
+	});
+});
+
+// =============================================================================
+// calculateTrendsSummary tests
+// =============================================================================
+
+describe('calculateTrendsSummary', () => {
+	it('totals interruption time by category', () => {
+		const days = [
+			createDay('2025-12-01', {
+				interruptions: [createInterruption(300, 'phone'), createInterruption(120)]
+			}),
+			createDay('2025-12-02', {
+				interruptions: [createInterruption(60, 'phone'), createInterruption(600, 'colleague')]
+			})
+		];
+
+		const summary = calculateTrendsSummary(
+			days,
+			'2025-12-01',
+			'2025-12-02',
+			'day',
+			DEFAULT_INTERRUPTION_CATEGORIES
+		);
+
+		expect(summary.interruptionSecByCategory).toEqual({
+			phone: 360,
+			colleague: 600,
+			personal: 0,
+			other: 0,
+			Uncategorized: 120
+		});
+	});
+
+	it('counts categories missing from the list under their ID', () => {
+		const days = [createDay('2025-12-01', { interruptions: [createInterruption(90, 'luci')] })];
+
+		const summary = calculateTrendsSummary(days, '2025-12-01', '2025-12-01');
+
+		expect(summary.interruptionSecByCategory).toEqual({ luci: 90, Uncategorized: 0 });
+	});
+
+	it('calculates the ad-hoc task share', () => {
+		const days = [createDay('2025-12-01', { adHocTasks: 1 }), createDay('2025-12-02')];
+
+		const summary = calculateTrendsSummary(days, '2025-12-01', '2025-12-02');
+
+		expect(summary.dayCount).toBe(2);
+		expect(summary.adHocTaskCount).toBe(1);
+		expect(summary.importedTaskCount).toBe(2);
+		expect(summary.adHocPercentage).toBe(33.3);
+	});
+
+	it('returns a null ad-hoc share for an empty range', () => {
+		const summary = calculateTrendsSummary([], '2025-12-01', '2025-12-07');
+
+		expect(summary.points).toHaveLength(7);
+		expect(summary.dayCount).toBe(0);
+		expect(summary.adHocPercentage).toBeNull();
+	});
+
+	it('uses a 7-day rolling window for daily points', () => {
+		const days = Array.from({ length: 8 }, (_, i) =>
+			createDay(`2025-12-0${i + 1}`, {
+				actualSec: 1000,
+				interruptions: i === 0 ? [createInterruption(800)] : []
+			})
+		);
+
+		const summary = calculateTrendsSummary(days, '2025-12-01', '2025-12-08');
+
+		// Day one scores 20; it leaves the window on day eight
+		expect(summary.rollingConcentration[0]).toBe(20);
+		expect(summary.rollingConcentration[6]).toBe(88.6);
+		expect(summary.rollingConcentration[7]).toBe(100);
+		expect(summary.rollingAdherence[7]).toBe(360);
+	});
+});
@@ -0,0 +1,186 @@
+/**
+ * Unit tests for undoStore
+ *
+ * Feature: 031-undo-redo
+ *
+ * Tests: record, undo, redo, bounded stacks, history kept across reloads
+ *        and Pomodoro breaks brought back by undo
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { DaySession, UndoSnapshot } from '$lib/types';
+import { MAX_UNDO_ENTRIES } from '$lib/types';
+
+function makeSnapshot(elapsedMs: number, sessionId = 'session-1'): UndoSnapshot {
+	const session: DaySession = {
+		sessionId,
+		startedAt: '2025-12-19T08:00:00.000Z',
+		endedAt: null,
+		status: 'running',
+		currentTaskIndex: 0,
+		currentTaskElapsedMs: 0,
+		lastPersistedAt: 0,
+		totalLagSec: 0,
+		taskProgress: [],
+		timerStartedAtMs: 0
+	};
+
+	return {
+		capturedAt: Date.now(),
+		session,
+		tasks: [
+			{
+				taskId: 'task-1',
+				name: 'Task 1',
+				plannedStart: new Date('2025-12-19T09:00:00.000Z'),
+				plannedDurationSec: 1800,
+				type: 'flexible',
+				sortOrder: 0,
+				status: 'pending'
+			}
+		],
+		interruptions: [],
+		notes: [],
+		idleGaps: [],
+		timerElapsedMs: elapsedMs,
+		timerRunning: true
+	};
+}
+
+describe('undoStore', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2025-12-19T10:00:00.000Z'));
+
+		// Mock localStorage
+		const store: Record<string, string> = {};
+		vi.spyOn(Storage.prototype, 'getItem').mockImplementation((key: string) => store[key] || null);
+		vi.spyOn(Storage.prototype, 'setItem').mockImplementation((key: string, value: string) => {
+			store[key] = value;
+		});
+		vi.spyOn(Storage.prototype, 'removeItem').mockImplementation((key: string) => {
+			delete store[key];
+		});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+		vi.resetModules();
+	});
+
+	it('undoes the most recent action and keeps the current state for redo', async () => {
+		const { undoStore } = await import('$lib/stores/undoStore.svelte');
+
+		undoStore.record('complete task', makeSnapshot(1000));
+		undoStore.record('reorder tasks', makeSnapshot(2000));
+
+		const undone = undoStore.undo(makeSnapshot(3000));
+		expect(undone?.label).toBe('reorder tasks');
+		expect(undone?.snapshot.timerElapsedMs).toBe(2000);
+		expect(undoStore.undoLabel).toBe('complete task');
+		expect(undoStore.redoLabel).toBe('reorder tasks');
+
+		const redone = undoStore.redo(makeSnapshot(2000));
+		expect(redone?.snapshot.timerElapsedMs).toBe(3000);
+		expect(undoStore.canRedo).toBe(false);
+		expect(undoStore.undoLabel).toBe('reorder tasks');
+	});
+
+	it('returns null when there is nothing to undo or redo', async () => {
+		const { undoStore } = await import('$lib/stores/undoStore.svelte');
+
+		expect(undoStore.undo(makeSnapshot(0))).toBeNull();
+		expect(undoStore.redo(makeSnapshot(0))).toBeNull();
+		expect(undoStore.canUndo).toBe(false);
+	});
+
+	it('clears redo when a new action is recorded', async () => {
+		const { undoStore } = await import('$lib/stores/undoStore.svelte');
+
+		undoStore.record('complete task', makeSnapshot(1000));
+		undoStore.undo(makeSnapshot(2000));
+		undoStore.record('delete note', makeSnapshot(1000));
+
+		expect(undoStore.canRedo).toBe(false);
+	});
+
+	it('keeps snapshots apart from later changes to the recorded state', async () => {
+		const { undoStore } = await import('$lib/stores/undoStore.svelte');
+
+		const before = makeSnapshot(1000);
+		undoStore.record('reorder tasks', before);
+		before.tasks[0].name = 'Renamed';
+
+		const undone = undoStore.undo(makeSnapshot(2000));
+		expect(undone?.snapshot.tasks[0].name).toBe('Task 1');
+		expect(undone?.snapshot.tasks[0].plannedStart).toBeInstanceOf(Date);
+	});
+
+	it('keeps at most MAX_UNDO_ENTRIES actions', async () => {
+		const { undoStore } = await import('$lib/stores/undoStore.svelte');
+
+		for (let i = 0; i < MAX_UNDO_ENTRIES + 5; i++) {
+			undoStore.record(`action ${i}`, makeSnapshot(i));
+		}
+
+		let count = 0;
+		while (undoStore.undo(makeSnapshot(0))) count++;
+
+		expect(count).toBe(MAX_UNDO_ENTRIES);
+	});
+
+	it('keeps history across reloads of the same session only', async () => {
+		const { undoStore } = await import('$lib/stores/undoStore.svelte');
+
+		undoStore.record('complete task', makeSnapshot(1000));
+
+		vi.resetModules();
+		const reloaded = (await import('$lib/stores/undoStore.svelte')).undoStore;
+		reloaded.load('session-1');
+
+		const undone = reloaded.undo(makeSnapshot(2000));
+		expect(undone?.label).toBe('complete task');
+		expect(undone?.snapshot.tasks[0].plannedStart).toBeInstanceOf(Date);
+
+		reloaded.load('session-2');
+		expect(reloaded.canRedo).toBe(false);
+	});
+
+	it('brings back a break that was ended after the snapshot', async () => {
+		const { undoStore } = await import('$lib/stores/undoStore.svelte');
+		const { pomodoroStore } = await import('$lib/stores/pomodoroStore.svelte');
+
+		// On a break, then starting a task ends it: as the page does it
+		pomodoroStore.startBreak('task-1', 5000);
+		vi.setSystemTime(new Date('2025-12-19T10:03:00.000Z'));
+		undoStore.record('start task', {
+			...makeSnapshot(5000),
+			pomodoro: pomodoroStore.persistedState
+		});
+		pomodoroStore.autoEndBreak();
+		vi.setSystemTime(new Date('2025-12-19T10:04:00.000Z'));
+
+		const undone = undoStore.undo({ ...makeSnapshot(0), pomodoro: pomodoroStore.persistedState });
+		pomodoroStore.reset();
+		const wasOnBreak = pomodoroStore.restore(undone!.snapshot.pomodoro!);
+
+		expect(wasOnBreak).toBe(true);
+		expect(pomodoroStore.breaks).toEqual([]);
+		expect(pomodoroStore.activeBreak?.startedAt).toBe('2025-12-19T10:00:00.000Z');
+		expect(pomodoroStore.pausedTaskElapsedMs).toBe(5000);
+		// Counting from the break's real start
+		const plannedMs = (pomodoroStore.activeBreak?.plannedDurationSec ?? 0) * 1000;
+		expect(pomodoroStore.breakRemainingMs).toBe(plannedMs - 4 * 60 * 1000);
+	});
+
+	it('starts a new history when a different session records', async () => {
+		const { undoStore } = await import('$lib/stores/undoStore.svelte');
+
+		undoStore.record('complete task', makeSnapshot(1000, 'session-1'));
+		undoStore.record('delete note', makeSnapshot(1000, 'session-2'));
+
+		expect(undoStore.undo(makeSnapshot(0, 'session-2'))?.label).toBe('delete note');
+		expect(undoStore.canUndo).toBe(false);
+	});
+});